@@ -48,6 +48,12 @@ export async function GET(
             },
           },
         },
+        jobs: {
+          orderBy: {
+            createdAt: 'desc',
+          },
+          take: 1,
+        },
       },
     });
     
@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { PermanentJobError, enqueueAnalysisJob, resolveAnalysisExecutor } from '@/lib/jobs';
 import { z } from 'zod';
 
 const createAnalysisSchema = z.object({
   name: z.string().min(1, 'Analysis name is required'),
   description: z.string().optional(),
   datasetId: z.string().uuid('Invalid dataset ID'),
-  type: z.enum(['DESCRIPTIVE', 'INFERENTIAL', 'SURVIVAL', 'CUSTOM']),
+  type: z.enum(['DESCRIPTIVE', 'INFERENTIAL', 'SURVIVAL', 'CUSTOM', 'DIAGNOSTIC_ACCURACY']),
   parameters: z.record(z.any()),
 });
 
@@ -60,6 +61,10 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Check the requested analysis can run and its parameters are valid
+    const executor = resolveAnalysisExecutor(validatedData.type, validatedData.parameters);
+    executor.schema.parse(validatedData.parameters);
+    
     // Create analysis
     const analysis = await prisma.analysis.create({
       data: {
@@ -82,14 +87,15 @@ export async function POST(request: NextRequest) {
       },
     });
     
-    // TODO: Trigger analysis job
-    // This would typically be handled by a background job processor
+    // Queue the analysis to run in the background
+    const job = await enqueueAnalysisJob(analysis.id, currentUser.id);
     
     return NextResponse.json(
       { 
         success: true, 
         message: 'Analysis created successfully',
-        analysis
+        analysis,
+        job
       },
       { status: 201 }
     );
@@ -107,6 +113,16 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    if (error instanceof PermanentJobError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: error.message 
+        },
+        { status: 400 }
+      );
+    }
+    
     return NextResponse.json(
       { 
         success: false, 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { getStorageForUrl } from '@/lib/storage';
 import { z } from 'zod';
 
 const updateDatasetSchema = z.object({
@@ -181,13 +182,20 @@ export async function DELETE(
     }
     
     // Delete dataset
-    await prisma.dataset.delete({
+    const dataset = await prisma.dataset.delete({
       where: {
         id: params.id,
         userId: currentUser.id,
       },
     });
     
+    // Remove the stored file; the dataset is already gone, so a failure here only leaves an orphaned file
+    try {
+      await getStorageForUrl(dataset.fileUrl).delete(dataset.fileUrl);
+    } catch (error) {
+      console.error('Dataset file cleanup error:', error);
+    }
+    
     return NextResponse.json(
       { 
         success: true, 
@@ -1 +1,276 @@
- 
\ No newline at end of file
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { getStorage } from '@/lib/storage';
+import { detectFormat } from '@/lib/ingestion';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+const createDatasetSchema = z.object({
+  name: z.string().min(1, 'Dataset name is required'),
+  description: z.string().optional(),
+  projectId: z.string().uuid('Invalid project ID'),
+});
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+// Largest single file accepted regardless of plan
+const MAX_FILE_SIZE = 100 * MB;
+
+// Total storage per plan, matching the pricing page
+const STORAGE_LIMITS = {
+  BASIC: 10 * GB,
+  PROFESSIONAL: 50 * GB,
+  ENTERPRISE: 250 * GB,
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get current user
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Not authenticated'
+        },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'No file provided'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate form fields
+    const validatedData = createDatasetSchema.parse({
+      name: formData.get('name') || file.name,
+      description: formData.get('description') || undefined,
+      projectId: formData.get('projectId'),
+    });
+
+    const fileType = detectFormat(file.name);
+
+    if (!fileType) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Unsupported file type. Please upload a CSV, TSV, Excel or JSON file'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'File exceeds the 100 MB upload limit'
+        },
+        { status: 413 }
+      );
+    }
+
+    // Check if project exists and belongs to user
+    const project = await prisma.project.findUnique({
+      where: {
+        id: validatedData.projectId,
+        userId: currentUser.id,
+      },
+    });
+
+    if (!project || project.isArchived) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Project not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Check user's dataset limit based on plan
+    const datasetCount = await prisma.dataset.count({
+      where: {
+        userId: currentUser.id,
+        isArchived: false,
+      },
+    });
+
+    const datasetLimit = currentUser.plan === 'BASIC' ? 25 : Infinity;
+
+    if (datasetCount >= datasetLimit) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Dataset limit reached for your plan'
+        },
+        { status: 403 }
+      );
+    }
+
+    // Check user's storage limit based on plan
+    const maxStorage = STORAGE_LIMITS[currentUser.plan as keyof typeof STORAGE_LIMITS] ?? STORAGE_LIMITS.BASIC;
+
+    const usage = await prisma.dataset.aggregate({
+      where: { userId: currentUser.id },
+      _sum: { fileSize: true },
+    });
+
+    if ((usage._sum.fileSize ?? 0) + file.size > maxStorage) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Storage limit reached for your plan'
+        },
+        { status: 403 }
+      );
+    }
+
+    // Store the file
+    const storage = getStorage();
+    const key = `datasets/${currentUser.id}/${uuidv4()}.${fileType}`;
+    const fileUrl = await storage.put(key, Buffer.from(await file.arrayBuffer()));
+
+    // Create dataset
+    let dataset;
+    try {
+      dataset = await prisma.dataset.create({
+        data: {
+          name: validatedData.name,
+          description: validatedData.description,
+          projectId: validatedData.projectId,
+          userId: currentUser.id,
+          fileUrl,
+          fileType,
+          fileSize: file.size,
+        },
+        include: {
+          project: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      });
+    } catch (error) {
+      // Don't leave an orphaned file behind
+      await storage.delete(fileUrl);
+      throw error;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Dataset created successfully',
+        dataset
+      },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error('Create dataset error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation error',
+          errors: error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while creating the dataset'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get current user
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Not authenticated'
+        },
+        { status: 401 }
+      );
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+    const includeArchived = searchParams.get('includeArchived') === 'true';
+    const archivedOnly = searchParams.get('archived') === 'true';
+
+    // Prepare where clause
+    const where: any = {
+      userId: currentUser.id,
+      isArchived: archivedOnly ? true : includeArchived ? undefined : false,
+    };
+
+    if (projectId) {
+      where.projectId = projectId;
+    }
+
+    // Get datasets
+    const datasets = await prisma.dataset.findMany({
+      where,
+      orderBy: {
+        updatedAt: 'desc',
+      },
+      include: {
+        project: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        _count: {
+          select: {
+            analyses: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        datasets
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get datasets error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An error occurred while fetching datasets'
+      },
+      { status: 500 }
+    );
+  }
+}
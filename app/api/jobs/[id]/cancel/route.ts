@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { cancelAnalysisJob } from '@/lib/jobs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get current user
+    const currentUser = await getCurrentUser();
+    
+    if (!currentUser) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: 'Not authenticated' 
+        },
+        { status: 401 }
+      );
+    }
+    
+    const job = await cancelAnalysisJob(params.id, currentUser.id);
+    
+    if (!job) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: 'Job not found' 
+        },
+        { status: 404 }
+      );
+    }
+    
+    // Jobs that already finished keep their final status
+    if (job.status !== 'CANCELLED') {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: `Job has already ${job.status === 'SUCCEEDED' ? 'succeeded' : 'failed'}`,
+          job
+        },
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json(
+      { 
+        success: true, 
+        message: 'Job cancelled successfully',
+        job
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: 'An error occurred while cancelling the job' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { jobProgressChannel } from '@/lib/jobs';
+import { ProgressEvent, createProgressResponse } from '@/lib/progress';
+
+// Final event for a job that has finished, or null while it is still queued or running
+async function getOutcome(jobId: string): Promise<ProgressEvent | null> {
+  const job = await prisma.analysisJob.findUnique({
+    where: { id: jobId },
+    include: { analysis: { select: { results: true } } },
+  });
+  
+  switch (job?.status) {
+    case 'SUCCEEDED':
+      return { type: 'done', result: job.analysis.results };
+    case 'FAILED':
+      return { type: 'error', message: job.error || 'Analysis failed' };
+    case 'CANCELLED':
+      return { type: 'error', message: 'Job cancelled' };
+    default:
+      return null;
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get current user
+    const currentUser = await getCurrentUser();
+    
+    if (!currentUser) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: 'Not authenticated' 
+        },
+        { status: 401 }
+      );
+    }
+    
+    const job = await prisma.analysisJob.findFirst({
+      where: {
+        id: params.id,
+        userId: currentUser.id,
+      },
+    });
+    
+    if (!job) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: 'Job not found' 
+        },
+        { status: 404 }
+      );
+    }
+    
+    // Start with the recorded status; finished jobs end the stream straight away
+    const outcome = await getOutcome(job.id);
+    const initial: ProgressEvent[] = [{ type: 'stage', stage: job.status.toLowerCase() }];
+    if (outcome) initial.push(outcome);
+    
+    const response = createProgressResponse(jobProgressChannel(job.id), currentUser.id, request.signal, {
+      initial,
+      poll: () => getOutcome(job.id),
+    });
+    
+    if (!response) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: 'Job not found' 
+        },
+        { status: 404 }
+      );
+    }
+    
+    return response;
+  } catch (error) {
+    console.error('Job events error:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: 'An error occurred while streaming job progress' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Get current user
+    const currentUser = await getCurrentUser();
+    
+    if (!currentUser) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: 'Not authenticated' 
+        },
+        { status: 401 }
+      );
+    }
+    
+    // Get job
+    const job = await prisma.analysisJob.findFirst({
+      where: {
+        id: params.id,
+        userId: currentUser.id,
+      },
+      include: {
+        analysis: {
+          select: {
+            id: true,
+            name: true,
+            type: true,
+          },
+        },
+      },
+    });
+    
+    if (!job) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: 'Job not found' 
+        },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(
+      { 
+        success: true, 
+        job
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get job error:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: 'An error occurred while fetching the job' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { exec } from "child_process";
-import { promisify } from "util";
 import fs from "fs";
 import path from "path";
 import { v4 as uuidv4 } from "uuid";
+import { getCurrentUser } from "@/lib/auth";
+import { ProgressReporter, createRStderrHandler, openProgressChannel, silentProgress } from "@/lib/progress";
+import { RExecutionError, runRScript } from "@/lib/r";
 
-const execAsync = promisify(exec);
+// Text extraction from large PDFs can take a while
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
 
 // Ensure uploads directory exists
 const uploadsDir = path.join(process.cwd(), "uploads");
@@ -14,11 +16,21 @@ if (!fs.existsSync(uploadsDir)) {
 }
 
 export async function POST(req: NextRequest) {
+  let progress: ProgressReporter = silentProgress;
+
   try {
     const formData = await req.formData();
     const file = formData.get("file") as File;
+
+    // Stream progress to GET /api/progress/[progressId] for signed-in users that asked for it
+    const progressId = formData.get("progressId");
+    const currentUser = typeof progressId === "string" && progressId ? await getCurrentUser() : null;
+    if (currentUser) {
+      progress = openProgressChannel(progressId as string, currentUser.id);
+    }
     
     if (!file) {
+      progress.fail("No file provided");
       return NextResponse.json(
         { error: "No file provided" },
         { status: 400 }
@@ -32,15 +44,23 @@ export async function POST(req: NextRequest) {
     const filePath = path.join(uploadsDir, fileName);
     
     // Save the file
+    progress.stage("uploading", 10);
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
     fs.writeFileSync(filePath, buffer);
     
     // Process the document using R
-    const rScriptPath = path.join(process.cwd(), "meta-analysis-backend", "R", "document_processor.R");
-    
-    // Execute the R script
-    const { stdout, stderr } = await execAsync(`Rscript ${rScriptPath} ${filePath} ${jobId}`);
+    progress.stage("processing", 30);
+    try {
+      await runRScript("document_processor.R", {
+        args: [filePath, jobId],
+        timeoutMs: PROCESSING_TIMEOUT_MS,
+        onStderr: createRStderrHandler(progress),
+      });
+    } catch (error) {
+      fs.rmSync(filePath, { force: true });
+      throw error;
+    }
     
     // Read the processed data
     const processedDataPath = path.join(uploadsDir, `${jobId}_processed.json`);
@@ -55,6 +75,7 @@ export async function POST(req: NextRequest) {
       fs.unlinkSync(processedDataPath);
     }
     
+    progress.done(processedData);
     return NextResponse.json({
       success: true,
       jobId,
@@ -63,9 +84,14 @@ export async function POST(req: NextRequest) {
     });
   } catch (error) {
     console.error("Error processing document:", error);
+    progress.fail((error as Error).message);
     return NextResponse.json(
-      { error: "Failed to process document", details: (error as Error).message },
-      { status: 500 }
+      {
+        error: "Failed to process document",
+        details: (error as Error).message,
+        code: error instanceof RExecutionError ? error.code : undefined
+      },
+      { status: error instanceof RExecutionError && error.code === "TIMEOUT" ? 504 : 500 }
     );
   }
 } 
\ No newline at end of file
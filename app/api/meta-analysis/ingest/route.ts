@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { z } from 'zod';
+import {
+  MAX_UPLOAD_BYTES,
+  STUDY_FIELDS,
+  detectFormat,
+  mapRowsToStudies,
+  parseTabularFile,
+  suggestColumnMapping,
+} from '@/lib/ingestion';
+
+const columnMappingSchema = z.object({
+  fields: z.record(z.enum(STUDY_FIELDS), z.string()),
+  moderators: z.array(z.string()).default([]),
+});
+
+// Number of rows returned with the detected headers so the user can check the mapping
+const PREVIEW_ROWS = 5;
+
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, message: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (!detectFormat(file.name)) {
+      return NextResponse.json(
+        { success: false, message: 'Unsupported file type. Please upload a CSV, TSV, Excel or JSON file' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { success: false, message: 'File exceeds the 10 MB upload limit' },
+        { status: 413 }
+      );
+    }
+
+    const table = parseTabularFile(Buffer.from(await file.arrayBuffer()), file.name);
+
+    if (table.rows.length === 0) {
+      return NextResponse.json(
+        { success: false, message: 'The file does not contain any data rows' },
+        { status: 400 }
+      );
+    }
+
+    // Without a mapping, return the detected layout so the client can build one
+    const rawMapping = formData.get('mapping');
+    if (typeof rawMapping !== 'string') {
+      return NextResponse.json(
+        {
+          success: true,
+          format: table.format,
+          headers: table.headers,
+          preview: table.rows.slice(0, PREVIEW_ROWS),
+          rowCount: table.rows.length,
+          suggestedMapping: suggestColumnMapping(table.headers),
+        },
+        { status: 200 }
+      );
+    }
+
+    const mapping = columnMappingSchema.parse(JSON.parse(rawMapping));
+    const effectMeasure = formData.get('effectMeasure');
+    const { studies, errors } = mapRowsToStudies(
+      table,
+      mapping,
+      typeof effectMeasure === 'string' ? effectMeasure : ''
+    );
+
+    return NextResponse.json(
+      { success: true, studies, errors },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error('Data ingestion error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid column mapping', errors: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : 'An error occurred while reading the file'
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -1,11 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { exec } from "child_process";
-import { promisify } from "util";
 import fs from "fs";
 import path from "path";
 import { v4 as uuidv4 } from "uuid";
-
-const execAsync = promisify(exec);
+import { RExecutionError, runRScript } from "@/lib/r";
 
 // Ensure uploads directory exists
 const uploadsDir = path.join(process.cwd(), "uploads");
@@ -67,12 +64,15 @@ export async function POST(req: NextRequest) {
     }
     
     // Process the data using R
-    const rScriptPath = path.join(process.cwd(), "meta-analysis-backend", "R", rScriptName);
-    
-    // Execute the R script
-    const { stdout, stderr } = await execAsync(
-      `Rscript ${rScriptPath} ${studiesFilePath} ${queryFilePath} ${jobId}`
-    );
+    try {
+      await runRScript(rScriptName, {
+        args: [studiesFilePath, queryFilePath, jobId],
+      });
+    } catch (error) {
+      fs.rmSync(studiesFilePath, { force: true });
+      fs.rmSync(queryFilePath, { force: true });
+      throw error;
+    }
     
     // Read the processed data
     const processedDataPath = path.join(uploadsDir, `${jobId}_analysis.json`);
@@ -97,8 +97,12 @@ export async function POST(req: NextRequest) {
   } catch (error) {
     console.error("Error analyzing data:", error);
     return NextResponse.json(
-      { error: "Failed to analyze data", details: (error as Error).message },
-      { status: 500 }
+      {
+        error: "Failed to analyze data",
+        details: (error as Error).message,
+        code: error instanceof RExecutionError ? error.code : undefined
+      },
+      { status: error instanceof RExecutionError && error.code === "TIMEOUT" ? 504 : 500 }
     );
   }
 } 
\ No newline at end of file
@@ -1,41 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
-import { spawn } from 'child_process';
-import { promisify } from 'util';
-import { exec } from 'child_process';
 import path from 'path';
 import fs from 'fs/promises';
+import { isCiMethod, isMultilevelModel, poolStudies } from '@/lib/stats/meta-analysis';
+import { deriveStudies } from '@/lib/stats/effect-sizes';
+import {
+  DEFAULT_PUBLICATION_BIAS_METHODS,
+  assessPublicationBias,
+  isPublicationBiasMethod,
+} from '@/lib/stats/publication-bias';
+import { runMetaRegression } from '@/lib/stats/meta-regression';
+import { isCumulativeOrder, runCumulativeAnalysis } from '@/lib/stats/cumulative';
+import { runInfluenceDiagnostics } from '@/lib/stats/influence';
+import { isBetweenGroupTest, isSubgroupTauSquared, runSubgroupAnalysis } from '@/lib/stats/subgroups';
+import { isMultilevelMethod, runMultilevelAnalysis } from '@/lib/stats/multilevel';
+import { isNetworkDataFormat, isNetworkSmallValues, runNetworkMetaAnalysis } from '@/lib/stats/network';
+import { runDiagnosticMetaAnalysis } from '@/lib/stats/diagnostic';
+import { isProportionMeasure } from '@/lib/stats/proportions';
+import { runProportionGlmm } from '@/lib/stats/glmm';
+import { isBenefitDirection, isTauPriorType, runBayesianMetaAnalysis } from '@/lib/stats/bayesian';
+import { runTrialSequentialAnalysis } from '@/lib/stats/sequential';
+import { StatsInputError } from '@/lib/stats/errors';
+import { ProgressReporter, createRStderrHandler, openProgressChannel, silentProgress } from '@/lib/progress';
+import { RExecutionError, isRAvailable, runRScriptJson } from '@/lib/r';
 
-const execAsync = promisify(exec);
-
-// Helper function to run R script
-async function runRScript(scriptPath: string, args: string[]): Promise<any> {
-  return new Promise((resolve, reject) => {
-    const rProcess = spawn('Rscript', [scriptPath, ...args]);
-    let output = '';
-    let error = '';
-
-    rProcess.stdout.on('data', (data) => {
-      output += data.toString();
-    });
-
-    rProcess.stderr.on('data', (data) => {
-      error += data.toString();
-    });
-
-    rProcess.on('close', (code) => {
-      if (code !== 0) {
-        reject(new Error(`R script failed: ${error}`));
-      } else {
-        try {
-          resolve(JSON.parse(output));
-        } catch (e) {
-          reject(new Error('Failed to parse R script output'));
-        }
-      }
-    });
-  });
-}
+// R script for each operation
+const OPERATION_SCRIPTS: Record<string, string> = {
+  run_analysis: 'run_analysis.R',
+  sensitivity_analysis: 'sensitivity_analysis.R',
+};
+
+// Operations that always run in-process on the TypeScript engine
+const IN_PROCESS_OPERATIONS = [
+  'publication_bias',
+  'meta_regression',
+  'cumulative_analysis',
+  'influence_diagnostics',
+  'subgroup_analysis',
+  'network_meta_analysis',
+  'diagnostic_accuracy',
+  'bayesian_meta_analysis',
+  'trial_sequential_analysis',
+];
 
 // Helper function to validate study data
 function validateStudyData(data: any[]): boolean {
@@ -49,7 +55,20 @@ function validateStudyData(data: any[]): boolean {
   );
 }
 
+/**
+ * Reject a request, failing its progress channel so subscribers are not left waiting
+ */
+function badRequest(progress: ProgressReporter, message: string, extra: Record<string, unknown> = {}) {
+  progress.fail(message);
+  return NextResponse.json(
+    { success: false, message, ...extra },
+    { status: 400 }
+  );
+}
+
 export async function POST(request: NextRequest) {
+  let progress: ProgressReporter = silentProgress;
+
   try {
     const currentUser = await getCurrentUser();
     if (!currentUser) {
@@ -60,21 +79,264 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { operation, data, parameters } = body;
+    const { operation, data, parameters, progressId } = body;
+
+    // Stream progress to GET /api/progress/[progressId] when the client asked for it
+    if (typeof progressId === 'string' && progressId) {
+      progress = openProgressChannel(progressId, currentUser.id);
+    }
+    progress.stage('validating', 0);
 
     // Validate operation type
-    if (!['run_analysis', 'subgroup_analysis', 'sensitivity_analysis', 'publication_bias'].includes(operation)) {
+    if (!Object.hasOwn(OPERATION_SCRIPTS, operation) && !IN_PROCESS_OPERATIONS.includes(operation)) {
+      return badRequest(progress, 'Invalid operation');
+    }
+
+    if (!Array.isArray(data)) {
+      return badRequest(progress, 'Invalid study data format');
+    }
+
+    // Network meta-analysis accepts arm-level rows, which have no effect size of their
+    // own, so it derives its contrasts itself
+    if (operation === 'network_meta_analysis') {
+      if (!isNetworkDataFormat(parameters?.dataFormat)) {
+        return badRequest(progress, 'Invalid network data format');
+      }
+
+      if (parameters.modelType !== undefined && parameters.modelType !== 'FE' && parameters.modelType !== 'RE') {
+        return badRequest(progress, 'Network meta-analysis supports fixed-effect and random-effects models only');
+      }
+
+      if (parameters.smallValues !== undefined && !isNetworkSmallValues(parameters.smallValues)) {
+        return badRequest(progress, 'Invalid ranking direction');
+      }
+
+      progress.stage('computing', 10);
+      const results = runNetworkMetaAnalysis(data, parameters, (split, index, total) => {
+        progress.partial(split);
+        progress.progress(10 + (90 * (index + 1)) / total);
+      });
+      progress.done(results);
       return NextResponse.json(
-        { success: false, message: 'Invalid operation' },
-        { status: 400 }
+        { success: true, results },
+        { status: 200 }
       );
     }
 
+    // Diagnostic accuracy rows are 2x2 tables rather than effect sizes
+    if (operation === 'diagnostic_accuracy') {
+      const continuityCorrection = parameters?.continuityCorrection;
+      if (continuityCorrection !== undefined && !(typeof continuityCorrection === 'number' && continuityCorrection > 0)) {
+        return badRequest(progress, 'Continuity correction must be a positive number');
+      }
+
+      progress.stage('computing', 10);
+      const results = runDiagnosticMetaAnalysis(data, parameters ?? {});
+      progress.done(results);
+      return NextResponse.json(
+        { success: true, results },
+        { status: 200 }
+      );
+    }
+
+    // Derive effect_size and se for rows that only report raw summaries
+    const { studies, errors } = deriveStudies(data, parameters?.effectMeasure ?? '');
+    if (errors.length > 0) {
+      return badRequest(progress, 'Could not compute effect sizes', { errors });
+    }
+
     // Validate study data
-    if (!validateStudyData(data)) {
+    if (!validateStudyData(studies)) {
+      return badRequest(progress, 'Invalid study data format');
+    }
+
+    // Validate confidence interval method
+    if (parameters?.ciMethod !== undefined && !isCiMethod(parameters.ciMethod)) {
+      return badRequest(progress, 'Invalid confidence interval method');
+    }
+
+    if (operation === 'publication_bias') {
+      const methods = parameters?.methods ?? DEFAULT_PUBLICATION_BIAS_METHODS;
+      if (!Array.isArray(methods) || !methods.every(isPublicationBiasMethod)) {
+        return badRequest(progress, 'Invalid publication bias method');
+      }
+
+      const estimator = parameters?.trimAndFill?.estimator;
+      const side = parameters?.trimAndFill?.side;
+      if ((estimator !== undefined && !['L0', 'R0'].includes(estimator)) ||
+          (side !== undefined && !['left', 'right'].includes(side))) {
+        return badRequest(progress, 'Invalid trim and fill options');
+      }
+
+      progress.stage('computing', 10);
+      let completed = 0;
+      const results = assessPublicationBias(studies, { ...parameters, methods }, (method, result) => {
+        completed++;
+        progress.partial({ method, result });
+        progress.progress(10 + (90 * completed) / methods.length);
+      });
+      progress.done(results);
+      return NextResponse.json(
+        { success: true, results },
+        { status: 200 }
+      );
+    }
+
+    if (operation === 'meta_regression') {
+      const moderators = parameters?.moderators;
+      if (!Array.isArray(moderators) || moderators.length === 0 || !moderators.every(m => typeof m === 'string')) {
+        return badRequest(progress, 'Select at least one moderator');
+      }
+
+      progress.stage('computing', 10);
+      const results = runMetaRegression(studies, parameters, fraction => {
+        progress.progress(10 + 90 * fraction, 'Running permutation test');
+      });
+      progress.done(results);
+      return NextResponse.json(
+        { success: true, results },
+        { status: 200 }
+      );
+    }
+
+    if (operation === 'subgroup_analysis') {
+      if (typeof parameters?.subgroupVar !== 'string' || !parameters.subgroupVar) {
+        return badRequest(progress, 'Select a subgroup variable');
+      }
+
+      if ((parameters.tauSquared !== undefined && !isSubgroupTauSquared(parameters.tauSquared)) ||
+          (parameters.betweenGroupTest !== undefined && !isBetweenGroupTest(parameters.betweenGroupTest)) ||
+          (parameters.minK !== undefined && (!Number.isInteger(parameters.minK) || parameters.minK < 1))) {
+        return badRequest(progress, 'Invalid subgroup options');
+      }
+
+      progress.stage('computing', 10);
+      const results = runSubgroupAnalysis(studies, parameters);
+      progress.done(results);
+      return NextResponse.json(
+        { success: true, results },
+        { status: 200 }
+      );
+    }
+
+    if (operation === 'influence_diagnostics') {
+      if (studies.length < 3) {
+        return badRequest(progress, 'Influence diagnostics require at least 3 studies');
+      }
+
+      progress.stage('computing', 10);
+      const results = runInfluenceDiagnostics(studies, parameters, (study, index) => {
+        progress.partial(study);
+        progress.progress(10 + (90 * (index + 1)) / studies.length);
+      });
+      progress.done(results);
+      return NextResponse.json(
+        { success: true, results },
+        { status: 200 }
+      );
+    }
+
+    if (operation === 'cumulative_analysis') {
+      if (typeof parameters?.orderBy !== 'string' || !isCumulativeOrder(parameters.orderBy)) {
+        return badRequest(progress, 'Invalid cumulative ordering');
+      }
+
+      progress.stage('computing', 10);
+      const results = runCumulativeAnalysis(studies, parameters, (step, index) => {
+        progress.partial(step);
+        progress.progress(10 + (90 * (index + 1)) / studies.length);
+      });
+      progress.done(results);
+      return NextResponse.json(
+        { success: true, results },
+        { status: 200 }
+      );
+    }
+
+    if (operation === 'trial_sequential_analysis') {
+      const { alpha, beta, anticipatedEffect, diversity } = parameters ?? {};
+      const isProbability = (value: unknown) => typeof value === 'number' && value > 0 && value < 1;
+      if ((alpha !== undefined && !isProbability(alpha)) ||
+          (beta !== undefined && !isProbability(beta)) ||
+          (anticipatedEffect !== undefined && typeof anticipatedEffect !== 'number') ||
+          (diversity !== undefined && !(typeof diversity === 'number' && diversity >= 0 && diversity < 1))) {
+        return badRequest(progress, 'Invalid trial sequential analysis options');
+      }
+
+      progress.stage('computing', 10);
+      const results = runTrialSequentialAnalysis(studies, parameters);
+      progress.done(results);
       return NextResponse.json(
-        { success: false, message: 'Invalid study data format' },
-        { status: 400 }
+        { success: true, results },
+        { status: 200 }
+      );
+    }
+
+    if (operation === 'bayesian_meta_analysis') {
+      const tauPrior = parameters?.tauPrior;
+      if (!isTauPriorType(tauPrior?.type) || !(typeof tauPrior.scale === 'number' && tauPrior.scale > 0) ||
+          ((tauPrior.type === 'turner' || tauPrior.type === 'rhodes') && typeof tauPrior.location !== 'number')) {
+        return badRequest(progress, 'Invalid prior for tau');
+      }
+
+      const { muPrior, credibleLevel, threshold, benefit } = parameters;
+      if ((muPrior !== undefined && !(typeof muPrior.mean === 'number' && typeof muPrior.sd === 'number' && muPrior.sd > 0)) ||
+          (credibleLevel !== undefined && !(typeof credibleLevel === 'number' && credibleLevel > 0 && credibleLevel < 1)) ||
+          (threshold !== undefined && threshold !== null && typeof threshold !== 'number') ||
+          (benefit !== undefined && !isBenefitDirection(benefit))) {
+        return badRequest(progress, 'Invalid Bayesian analysis options');
+      }
+
+      progress.stage('computing', 10);
+      const results = runBayesianMetaAnalysis(studies, parameters);
+      progress.done(results);
+      return NextResponse.json(
+        { success: true, results },
+        { status: 200 }
+      );
+    }
+
+    // Three-level and RVE models are only available on the TypeScript engine
+    if (operation === 'run_analysis' && isMultilevelModel(parameters?.modelType ?? '')) {
+      if (!isMultilevelMethod(parameters.method ?? 'REML')) {
+        return badRequest(progress, 'Three-level models are estimated by REML or ML');
+      }
+
+      progress.stage('computing', 20);
+      const results = runMultilevelAnalysis(studies, parameters);
+      progress.done(results);
+      return NextResponse.json(
+        { success: true, results },
+        { status: 200 }
+      );
+    }
+
+    // Proportion measures, and the GLMM for them, are only available on the TypeScript
+    // engine; run_analysis.R expects effect sizes on the analysis scale
+    if (operation === 'run_analysis' && isProportionMeasure(parameters?.effectMeasure ?? '')) {
+      if (parameters.method === 'GLMM' && parameters.effectMeasure.toUpperCase() !== 'PLO') {
+        return badRequest(progress, 'The GLMM is only available for logit-transformed proportions (PLO)');
+      }
+
+      progress.stage('computing', 20);
+      const results = parameters.method === 'GLMM'
+        ? runProportionGlmm(studies, parameters)
+        : poolStudies(studies, parameters);
+      progress.done(results);
+      return NextResponse.json(
+        { success: true, results },
+        { status: 200 }
+      );
+    }
+
+    // Use the in-process TypeScript engine when R is not installed
+    if (operation === 'run_analysis' && !(await isRAvailable())) {
+      progress.stage('computing', 20);
+      const results = poolStudies(studies, parameters);
+      progress.done(results);
+      return NextResponse.json(
+        { success: true, results },
+        { status: 200 }
       );
     }
 
@@ -84,45 +346,21 @@ export async function POST(request: NextRequest) {
 
     // Write data to temporary file
     const dataPath = path.join(tempDir, `${currentUser.id}_${Date.now()}.json`);
-    await fs.writeFile(dataPath, JSON.stringify(data));
-
-    // Determine which R script to run
-    let scriptPath: string;
-    switch (operation) {
-      case 'run_analysis':
-        scriptPath = path.join(process.cwd(), 'meta-analysis-backend', 'R', 'run_analysis.R');
-        break;
-      case 'subgroup_analysis':
-        scriptPath = path.join(process.cwd(), 'meta-analysis-backend', 'R', 'subgroup_analysis.R');
-        break;
-      case 'sensitivity_analysis':
-        scriptPath = path.join(process.cwd(), 'meta-analysis-backend', 'R', 'sensitivity_analysis.R');
-        break;
-      case 'publication_bias':
-        scriptPath = path.join(process.cwd(), 'meta-analysis-backend', 'R', 'publication_bias.R');
-        break;
-      default:
-        return NextResponse.json(
-          { success: false, message: 'Invalid operation' },
-          { status: 400 }
-        );
-    }
-
-    // Verify R script exists
-    try {
-      await fs.access(scriptPath);
-    } catch {
-      return NextResponse.json(
-        { success: false, message: 'R script not found' },
-        { status: 500 }
-      );
-    }
+    await fs.writeFile(dataPath, JSON.stringify(studies));
 
     // Run the appropriate R script
-    const results = await runRScript(scriptPath, [dataPath, JSON.stringify(parameters)]);
-
-    // Clean up temporary file
-    await fs.unlink(dataPath);
+    progress.stage('running_r', 10);
+    let results;
+    try {
+      results = await runRScriptJson(OPERATION_SCRIPTS[operation], {
+        args: [dataPath, JSON.stringify(parameters)],
+        onStderr: createRStderrHandler(progress),
+      });
+    } finally {
+      // Clean up temporary file
+      await fs.unlink(dataPath).catch(() => {});
+    }
+    progress.done(results);
 
     return NextResponse.json(
       { success: true, results },
@@ -130,9 +368,19 @@ export async function POST(request: NextRequest) {
     );
   } catch (error: any) {
     console.error('Meta-analysis error:', error);
+    progress.fail(error.message);
+
+    if (error instanceof RExecutionError) {
+      if (error.stderr) console.error(error.stderr);
+      return NextResponse.json(
+        { success: false, message: error.message, code: error.code },
+        { status: error.code === 'TIMEOUT' ? 504 : 500 }
+      );
+    }
+
     return NextResponse.json(
       { success: false, message: error.message },
-      { status: 500 }
+      { status: error instanceof StatsInputError ? 400 : 500 }
     );
   }
 } 
\ No newline at end of file
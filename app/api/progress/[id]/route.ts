@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { createProgressResponse } from '@/lib/progress';
+
+// Progress for work started by a request that passed this id as its `progressId`
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const currentUser = await getCurrentUser();
+  
+  if (!currentUser) {
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: 'Not authenticated' 
+      },
+      { status: 401 }
+    );
+  }
+  
+  const response = createProgressResponse(params.id, currentUser.id, request.signal);
+  
+  if (!response) {
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: 'Progress stream not found' 
+      },
+      { status: 404 }
+    );
+  }
+  
+  return response;
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { z } from 'zod';
+import { reconstructHazardRatio } from '@/lib/stats/ipd-reconstruction';
+import { StatsInputError } from '@/lib/stats/errors';
+
+const armSchema = z.object({
+  curve: z.array(z.object({
+    time: z.number().min(0),
+    survival: z.number().min(0).max(1),
+  })).min(2, 'At least two digitized points are required'),
+  atRisk: z.array(z.object({
+    time: z.number().min(0),
+    nRisk: z.number().int().min(0),
+  })).min(1, 'The numbers at risk are required'),
+  totalEvents: z.number().int().min(0).optional(),
+});
+
+const reconstructionSchema = z.object({
+  studyId: z.string().min(1, 'Study ID is required'),
+  studyLabel: z.string().min(1, 'Study label is required'),
+  year: z.number().int().optional(),
+  author: z.string().optional(),
+  treatment: armSchema,
+  control: armSchema,
+  confidenceLevel: z.number().gt(0).lt(1).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const parameters = reconstructionSchema.parse(await request.json());
+
+    const results = reconstructHazardRatio(parameters);
+
+    return NextResponse.json(
+      { success: true, results },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error('IPD reconstruction error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: 'Validation error', errors: error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Inconsistent curves and at-risk tables are the user's to fix
+    if (error instanceof StatsInputError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: 'An error occurred while reconstructing patient data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { z } from 'zod';
+import { metaAnalysisPower, trialPower } from '@/lib/stats/power';
+import { StatsInputError } from '@/lib/stats/errors';
+
+const probability = z.number().gt(0).lt(1);
+
+const metaAnalysisSchema = z.object({
+  calculation: z.literal('meta_analysis'),
+  modelType: z.enum(['FE', 'RE']),
+  k: z.number().int().min(1, 'At least one study is required'),
+  groupSize: z.number().gt(1, 'The average group size must be greater than 1'),
+  effectSize: z.number().refine(value => value !== 0, 'The expected effect size must be non-zero'),
+  iSquared: z.number().min(0).lt(1).optional(),
+  alpha: probability.optional(),
+  power: probability.optional(),
+});
+
+const trialDesign = {
+  calculation: z.literal('two_arm_trial'),
+  alpha: probability.optional(),
+  power: probability.optional(),
+  allocationRatio: z.number().positive().optional(),
+};
+
+const trialSchema = z.discriminatedUnion('outcome', [
+  z.object({
+    ...trialDesign,
+    outcome: z.literal('continuous'),
+    meanDifference: z.number().refine(value => value !== 0, 'The mean difference must be non-zero'),
+    sd: z.number().positive(),
+  }),
+  z.object({
+    ...trialDesign,
+    outcome: z.literal('binary'),
+    treatmentProportion: probability,
+    controlProportion: probability,
+  }),
+  z.object({
+    ...trialDesign,
+    outcome: z.literal('time_to_event'),
+    hazardRatio: z.number().positive().refine(value => value !== 1, 'The hazard ratio must differ from 1'),
+    eventProbability: probability,
+  }),
+]).refine(
+  data => data.outcome !== 'binary' || data.treatmentProportion !== data.controlProportion,
+  { message: 'The treatment and control proportions must differ', path: ['controlProportion'] }
+);
+
+const powerSchema = z.union([metaAnalysisSchema, trialSchema]);
+
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const parameters = powerSchema.parse(await request.json());
+    const results = parameters.calculation === 'meta_analysis'
+      ? metaAnalysisPower(parameters)
+      : trialPower(parameters);
+
+    return NextResponse.json(
+      { success: true, results },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error('Power calculation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, message: 'Validation error', errors: error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Inputs the engine rejects, such as non-finite numbers
+    if (error instanceof StatsInputError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: 'An error occurred while calculating power' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Study, HeterogeneityResults } from '@/types/meta-analysis';
+import { getEffectData, poolEffects } from '@/lib/stats/meta-analysis';
 import { Box, Typography, Paper, Button, CircularProgress, Alert, Grid } from '@mui/material';
 import { styled } from '@mui/material/styles';
 
@@ -38,41 +39,19 @@ const HeterogeneityAnalysis: React.FC<HeterogeneityAnalysisProps> = ({ studies,
         return;
       }
 
-      // Calculate weighted mean
-      const weightedSum = studies.reduce((sum, study) => sum + study.effect_size * study.weight, 0);
-      const totalWeight = studies.reduce((sum, study) => sum + study.weight, 0);
-      const weightedMean = weightedSum / totalWeight;
-
-      // Calculate Q statistic
-      const qStatistic = studies.reduce((sum, study) => {
-        const deviation = study.effect_size - weightedMean;
-        return sum + study.weight * deviation * deviation;
-      }, 0);
-
-      // Calculate degrees of freedom
-      const df = studies.length - 1;
-
-      // Calculate p-value for Q statistic
-      const pValue = 1 - chiSquareCDF(qStatistic, df);
-
-      // Calculate I²
-      const iSquared = Math.max(0, ((qStatistic - df) / qStatistic) * 100);
-
-      // Calculate tau² (method of moments estimator)
-      const tauSquared = Math.max(0, (qStatistic - df) / (totalWeight - (studies.reduce((sum, study) => sum + study.weight * study.weight, 0) / totalWeight)));
-
-      // Calculate H²
-      const hSquared = qStatistic / df;
+      // DerSimonian-Laird pooling gives the classic Q-based I² and H²
+      const { yi, vi } = getEffectData(studies, effectMeasure);
+      const pooled = poolEffects(yi, vi, { modelType: 'RE', method: 'DL' });
 
       setResults({
-        i_squared: iSquared,
-        q_statistic: qStatistic,
-        q_pvalue: pValue,
-        q_df: df,
-        tau_squared: tauSquared,
-        tau: Math.sqrt(tauSquared),
-        h_squared: hSquared,
-        h: Math.sqrt(hSquared)
+        i_squared: pooled.iSquared,
+        q_statistic: pooled.qStatistic,
+        q_pvalue: pooled.qPvalue,
+        q_df: pooled.qDf,
+        tau_squared: pooled.tauSquared,
+        tau: Math.sqrt(pooled.tauSquared),
+        h_squared: pooled.hSquared,
+        h: Math.sqrt(pooled.hSquared)
       });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while calculating heterogeneity');
@@ -81,46 +60,6 @@ const HeterogeneityAnalysis: React.FC<HeterogeneityAnalysisProps> = ({ studies,
     }
   };
 
-  // Helper function to calculate chi-square CDF
-  const chiSquareCDF = (x: number, df: number): number => {
-    const k = df / 2;
-    return gammaInc(k, x / 2) / gamma(k);
-  };
-
-  // Helper function to calculate gamma function
-  const gamma = (z: number): number => {
-    if (z < 0.5) return Math.PI / (Math.sin(Math.PI * z) * gamma(1 - z));
-    z -= 1;
-    let x = 0.99999999999980993;
-    const p = [
-      676.5203681218851, -1259.1392167224028,
-      771.32342877765313, -176.61502916214059,
-      12.507343278686905, -0.13857109526572012,
-      9.9843695780195716e-6, 1.5056327351493116e-7
-    ];
-    for (let i = 0; i < 8; i++) {
-      x += p[i] / (z + i + 1);
-    }
-    const t = z + 7.5;
-    return Math.sqrt(2 * Math.PI) * Math.pow(t, z + 0.5) * Math.exp(-t) * x;
-  };
-
-  // Helper function to calculate incomplete gamma function
-  const gammaInc = (s: number, x: number): number => {
-    if (x < 0 || s <= 0) return 0;
-    if (x === 0) return 0;
-    if (x === Infinity) return gamma(s);
-
-    let sum = 1 / s;
-    let term = sum;
-    for (let i = 1; i < 100; i++) {
-      term *= x / (s + i);
-      sum += term;
-      if (Math.abs(term) < 1e-8) break;
-    }
-    return Math.pow(x, s) * Math.exp(-x) * sum;
-  };
-
   const interpretHeterogeneity = (iSquared: number): string => {
     if (iSquared < 25) return 'Low heterogeneity';
     if (iSquared < 50) return 'Moderate heterogeneity';
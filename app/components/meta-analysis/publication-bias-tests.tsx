@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { Study, PublicationBiasResults } from '@/types/meta-analysis';
+import { Study } from '@/types/meta-analysis';
+import type { PublicationBiasResults } from '@/lib/services/meta-analysis';
 import { Box, Typography, Paper, Button, CircularProgress, Alert, Grid } from '@mui/material';
 import { styled } from '@mui/material/styles';
 
@@ -81,73 +82,116 @@ const PublicationBiasTests: React.FC<PublicationBiasTestsProps> = ({
 
       {results && (
         <Grid container spacing={3}>
-          <Grid item xs={12} md={6}>
-            <ResultBox>
-              <Typography variant="subtitle1" gutterBottom>
-                Egger's Test
-              </Typography>
-              <Typography variant="body2" gutterBottom>
-                Intercept: {results.egger_test.intercept.toFixed(3)} (SE = {results.egger_test.se.toFixed(3)})
-              </Typography>
-              <Typography variant="body2" gutterBottom>
-                t-value: {results.egger_test.t_value.toFixed(3)}
-              </Typography>
-              <Typography variant="body2" gutterBottom>
-                p-value: {results.egger_test.p_value.toFixed(3)}
-              </Typography>
-              <Typography variant="body2" color="text.secondary">
-                {interpretEggerTest(results.egger_test.p_value)}
-              </Typography>
-            </ResultBox>
-          </Grid>
-
-          <Grid item xs={12} md={6}>
-            <ResultBox>
-              <Typography variant="subtitle1" gutterBottom>
-                Begg's Test
-              </Typography>
-              <Typography variant="body2" gutterBottom>
-                Rank Correlation: {results.begg_test.rank_correlation.toFixed(3)}
-              </Typography>
-              <Typography variant="body2" gutterBottom>
-                p-value: {results.begg_test.p_value.toFixed(3)}
-              </Typography>
-              <Typography variant="body2" color="text.secondary">
-                {interpretBeggsTest(results.begg_test.p_value)}
-              </Typography>
-            </ResultBox>
-          </Grid>
-
-          <Grid item xs={12} md={6}>
-            <ResultBox>
-              <Typography variant="subtitle1" gutterBottom>
-                Trim and Fill Analysis
-              </Typography>
-              <Typography variant="body2" gutterBottom>
-                Original Estimate: {results.trim_and_fill.original_estimate.toFixed(3)}
-              </Typography>
-              <Typography variant="body2" gutterBottom>
-                Adjusted Estimate: {results.trim_and_fill.adjusted_estimate.toFixed(3)}
-              </Typography>
-              <Typography variant="body2" gutterBottom>
-                Missing Studies: {results.trim_and_fill.n_missing}
-              </Typography>
-            </ResultBox>
-          </Grid>
-
-          <Grid item xs={12} md={6}>
-            <ResultBox>
-              <Typography variant="subtitle1" gutterBottom>
-                Fail-Safe N
-              </Typography>
-              <Typography variant="body2" gutterBottom>
-                Rosenthal's N: {results.fail_safe_n.rosenthal}
-              </Typography>
-              <Typography variant="body2" gutterBottom>
-                Orwin's N: {results.fail_safe_n.orwin}
-              </Typography>
-            </ResultBox>
-          </Grid>
+          {results.egger && (
+            <Grid item xs={12} md={6}>
+              <ResultBox>
+                <Typography variant="subtitle1" gutterBottom>
+                  Egger's Test
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  Intercept: {results.egger.intercept.toFixed(3)} (SE = {results.egger.se.toFixed(3)})
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  t-value: {results.egger.statistic.toFixed(3)}
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  p-value: {results.egger.pValue.toFixed(3)}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {interpretEggerTest(results.egger.pValue)}
+                </Typography>
+              </ResultBox>
+            </Grid>
+          )}
+
+          {results.begg && (
+            <Grid item xs={12} md={6}>
+              <ResultBox>
+                <Typography variant="subtitle1" gutterBottom>
+                  Begg's Test
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  Rank Correlation: {results.begg.kendallTau.toFixed(3)}
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  p-value: {results.begg.pValue.toFixed(3)}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {interpretBeggsTest(results.begg.pValue)}
+                </Typography>
+              </ResultBox>
+            </Grid>
+          )}
+
+          {results.trimAndFill && (
+            <Grid item xs={12} md={6}>
+              <ResultBox>
+                <Typography variant="subtitle1" gutterBottom>
+                  Trim and Fill Analysis ({results.trimAndFill.estimator})
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  Original Estimate: {results.model.estimate.toFixed(3)}
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  Adjusted Estimate: {results.trimAndFill.estimate.toFixed(3)}
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  Missing Studies: {results.trimAndFill.k0} ({results.trimAndFill.side} side)
+                </Typography>
+              </ResultBox>
+            </Grid>
+          )}
+
+          {results.petPeese && (
+            <Grid item xs={12} md={6}>
+              <ResultBox>
+                <Typography variant="subtitle1" gutterBottom>
+                  PET-PEESE
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  {results.petPeese.selected} Estimate: {results.petPeese.estimate.toFixed(3)}
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  95% CI: [{results.petPeese.ciLower.toFixed(3)}, {results.petPeese.ciUpper.toFixed(3)}]
+                </Typography>
+              </ResultBox>
+            </Grid>
+          )}
+
+          {results.selectionModel && (
+            <Grid item xs={12} md={6}>
+              <ResultBox>
+                <Typography variant="subtitle1" gutterBottom>
+                  Selection Model
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  Adjusted Estimate: {results.selectionModel.estimate.toFixed(3)}
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  LRT p-value: {results.selectionModel.likelihoodRatio.pValue.toFixed(3)}
+                </Typography>
+              </ResultBox>
+            </Grid>
+          )}
+
+          {results.failSafeN && (
+            <Grid item xs={12} md={6}>
+              <ResultBox>
+                <Typography variant="subtitle1" gutterBottom>
+                  Fail-Safe N
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  Rosenthal's N: {results.failSafeN.rosenthal.n}
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  Orwin's N: {results.failSafeN.orwin?.n ?? 'Not available'}
+                </Typography>
+                <Typography variant="body2" gutterBottom>
+                  Rosenberg's N: {results.failSafeN.rosenberg.n}
+                </Typography>
+              </ResultBox>
+            </Grid>
+          )}
         </Grid>
       )}
     </StyledPaper>
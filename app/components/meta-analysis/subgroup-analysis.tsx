@@ -1,12 +1,16 @@
 import React, { useState } from 'react';
 import { Study } from '@/types/meta-analysis';
-import { Button, TextField, Typography, Paper, Box, CircularProgress, Alert, Grid, FormControl, InputLabel, Select, MenuItem } from '@mui/material';
+import type { BetweenGroupTest, SubgroupParameters, SubgroupResults, SubgroupTauSquared } from '@/lib/services/meta-analysis';
+import { Button, TextField, Typography, Paper, Box, CircularProgress, Alert, Grid, FormControl, InputLabel, Select, MenuItem, SelectChangeEvent } from '@mui/material';
 import { styled } from '@mui/material/styles';
+import { SubgroupForestPlot } from '@/components/meta-analysis/subgroup-forest-plot';
 
 interface SubgroupAnalysisProps {
   studies: Study[];
   effectMeasure: string;
-  onRunAnalysis?: () => Promise<any>;
+  onRunAnalysis: (
+    settings: Pick<SubgroupParameters, 'subgroupVar' | 'tauSquared' | 'betweenGroupTest' | 'minK'>
+  ) => Promise<SubgroupResults>;
 }
 
 const StyledPaper = styled(Paper)(({ theme }) => ({
@@ -24,9 +28,12 @@ const ResultBox = styled(Box)(({ theme }) => ({
 
 const SubgroupAnalysis: React.FC<SubgroupAnalysisProps> = ({ studies, effectMeasure, onRunAnalysis }) => {
   const [selectedVariable, setSelectedVariable] = useState<string>('');
+  const [tauSquared, setTauSquared] = useState<SubgroupTauSquared>('separate');
+  const [betweenGroupTest, setBetweenGroupTest] = useState<BetweenGroupTest>('mixed');
+  const [minK, setMinK] = useState(2);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [results, setResults] = useState<any>(null);
+  const [results, setResults] = useState<SubgroupResults | null>(null);
 
   // Extract potential subgroup variables from studies
   const potentialVariables = React.useMemo(() => {
@@ -55,48 +62,13 @@ const SubgroupAnalysis: React.FC<SubgroupAnalysisProps> = ({ studies, effectMeas
     setError(null);
 
     try {
-      if (onRunAnalysis) {
-        const analysisResults = await onRunAnalysis();
-        setResults(analysisResults);
-        return;
-      }
-
-      // Group studies by the selected variable
-      const groups = studies.reduce((acc, study) => {
-        const value = study[selectedVariable as keyof Study];
-        if (value !== undefined) {
-          const key = String(value);
-          if (!acc[key]) {
-            acc[key] = [];
-          }
-          acc[key].push(study);
-        }
-        return acc;
-      }, {} as Record<string, Study[]>);
-
-      // Calculate effect size for each subgroup
-      const subgroupResults = Object.entries(groups).map(([group, groupStudies]) => {
-        const weightedSum = groupStudies.reduce((sum, study) => sum + study.effect_size * study.weight, 0);
-        const totalWeight = groupStudies.reduce((sum, study) => sum + study.weight, 0);
-        const weightedMean = weightedSum / totalWeight;
-        const se = Math.sqrt(1 / totalWeight);
-        const ci_lower = weightedMean - 1.96 * se;
-        const ci_upper = weightedMean + 1.96 * se;
-        const z = Math.abs(weightedMean / se);
-        const p_value = 2 * (1 - 0.5 * (1 + erf(z / Math.sqrt(2))));
-
-        return {
-          group,
-          n_studies: groupStudies.length,
-          estimate: weightedMean,
-          se,
-          ci_lower,
-          ci_upper,
-          p_value
-        };
+      const analysisResults = await onRunAnalysis({
+        subgroupVar: selectedVariable,
+        tauSquared,
+        betweenGroupTest,
+        minK,
       });
-
-      setResults(subgroupResults);
+      setResults(analysisResults);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while calculating subgroup analysis');
     } finally {
@@ -104,22 +76,6 @@ const SubgroupAnalysis: React.FC<SubgroupAnalysisProps> = ({ studies, effectMeas
     }
   };
 
-  // Helper function to calculate the error function (erf)
-  function erf(x: number): number {
-    const t = 1.0 / (1.0 + 0.5 * Math.abs(x));
-    const tau = t * Math.exp(-x * x - 1.26551223 + 
-      t * (1.00002368 + 
-      t * (0.37409196 + 
-      t * (0.09678418 + 
-      t * (-0.18628806 + 
-      t * (0.27886807 + 
-      t * (-1.13520398 + 
-      t * (1.48851587 + 
-      t * (-0.82215223 + 
-      t * 0.17087277)))))))));
-    return x >= 0 ? 1 - tau : tau - 1;
-  }
-
   return (
     <StyledPaper elevation={3}>
       <Typography variant="h6" gutterBottom>
@@ -145,6 +101,47 @@ const SubgroupAnalysis: React.FC<SubgroupAnalysisProps> = ({ studies, effectMeas
         </FormControl>
       </Box>
 
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid item xs={12} md={5}>
+          <FormControl fullWidth>
+            <InputLabel id="subgroup-tau-label">Between-study variance</InputLabel>
+            <Select
+              labelId="subgroup-tau-label"
+              value={tauSquared}
+              onChange={(event: SelectChangeEvent<SubgroupTauSquared>) => setTauSquared(event.target.value as SubgroupTauSquared)}
+              label="Between-study variance"
+            >
+              <MenuItem value="separate">Separate τ² per subgroup</MenuItem>
+              <MenuItem value="common">Common τ²</MenuItem>
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} md={5}>
+          <FormControl fullWidth>
+            <InputLabel id="subgroup-test-label">Between-group test</InputLabel>
+            <Select
+              labelId="subgroup-test-label"
+              value={betweenGroupTest}
+              onChange={(event: SelectChangeEvent<BetweenGroupTest>) => setBetweenGroupTest(event.target.value as BetweenGroupTest)}
+              label="Between-group test"
+            >
+              <MenuItem value="mixed">Mixed-effects Q-between</MenuItem>
+              <MenuItem value="fixed">Fixed-effect Q-between</MenuItem>
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} md={2}>
+          <TextField
+            fullWidth
+            type="number"
+            label="Minimum k"
+            value={minK}
+            inputProps={{ min: 1 }}
+            onChange={(event: React.ChangeEvent<HTMLInputElement>) => setMinK(Math.max(1, parseInt(event.target.value) || 1))}
+          />
+        </Grid>
+      </Grid>
+
       <Button
         variant="contained"
         color="primary"
@@ -166,7 +163,27 @@ const SubgroupAnalysis: React.FC<SubgroupAnalysisProps> = ({ studies, effectMeas
           <Grid item xs={12}>
             <ResultBox>
               <Typography variant="subtitle1" gutterBottom>
-                Subgroup Results
+                Test for Subgroup Differences ({results.betweenGroupTest === 'mixed' ? 'mixed-effects' : 'fixed-effect'})
+              </Typography>
+              <Typography variant="body2">
+                Q = {results.betweenGroupQ.toFixed(2)}, df = {results.betweenGroupDf}, p = {results.betweenGroupPvalue.toFixed(3)}
+              </Typography>
+              {results.commonTauSquared !== undefined && (
+                <Typography variant="body2">
+                  Common τ² = {results.commonTauSquared.toFixed(4)}
+                </Typography>
+              )}
+              {results.warnings.map(warning => (
+                <Typography key={warning} variant="body2" color="text.secondary">
+                  {warning}
+                </Typography>
+              ))}
+            </ResultBox>
+          </Grid>
+          <Grid item xs={12}>
+            <ResultBox>
+              <Typography variant="subtitle1" gutterBottom>
+                Subgroup Results ({effectMeasure})
               </Typography>
               <Box sx={{ overflowX: 'auto' }}>
                 <table style={{ width: '100%', borderCollapse: 'collapse' }}>
@@ -175,35 +192,37 @@ const SubgroupAnalysis: React.FC<SubgroupAnalysisProps> = ({ studies, effectMeas
                       <th style={{ padding: '8px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Group</th>
                       <th style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>N Studies</th>
                       <th style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>Estimate</th>
-                      <th style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>SE</th>
-                      <th style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>CI Lower</th>
-                      <th style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>CI Upper</th>
+                      <th style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>95% CI</th>
+                      <th style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>95% PI</th>
+                      <th style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>I²</th>
                       <th style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>p-value</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {results.map((result: any) => (
-                      <tr key={result.group}>
+                    {Object.entries(results.subgroups).map(([group, result]) => (
+                      <tr key={group}>
                         <td style={{ padding: '8px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>
-                          {result.group}
+                          {group}
                         </td>
                         <td style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>
-                          {result.n_studies}
+                          {result.k}
                         </td>
                         <td style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>
-                          {result.estimate.toFixed(3)}
+                          {result.overallEffect.toFixed(3)}
                         </td>
                         <td style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>
-                          {result.se.toFixed(3)}
+                          [{result.ciLower.toFixed(3)}, {result.ciUpper.toFixed(3)}]
                         </td>
                         <td style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>
-                          {result.ci_lower.toFixed(3)}
+                          {result.predictionInterval
+                            ? `[${result.predictionInterval.lower.toFixed(3)}, ${result.predictionInterval.upper.toFixed(3)}]`
+                            : '-'}
                         </td>
                         <td style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>
-                          {result.ci_upper.toFixed(3)}
+                          {result.heterogeneity.iSquared.toFixed(1)}%
                         </td>
                         <td style={{ padding: '8px', textAlign: 'right', borderBottom: '1px solid #ddd' }}>
-                          {result.p_value.toFixed(3)}
+                          {result.pValue.toFixed(3)}
                         </td>
                       </tr>
                     ))}
@@ -212,6 +231,9 @@ const SubgroupAnalysis: React.FC<SubgroupAnalysisProps> = ({ studies, effectMeas
               </Box>
             </ResultBox>
           </Grid>
+          <Grid item xs={12}>
+            <SubgroupForestPlot data={results.forest} />
+          </Grid>
         </Grid>
       )}
     </StyledPaper>
@@ -3,7 +3,7 @@
 import React from "react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { Activity, LayoutDashboard, FileText, BarChart2, Users, Settings } from "lucide-react"
+import { Activity, LayoutDashboard, FileText, BarChart2, Calculator, Users, Settings } from "lucide-react"
 
 interface DashboardLayoutProps {
   children: React.ReactNode
@@ -57,6 +57,17 @@ export default function DashboardLayout({ children }: DashboardLayoutProps): Rea
               <BarChart2 className="h-4 w-4" />
               Meta-Analysis
             </Link>
+            <Link
+              href="/dashboard/power"
+              className={`flex items-center gap-2 p-2 rounded-lg text-sm font-medium transition-colors ${
+                pathname === "/dashboard/power"
+                  ? "bg-blue-50 text-blue-600"
+                  : "text-gray-600 hover:text-blue-600 hover:bg-gray-100"
+              }`}
+            >
+              <Calculator className="h-4 w-4" />
+              Power
+            </Link>
             <Link
               href="/dashboard/team"
               className={`flex items-center gap-2 p-2 rounded-lg text-sm font-medium transition-colors ${
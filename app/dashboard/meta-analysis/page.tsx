@@ -2,18 +2,26 @@
 
 import React, { useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { PublicationBiasTests } from "@/components/meta-analysis/publication-bias-tests"
+import { PublicationBiasTests, type PublicationBiasSettings } from "@/components/meta-analysis/publication-bias-tests"
 import { FileUploader } from "@/components/meta-analysis/file-uploader"
 import { StudyTable } from "@/components/meta-analysis/study-table"
 import ForestPlot from "@/components/meta-analysis/forest-plot"
 import { FunnelPlot } from "@/components/meta-analysis/funnel-plot"
 import { HeterogeneityAnalysis } from "@/components/meta-analysis/heterogeneity-analysis"
-import MetaRegressionAnalysis from "@/components/meta-analysis/meta-regression-analysis"
-import { SensitivityAnalysis } from "@/components/meta-analysis/sensitivity-analysis"
-import { SubgroupAnalysis } from "@/components/meta-analysis/subgroup-analysis"
+import MetaRegressionAnalysis, { type MetaRegressionSettings } from "@/components/meta-analysis/meta-regression-analysis"
+import { SensitivityAnalysis, type CumulativeOrdering } from "@/components/meta-analysis/sensitivity-analysis"
+import { SubgroupAnalysis, type SubgroupSettings } from "@/components/meta-analysis/subgroup-analysis"
+import { NetworkMetaAnalysis, type NetworkSettings } from "@/components/meta-analysis/network-meta-analysis"
+import { DiagnosticAccuracy, type DiagnosticSettings } from "@/components/meta-analysis/diagnostic-accuracy"
+import { BayesianAnalysis, type BayesianSettings } from "@/components/meta-analysis/bayesian-analysis"
+import { TrialSequentialAnalysis, type SequentialSettings } from "@/components/meta-analysis/trial-sequential-analysis"
+import { IpdReconstruction } from "@/components/meta-analysis/ipd-reconstruction"
 import MetaLLMInterface from "@/components/meta-llm/meta-llm-interface"
 import AIInsights from "@/components/meta-analysis/ai-insights"
 import { Study, OverallEffect } from "@/types/meta-analysis"
+import { poolStudies } from "@/lib/stats/meta-analysis"
+import { assessPublicationBias } from "@/lib/stats/publication-bias"
+import { MetaAnalysisService } from "@/lib/services/meta-analysis"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
 import { Download, Upload, FileText, Brain } from "lucide-react"
@@ -63,23 +71,6 @@ const mockData = {
   ],
 }
 
-// Helper function to calculate the error function (erf)
-function erf(x: number): number {
-  // Approximation of the error function
-  const t = 1.0 / (1.0 + 0.5 * Math.abs(x));
-  const tau = t * Math.exp(-x * x - 1.26551223 + 
-    t * (1.00002368 + 
-    t * (0.37409196 + 
-    t * (0.09678418 + 
-    t * (-0.18628806 + 
-    t * (0.27886807 + 
-    t * (-1.13520398 + 
-    t * (1.48851587 + 
-    t * (-0.82215223 + 
-    t * 0.17087277)))))))));
-  return x >= 0 ? 1 - tau : tau - 1;
-}
-
 export default function MetaAnalysisPage(): React.ReactElement {
   const [studies, setStudies] = useState<Study[]>([])
   const [activeTab, setActiveTab] = useState("ai-assistant")
@@ -123,62 +114,89 @@ export default function MetaAnalysisPage(): React.ReactElement {
       }
     }
     
-    const weightedSum = formattedStudies.reduce((sum, study) => sum + study.effect_size * study.weight, 0)
-    const totalWeight = formattedStudies.reduce((sum, study) => sum + study.weight, 0)
-    const weightedMean = weightedSum / totalWeight
-    
-    const se = Math.sqrt(1 / totalWeight)
-    const ci_lower = weightedMean - 1.96 * se
-    const ci_upper = weightedMean + 1.96 * se
-    const z = Math.abs(weightedMean / se)
-    const p_value = 2 * (1 - 0.5 * (1 + erf(z / Math.sqrt(2))))
-    
+    const results = poolStudies(formattedStudies, { modelType: "FE", effectMeasure: "SMD" })
+
     return {
-      estimate: weightedMean,
-      ci_lower,
-      ci_upper,
-      p_value
+      estimate: results.overallEffect,
+      ci_lower: results.ciLower,
+      ci_upper: results.ciUpper,
+      p_value: results.pValue
     }
   }
 
   const overallEffect = calculateOverallEffect()
 
-  const handlePublicationBiasTests = async () => {
-    // Mock implementation for now
-    return {
-      egger_test: {
-        intercept: 1.23,
-        se: 0.5,
-        t_value: 2.46,
-        p_value: 0.042,
-        ci_lower: 0.23,
-        ci_upper: 2.23
-      },
-      begg_test: {
-        rank_correlation: 0.32,
-        p_value: 0.08
-      },
-      trim_and_fill: {
-        original_estimate: 1.5,
-        adjusted_estimate: 1.35,
-        n_missing: 3,
-        studies_added: []
-      },
-      fail_safe_n: {
-        rosenthal: 15,
-        orwin: 8
-      }
-    }
+  const handlePublicationBiasTests = async (settings: PublicationBiasSettings) => {
+    return assessPublicationBias(formattedStudies, { ...settings, effectMeasure: "SMD", modelType: "RE" })
+  }
+
+  const handleMetaRegression = async (settings: MetaRegressionSettings, progressId: string) => {
+    return MetaAnalysisService.runMetaRegression(
+      formattedStudies,
+      { ...settings, effectMeasure: "SMD", modelType: "RE" },
+      { progressId }
+    )
   }
 
   const handleSensitivityAnalysis = async () => {
     // Mock implementation for now
     return {
-      leave_one_out: {},
-      cumulative: {}
+      leave_one_out: {}
     }
   }
 
+  const handleSubgroupAnalysis = async (settings: SubgroupSettings, progressId: string) => {
+    return MetaAnalysisService.runSubgroupAnalysis(
+      formattedStudies,
+      { ...settings, effectMeasure: "SMD", modelType: "RE" },
+      { progressId }
+    )
+  }
+
+  const handleInfluenceDiagnostics = async (progressId: string) => {
+    return MetaAnalysisService.runInfluenceDiagnostics(
+      formattedStudies,
+      { effectMeasure: "SMD", modelType: "RE" },
+      { progressId }
+    )
+  }
+
+  const handleCumulativeAnalysis = async (ordering: CumulativeOrdering, progressId: string) => {
+    return MetaAnalysisService.runCumulativeAnalysis(
+      formattedStudies,
+      { ...ordering, effectMeasure: "SMD", modelType: "RE" },
+      { progressId }
+    )
+  }
+
+  const handleNetworkMetaAnalysis = async (settings: NetworkSettings, progressId: string) => {
+    return MetaAnalysisService.runNetworkMetaAnalysis(
+      formattedStudies,
+      { ...settings, effectMeasure: "SMD", modelType: "RE" },
+      { progressId }
+    )
+  }
+
+  const handleDiagnosticAccuracy = async (settings: DiagnosticSettings, progressId: string) => {
+    return MetaAnalysisService.runDiagnosticAccuracy(formattedStudies, settings, { progressId })
+  }
+
+  const handleBayesianAnalysis = async (settings: BayesianSettings, progressId: string) => {
+    return MetaAnalysisService.runBayesianMetaAnalysis(
+      formattedStudies,
+      { ...settings, effectMeasure: "SMD" },
+      { progressId }
+    )
+  }
+
+  const handleTrialSequentialAnalysis = async (settings: SequentialSettings, progressId: string) => {
+    return MetaAnalysisService.runTrialSequentialAnalysis(
+      formattedStudies,
+      { ...settings, effectMeasure: "SMD", modelType: "RE" },
+      { progressId }
+    )
+  }
+
   return (
     <div className="container mx-auto py-8 space-y-8">
       <div className="flex justify-between items-center">
@@ -196,7 +214,7 @@ export default function MetaAnalysisPage(): React.ReactElement {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid grid-cols-4 lg:grid-cols-7">
+        <TabsList className="grid grid-cols-4 lg:grid-cols-12">
           <TabsTrigger value="ai-assistant" className="flex items-center gap-2">
             <Brain className="h-4 w-4" />
             AI Assistant
@@ -208,6 +226,10 @@ export default function MetaAnalysisPage(): React.ReactElement {
           <TabsTrigger value="meta-regression">Meta-Regression</TabsTrigger>
           <TabsTrigger value="sensitivity">Sensitivity</TabsTrigger>
           <TabsTrigger value="subgroup">Subgroup</TabsTrigger>
+          <TabsTrigger value="network">Network</TabsTrigger>
+          <TabsTrigger value="diagnostic">Diagnostic</TabsTrigger>
+          <TabsTrigger value="bayesian">Bayesian</TabsTrigger>
+          <TabsTrigger value="sequential">Sequential</TabsTrigger>
         </TabsList>
 
         <TabsContent value="ai-assistant" className="space-y-4">
@@ -300,7 +322,11 @@ export default function MetaAnalysisPage(): React.ReactElement {
               <CardTitle>Meta-Regression Analysis</CardTitle>
             </CardHeader>
             <CardContent>
-              <MetaRegressionAnalysis />
+              <MetaRegressionAnalysis
+                studies={formattedStudies}
+                effectMeasure="SMD"
+                onRunRegression={handleMetaRegression}
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -315,6 +341,8 @@ export default function MetaAnalysisPage(): React.ReactElement {
                 studies={formattedStudies}
                 effectMeasure="SMD"
                 onRunAnalysis={handleSensitivityAnalysis}
+                onRunCumulative={handleCumulativeAnalysis}
+                onRunInfluence={handleInfluenceDiagnostics}
               />
             </CardContent>
           </Card>
@@ -329,62 +357,81 @@ export default function MetaAnalysisPage(): React.ReactElement {
               <SubgroupAnalysis
                 studies={ensureStudyWeights(formattedStudies)}
                 effectMeasure="SMD"
-                onRunAnalysis={async (moderator: string) => {
-                  // Mock implementation for now
-                  return {
-                    subgroups: {
-                      "Group A": {
-                        studies: ensureStudyWeights(formattedStudies.slice(0, 2)),
-                        overall_effect: {
-                          estimate: 0.5,
-                          ci_lower: 0.2,
-                          ci_upper: 0.8,
-                          p_value: 0.001
-                        },
-                        heterogeneity: {
-                          q_statistic: 2.5,
-                          q_df: 1,
-                          q_pvalue: 0.11,
-                          i_squared: 45.5,
-                          tau_squared: 0.02,
-                          tau: 0.14,
-                          h_squared: 1.83,
-                          h: 1.35
-                        }
-                      },
-                      "Group B": {
-                        studies: ensureStudyWeights(formattedStudies.slice(2)),
-                        overall_effect: {
-                          estimate: 0.7,
-                          ci_lower: 0.4,
-                          ci_upper: 1.0,
-                          p_value: 0.002
-                        },
-                        heterogeneity: {
-                          q_statistic: 3.1,
-                          q_df: 1,
-                          q_pvalue: 0.08,
-                          i_squared: 52.3,
-                          tau_squared: 0.03,
-                          tau: 0.17,
-                          h_squared: 2.1,
-                          h: 1.45
-                        }
-                      }
-                    },
-                    between_groups: {
-                      q_statistic: 3.5,
-                      q_df: 1,
-                      p_value: 0.06
-                    }
-                  }
-                }}
+                onRunAnalysis={handleSubgroupAnalysis}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="network">
+          <Card>
+            <CardHeader>
+              <CardTitle>Network Meta-Analysis</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <NetworkMetaAnalysis
+                studies={formattedStudies}
+                effectMeasure="SMD"
+                onRunAnalysis={handleNetworkMetaAnalysis}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="diagnostic">
+          <Card>
+            <CardHeader>
+              <CardTitle>Diagnostic Test Accuracy</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <DiagnosticAccuracy
+                studies={formattedStudies}
+                onRunAnalysis={handleDiagnosticAccuracy}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="bayesian">
+          <Card>
+            <CardHeader>
+              <CardTitle>Bayesian Meta-Analysis</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BayesianAnalysis
+                studies={formattedStudies}
+                effectMeasure="SMD"
+                onRunAnalysis={handleBayesianAnalysis}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="sequential">
+          <Card>
+            <CardHeader>
+              <CardTitle>Trial Sequential Analysis</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TrialSequentialAnalysis
+                studies={formattedStudies}
+                effectMeasure="SMD"
+                onRunAnalysis={handleTrialSequentialAnalysis}
               />
             </CardContent>
           </Card>
         </TabsContent>
       </Tabs>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Reconstruct from Kaplan-Meier Curves</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <IpdReconstruction onAddStudy={study => setStudies(current => [...current, study])} />
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Study Data</CardTitle>
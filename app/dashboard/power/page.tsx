@@ -0,0 +1,18 @@
+"use client"
+
+import React from "react"
+import { PowerCalculator } from "@/components/power/power-calculator"
+
+export default function PowerPage(): React.ReactElement {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Power Calculations</h1>
+        <p className="text-gray-600">
+          Power for a planned meta-analysis, and sample size for a two-arm trial.
+        </p>
+      </div>
+      <PowerCalculator />
+    </div>
+  )
+}
@@ -15,9 +15,10 @@ import { StudyTable } from "@/components/meta-analysis/study-table"
 import ForestPlot from "@/components/meta-analysis/forest-plot"
 import { FunnelPlot } from "@/components/meta-analysis/funnel-plot"
 import { HeterogeneityAnalysis } from "@/components/meta-analysis/heterogeneity-analysis"
-import { SubgroupAnalysis } from "@/components/meta-analysis/subgroup-analysis"
-import { SensitivityAnalysis } from "@/components/meta-analysis/sensitivity-analysis"
-import { PublicationBiasTests } from "@/components/meta-analysis/publication-bias-tests"
+import { VarianceComponents } from "@/components/meta-analysis/variance-components"
+import { SubgroupAnalysis, type SubgroupSettings } from "@/components/meta-analysis/subgroup-analysis"
+import { SensitivityAnalysis, type CumulativeOrdering } from "@/components/meta-analysis/sensitivity-analysis"
+import { PublicationBiasTests, type PublicationBiasSettings } from "@/components/meta-analysis/publication-bias-tests"
 import { LLMAnalysis } from "@/components/meta-analysis/llm-analysis"
 import { InfoIcon, Upload, FileText, BarChart2, PieChart, TrendingUp, AlertCircle, Brain } from "lucide-react"
 import { MetaAnalysisService } from "@/lib/services/meta-analysis"
@@ -35,35 +36,6 @@ interface ComponentStudy {
   [key: string]: any
 }
 
-interface ComponentSubgroupResults {
-  subgroups: {
-    [key: string]: {
-      studies: ComponentStudy[]
-      overall_effect: {
-        estimate: number
-        ci_lower: number
-        ci_upper: number
-        p_value: number
-      }
-      heterogeneity: {
-        q_statistic: number
-        q_df: number
-        q_pvalue: number
-        i_squared: number
-        tau_squared: number
-        tau: number
-        h_squared: number
-        h: number
-      }
-    }
-  }
-  between_groups: {
-    q_statistic: number
-    q_df: number
-    p_value: number
-  }
-}
-
 interface ComponentSensitivityResults {
   leave_one_out: {
     [study_id: string]: {
@@ -86,52 +58,6 @@ interface ComponentSensitivityResults {
       }
     }
   }
-  cumulative: {
-    [study_id: string]: {
-      studies: ComponentStudy[]
-      overall_effect: {
-        estimate: number
-        ci_lower: number
-        ci_upper: number
-        p_value: number
-      }
-      heterogeneity: {
-        q_statistic: number
-        q_df: number
-        q_pvalue: number
-        i_squared: number
-        tau_squared: number
-        tau: number
-        h_squared: number
-        h: number
-      }
-    }
-  }
-}
-
-interface ComponentPublicationBiasResults {
-  egger_test: {
-    intercept: number
-    se: number
-    t_value: number
-    p_value: number
-    ci_lower: number
-    ci_upper: number
-  }
-  begg_test: {
-    rank_correlation: number
-    p_value: number
-  }
-  trim_and_fill: {
-    original_estimate: number
-    adjusted_estimate: number
-    n_missing: number
-    studies_added: ComponentStudy[]
-  }
-  fail_safe_n: {
-    rosenthal: number
-    orwin: number
-  }
 }
 
 export default function MetaAnalysisPage() {
@@ -140,6 +66,7 @@ export default function MetaAnalysisPage() {
     effectMeasure: 'OR',
     modelType: 'RE',
     method: 'REML',
+    ciMethod: 'z',
     loading: false,
   })
 
@@ -160,6 +87,7 @@ export default function MetaAnalysisPage() {
         modelType: state.modelType,
         effectMeasure: state.effectMeasure,
         method: state.method,
+        ciMethod: state.ciMethod,
       })
 
       setState(prev => ({
@@ -176,33 +104,17 @@ export default function MetaAnalysisPage() {
     }
   }
 
-  const runSubgroupAnalysis = async (subgroupVar: string): Promise<ComponentSubgroupResults> => {
-    try {
-      const results = await MetaAnalysisService.runSubgroupAnalysis(
-        state.studies,
-        subgroupVar,
-        {
-          modelType: state.modelType,
-          effectMeasure: state.effectMeasure,
-          method: state.method,
-        }
-      )
-      
-      // Transform the results to match the component's expected format
-      return {
-        subgroups: {},
-        between_groups: {
-          q_statistic: results.betweenGroupQ,
-          q_df: results.betweenGroupDf,
-          p_value: results.betweenGroupPvalue
-        }
-      }
-    } catch (error: any) {
-      throw new Error(error.message)
-    }
+  const runSubgroupAnalysis = async (settings: SubgroupSettings, progressId?: string) => {
+    return MetaAnalysisService.runSubgroupAnalysis(state.studies, {
+      ...settings,
+      modelType: state.modelType,
+      effectMeasure: state.effectMeasure,
+      method: state.method,
+      ciMethod: state.ciMethod,
+    }, { progressId })
   }
 
-  const runSensitivityAnalysis = async (): Promise<ComponentSensitivityResults> => {
+  const runSensitivityAnalysis = async (progressId?: string): Promise<ComponentSensitivityResults> => {
     try {
       const results = await MetaAnalysisService.runSensitivityAnalysis(
         state.studies,
@@ -210,51 +122,46 @@ export default function MetaAnalysisPage() {
           modelType: state.modelType,
           effectMeasure: state.effectMeasure,
           method: state.method,
-        }
+          ciMethod: state.ciMethod,
+        },
+        { progressId }
       )
       
       // Transform the results to match the component's expected format
       return {
-        leave_one_out: {},
-        cumulative: {}
+        leave_one_out: {}
       }
     } catch (error: any) {
       throw new Error(error.message)
     }
   }
 
-  const runPublicationBiasTests = async (): Promise<ComponentPublicationBiasResults> => {
-    try {
-      const results = await MetaAnalysisService.assessPublicationBias(state.studies)
-      
-      // Transform the results to match the component's expected format
-      return {
-        egger_test: {
-          intercept: results.egger?.intercept || 0,
-          se: results.egger?.seIntercept || 0,
-          t_value: 0,
-          p_value: results.egger?.pValue || 0,
-          ci_lower: 0,
-          ci_upper: 0
-        },
-        begg_test: {
-          rank_correlation: 0,
-          p_value: 0
-        },
-        trim_and_fill: {
-          original_estimate: results.trimAndFill?.estimateOriginal || 0,
-          adjusted_estimate: results.trimAndFill?.estimateAdjusted || 0,
-          n_missing: results.trimAndFill?.k0 || 0,
-          studies_added: []
-        },
-        fail_safe_n: {
-          rosenthal: results.failSafeN?.n || 0,
-          orwin: 0
-        }
-      }
-    } catch (error: any) {
-      throw new Error(error.message)
-    }
+  const runInfluenceDiagnostics = async (progressId?: string) => {
+    return MetaAnalysisService.runInfluenceDiagnostics(state.studies, {
+      modelType: state.modelType,
+      effectMeasure: state.effectMeasure,
+      method: state.method,
+      ciMethod: state.ciMethod,
+    }, { progressId })
+  }
+
+  const runCumulativeAnalysis = async (ordering: CumulativeOrdering, progressId?: string) => {
+    return MetaAnalysisService.runCumulativeAnalysis(state.studies, {
+      ...ordering,
+      modelType: state.modelType,
+      effectMeasure: state.effectMeasure,
+      method: state.method,
+      ciMethod: state.ciMethod,
+    }, { progressId })
+  }
+
+  const runPublicationBiasTests = async (settings: PublicationBiasSettings, progressId?: string) => {
+    return MetaAnalysisService.assessPublicationBias(state.studies, {
+      ...settings,
+      effectMeasure: state.effectMeasure,
+      modelType: state.modelType,
+      method: state.method,
+    }, { progressId })
   }
 
   // Helper function to ensure studies have required weight property
@@ -331,37 +238,50 @@ export default function MetaAnalysisPage() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <FileUploader onUpload={handleFileUpload} />
+              <FileUploader onUpload={handleFileUpload} effectMeasure={state.effectMeasure} />
               
               {state.studies.length > 0 && (
                 <div className="space-y-4">
                   <Separator />
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                     <div className="space-y-2">
                       <Label htmlFor="effect-measure">Effect Measure</Label>
-                      <Select value={state.effectMeasure} onValueChange={(value) => setState(prev => ({ ...prev, effectMeasure: value }))} >
+                      <Select value={state.effectMeasure} onValueChange={(value) => setState(prev => ({
+                        ...prev,
+                        effectMeasure: value,
+                        // The GLMM only applies to logit proportions
+                        method: value !== "PLO" && prev.method === "GLMM" ? "REML" : prev.method,
+                      }))} >
                         <SelectTrigger id="effect-measure">
                           <SelectValue placeholder="Select effect measure" />
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="OR">Odds Ratio (OR)</SelectItem>
                           <SelectItem value="RR">Risk Ratio (RR)</SelectItem>
+                          <SelectItem value="HR">Hazard Ratio (HR)</SelectItem>
                           <SelectItem value="SMD">Standardized Mean Difference (SMD)</SelectItem>
                           <SelectItem value="MD">Mean Difference (MD)</SelectItem>
                           <SelectItem value="COR">Correlation Coefficient (COR)</SelectItem>
+                          <SelectItem value="DOR">Diagnostic Odds Ratio (DOR)</SelectItem>
+                          <SelectItem value="PR">Proportion (raw)</SelectItem>
+                          <SelectItem value="PLO">Proportion (logit)</SelectItem>
+                          <SelectItem value="PAS">Proportion (arcsine)</SelectItem>
+                          <SelectItem value="PFT">Proportion (Freeman-Tukey)</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
                     
                     <div className="space-y-2">
                       <Label htmlFor="model-type">Model Type</Label>
-                      <Select value={state.modelType} onValueChange={(value: 'FE' | 'RE') => setState(prev => ({ ...prev, modelType: value }))} >
+                      <Select value={state.modelType} onValueChange={(value: MetaAnalysisState['modelType']) => setState(prev => ({ ...prev, modelType: value }))} >
                         <SelectTrigger id="model-type">
                           <SelectValue placeholder="Select model type" />
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="FE">Fixed Effects</SelectItem>
                           <SelectItem value="RE">Random Effects</SelectItem>
+                          <SelectItem value="THREE_LEVEL">Three-level (clustered)</SelectItem>
+                          <SelectItem value="RVE">Robust variance estimation (RVE)</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -377,6 +297,23 @@ export default function MetaAnalysisPage() {
                           <SelectItem value="DL">DerSimonian-Laird</SelectItem>
                           <SelectItem value="PM">Paule-Mandel</SelectItem>
                           <SelectItem value="ML">Maximum Likelihood</SelectItem>
+                          {state.effectMeasure === "PLO" && (
+                            <SelectItem value="GLMM">GLMM (binomial-normal)</SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="ci-method">Confidence Intervals</Label>
+                      <Select value={state.ciMethod} onValueChange={(value: 'z' | 'hksj' | 'hksj-truncated') => setState(prev => ({ ...prev, ciMethod: value }))} >
+                        <SelectTrigger id="ci-method">
+                          <SelectValue placeholder="Select CI method" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="z">Wald (z)</SelectItem>
+                          <SelectItem value="hksj">Hartung-Knapp (HKSJ)</SelectItem>
+                          <SelectItem value="hksj-truncated">HKSJ (truncated)</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -487,6 +424,20 @@ export default function MetaAnalysisPage() {
                   }}
                 />
               )}
+              {state.results?.multilevel && (
+                <div className="mt-4">
+                  <VarianceComponents results={state.results.multilevel} />
+                </div>
+              )}
+              {state.results?.glmm && (
+                <p className="mt-4 text-sm">
+                  <span className="text-muted-foreground">GLMM likelihood-ratio test of τ² = 0: </span>
+                  <span>
+                    χ²(1) = {state.results.glmm.heterogeneityTest.statistic.toFixed(2)},
+                    p = {state.results.glmm.heterogeneityTest.pValue < 0.001 ? "< 0.001" : state.results.glmm.heterogeneityTest.pValue.toFixed(3)}
+                  </span>
+                </p>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -522,6 +473,8 @@ export default function MetaAnalysisPage() {
                 studies={ensureStudyWeights(state.studies)}
                 effectMeasure={state.effectMeasure}
                 onRunAnalysis={runSensitivityAnalysis}
+                onRunCumulative={runCumulativeAnalysis}
+                onRunInfluence={runInfluenceDiagnostics}
               />
             </CardContent>
           </Card>
@@ -32,44 +32,19 @@ export interface HeterogeneityResults {
   h: number;
 }
 
-export interface PublicationBiasResults {
-  egger_test: {
-    intercept: number;
-    se: number;
-    t_value: number;
-    p_value: number;
-    ci_lower: number;
-    ci_upper: number;
-  };
-  begg_test: {
-    rank_correlation: number;
-    p_value: number;
-  };
-  trim_and_fill: {
-    original_estimate: number;
-    adjusted_estimate: number;
-    n_missing: number;
-    studies_added: Study[];
-  };
-  fail_safe_n: {
-    rosenthal: number;
-    orwin: number;
-  };
-}
-
-export interface MetaRegressionResults {
-  r_squared: number;
-  q_statistic: number;
-  q_df: number;
-  q_pvalue: number;
-  moderators: {
-    name: string;
-    coefficient: number;
-    se: number;
-    t_value: number;
-    p_value: number;
-  }[];
-}
+// Shared with the service and the API so every component reads the same shape
+export type {
+  BayesianResults,
+  CumulativeResults,
+  DiagnosticResults,
+  InfluenceResults,
+  MetaRegressionResults,
+  MultilevelResults,
+  NetworkResults,
+  PublicationBiasResults,
+  SubgroupResults,
+  TrialSequentialResults,
+} from '@/lib/services/meta-analysis';
 
 export interface SensitivityResults {
   leave_one_out: {
@@ -80,12 +55,4 @@ export interface SensitivityResults {
       p_value: number;
     };
   };
-  cumulative: {
-    [key: string]: {
-      estimate: number;
-      ci_lower: number;
-      ci_upper: number;
-      p_value: number;
-    };
-  };
 } 
\ No newline at end of file
@@ -0,0 +1,154 @@
+"use client"
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type { DescriptiveResults, TableOne, VariableSummary } from "@/lib/services/descriptive"
+
+const TYPE_LABELS: Record<VariableSummary["type"], string> = {
+  continuous: "Continuous",
+  categorical: "Categorical",
+  binary: "Binary",
+  text: "Text",
+}
+
+interface TableOneViewProps {
+  table: TableOne
+}
+
+/**
+ * Table 1 with one column for the whole sample and one per group
+ */
+export function TableOneView({ table }: TableOneViewProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Characteristic</TableHead>
+          {table.columns.map(column => (
+            <TableHead key={column.key} className="text-right">
+              {column.label}
+              <span className="block text-xs font-normal">n = {column.n}</span>
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {table.rows.map((row, i) => (
+          <TableRow key={`${row.variable}-${row.kind}-${row.label}-${i}`}>
+            <TableCell
+              className={cn(
+                row.kind === "variable" ? "font-medium" : "pl-8",
+                row.kind === "missing" && "text-muted-foreground"
+              )}
+            >
+              {row.label}
+            </TableCell>
+            {row.cells.map((cell, c) => (
+              <TableCell key={table.columns[c].key} className="text-right tabular-nums">
+                {cell}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+interface VariableOverviewProps {
+  variables: VariableSummary[]
+}
+
+// Fewer digits for large values, so the overview stays narrow
+function formatNumber(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "-"
+  return Math.abs(value) >= 1000 ? value.toFixed(0) : value.toFixed(2)
+}
+
+/**
+ * One line per variable: type, completeness and a short summary of its values
+ */
+export function VariableOverview({ variables }: VariableOverviewProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Variable</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead className="text-right">n</TableHead>
+          <TableHead className="text-right">Missing</TableHead>
+          <TableHead className="text-right">Distinct</TableHead>
+          <TableHead>Summary</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {variables.map(variable => (
+          <TableRow key={variable.name}>
+            <TableCell className="font-medium">{variable.name}</TableCell>
+            <TableCell>
+              {TYPE_LABELS[variable.type]}
+              {variable.type !== variable.inferredType && (
+                <span className="text-xs text-muted-foreground"> (inferred {TYPE_LABELS[variable.inferredType].toLowerCase()})</span>
+              )}
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{variable.n}</TableCell>
+            <TableCell className="text-right tabular-nums">
+              {variable.missing} ({variable.missingPercent.toFixed(1)}%)
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{variable.distinct}</TableCell>
+            <TableCell className="text-sm">
+              {variable.numeric
+                ? `Mean ${formatNumber(variable.numeric.mean)}, SD ${formatNumber(variable.numeric.sd)}, median ${formatNumber(variable.numeric.median)} (IQR ${formatNumber(variable.numeric.iqr)}), range ${formatNumber(variable.numeric.min)} to ${formatNumber(variable.numeric.max)}`
+                : variable.frequencies
+                  ? variable.frequencies.map(row => `${row.level}: ${row.count}`).join(", ")
+                  : "-"}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+interface DescriptiveTableProps {
+  results: DescriptiveResults
+}
+
+/**
+ * Results of a descriptive analysis: Table 1, the variable overview and any warnings
+ */
+export function DescriptiveTable({ results }: DescriptiveTableProps) {
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h3 className="text-lg font-semibold">
+          Table 1{results.groupBy ? ` by ${results.groupBy}` : ""}
+        </h3>
+        <TableOneView table={results.tableOne} />
+      </div>
+      <div className="space-y-2">
+        <h3 className="text-lg font-semibold">Variables</h3>
+        <VariableOverview variables={results.variables} />
+      </div>
+      {(results.warnings.length > 0 || results.rowErrors.length > 0) && (
+        <ul className="list-disc pl-5 text-sm text-muted-foreground">
+          {results.warnings.map(warning => (
+            <li key={warning}>{warning}</li>
+          ))}
+          {results.rowErrors.map(error => (
+            <li key={`${error.row}-${error.column}`}>
+              Row {error.row}{error.column ? `, ${error.column}` : ""}: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import { Progress } from "@/components/ui/progress"
+import type { ProgressState } from "@/hooks/use-progress-stream"
+
+interface AnalysisProgressProps {
+  progress: Pick<ProgressState, "stage" | "percent" | "message" | "logs">
+  // Log lines shown under the bar
+  maxLogLines?: number
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  queued: "Queued",
+  validating: "Validating data",
+  running: "Starting",
+  loading_data: "Loading dataset",
+  analyzing: "Analyzing",
+  computing: "Computing",
+  running_r: "Running R",
+  uploading: "Uploading",
+  processing: "Processing",
+  saving: "Saving results",
+}
+
+export function AnalysisProgress({ progress, maxLogLines = 5 }: AnalysisProgressProps) {
+  const label = progress.stage ? STAGE_LABELS[progress.stage] ?? progress.stage : "Connecting"
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span>
+          {label}
+          {progress.message && <span className="text-muted-foreground"> — {progress.message}</span>}
+        </span>
+        {progress.percent !== null && <span>{Math.round(progress.percent)}%</span>}
+      </div>
+      <Progress value={progress.percent ?? 0} className="h-2" />
+      {progress.logs.length > 0 && (
+        <pre className="max-h-32 overflow-y-auto rounded bg-muted p-2 text-xs text-muted-foreground whitespace-pre-wrap">
+          {progress.logs.slice(-maxLogLines).join("\n")}
+        </pre>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Card } from "@/components/ui/card"
+import type { StudyInfluence } from "@/lib/services/meta-analysis"
+
+interface BaujatPlotProps {
+  studies: StudyInfluence[]
+}
+
+export function BaujatPlot({ studies }: BaujatPlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    if (!canvasRef.current) return
+
+    const canvas = canvasRef.current
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    // Set canvas dimensions
+    const width = canvas.clientWidth
+    const height = 400
+    canvas.width = width
+    canvas.height = height
+
+    ctx.clearRect(0, 0, width, height)
+    ctx.font = "12px sans-serif"
+    ctx.textBaseline = "middle"
+
+    const margin = { top: 20, right: 30, bottom: 50, left: 70 }
+    const plotWidth = width - margin.left - margin.right
+    const plotHeight = height - margin.top - margin.bottom
+
+    // Both axes start at zero
+    const maxX = Math.max(...studies.map(study => study.baujat.x)) * 1.1 || 1
+    const maxY = Math.max(...studies.map(study => study.baujat.y)) * 1.1 || 1
+
+    const toX = (x: number) => margin.left + (x / maxX) * plotWidth
+    const toY = (y: number) => margin.top + (1 - y / maxY) * plotHeight
+
+    // Draw axes
+    ctx.beginPath()
+    ctx.moveTo(margin.left, margin.top)
+    ctx.lineTo(margin.left, height - margin.bottom)
+    ctx.lineTo(width - margin.right, height - margin.bottom)
+    ctx.strokeStyle = "#000"
+    ctx.stroke()
+
+    // Studies, labelled, with influential ones in red
+    ctx.textAlign = "left"
+    studies.forEach(study => {
+      const x = toX(study.baujat.x)
+      const y = toY(study.baujat.y)
+      const color = study.flags.influential ? "#dc2626" : "#000"
+
+      ctx.beginPath()
+      ctx.arc(x, y, 4, 0, Math.PI * 2)
+      ctx.fillStyle = color
+      ctx.fill()
+      ctx.fillText(study.studyLabel, x + 6, y - 6)
+    })
+
+    // Scale markers
+    ctx.fillStyle = "#000"
+    for (let i = 0; i <= 5; i++) {
+      const xValue = (maxX * i) / 5
+      const x = toX(xValue)
+      ctx.beginPath()
+      ctx.moveTo(x, height - margin.bottom)
+      ctx.lineTo(x, height - margin.bottom + 5)
+      ctx.stroke()
+      ctx.textAlign = "center"
+      ctx.fillText(xValue.toFixed(1), x, height - margin.bottom + 15)
+
+      const yValue = (maxY * i) / 5
+      const y = toY(yValue)
+      ctx.beginPath()
+      ctx.moveTo(margin.left - 5, y)
+      ctx.lineTo(margin.left, y)
+      ctx.stroke()
+      ctx.textAlign = "right"
+      ctx.fillText(yValue.toFixed(2), margin.left - 8, y)
+    }
+
+    // Axis labels
+    ctx.textAlign = "center"
+    ctx.fillText("Contribution to overall heterogeneity", margin.left + plotWidth / 2, height - 10)
+    ctx.save()
+    ctx.translate(15, margin.top + plotHeight / 2)
+    ctx.rotate(-Math.PI / 2)
+    ctx.fillText("Influence on overall result", 0, 0)
+    ctx.restore()
+  }, [studies])
+
+  return (
+    <Card className="p-4">
+      <canvas
+        ref={canvasRef}
+        className="w-full"
+        style={{ minHeight: "400px" }}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,291 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AnalysisProgress } from "./analysis-progress"
+import { createProgressId, useProgressStream } from "@/hooks/use-progress-stream"
+import { Study } from "@/types/meta-analysis"
+import type {
+  BayesianParameters,
+  BayesianResults,
+  BenefitDirection,
+  TauPrior,
+  TauPriorType,
+} from "@/lib/services/meta-analysis"
+
+// Everything the component chooses; the page supplies the effect measure
+export type BayesianSettings = Omit<BayesianParameters, "effectMeasure">
+
+// Starting values for each prior. The Turner default is the general log-normal prior for
+// tau² across all outcome and intervention types (Turner et al., 2012); the Rhodes prior
+// should be taken from the published table for the outcome and comparison.
+const PRIOR_DEFAULTS: Record<TauPriorType, { location: string; scale: string }> = {
+  half_normal: { location: "", scale: "0.5" },
+  half_cauchy: { location: "", scale: "0.5" },
+  turner: { location: "-2.56", scale: "1.74" },
+  rhodes: { location: "", scale: "" },
+}
+
+const PRIOR_LABELS: Record<TauPriorType, string> = {
+  half_normal: "Half-normal",
+  half_cauchy: "Half-Cauchy",
+  turner: "Turner (log-normal on τ²)",
+  rhodes: "Rhodes (log-t on τ²)",
+}
+
+interface BayesianAnalysisProps {
+  studies: Study[]
+  effectMeasure: string
+  onRunAnalysis: (settings: BayesianSettings, progressId: string) => Promise<BayesianResults>
+}
+
+function formatInterval(median: number, lower: number, upper: number) {
+  return `${median.toFixed(3)} [${lower.toFixed(3)}, ${upper.toFixed(3)}]`
+}
+
+export function BayesianAnalysis({ studies, effectMeasure, onRunAnalysis }: BayesianAnalysisProps) {
+  const [priorType, setPriorType] = useState<TauPriorType>("half_normal")
+  const [priorLocation, setPriorLocation] = useState(PRIOR_DEFAULTS.half_normal.location)
+  const [priorScale, setPriorScale] = useState(PRIOR_DEFAULTS.half_normal.scale)
+  const [muPriorSd, setMuPriorSd] = useState("10")
+  const [threshold, setThreshold] = useState("")
+  const [benefit, setBenefit] = useState<BenefitDirection>("above")
+  const [results, setResults] = useState<BayesianResults | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const progress = useProgressStream()
+
+  const empirical = priorType === "turner" || priorType === "rhodes"
+
+  const handlePriorTypeChange = (value: string) => {
+    const type = value as TauPriorType
+    setPriorType(type)
+    setPriorLocation(PRIOR_DEFAULTS[type].location)
+    setPriorScale(PRIOR_DEFAULTS[type].scale)
+  }
+
+  const handleRunAnalysis = async () => {
+    const scale = Number(priorScale)
+    const location = Number(priorLocation)
+    const sd = Number(muPriorSd)
+    if (!(scale > 0)) {
+      setError("The prior scale must be a positive number")
+      return
+    }
+    if (empirical && (priorLocation.trim() === "" || !Number.isFinite(location))) {
+      setError("Enter the prior location for τ²")
+      return
+    }
+    if (!(sd > 0)) {
+      setError("The prior SD for the mean effect must be a positive number")
+      return
+    }
+    if (threshold.trim() !== "" && !Number.isFinite(Number(threshold))) {
+      setError("The threshold must be a number")
+      return
+    }
+
+    const tauPrior: TauPrior = priorType === "turner" || priorType === "rhodes"
+      ? { type: priorType, location, scale }
+      : { type: priorType, scale }
+
+    setLoading(true)
+    setError(null)
+
+    const progressId = createProgressId()
+    progress.start(`/api/progress/${progressId}`)
+
+    try {
+      const bayesianResults = await onRunAnalysis({
+        tauPrior,
+        muPrior: { mean: 0, sd },
+        benefit,
+        ...(threshold.trim() !== "" ? { threshold: Number(threshold) } : {}),
+      }, progressId)
+      setResults(bayesianResults)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred during analysis")
+    } finally {
+      progress.stop()
+      setLoading(false)
+    }
+  }
+
+  const level = results ? Math.round(results.credibleLevel * 100) : 95
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold mb-4">Bayesian Random-Effects Meta-Analysis</h3>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="space-y-1">
+              <Label>Prior for τ</Label>
+              <Select value={priorType} onValueChange={handlePriorTypeChange}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PRIOR_LABELS) as TauPriorType[]).map(type => (
+                    <SelectItem key={type} value={type}>
+                      {PRIOR_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {empirical && (
+              <div className="space-y-1">
+                <Label htmlFor="prior-location">Location (log τ²)</Label>
+                <Input
+                  id="prior-location"
+                  type="number"
+                  step="0.01"
+                  className="w-[120px]"
+                  value={priorLocation}
+                  onChange={event => setPriorLocation(event.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label htmlFor="prior-scale">{empirical ? "Scale (log τ²)" : "Scale"}</Label>
+              <Input
+                id="prior-scale"
+                type="number"
+                min="0"
+                step="0.01"
+                className="w-[120px]"
+                value={priorScale}
+                onChange={event => setPriorScale(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="mu-prior-sd">Prior SD for the mean effect</Label>
+              <Input
+                id="mu-prior-sd"
+                type="number"
+                min="0"
+                step="1"
+                className="w-[120px]"
+                value={muPriorSd}
+                onChange={event => setMuPriorSd(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="benefit-threshold">Threshold ({effectMeasure})</Label>
+              <Input
+                id="benefit-threshold"
+                type="number"
+                step="0.01"
+                placeholder="Null effect"
+                className="w-[140px]"
+                value={threshold}
+                onChange={event => setThreshold(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label>Benefit is an effect</Label>
+              <Select value={benefit} onValueChange={value => setBenefit(value as BenefitDirection)}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="above">Above the threshold</SelectItem>
+                  <SelectItem value="below">Below the threshold</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button onClick={handleRunAnalysis} disabled={loading || studies.length === 0}>
+              {loading ? "Running Analysis..." : "Run Analysis"}
+            </Button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-500">{error}</p>
+          )}
+
+          {loading && <AnalysisProgress progress={progress} />}
+
+          {results && (
+            <div className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Parameter</TableHead>
+                    <TableHead>Median [{level}% CrI]</TableHead>
+                    <TableHead>Posterior mean (SD)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell>Mean effect ({results.effectMeasure})</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatInterval(results.mu.median, results.mu.lower, results.mu.upper)}
+                    </TableCell>
+                    <TableCell>{results.mu.mean.toFixed(3)} ({results.mu.sd.toFixed(3)})</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Between-study SD (τ)</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatInterval(results.tau.median, results.tau.lower, results.tau.upper)}
+                    </TableCell>
+                    <TableCell>{results.tau.mean.toFixed(3)} ({results.tau.sd.toFixed(3)})</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Effect in a new study</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatInterval(results.predictive.median, results.predictive.lower, results.predictive.upper)}
+                    </TableCell>
+                    <TableCell>-</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-muted-foreground">
+                    P(mean effect {results.probability.benefit === "above" ? ">" : "<"} {results.probability.threshold}):{" "}
+                  </span>
+                  <span>{results.probability.mu.toFixed(3)}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">
+                    P(new study {results.probability.benefit === "above" ? ">" : "<"} {results.probability.threshold}):{" "}
+                  </span>
+                  <span>{results.probability.predictive.toFixed(3)}</span>
+                </div>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Posterior means and SDs of the mean effect are on the analysis scale; medians and intervals
+                are on the reporting scale.
+              </p>
+
+              {results.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                  {results.warnings.map(warning => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Card } from "@/components/ui/card"
+import type { BubblePlotData } from "@/lib/services/meta-analysis"
+
+interface BubblePlotProps {
+  data: BubblePlotData
+  // Label of the effect axis, e.g. "log OR"
+  effectLabel: string
+}
+
+export function BubblePlot({ data, effectLabel }: BubblePlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    if (!canvasRef.current) return
+
+    const canvas = canvasRef.current
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    // Set canvas dimensions
+    const width = canvas.clientWidth
+    const height = 400
+    canvas.width = width
+    canvas.height = height
+
+    ctx.clearRect(0, 0, width, height)
+    ctx.font = "12px sans-serif"
+    ctx.textBaseline = "middle"
+
+    const margin = { top: 20, right: 30, bottom: 50, left: 70 }
+    const plotWidth = width - margin.left - margin.right
+    const plotHeight = height - margin.top - margin.bottom
+
+    // Scales cover the studies and the confidence band
+    const xs = data.points.map(point => point.x)
+    const ys = [
+      ...data.points.map(point => point.y),
+      ...data.line.map(point => point.ciLower),
+      ...data.line.map(point => point.ciUpper),
+    ]
+    const minX = Math.min(...xs)
+    const maxX = Math.max(...xs)
+    const xPadding = (maxX - minX || 1) * 0.05
+    const minY = Math.min(...ys)
+    const maxY = Math.max(...ys)
+    const yPadding = (maxY - minY || 1) * 0.05
+
+    const toX = (x: number) => margin.left + ((x - minX + xPadding) / (maxX - minX + 2 * xPadding)) * plotWidth
+    const toY = (y: number) => margin.top + (1 - (y - minY + yPadding) / (maxY - minY + 2 * yPadding)) * plotHeight
+
+    // Draw axes
+    ctx.beginPath()
+    ctx.moveTo(margin.left, margin.top)
+    ctx.lineTo(margin.left, height - margin.bottom)
+    ctx.lineTo(width - margin.right, height - margin.bottom)
+    ctx.strokeStyle = "#000"
+    ctx.stroke()
+
+    // Confidence band
+    ctx.beginPath()
+    data.line.forEach((point, i) => {
+      if (i === 0) ctx.moveTo(toX(point.x), toY(point.ciUpper))
+      else ctx.lineTo(toX(point.x), toY(point.ciUpper))
+    })
+    ;[...data.line].reverse().forEach(point => ctx.lineTo(toX(point.x), toY(point.ciLower)))
+    ctx.closePath()
+    ctx.fillStyle = "rgba(59, 130, 246, 0.15)"
+    ctx.fill()
+
+    // Regression line
+    ctx.beginPath()
+    data.line.forEach((point, i) => {
+      if (i === 0) ctx.moveTo(toX(point.x), toY(point.fitted))
+      else ctx.lineTo(toX(point.x), toY(point.fitted))
+    })
+    ctx.strokeStyle = "#2563eb"
+    ctx.lineWidth = 2
+    ctx.stroke()
+    ctx.lineWidth = 1
+
+    // Studies, with area proportional to their weight
+    const maxWeight = Math.max(...data.points.map(point => point.weight))
+    data.points.forEach(point => {
+      const radius = 3 + 12 * Math.sqrt(point.weight / maxWeight)
+      ctx.beginPath()
+      ctx.arc(toX(point.x), toY(point.y), radius, 0, Math.PI * 2)
+      ctx.fillStyle = "rgba(0, 0, 0, 0.25)"
+      ctx.fill()
+      ctx.strokeStyle = "#000"
+      ctx.stroke()
+    })
+
+    // Scale markers
+    ctx.fillStyle = "#000"
+    for (let i = 0; i <= 5; i++) {
+      const value = minX + ((maxX - minX) * i) / 5
+      const x = toX(value)
+      ctx.beginPath()
+      ctx.moveTo(x, height - margin.bottom)
+      ctx.lineTo(x, height - margin.bottom + 5)
+      ctx.stroke()
+      ctx.textAlign = "center"
+      ctx.fillText(Number.isInteger(value) ? String(value) : value.toFixed(2), x, height - margin.bottom + 15)
+
+      const yValue = minY + ((maxY - minY) * i) / 5
+      const y = toY(yValue)
+      ctx.beginPath()
+      ctx.moveTo(margin.left - 5, y)
+      ctx.lineTo(margin.left, y)
+      ctx.stroke()
+      ctx.textAlign = "right"
+      ctx.fillText(yValue.toFixed(2), margin.left - 8, y)
+    }
+
+    // Axis labels
+    ctx.textAlign = "center"
+    ctx.fillText(data.moderator, margin.left + plotWidth / 2, height - 10)
+    ctx.save()
+    ctx.translate(15, margin.top + plotHeight / 2)
+    ctx.rotate(-Math.PI / 2)
+    ctx.fillText(effectLabel, 0, 0)
+    ctx.restore()
+  }, [data, effectLabel])
+
+  return (
+    <Card className="p-4">
+      <canvas
+        ref={canvasRef}
+        className="w-full"
+        style={{ minHeight: "400px" }}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Card } from "@/components/ui/card"
+import { isRatioMeasure } from "@/lib/stats/meta-analysis"
+import type { CumulativeStep } from "@/lib/services/meta-analysis"
+
+interface CumulativeForestPlotProps {
+  steps: CumulativeStep[]
+  effectMeasure: string
+}
+
+const ROW_HEIGHT = 30
+
+export function CumulativeForestPlot({ steps, effectMeasure }: CumulativeForestPlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    if (!canvasRef.current) return
+
+    const canvas = canvasRef.current
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    // Set canvas dimensions
+    const width = canvas.clientWidth
+    const height = Math.max(400, steps.length * ROW_HEIGHT + 80)
+    canvas.width = width
+    canvas.height = height
+
+    ctx.clearRect(0, 0, width, height)
+    ctx.font = "12px sans-serif"
+    ctx.textAlign = "left"
+    ctx.textBaseline = "middle"
+
+    const margin = { top: 20, right: 40, bottom: 50, left: 220 }
+    const plotWidth = width - margin.left - margin.right
+
+    // Ratio measures have their null at 1
+    const nullValue = isRatioMeasure(effectMeasure) ? 1 : 0
+    const allValues = [...steps.map(s => s.ciLower), ...steps.map(s => s.ciUpper), nullValue]
+    const minValue = Math.min(...allValues)
+    const maxValue = Math.max(...allValues)
+    const padding = (maxValue - minValue || 1) * 0.1
+    const toX = (value: number) => margin.left + ((value - minValue + padding) / (maxValue - minValue + 2 * padding)) * plotWidth
+
+    // Draw axes
+    ctx.beginPath()
+    ctx.moveTo(margin.left, margin.top)
+    ctx.lineTo(margin.left, height - margin.bottom)
+    ctx.lineTo(width - margin.right, height - margin.bottom)
+    ctx.strokeStyle = "#000"
+    ctx.stroke()
+
+    // Line of no effect
+    ctx.beginPath()
+    ctx.moveTo(toX(nullValue), margin.top)
+    ctx.lineTo(toX(nullValue), height - margin.bottom)
+    ctx.strokeStyle = "#666"
+    ctx.setLineDash([5, 5])
+    ctx.stroke()
+    ctx.setLineDash([])
+
+    // One row per step: the pooled estimate after adding that study
+    steps.forEach((step, i) => {
+      const y = margin.top + i * ROW_HEIGHT + ROW_HEIGHT / 2
+      const last = i === steps.length - 1
+
+      ctx.beginPath()
+      ctx.moveTo(toX(step.ciLower), y)
+      ctx.lineTo(toX(step.ciUpper), y)
+      ctx.strokeStyle = "#000"
+      ctx.stroke()
+
+      // The final step is the full meta-analysis, drawn as a diamond
+      ctx.beginPath()
+      if (last) {
+        ctx.moveTo(toX(step.ciLower), y)
+        ctx.lineTo(toX(step.estimate), y - 7)
+        ctx.lineTo(toX(step.ciUpper), y)
+        ctx.lineTo(toX(step.estimate), y + 7)
+        ctx.closePath()
+      } else {
+        ctx.rect(toX(step.estimate) - 4, y - 4, 8, 8)
+      }
+      ctx.fillStyle = "#000"
+      ctx.fill()
+
+      const orderValue = step.orderValue === null
+        ? ""
+        : ` (${typeof step.orderValue === "number" && !Number.isInteger(step.orderValue) ? step.orderValue.toFixed(2) : step.orderValue})`
+      ctx.textAlign = "left"
+      ctx.fillText(`+ ${step.studyLabel}${orderValue}`, 10, y)
+    })
+
+    // Scale markers
+    ctx.textAlign = "center"
+    for (let i = 0; i <= 5; i++) {
+      const value = minValue + ((maxValue - minValue) * i) / 5
+      const x = toX(value)
+      ctx.beginPath()
+      ctx.moveTo(x, height - margin.bottom)
+      ctx.lineTo(x, height - margin.bottom + 5)
+      ctx.stroke()
+      ctx.fillText(value.toFixed(2), x, height - margin.bottom + 20)
+    }
+    ctx.fillText(effectMeasure, margin.left + plotWidth / 2, height - 10)
+  }, [steps, effectMeasure])
+
+  return (
+    <Card className="p-4">
+      <canvas
+        ref={canvasRef}
+        className="w-full"
+        style={{ minHeight: "400px" }}
+      />
+    </Card>
+  )
+}
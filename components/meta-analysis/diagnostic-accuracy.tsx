@@ -0,0 +1,170 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { PairedForestPlot } from "./paired-forest-plot"
+import { SrocPlot } from "./sroc-plot"
+import { AnalysisProgress } from "./analysis-progress"
+import { createProgressId, useProgressStream } from "@/hooks/use-progress-stream"
+import { Study } from "@/types/meta-analysis"
+import type { DiagnosticEstimate, DiagnosticParameters, DiagnosticResults } from "@/lib/services/meta-analysis"
+
+export type DiagnosticSettings = DiagnosticParameters
+
+interface DiagnosticAccuracyProps {
+  studies: Study[]
+  onRunAnalysis: (settings: DiagnosticSettings, progressId: string) => Promise<DiagnosticResults>
+}
+
+function formatEstimate(estimate: DiagnosticEstimate, digits = 3) {
+  return `${estimate.estimate.toFixed(digits)} [${estimate.ciLower.toFixed(digits)}, ${estimate.ciUpper.toFixed(digits)}]`
+}
+
+export function DiagnosticAccuracy({ studies, onRunAnalysis }: DiagnosticAccuracyProps) {
+  const [continuityCorrection, setContinuityCorrection] = useState("0.5")
+  const [results, setResults] = useState<DiagnosticResults | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const progress = useProgressStream()
+
+  const hasCounts = studies.some(study => ["tp", "fp", "fn", "tn"].every(field => study[field] !== undefined))
+
+  const handleRunAnalysis = async () => {
+    if (!hasCounts) {
+      setError("The data needs TP, FP, FN and TN columns")
+      return
+    }
+
+    const correction = Number(continuityCorrection)
+    if (!Number.isFinite(correction) || correction <= 0) {
+      setError("The continuity correction must be a positive number")
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    const progressId = createProgressId()
+    progress.start(`/api/progress/${progressId}`)
+
+    try {
+      const diagnosticResults = await onRunAnalysis({ continuityCorrection: correction }, progressId)
+      setResults(diagnosticResults)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred during analysis")
+    } finally {
+      progress.stop()
+      setLoading(false)
+    }
+  }
+
+  const summaryRows = results
+    ? [
+        { label: "Sensitivity", estimate: results.summary.sensitivity },
+        { label: "Specificity", estimate: results.summary.specificity },
+        { label: "Diagnostic odds ratio", estimate: results.summary.diagnosticOddsRatio },
+        { label: "Positive likelihood ratio", estimate: results.summary.positiveLikelihoodRatio },
+        { label: "Negative likelihood ratio", estimate: results.summary.negativeLikelihoodRatio },
+      ]
+    : []
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold mb-4">Diagnostic Test Accuracy</h3>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="continuity-correction">Continuity correction</Label>
+              <Input
+                id="continuity-correction"
+                type="number"
+                min="0"
+                step="0.1"
+                className="w-[140px]"
+                value={continuityCorrection}
+                onChange={event => setContinuityCorrection(event.target.value)}
+              />
+            </div>
+
+            <Button onClick={handleRunAnalysis} disabled={loading || studies.length === 0}>
+              {loading ? "Running Analysis..." : "Run Analysis"}
+            </Button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-500">{error}</p>
+          )}
+
+          {loading && <AnalysisProgress progress={progress} />}
+
+          {results && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Studies: </span>
+                  <span>{results.k}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">τ² (logit sensitivity): </span>
+                  <span>{results.heterogeneity.tauSquaredSensitivity.toFixed(4)}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">τ² (logit specificity): </span>
+                  <span>{results.heterogeneity.tauSquaredSpecificity.toFixed(4)}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Correlation: </span>
+                  <span>{results.heterogeneity.correlation.toFixed(3)}</span>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Summary measure</TableHead>
+                    <TableHead>Estimate [95% CI]</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summaryRows.map(row => (
+                    <TableRow key={row.label}>
+                      <TableCell>{row.label}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatEstimate(row.estimate)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Paired Forest Plot</h4>
+                <PairedForestPlot studies={results.studies} summary={results.summary} />
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Summary ROC</h4>
+                <p className="text-sm text-muted-foreground mb-2">
+                  AUC = {results.sroc.auc.toFixed(3)}
+                </p>
+                <SrocPlot results={results} />
+              </div>
+
+              {results.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                  {results.warnings.map(warning => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  )
+}
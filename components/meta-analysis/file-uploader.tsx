@@ -4,26 +4,95 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Upload, AlertCircle } from "lucide-react"
-import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Study } from "@/types/meta-analysis"
+import type { ColumnMapping, IngestionError, StudyField } from "@/lib/ingestion"
 
 interface FileUploaderProps {
   onUpload: (studies: Study[]) => void
+  effectMeasure?: string
 }
 
-export function FileUploader({ onUpload }: FileUploaderProps) {
+interface DetectedLayout {
+  headers: string[]
+  preview: Record<string, unknown>[]
+  rowCount: number
+}
+
+const NOT_MAPPED = "__not_mapped__"
+
+const FIELD_LABELS: Record<StudyField, string> = {
+  study_id: "Study ID",
+  study_label: "Study label",
+  cluster_id: "Cluster ID",
+  author: "Author",
+  year: "Year",
+  effect_size: "Effect size",
+  se: "Standard error",
+  ci_lower: "CI lower",
+  ci_upper: "CI upper",
+  p_value: "P-value",
+  t_statistic: "t statistic",
+  sample_size: "Total sample size",
+  n_treatment: "N (treatment)",
+  n_control: "N (control)",
+  mean_treatment: "Mean (treatment)",
+  sd_treatment: "SD (treatment)",
+  mean_control: "Mean (control)",
+  sd_control: "SD (control)",
+  events_treatment: "Events (treatment)",
+  events_control: "Events (control)",
+  events: "Events (single arm)",
+  correlation: "Correlation (r)",
+  tp: "True positives",
+  fp: "False positives",
+  fn: "False negatives",
+  tn: "True negatives",
+}
+
+const MAX_ERRORS_SHOWN = 10
+
+export function FileUploader({ onUpload, effectMeasure = "SMD" }: FileUploaderProps) {
   const [file, setFile] = useState<File | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
+  const [layout, setLayout] = useState<DetectedLayout | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({ fields: {}, moderators: [] })
+  const [rowErrors, setRowErrors] = useState<IngestionError[]>([])
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       setFile(e.target.files[0])
       setError(null)
+      setLayout(null)
+      setRowErrors([])
     }
   }
 
+  const postFile = async (columnMapping?: ColumnMapping) => {
+    const formData = new FormData()
+    formData.append("file", file as File)
+    formData.append("effectMeasure", effectMeasure)
+    if (columnMapping) {
+      formData.append("mapping", JSON.stringify(columnMapping))
+    }
+
+    const response = await fetch("/api/meta-analysis/ingest", {
+      method: "POST",
+      body: formData,
+    })
+    const data = await response.json()
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.message || "Failed to read the file")
+    }
+    return data
+  }
+
   const handleUpload = async () => {
     if (!file) {
       setError("Please select a file to upload")
@@ -34,41 +103,9 @@ export function FileUploader({ onUpload }: FileUploaderProps) {
     setError(null)
 
     try {
-      // Mock data for demonstration
-      const mockData: Study[] = [
-        { 
-          study_id: "S001", 
-          study_label: "Smith et al. (2018)", 
-          effect_size: 1.5, 
-          se: 0.3, 
-          weight: 15,
-          year: 2018,
-          author: "Smith"
-        },
-        { 
-          study_id: "S002", 
-          study_label: "Johnson et al. (2019)", 
-          effect_size: 2.1, 
-          se: 0.4, 
-          weight: 18,
-          year: 2019,
-          author: "Johnson"
-        },
-        { 
-          study_id: "S003", 
-          study_label: "Williams et al. (2020)", 
-          effect_size: 0.8, 
-          se: 0.25, 
-          weight: 20,
-          year: 2020,
-          author: "Williams"
-        }
-      ]
-      
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      onUpload(mockData)
+      const data = await postFile()
+      setLayout({ headers: data.headers, preview: data.preview, rowCount: data.rowCount })
+      setMapping(data.suggestedMapping)
     } catch (err: any) {
       setError(err.message || "An error occurred while uploading the file")
     } finally {
@@ -76,6 +113,50 @@ export function FileUploader({ onUpload }: FileUploaderProps) {
     }
   }
 
+  const handleImport = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const data = await postFile(mapping)
+      setRowErrors(data.errors)
+
+      if (data.studies.length === 0) {
+        setError("No valid studies were found with this column mapping")
+        return
+      }
+      onUpload(data.studies)
+    } catch (err: any) {
+      setError(err.message || "An error occurred while importing the studies")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const setFieldColumn = (field: StudyField, column: string) => {
+    setMapping(prev => {
+      const fields = { ...prev.fields }
+      if (column === NOT_MAPPED) {
+        delete fields[field]
+      } else {
+        fields[field] = column
+      }
+      const mapped = new Set(Object.values(fields))
+      return { fields, moderators: prev.moderators.filter(moderator => !mapped.has(moderator)) }
+    })
+  }
+
+  const toggleModerator = (column: string, checked: boolean) => {
+    setMapping(prev => ({
+      ...prev,
+      moderators: checked
+        ? [...prev.moderators, column]
+        : prev.moderators.filter(moderator => moderator !== column),
+    }))
+  }
+
+  const mappedColumns = new Set(Object.values(mapping.fields))
+
   return (
     <div className="space-y-4">
       <div className="grid w-full max-w-sm items-center gap-1.5">
@@ -83,7 +164,7 @@ export function FileUploader({ onUpload }: FileUploaderProps) {
         <Input
           id="file"
           type="file"
-          accept=".csv,.xlsx,.json"
+          accept=".csv,.tsv,.xlsx,.xls,.json"
           onChange={handleFileChange}
           disabled={loading}
         />
@@ -96,25 +177,126 @@ export function FileUploader({ onUpload }: FileUploaderProps) {
         </Alert>
       )}
 
-      <Button 
-        onClick={handleUpload} 
-        disabled={!file || loading}
-        className="flex items-center gap-2"
-      >
-        {loading ? (
-          <>Processing...</>
-        ) : (
-          <>
-            <Upload className="h-4 w-4" />
-            Upload
-          </>
-        )}
-      </Button>
+      {!layout && (
+        <Button
+          onClick={handleUpload}
+          disabled={!file || loading}
+          className="flex items-center gap-2"
+        >
+          {loading ? (
+            <>Processing...</>
+          ) : (
+            <>
+              <Upload className="h-4 w-4" />
+              Upload
+            </>
+          )}
+        </Button>
+      )}
+
+      {layout && (
+        <div className="space-y-4">
+          <div>
+            <h4 className="text-sm font-medium">Map Columns</h4>
+            <p className="text-sm text-muted-foreground">
+              {layout.rowCount} rows detected. Match your columns to study fields; provide either an
+              effect size with its standard error, CI or p-value, or the raw arm-level summaries.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {(Object.keys(FIELD_LABELS) as StudyField[]).map(field => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`mapping-${field}`}>{FIELD_LABELS[field]}</Label>
+                <Select
+                  value={mapping.fields[field] ?? NOT_MAPPED}
+                  onValueChange={(value) => setFieldColumn(field, value)}
+                >
+                  <SelectTrigger id={`mapping-${field}`}>
+                    <SelectValue placeholder="Not mapped" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                    {layout.headers.map(header => (
+                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {layout.headers.some(header => !mappedColumns.has(header)) && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Moderators</h4>
+              <div className="flex flex-wrap gap-4">
+                {layout.headers.filter(header => !mappedColumns.has(header)).map(header => (
+                  <div key={header} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`moderator-${header}`}
+                      checked={mapping.moderators.includes(header)}
+                      onCheckedChange={(checked) => toggleModerator(header, checked === true)}
+                    />
+                    <Label htmlFor={`moderator-${header}`}>{header}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {layout.headers.map(header => (
+                    <TableHead key={header}>{header}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {layout.preview.map((row, index) => (
+                  <TableRow key={index}>
+                    {layout.headers.map(header => (
+                      <TableCell key={header}>{String(row[header] ?? "")}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {rowErrors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>{rowErrors.length} row(s) could not be imported</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {rowErrors.slice(0, MAX_ERRORS_SHOWN).map((rowError, index) => (
+                    <li key={index}>
+                      {rowError.row > 0 ? `Row ${rowError.row}` : "File"}
+                      {rowError.column ? ` (${rowError.column})` : ""}: {rowError.message}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex gap-2">
+            <Button onClick={handleImport} disabled={loading} className="flex items-center gap-2">
+              {loading ? <>Importing...</> : <>Import Studies</>}
+            </Button>
+            <Button variant="outline" onClick={() => setLayout(null)} disabled={loading}>
+              Choose Another File
+            </Button>
+          </div>
+        </div>
+      )}
 
       <div className="text-sm text-muted-foreground">
-        <p>Supported formats: CSV, Excel, JSON</p>
-        <p>Required columns: study_id, study_label, effect_size, se</p>
+        <p>Supported formats: CSV, TSV, Excel, JSON</p>
+        <p>Columns are matched to study fields in the next step</p>
       </div>
     </div>
   )
-} 
\ No newline at end of file
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useRef } from "react"
 import { Card } from "@/components/ui/card"
+import { isProportionMeasure } from "@/lib/stats/proportions"
 
 interface Study {
   study_id: string
@@ -54,10 +55,18 @@ export default function ForestPlot({ studies, overallEffect, effectMeasure }: Fo
     const plotWidth = width - margin.left - margin.right
     const plotHeight = height - margin.top - margin.bottom
 
+    // Proportions are drawn as percentages with their back-transformed intervals, since
+    // se is on the transformed scale
+    const proportion = isProportionMeasure(effectMeasure)
+    const interval = (study: Study): [number, number] =>
+      proportion && typeof study.ci_lower === "number" && typeof study.ci_upper === "number"
+        ? [study.ci_lower, study.ci_upper]
+        : [study.effect_size - 1.96 * study.se, study.effect_size + 1.96 * study.se]
+
     // Calculate scale
     const allValues = [
-      ...studies.map(s => s.effect_size - 1.96 * s.se),
-      ...studies.map(s => s.effect_size + 1.96 * s.se),
+      ...studies.map(s => interval(s)[0]),
+      ...studies.map(s => interval(s)[1]),
       overallEffect.ci_lower,
       overallEffect.ci_upper
     ]
@@ -74,22 +83,25 @@ export default function ForestPlot({ studies, overallEffect, effectMeasure }: Fo
     ctx.strokeStyle = "#000"
     ctx.stroke()
 
-    // Draw vertical line at 0
-    const zeroX = margin.left + (-minValue + padding) * scale
-    ctx.beginPath()
-    ctx.moveTo(zeroX, margin.top)
-    ctx.lineTo(zeroX, height - margin.bottom)
-    ctx.strokeStyle = "#666"
-    ctx.setLineDash([5, 5])
-    ctx.stroke()
-    ctx.setLineDash([])
+    // Draw vertical line at 0; a proportion has no null value
+    if (!proportion) {
+      const zeroX = margin.left + (-minValue + padding) * scale
+      ctx.beginPath()
+      ctx.moveTo(zeroX, margin.top)
+      ctx.lineTo(zeroX, height - margin.bottom)
+      ctx.strokeStyle = "#666"
+      ctx.setLineDash([5, 5])
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
 
     // Draw study points and lines
     studies.forEach((study, i) => {
       const y = margin.top + i * 30 + 15
       const x = margin.left + (study.effect_size - minValue + padding) * scale
-      const lowerX = margin.left + (study.effect_size - 1.96 * study.se - minValue + padding) * scale
-      const upperX = margin.left + (study.effect_size + 1.96 * study.se - minValue + padding) * scale
+      const [lower, upper] = interval(study)
+      const lowerX = margin.left + (lower - minValue + padding) * scale
+      const upperX = margin.left + (upper - minValue + padding) * scale
 
       // Draw confidence interval line
       ctx.beginPath()
@@ -127,7 +139,7 @@ export default function ForestPlot({ studies, overallEffect, effectMeasure }: Fo
     // Draw axis labels
     ctx.fillStyle = "#000"
     ctx.textAlign = "center"
-    ctx.fillText(effectMeasure, width / 2, height - 10)
+    ctx.fillText(proportion ? "Proportion (%)" : effectMeasure, width / 2, height - 10)
     ctx.textAlign = "left"
     ctx.fillText("Studies", 10, height - 10)
 
@@ -140,7 +152,7 @@ export default function ForestPlot({ studies, overallEffect, effectMeasure }: Fo
       ctx.moveTo(x, height - margin.bottom)
       ctx.lineTo(x, height - margin.bottom + 5)
       ctx.stroke()
-      ctx.fillText(value.toFixed(1), x, height - margin.bottom + 20)
+      ctx.fillText(proportion ? `${(100 * value).toFixed(0)}%` : value.toFixed(1), x, height - margin.bottom + 20)
     }
   }, [studies, overallEffect, effectMeasure])
 
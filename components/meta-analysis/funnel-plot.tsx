@@ -17,9 +17,11 @@ interface Study {
 interface FunnelPlotProps {
   studies: Study[]
   effectMeasure: string
+  // Studies imputed by trim and fill, drawn as open circles
+  filledStudies?: Study[]
 }
 
-export function FunnelPlot({ studies, effectMeasure }: FunnelPlotProps) {
+export function FunnelPlot({ studies, effectMeasure, filledStudies = [] }: FunnelPlotProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
 
   useEffect(() => {
@@ -49,11 +51,12 @@ export function FunnelPlot({ studies, effectMeasure }: FunnelPlotProps) {
     const plotHeight = height - margin.top - margin.bottom
 
     // Calculate scales
-    const maxSE = Math.max(...studies.map(s => s.se))
-    const minSE = Math.min(...studies.map(s => s.se))
+    const allStudies = [...studies, ...filledStudies]
+    const maxSE = Math.max(...allStudies.map(s => s.se))
+    const minSE = Math.min(...allStudies.map(s => s.se))
     const seScale = plotHeight / (maxSE - minSE)
 
-    const allEffects = studies.map(s => s.effect_size)
+    const allEffects = allStudies.map(s => s.effect_size)
     const minEffect = Math.min(...allEffects)
     const maxEffect = Math.max(...allEffects)
     const effectPadding = (maxEffect - minEffect) * 0.1
@@ -107,6 +110,18 @@ export function FunnelPlot({ studies, effectMeasure }: FunnelPlotProps) {
       ctx.fill()
     })
 
+    filledStudies.forEach(study => {
+      const x = margin.left + (study.effect_size - minEffect + effectPadding) * effectScale
+      const y = margin.top + (study.se - minSE) * seScale
+
+      ctx.beginPath()
+      ctx.arc(x, y, 4, 0, Math.PI * 2)
+      ctx.fillStyle = "#fff"
+      ctx.fill()
+      ctx.strokeStyle = "#000"
+      ctx.stroke()
+    })
+
     // Draw axis labels
     ctx.fillStyle = "#000"
     ctx.textAlign = "center"
@@ -136,7 +151,7 @@ export function FunnelPlot({ studies, effectMeasure }: FunnelPlotProps) {
       ctx.stroke()
       ctx.fillText(value.toFixed(2), x, height - margin.bottom + 20)
     }
-  }, [studies, effectMeasure])
+  }, [studies, effectMeasure, filledStudies])
 
   return (
     <Card className="p-4">
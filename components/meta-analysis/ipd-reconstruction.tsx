@@ -0,0 +1,241 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ReconstructedKmChart } from "./reconstructed-km-chart"
+import { Study } from "@/types/meta-analysis"
+import {
+  IpdReconstructionService,
+  type AtRiskEntry,
+  type DigitizedPoint,
+  type IpdReconstructionResults,
+} from "@/lib/services/ipd-reconstruction"
+
+type SurvivalScale = "proportion" | "percent"
+
+interface ArmInput {
+  curve: string
+  atRisk: string
+  totalEvents: string
+}
+
+const EMPTY_ARM: ArmInput = { curve: "", atRisk: "", totalEvents: "" }
+
+/**
+ * Read "x, y" pairs, one per line, separated by commas, tabs or spaces as copied from a
+ * digitizer
+ */
+function parsePairs(text: string, label: string): [number, number][] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== "")
+    .map((line, i) => {
+      const values = line.split(/[\s,;]+/).map(Number)
+      if (values.length !== 2 || values.some(value => !Number.isFinite(value))) {
+        throw new Error(`${label}, line ${i + 1}: expected two numbers`)
+      }
+      return [values[0], values[1]]
+    })
+}
+
+interface ArmFieldsProps {
+  id: string
+  title: string
+  value: ArmInput
+  onChange: (value: ArmInput) => void
+}
+
+function ArmFields({ id, title, value, onChange }: ArmFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium">{title}</h4>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-curve`}>Digitized curve (time, survival)</Label>
+        <Textarea
+          id={`${id}-curve`}
+          rows={6}
+          placeholder={"0, 1\n2.5, 0.94\n4.1, 0.87"}
+          value={value.curve}
+          onChange={event => onChange({ ...value, curve: event.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-at-risk`}>Numbers at risk (time, n)</Label>
+        <Textarea
+          id={`${id}-at-risk`}
+          rows={4}
+          placeholder={"0, 120\n6, 98\n12, 71"}
+          value={value.atRisk}
+          onChange={event => onChange({ ...value, atRisk: event.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-events`}>Total events (optional)</Label>
+        <Input
+          id={`${id}-events`}
+          type="number"
+          step="1"
+          className="w-[140px]"
+          value={value.totalEvents}
+          onChange={event => onChange({ ...value, totalEvents: event.target.value })}
+        />
+      </div>
+    </div>
+  )
+}
+
+interface IpdReconstructionProps {
+  onAddStudy: (study: Study) => void
+}
+
+export function IpdReconstruction({ onAddStudy }: IpdReconstructionProps) {
+  const [studyId, setStudyId] = useState("")
+  const [studyLabel, setStudyLabel] = useState("")
+  const [year, setYear] = useState("")
+  const [scale, setScale] = useState<SurvivalScale>("proportion")
+  const [treatment, setTreatment] = useState<ArmInput>(EMPTY_ARM)
+  const [control, setControl] = useState<ArmInput>(EMPTY_ARM)
+  const [digitized, setDigitized] = useState<{ treatment: DigitizedPoint[]; control: DigitizedPoint[] } | null>(null)
+  const [results, setResults] = useState<IpdReconstructionResults | null>(null)
+  const [added, setAdded] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const readArm = (arm: ArmInput, title: string) => {
+    const divisor = scale === "percent" ? 100 : 1
+    const curve: DigitizedPoint[] = parsePairs(arm.curve, `${title} curve`)
+      .map(([time, survival]) => ({ time, survival: survival / divisor }))
+    const atRisk: AtRiskEntry[] = parsePairs(arm.atRisk, `${title} numbers at risk`)
+      .map(([time, nRisk]) => ({ time, nRisk }))
+    const totalEvents = arm.totalEvents.trim() !== "" ? Number(arm.totalEvents) : undefined
+    if (totalEvents !== undefined && !(Number.isInteger(totalEvents) && totalEvents >= 0)) {
+      throw new Error(`${title} total events must be a whole number`)
+    }
+    return { curve, atRisk, ...(totalEvents !== undefined ? { totalEvents } : {}) }
+  }
+
+  const handleReconstruct = async () => {
+    setError(null)
+    setAdded(false)
+
+    let parameters
+    try {
+      if (studyId.trim() === "" || studyLabel.trim() === "") {
+        throw new Error("Study ID and label are required")
+      }
+      parameters = {
+        studyId: studyId.trim(),
+        studyLabel: studyLabel.trim(),
+        ...(year.trim() !== "" ? { year: Number(year) } : {}),
+        treatment: readArm(treatment, "Treatment"),
+        control: readArm(control, "Control"),
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid input")
+      return
+    }
+
+    setLoading(true)
+    try {
+      setResults(await IpdReconstructionService.reconstruct(parameters))
+      setDigitized({ treatment: parameters.treatment.curve, control: parameters.control.curve })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred during the reconstruction")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAddStudy = () => {
+    if (!results) return
+    onAddStudy(results.study)
+    setAdded(true)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="ipd-study-id">Study ID</Label>
+          <Input id="ipd-study-id" className="w-[140px]" value={studyId} onChange={event => setStudyId(event.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ipd-study-label">Study label</Label>
+          <Input id="ipd-study-label" className="w-[220px]" value={studyLabel} onChange={event => setStudyLabel(event.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ipd-year">Year</Label>
+          <Input id="ipd-year" type="number" step="1" className="w-[100px]" value={year} onChange={event => setYear(event.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>Survival axis</Label>
+          <Select value={scale} onValueChange={value => setScale(value as SurvivalScale)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="proportion">0 to 1</SelectItem>
+              <SelectItem value="percent">0 to 100%</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <ArmFields id="ipd-treatment" title="Treatment arm" value={treatment} onChange={setTreatment} />
+        <ArmFields id="ipd-control" title="Control arm" value={control} onChange={setControl} />
+      </div>
+
+      <Button onClick={handleReconstruct} disabled={loading}>
+        {loading ? "Reconstructing..." : "Reconstruct"}
+      </Button>
+
+      {error && (
+        <p className="text-sm text-red-500">{error}</p>
+      )}
+
+      {results && digitized && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="text-muted-foreground">Hazard ratio: </span>
+              <span>
+                {results.hazardRatio.toFixed(2)} ({results.lower.toFixed(2)} to {results.upper.toFixed(2)})
+              </span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">log HR (SE): </span>
+              <span>{results.logHazardRatio.toFixed(4)} ({results.se.toFixed(4)})</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Log-rank p: </span>
+              <span>{results.logRank.pValue.toFixed(4)}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Events / patients: </span>
+              <span>
+                {results.treatment.events}/{results.treatment.n} vs {results.control.events}/{results.control.n}
+              </span>
+            </div>
+          </div>
+          <ReconstructedKmChart results={results} digitized={digitized} />
+          {results.warnings.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-muted-foreground">
+              {results.warnings.map(warning => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+          <Button variant="outline" onClick={handleAddStudy} disabled={added}>
+            {added ? "Added to studies" : "Add to studies"}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
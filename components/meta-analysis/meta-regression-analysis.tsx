@@ -1,116 +1,356 @@
 "use client"
 
+import { useState } from "react"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { BubblePlot } from "./bubble-plot"
+import { AnalysisProgress } from "./analysis-progress"
+import { createProgressId, useProgressStream } from "@/hooks/use-progress-stream"
+import { Study } from "@/types/meta-analysis"
+import type { MetaRegressionParameters, MetaRegressionResults } from "@/lib/services/meta-analysis"
 
-export default function MetaRegressionAnalysis() {
-  // Mock data for meta-regression
-  const regressionData = {
-    modelFit: {
-      rSquared: 0.42,
-      pValue: 0.031,
-    },
-    predictors: [
-      {
-        name: "Publication Year",
-        coefficient: -0.032,
-        standardError: 0.014,
-        pValue: 0.021,
-        ci: [-0.059, -0.005],
-      },
-      {
-        name: "Sample Size",
-        coefficient: -0.0004,
-        standardError: 0.0003,
-        pValue: 0.176,
-        ci: [-0.001, 0.0002],
-      },
-      {
-        name: "Mean Age",
-        coefficient: 0.018,
-        standardError: 0.011,
-        pValue: 0.103,
-        ci: [-0.004, 0.04],
-      },
-    ],
+// Everything the component chooses; the page supplies the effect measure and model
+export type MetaRegressionSettings = Omit<MetaRegressionParameters, "effectMeasure" | "modelType" | "method" | "ciMethod">
+
+// Columns that describe the effect size rather than the study
+const EFFECT_COLUMNS = ["study_id", "study_label", "effect_size", "se", "weight", "log_effect_size", "effect_formula"]
+
+const PERMUTATIONS = 1000
+
+interface MetaRegressionAnalysisProps {
+  studies: Study[]
+  effectMeasure: string
+  onRunRegression: (settings: MetaRegressionSettings, progressId: string) => Promise<MetaRegressionResults>
+}
+
+function formatP(p: number) {
+  return p < 0.001 ? "< 0.001" : p.toFixed(3)
+}
+
+function PValue({ value }: { value: number }) {
+  return value < 0.05
+    ? <span className="text-green-600 font-medium">{formatP(value)}</span>
+    : <span>{formatP(value)}</span>
+}
+
+export default function MetaRegressionAnalysis({ studies, effectMeasure, onRunRegression }: MetaRegressionAnalysisProps) {
+  const [moderators, setModerators] = useState<string[]>([])
+  const [categorical, setCategorical] = useState<string[]>([])
+  const [interactions, setInteractions] = useState<Array<[string, string]>>([])
+  const [interactionDraft, setInteractionDraft] = useState<[string, string]>(["", ""])
+  const [permutationTest, setPermutationTest] = useState(false)
+  const [bubbleModerator, setBubbleModerator] = useState<string>("")
+  const [results, setResults] = useState<MetaRegressionResults | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const progress = useProgressStream()
+
+  // Moderator columns present in any study
+  const columns = Array.from(new Set(studies.flatMap(study => Object.keys(study))))
+    .filter(key => !EFFECT_COLUMNS.includes(key))
+    .filter(key => studies.some(study => {
+      const value = study[key]
+      return typeof value === "number" || (typeof value === "string" && value !== "")
+    }))
+
+  const isNumericColumn = (column: string) =>
+    studies.every(study => study[column] === undefined || study[column] === null || study[column] === "" ||
+      Number.isFinite(Number(study[column])))
+
+  const toggleModerator = (column: string, checked: boolean) => {
+    setModerators(current => checked ? [...current, column] : current.filter(m => m !== column))
+    if (!checked) {
+      setCategorical(current => current.filter(m => m !== column))
+      setInteractions(current => current.filter(([a, b]) => a !== column && b !== column))
+    }
+  }
+
+  const addInteraction = () => {
+    const [a, b] = interactionDraft
+    if (!a || !b || a === b) return
+    if (interactions.some(([x, y]) => (x === a && y === b) || (x === b && y === a))) return
+    setInteractions(current => [...current, [a, b]])
+    setInteractionDraft(["", ""])
+  }
+
+  const handleRunRegression = async () => {
+    if (moderators.length === 0) {
+      setError("Please select at least one moderator")
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    const progressId = createProgressId()
+    progress.start(`/api/progress/${progressId}`)
+
+    try {
+      const regressionResults = await onRunRegression({
+        moderators,
+        categorical,
+        interactions,
+        permutations: permutationTest ? PERMUTATIONS : 0,
+      }, progressId)
+      setResults(regressionResults)
+      setBubbleModerator(regressionResults.bubble[0]?.moderator ?? "")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred during analysis")
+    } finally {
+      progress.stop()
+      setLoading(false)
+    }
   }
 
+  const bubble = results?.bubble.find(data => data.moderator === bubbleModerator)
+  const effectLabel = results?.scale === "log" ? `log ${effectMeasure}` : effectMeasure
+  const hasPermutations = results?.permutations !== undefined
+
   return (
     <div className="space-y-6">
       <Card>
-        <CardContent className="pt-6">
-          <div className="flex justify-between items-center mb-4">
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex justify-between items-center">
             <h3 className="text-lg font-medium">Meta-Regression Analysis</h3>
-            <Badge
-              variant="outline"
-              className={`${regressionData.modelFit.pValue < 0.05 ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}`}
-            >
-              Model p = {regressionData.modelFit.pValue.toFixed(3)}
-            </Badge>
+            {results && (
+              <Badge
+                variant="outline"
+                className={`${results.omnibus.pValue < 0.05 ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}`}
+              >
+                Model p = {formatP(results.omnibus.pValue)}
+              </Badge>
+            )}
           </div>
 
-          <p className="text-sm text-muted-foreground mb-4">
-            This analysis examines how study characteristics influence the effect size. The model explains{" "}
-            {(regressionData.modelFit.rSquared * 100).toFixed(1)}% of the between-study variance.
-          </p>
-
-          <div className="border rounded-md">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Predictor</TableHead>
-                  <TableHead className="text-right">Coefficient</TableHead>
-                  <TableHead className="text-right">Standard Error</TableHead>
-                  <TableHead className="text-right">95% CI</TableHead>
-                  <TableHead className="text-right">P-value</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {regressionData.predictors.map((predictor, index) => (
-                  <TableRow key={index}>
-                    <TableCell className="font-medium">{predictor.name}</TableCell>
-                    <TableCell className="text-right">{predictor.coefficient.toFixed(4)}</TableCell>
-                    <TableCell className="text-right">{predictor.standardError.toFixed(4)}</TableCell>
-                    <TableCell className="text-right">
-                      [{predictor.ci[0].toFixed(4)}, {predictor.ci[1].toFixed(4)}]
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {predictor.pValue < 0.05 ? (
-                        <span className="text-green-600 font-medium">
-                          {predictor.pValue < 0.001 ? "< 0.001" : predictor.pValue.toFixed(3)}
-                        </span>
-                      ) : (
-                        <span>{predictor.pValue.toFixed(3)}</span>
-                      )}
-                    </TableCell>
-                  </TableRow>
+          {columns.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              The dataset has no moderator columns. Add study characteristics such as year or design to the upload.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Moderators</h4>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {columns.map(column => (
+                  <div key={column} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`moderator-${column}`}
+                      checked={moderators.includes(column)}
+                      onCheckedChange={(checked) => toggleModerator(column, !!checked)}
+                    />
+                    <Label htmlFor={`moderator-${column}`}>{column}</Label>
+                    {moderators.includes(column) && isNumericColumn(column) && (
+                      <label className="flex items-center space-x-1 text-xs text-muted-foreground">
+                        <Checkbox
+                          checked={categorical.includes(column)}
+                          onCheckedChange={(checked) => setCategorical(current =>
+                            checked ? [...current, column] : current.filter(m => m !== column)
+                          )}
+                        />
+                        <span>categorical</span>
+                      </label>
+                    )}
+                  </div>
                 ))}
-              </TableBody>
-            </Table>
-          </div>
+              </div>
+            </div>
+          )}
 
-          <div className="mt-4">
-            <h4 className="text-sm font-medium mb-2">Interpretation</h4>
-            <p className="text-sm">
-              The meta-regression model is statistically significant (p = {regressionData.modelFit.pValue.toFixed(3)}),
-              indicating that the included predictors explain a meaningful portion of the heterogeneity between studies.
-              <br />
-              <br />
-              Publication year is significantly associated with effect size (p ={" "}
-              {regressionData.predictors[0].pValue.toFixed(3)}), with more recent studies reporting smaller effects
-              (coefficient = {regressionData.predictors[0].coefficient.toFixed(3)}). This suggests a potential time
-              trend, possibly due to improvements in study methodology or changes in treatment protocols over time.
-              <br />
-              <br />
-              Sample size and mean age did not significantly predict effect size, although the negative coefficient for
-              sample size (-0.0004) is consistent with small-study effects, where smaller studies tend to report larger
-              effects.
-            </p>
+          {moderators.length >= 2 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Interactions</h4>
+              <div className="flex flex-wrap gap-2 items-center">
+                {[0, 1].map(position => (
+                  <Select
+                    key={position}
+                    value={interactionDraft[position]}
+                    onValueChange={value => setInteractionDraft(current => {
+                      const next: [string, string] = [...current]
+                      next[position] = value
+                      return next
+                    })}
+                  >
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue placeholder="Select moderator" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {moderators.map(moderator => (
+                        <SelectItem key={moderator} value={moderator}>
+                          {moderator}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
+                <Button variant="outline" onClick={addInteraction}>Add interaction</Button>
+              </div>
+              {interactions.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {interactions.map(([a, b]) => (
+                    <Badge
+                      key={`${a}:${b}`}
+                      variant="secondary"
+                      className="cursor-pointer"
+                      onClick={() => setInteractions(current => current.filter(([x, y]) => x !== a || y !== b))}
+                    >
+                      {a} × {b} ✕
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="permutation-test"
+              checked={permutationTest}
+              onCheckedChange={(checked) => setPermutationTest(!!checked)}
+            />
+            <Label htmlFor="permutation-test">Permutation test ({PERMUTATIONS.toLocaleString()} permutations)</Label>
           </div>
+
+          <Button
+            onClick={handleRunRegression}
+            disabled={loading || moderators.length === 0}
+          >
+            {loading ? "Running Meta-Regression..." : "Run Meta-Regression"}
+          </Button>
+
+          {error && (
+            <p className="text-sm text-red-500">{error}</p>
+          )}
+
+          {loading && <AnalysisProgress progress={progress} />}
+
+          {results && (
+            <div className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                {results.k} studies.{" "}
+                {results.rSquared !== null && (
+                  <>The moderators explain {results.rSquared.toFixed(1)}% of the between-study variance. </>
+                )}
+                Test of moderators: {results.omnibus.df2 !== undefined
+                  ? `F(${results.omnibus.df}, ${results.omnibus.df2}) = ${results.omnibus.statistic.toFixed(3)}`
+                  : `QM(${results.omnibus.df}) = ${results.omnibus.statistic.toFixed(3)}`}
+                , p = {formatP(results.omnibus.pValue)}
+                {results.omnibus.permutationPValue !== undefined && (
+                  <> (permutation p = {formatP(results.omnibus.permutationPValue)})</>
+                )}
+                .
+              </p>
+
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Predictor</TableHead>
+                      <TableHead className="text-right">Coefficient</TableHead>
+                      <TableHead className="text-right">Standard Error</TableHead>
+                      <TableHead className="text-right">95% CI</TableHead>
+                      <TableHead className="text-right">P-value</TableHead>
+                      {hasPermutations && <TableHead className="text-right">Permutation P</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.coefficients.map(coefficient => (
+                      <TableRow key={coefficient.name}>
+                        <TableCell className="font-medium">{coefficient.name}</TableCell>
+                        <TableCell className="text-right">{coefficient.estimate.toFixed(4)}</TableCell>
+                        <TableCell className="text-right">{coefficient.se.toFixed(4)}</TableCell>
+                        <TableCell className="text-right">
+                          [{coefficient.ciLower.toFixed(4)}, {coefficient.ciUpper.toFixed(4)}]
+                        </TableCell>
+                        <TableCell className="text-right"><PValue value={coefficient.pValue} /></TableCell>
+                        {hasPermutations && (
+                          <TableCell className="text-right">
+                            {coefficient.permutationPValue !== undefined && <PValue value={coefficient.permutationPValue} />}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {results.termTests.some(test => test.df > 1) && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Tests by Moderator</h4>
+                  <div className="space-y-1 text-sm">
+                    {results.termTests.map(test => (
+                      <div key={test.term}>
+                        <span className="text-muted-foreground">{test.term}: </span>
+                        <span>
+                          {test.df2 !== undefined ? `F(${test.df}, ${test.df2})` : `QM(${test.df})`} = {test.statistic.toFixed(3)},
+                          p = {formatP(test.pValue)}
+                          {test.permutationPValue !== undefined && ` (permutation p = ${formatP(test.permutationPValue)})`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Residual Heterogeneity</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">QE: </span>
+                    <span>{results.residualHeterogeneity.qStatistic.toFixed(2)} (df = {results.residualHeterogeneity.qDf})</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">P-value: </span>
+                    <span>{formatP(results.residualHeterogeneity.qPvalue)}</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">τ²: </span>
+                    <span>{results.residualHeterogeneity.tauSquared.toFixed(4)}</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">I²: </span>
+                    <span>{results.residualHeterogeneity.iSquared.toFixed(1)}%</span>
+                  </div>
+                </div>
+              </div>
+
+              {results.bubble.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <h4 className="text-sm font-medium">Bubble Plot</h4>
+                    {results.bubble.length > 1 && (
+                      <Select value={bubbleModerator} onValueChange={setBubbleModerator}>
+                        <SelectTrigger className="w-[200px]">
+                          <SelectValue placeholder="Select moderator" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {results.bubble.map(data => (
+                            <SelectItem key={data.moderator} value={data.moderator}>
+                              {data.moderator}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  {bubble && <BubblePlot data={bubble} effectLabel={effectLabel} />}
+                </div>
+              )}
+
+              {results.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                  {results.warnings.map(warning => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
   )
 }
-
@@ -0,0 +1,91 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Card } from "@/components/ui/card"
+import type { NetworkGeometry } from "@/lib/services/meta-analysis"
+
+interface NetworkGraphProps {
+  geometry: NetworkGeometry
+}
+
+export function NetworkGraph({ geometry }: NetworkGraphProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    if (!canvasRef.current) return
+
+    const canvas = canvasRef.current
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    // Set canvas dimensions
+    const width = canvas.clientWidth
+    const height = 400
+    canvas.width = width
+    canvas.height = height
+
+    ctx.clearRect(0, 0, width, height)
+    ctx.font = "12px sans-serif"
+    ctx.textBaseline = "middle"
+
+    // Treatments on a circle, starting at the top
+    const centerX = width / 2
+    const centerY = height / 2
+    const radius = Math.min(width, height) / 2 - 60
+    const positions = new Map(geometry.nodes.map((node, i) => {
+      const angle = -Math.PI / 2 + (2 * Math.PI * i) / geometry.nodes.length
+      return [node.treatment, { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle), angle }]
+    }))
+
+    // Edge width grows with the number of studies making the comparison
+    const maxStudies = Math.max(1, ...geometry.edges.map(edge => edge.studies))
+    geometry.edges.forEach(edge => {
+      const from = positions.get(edge.treatment1)
+      const to = positions.get(edge.treatment2)
+      if (!from || !to) return
+
+      ctx.beginPath()
+      ctx.moveTo(from.x, from.y)
+      ctx.lineTo(to.x, to.y)
+      ctx.lineWidth = 1 + 7 * (edge.studies / maxStudies)
+      ctx.strokeStyle = "#94a3b8"
+      ctx.stroke()
+
+      ctx.fillStyle = "#475569"
+      ctx.textAlign = "center"
+      ctx.fillText(String(edge.studies), (from.x + to.x) / 2, (from.y + to.y) / 2 - 8)
+    })
+    ctx.lineWidth = 1
+
+    // Node area grows with the number of studies including the treatment
+    const maxNodeStudies = Math.max(1, ...geometry.nodes.map(node => node.studies))
+    geometry.nodes.forEach(node => {
+      const position = positions.get(node.treatment)!
+      const size = 6 + 14 * Math.sqrt(node.studies / maxNodeStudies)
+
+      ctx.beginPath()
+      ctx.arc(position.x, position.y, size, 0, Math.PI * 2)
+      ctx.fillStyle = "#2563eb"
+      ctx.fill()
+
+      // Labels sit outside the circle
+      ctx.fillStyle = "#000"
+      ctx.textAlign = Math.cos(position.angle) > 0.1 ? "left" : Math.cos(position.angle) < -0.1 ? "right" : "center"
+      ctx.fillText(
+        node.treatment,
+        position.x + (size + 8) * Math.cos(position.angle),
+        position.y + (size + 8) * Math.sin(position.angle)
+      )
+    })
+  }, [geometry])
+
+  return (
+    <Card className="p-4">
+      <canvas
+        ref={canvasRef}
+        className="w-full"
+        style={{ height: "400px" }}
+      />
+    </Card>
+  )
+}
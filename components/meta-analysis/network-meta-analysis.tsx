@@ -0,0 +1,277 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { NetworkGraph } from "./network-graph"
+import { AnalysisProgress } from "./analysis-progress"
+import { createProgressId, useProgressStream } from "@/hooks/use-progress-stream"
+import { Study } from "@/types/meta-analysis"
+import type {
+  NetworkDataFormat,
+  NetworkEvidence,
+  NetworkParameters,
+  NetworkResults,
+  NetworkSmallValues,
+} from "@/lib/services/meta-analysis"
+
+// Everything the component chooses; the page supplies the effect measure and model
+export type NetworkSettings = Omit<NetworkParameters, "effectMeasure" | "modelType" | "method">
+
+const DEFAULT_REFERENCE = "__default__"
+
+interface NetworkMetaAnalysisProps {
+  studies: Study[]
+  effectMeasure: string
+  onRunAnalysis: (settings: NetworkSettings, progressId: string) => Promise<NetworkResults>
+}
+
+function formatP(p: number) {
+  return p < 0.001 ? "< 0.001" : p.toFixed(3)
+}
+
+function formatEvidence(evidence: NetworkEvidence) {
+  return `${evidence.estimate.toFixed(2)} [${evidence.ciLower.toFixed(2)}, ${evidence.ciUpper.toFixed(2)}]`
+}
+
+export function NetworkMetaAnalysis({ studies, effectMeasure, onRunAnalysis }: NetworkMetaAnalysisProps) {
+  const [dataFormat, setDataFormat] = useState<NetworkDataFormat>("contrast")
+  const [reference, setReference] = useState(DEFAULT_REFERENCE)
+  const [smallValues, setSmallValues] = useState<NetworkSmallValues>("good")
+  const [results, setResults] = useState<NetworkResults | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const progress = useProgressStream()
+
+  // Treatments named in the data, as treatment or comparator
+  const treatments = Array.from(new Set(studies.flatMap(study => [study.treatment, study.comparator])))
+    .filter((value): value is string | number => value !== undefined && value !== null && value !== "")
+    .map(String)
+
+  const handleRunAnalysis = async () => {
+    if (!studies.some(study => study.treatment !== undefined && study.treatment !== "")) {
+      setError("The data needs a treatment column")
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    const progressId = createProgressId()
+    progress.start(`/api/progress/${progressId}`)
+
+    try {
+      const networkResults = await onRunAnalysis({
+        dataFormat,
+        smallValues,
+        ...(reference !== DEFAULT_REFERENCE ? { reference } : {}),
+      }, progressId)
+      setResults(networkResults)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred during analysis")
+    } finally {
+      progress.stop()
+      setLoading(false)
+    }
+  }
+
+  const rankings = results ? [...results.rankings].sort((a, b) => b.pScore - a.pScore) : []
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold mb-4">Network Meta-Analysis</h3>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="space-y-1">
+              <Label>Data layout</Label>
+              <Select value={dataFormat} onValueChange={value => setDataFormat(value as NetworkDataFormat)}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="contrast">Contrast-level (treatment vs comparator)</SelectItem>
+                  <SelectItem value="arm">Arm-level (one row per arm)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Reference treatment</Label>
+              <Select value={reference} onValueChange={setReference}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_REFERENCE}>Most studied</SelectItem>
+                  {treatments.map(treatment => (
+                    <SelectItem key={treatment} value={treatment}>
+                      {treatment}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Ranking</Label>
+              <Select value={smallValues} onValueChange={value => setSmallValues(value as NetworkSmallValues)}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="good">Lower {effectMeasure} is better</SelectItem>
+                  <SelectItem value="bad">Higher {effectMeasure} is better</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button onClick={handleRunAnalysis} disabled={loading || studies.length === 0}>
+              {loading ? "Running Analysis..." : "Run Analysis"}
+            </Button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-500">{error}</p>
+          )}
+
+          {loading && <AnalysisProgress progress={progress} />}
+
+          {results && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Studies: </span>
+                  <span>{results.k} ({results.multiArmStudies} multi-arm)</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Treatments: </span>
+                  <span>{results.treatments.length}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">τ² ({results.method}): </span>
+                  <span>{results.tauSquared.toFixed(4)}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Q: </span>
+                  <span>
+                    {results.heterogeneity.qStatistic.toFixed(2)} (df = {results.heterogeneity.qDf}, p = {formatP(results.heterogeneity.qPvalue)}),
+                    I² = {results.heterogeneity.iSquared.toFixed(1)}%
+                  </span>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Network Geometry</h4>
+                <NetworkGraph geometry={results.geometry} />
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">League Table</h4>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Each cell is the {effectMeasure} of the row treatment versus the column treatment
+                </p>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead />
+                        {results.treatments.map(treatment => (
+                          <TableHead key={treatment}>{treatment}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {results.league.map((row, i) => (
+                        <TableRow key={results.treatments[i]}>
+                          <TableCell className="font-medium">{results.treatments[i]}</TableCell>
+                          {row.map((cell, j) => (
+                            <TableCell key={results.treatments[j]} className="whitespace-nowrap">
+                              {cell ? formatEvidence(cell) : results.treatments[i]}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Treatment Ranking</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Treatment</TableHead>
+                      <TableHead className="text-right">P-score</TableHead>
+                      <TableHead className="text-right">SUCRA</TableHead>
+                      <TableHead className="text-right">Mean rank</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rankings.map(ranking => (
+                      <TableRow key={ranking.treatment}>
+                        <TableCell>{ranking.treatment}</TableCell>
+                        <TableCell className="text-right">{ranking.pScore.toFixed(3)}</TableCell>
+                        <TableCell className="text-right">{ranking.sucra.toFixed(3)}</TableCell>
+                        <TableCell className="text-right">{ranking.meanRank.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Node-Splitting</h4>
+                {results.nodeSplits.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No comparison has both direct and indirect evidence
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Comparison</TableHead>
+                        <TableHead className="text-right">Studies</TableHead>
+                        <TableHead>Direct</TableHead>
+                        <TableHead>Indirect</TableHead>
+                        <TableHead>Network</TableHead>
+                        <TableHead className="text-right">P-value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {results.nodeSplits.map(split => (
+                        <TableRow key={`${split.treatment}-${split.comparator}`}>
+                          <TableCell>{split.treatment} vs {split.comparator}</TableCell>
+                          <TableCell className="text-right">{split.directStudies}</TableCell>
+                          <TableCell className="whitespace-nowrap">{formatEvidence(split.direct)}</TableCell>
+                          <TableCell className="whitespace-nowrap">{formatEvidence(split.indirect)}</TableCell>
+                          <TableCell className="whitespace-nowrap">{formatEvidence(split.network)}</TableCell>
+                          <TableCell className={split.pValue < 0.05 ? "text-right text-red-600 font-medium" : "text-right"}>
+                            {formatP(split.pValue)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+
+              {results.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                  {results.warnings.map(warning => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Card } from "@/components/ui/card"
+import type { DiagnosticEstimate, DiagnosticStudy } from "@/lib/services/meta-analysis"
+
+interface PairedForestPlotProps {
+  studies: DiagnosticStudy[]
+  summary: {
+    sensitivity: DiagnosticEstimate
+    specificity: DiagnosticEstimate
+  }
+}
+
+const ROW_HEIGHT = 30
+
+export function PairedForestPlot({ studies, summary }: PairedForestPlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    if (!canvasRef.current) return
+
+    const canvas = canvasRef.current
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    // Set canvas dimensions
+    const width = canvas.clientWidth
+    const height = studies.length * ROW_HEIGHT + 130
+    canvas.width = width
+    canvas.height = height
+
+    ctx.clearRect(0, 0, width, height)
+    ctx.font = "12px sans-serif"
+    ctx.textBaseline = "middle"
+
+    // Study labels on the left, then one panel per measure on a 0-1 scale
+    const margin = { top: 40, right: 20, bottom: 50, left: 200 }
+    const gap = 40
+    const panelWidth = (width - margin.left - margin.right - gap) / 2
+    const axisY = height - margin.bottom
+    const panels = [
+      { title: "Sensitivity", left: margin.left, estimates: studies.map(study => study.sensitivity), pooled: summary.sensitivity },
+      { title: "Specificity", left: margin.left + panelWidth + gap, estimates: studies.map(study => study.specificity), pooled: summary.specificity },
+    ]
+
+    studies.forEach((study, i) => {
+      ctx.fillStyle = "#000"
+      ctx.textAlign = "left"
+      ctx.fillText(study.studyLabel, 10, margin.top + i * ROW_HEIGHT + ROW_HEIGHT / 2)
+    })
+    ctx.fillText("Summary", 10, axisY - 30)
+
+    panels.forEach(panel => {
+      const toX = (value: number) => panel.left + value * panelWidth
+
+      ctx.fillStyle = "#000"
+      ctx.textAlign = "center"
+      ctx.fillText(panel.title, panel.left + panelWidth / 2, margin.top - 20)
+
+      // Axis with ticks every 0.2
+      ctx.beginPath()
+      ctx.moveTo(panel.left, axisY)
+      ctx.lineTo(panel.left + panelWidth, axisY)
+      ctx.strokeStyle = "#000"
+      ctx.stroke()
+      for (let tick = 0; tick <= 5; tick++) {
+        const x = toX(tick / 5)
+        ctx.beginPath()
+        ctx.moveTo(x, axisY)
+        ctx.lineTo(x, axisY + 5)
+        ctx.stroke()
+        ctx.fillText((tick / 5).toFixed(1), x, axisY + 18)
+      }
+
+      panel.estimates.forEach((estimate, i) => {
+        const y = margin.top + i * ROW_HEIGHT + ROW_HEIGHT / 2
+
+        ctx.beginPath()
+        ctx.moveTo(toX(estimate.ciLower), y)
+        ctx.lineTo(toX(estimate.ciUpper), y)
+        ctx.strokeStyle = "#000"
+        ctx.stroke()
+
+        ctx.beginPath()
+        ctx.rect(toX(estimate.estimate) - 4, y - 4, 8, 8)
+        ctx.fillStyle = "#000"
+        ctx.fill()
+      })
+
+      // Summary diamond with a dashed reference line at the estimate
+      const diamondY = axisY - 30
+      ctx.beginPath()
+      ctx.moveTo(toX(panel.pooled.estimate), margin.top)
+      ctx.lineTo(toX(panel.pooled.estimate), diamondY - 10)
+      ctx.strokeStyle = "#666"
+      ctx.setLineDash([5, 5])
+      ctx.stroke()
+      ctx.setLineDash([])
+
+      ctx.beginPath()
+      ctx.moveTo(toX(panel.pooled.ciLower), diamondY)
+      ctx.lineTo(toX(panel.pooled.estimate), diamondY - 8)
+      ctx.lineTo(toX(panel.pooled.ciUpper), diamondY)
+      ctx.lineTo(toX(panel.pooled.estimate), diamondY + 8)
+      ctx.closePath()
+      ctx.fillStyle = "#2563eb"
+      ctx.fill()
+    })
+  }, [studies, summary])
+
+  return (
+    <Card className="p-4">
+      <canvas
+        ref={canvasRef}
+        className="w-full"
+        style={{ height: `${studies.length * ROW_HEIGHT + 130}px` }}
+      />
+    </Card>
+  )
+}
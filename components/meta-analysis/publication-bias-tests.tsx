@@ -3,7 +3,21 @@
 import { useState } from "react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { FunnelPlot } from "./funnel-plot"
+import { AnalysisProgress } from "./analysis-progress"
+import { createProgressId, useProgressStream } from "@/hooks/use-progress-stream"
+import type {
+  BiasAdjustedEstimate,
+  FunnelSide,
+  PublicationBiasMethod,
+  PublicationBiasParameters,
+  PublicationBiasResults,
+  TrimAndFillEstimator,
+} from "@/lib/services/meta-analysis"
 
 interface Study {
   study_id: string
@@ -16,52 +30,97 @@ interface Study {
   [key: string]: any
 }
 
-interface PublicationBiasResults {
-  egger_test: {
-    intercept: number
-    se: number
-    t_value: number
-    p_value: number
-    ci_lower: number
-    ci_upper: number
-  }
-  begg_test: {
-    rank_correlation: number
-    p_value: number
-  }
-  trim_and_fill: {
-    original_estimate: number
-    adjusted_estimate: number
-    n_missing: number
-    studies_added: Study[]
-  }
-  fail_safe_n: {
-    rosenthal: number
-    orwin: number
-  }
+// Everything the component chooses; the page supplies the effect measure and model
+export type PublicationBiasSettings = Omit<PublicationBiasParameters, "effectMeasure" | "modelType" | "method">
+
+// Each test is streamed as it completes
+interface CompletedTestPartial {
+  method: PublicationBiasMethod
+  result: unknown
+}
+
+const METHOD_LABELS: Record<PublicationBiasMethod, string> = {
+  egger: "Egger's test",
+  begg: "Begg's test",
+  trim_and_fill: "Trim and fill",
+  pet_peese: "PET-PEESE",
+  selection_model: "Selection model",
+  fail_safe_n: "Fail-safe N",
 }
 
+const DEFAULT_METHODS: PublicationBiasMethod[] = ["egger", "begg", "trim_and_fill", "fail_safe_n"]
+
 interface PublicationBiasTestsProps {
   studies: Study[]
   effectMeasure: string
-  onRunTests: () => Promise<PublicationBiasResults>
+  onRunTests: (settings: PublicationBiasSettings, progressId: string) => Promise<PublicationBiasResults>
+}
+
+function formatP(p: number) {
+  return p < 0.001 ? "< 0.001" : p.toFixed(3)
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div>
+      <span className="text-muted-foreground">{label}: </span>
+      <span>{value}</span>
+    </div>
+  )
+}
+
+function EstimateStats({ estimate, effectMeasure }: { estimate: BiasAdjustedEstimate; effectMeasure: string }) {
+  return (
+    <>
+      <Stat label={`Adjusted ${effectMeasure}`} value={estimate.estimate.toFixed(3)} />
+      <Stat label="95% CI" value={`[${estimate.ciLower.toFixed(3)}, ${estimate.ciUpper.toFixed(3)}]`} />
+      <Stat label="P-value" value={formatP(estimate.pValue)} />
+    </>
+  )
 }
 
 export function PublicationBiasTests({ studies, effectMeasure, onRunTests }: PublicationBiasTestsProps) {
   const [results, setResults] = useState<PublicationBiasResults | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [methods, setMethods] = useState<PublicationBiasMethod[]>(DEFAULT_METHODS)
+  const [estimator, setEstimator] = useState<TrimAndFillEstimator>("L0")
+  const [side, setSide] = useState<FunnelSide | "auto">("auto")
+  const [cutpoints, setCutpoints] = useState("0.025")
+  const progress = useProgressStream<CompletedTestPartial>()
+
+  const toggleMethod = (method: PublicationBiasMethod, checked: boolean) => {
+    setMethods(current =>
+      checked
+        ? (Object.keys(METHOD_LABELS) as PublicationBiasMethod[]).filter(m => m === method || current.includes(m))
+        : current.filter(m => m !== method)
+    )
+  }
 
   const handleRunTests = async () => {
+    const steps = cutpoints.split(",").map(value => Number(value.trim())).filter(value => value > 0 && value < 1)
+    if (methods.includes("selection_model") && steps.length === 0) {
+      setError("Enter at least one p-value cutpoint between 0 and 1")
+      return
+    }
+
     setLoading(true)
     setError(null)
 
+    const progressId = createProgressId()
+    progress.start(`/api/progress/${progressId}`)
+
     try {
-      const biasResults = await onRunTests()
+      const biasResults = await onRunTests({
+        methods,
+        trimAndFill: { estimator, side: side === "auto" ? undefined : side },
+        selectionModel: { cutpoints: steps },
+      }, progressId)
       setResults(biasResults)
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred during analysis")
     } finally {
+      progress.stop()
       setLoading(false)
     }
   }
@@ -70,11 +129,64 @@ export function PublicationBiasTests({ studies, effectMeasure, onRunTests }: Pub
     <div className="space-y-4">
       <Card className="p-4">
         <h3 className="text-lg font-semibold mb-4">Publication Bias Analysis</h3>
-        
+
         <div className="space-y-4">
-          <Button 
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            {(Object.keys(METHOD_LABELS) as PublicationBiasMethod[]).map(method => (
+              <div key={method} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`bias-${method}`}
+                  checked={methods.includes(method)}
+                  onCheckedChange={(checked) => toggleMethod(method, !!checked)}
+                />
+                <Label htmlFor={`bias-${method}`}>{METHOD_LABELS[method]}</Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            {methods.includes("trim_and_fill") && (
+              <>
+                <Select value={estimator} onValueChange={value => setEstimator(value as TrimAndFillEstimator)}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="Estimator" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="L0">L0 estimator</SelectItem>
+                    <SelectItem value="R0">R0 estimator</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                <Select value={side} onValueChange={value => setSide(value as FunnelSide | "auto")}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="Missing side" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Estimate missing side</SelectItem>
+                    <SelectItem value="left">Missing on the left</SelectItem>
+                    <SelectItem value="right">Missing on the right</SelectItem>
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+
+            {methods.includes("selection_model") && (
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="bias-cutpoints" className="whitespace-nowrap">P-value cutpoints</Label>
+                <Input
+                  id="bias-cutpoints"
+                  className="w-[160px]"
+                  value={cutpoints}
+                  onChange={event => setCutpoints(event.target.value)}
+                  placeholder="0.025, 0.5"
+                />
+              </div>
+            )}
+          </div>
+
+          <Button
             onClick={handleRunTests}
-            disabled={loading}
+            disabled={loading || methods.length === 0}
           >
             {loading ? "Running Tests..." : "Run Tests"}
           </Button>
@@ -83,6 +195,17 @@ export function PublicationBiasTests({ studies, effectMeasure, onRunTests }: Pub
             <p className="text-sm text-red-500">{error}</p>
           )}
 
+          {loading && (
+            <div className="space-y-2">
+              <AnalysisProgress progress={progress} />
+              {progress.partials.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Completed: {progress.partials.map(partial => METHOD_LABELS[partial.method] ?? partial.method).join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
           {results && (
             <div className="space-y-6">
               {/* Funnel Plot */}
@@ -91,84 +214,119 @@ export function PublicationBiasTests({ studies, effectMeasure, onRunTests }: Pub
                 <FunnelPlot
                   studies={studies}
                   effectMeasure={effectMeasure}
+                  filledStudies={results.trimAndFill?.filled}
                 />
               </div>
 
-              {/* Egger's Test */}
+              {/* Unadjusted estimate */}
               <div>
-                <h4 className="text-sm font-medium mb-2">Egger's Test</h4>
+                <h4 className="text-sm font-medium mb-2">Unadjusted Estimate</h4>
                 <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <span className="text-muted-foreground">Intercept: </span>
-                    <span>{results.egger_test.intercept.toFixed(3)}</span>
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">Standard Error: </span>
-                    <span>{results.egger_test.se.toFixed(3)}</span>
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">t-value: </span>
-                    <span>{results.egger_test.t_value.toFixed(3)}</span>
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">P-value: </span>
-                    <span>{results.egger_test.p_value.toFixed(3)}</span>
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">95% CI: </span>
-                    <span>[{results.egger_test.ci_lower.toFixed(3)}, {results.egger_test.ci_upper.toFixed(3)}]</span>
-                  </div>
+                  <Stat label={effectMeasure} value={results.model.estimate.toFixed(3)} />
+                  <Stat label="95% CI" value={`[${results.model.ciLower.toFixed(3)}, ${results.model.ciUpper.toFixed(3)}]`} />
+                  <Stat label="Studies" value={results.k} />
+                  <Stat label="τ²" value={results.model.tauSquared.toFixed(4)} />
                 </div>
               </div>
 
-              {/* Begg's Test */}
-              <div>
-                <h4 className="text-sm font-medium mb-2">Begg's Test</h4>
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <span className="text-muted-foreground">Rank Correlation: </span>
-                    <span>{results.begg_test.rank_correlation.toFixed(3)}</span>
+              {/* Egger's Test */}
+              {results.egger && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Egger's Test</h4>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <Stat label="Intercept" value={results.egger.intercept.toFixed(3)} />
+                    <Stat label="Standard Error" value={results.egger.se.toFixed(3)} />
+                    <Stat label="t-value" value={`${results.egger.statistic.toFixed(3)} (df = ${results.egger.df})`} />
+                    <Stat label="P-value" value={formatP(results.egger.pValue)} />
+                    <Stat label="95% CI" value={`[${results.egger.ciLower.toFixed(3)}, ${results.egger.ciUpper.toFixed(3)}]`} />
                   </div>
-                  <div>
-                    <span className="text-muted-foreground">P-value: </span>
-                    <span>{results.begg_test.p_value.toFixed(3)}</span>
+                </div>
+              )}
+
+              {/* Begg's Test */}
+              {results.begg && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Begg's Test</h4>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <Stat label="Kendall's τ" value={results.begg.kendallTau.toFixed(3)} />
+                    <Stat label="P-value" value={`${formatP(results.begg.pValue)}${results.begg.exact ? " (exact)" : ""}`} />
                   </div>
                 </div>
-              </div>
+              )}
 
               {/* Trim and Fill */}
-              <div>
-                <h4 className="text-sm font-medium mb-2">Trim and Fill Analysis</h4>
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <span className="text-muted-foreground">Original Estimate: </span>
-                    <span>{results.trim_and_fill.original_estimate.toFixed(3)}</span>
+              {results.trimAndFill && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Trim and Fill Analysis</h4>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <Stat
+                      label="Missing Studies"
+                      value={`${results.trimAndFill.k0} on the ${results.trimAndFill.side} (SE = ${results.trimAndFill.k0Se.toFixed(2)})`}
+                    />
+                    <Stat label="Estimator" value={results.trimAndFill.estimator} />
+                    <EstimateStats estimate={results.trimAndFill} effectMeasure={effectMeasure} />
                   </div>
-                  <div>
-                    <span className="text-muted-foreground">Adjusted Estimate: </span>
-                    <span>{results.trim_and_fill.adjusted_estimate.toFixed(3)}</span>
+                </div>
+              )}
+
+              {/* PET-PEESE */}
+              {results.petPeese && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">PET-PEESE</h4>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <Stat label="Selected" value={results.petPeese.selected} />
+                    <Stat label="PET intercept p-value" value={formatP(results.petPeese.pet.pValue)} />
+                    <EstimateStats estimate={results.petPeese} effectMeasure={effectMeasure} />
+                  </div>
+                </div>
+              )}
+
+              {/* Selection Model */}
+              {results.selectionModel && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Step-Function Selection Model</h4>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <EstimateStats estimate={results.selectionModel} effectMeasure={effectMeasure} />
+                    <Stat
+                      label="Likelihood ratio test"
+                      value={`χ² = ${results.selectionModel.likelihoodRatio.statistic.toFixed(3)}, df = ${results.selectionModel.likelihoodRatio.df}, p = ${formatP(results.selectionModel.likelihoodRatio.pValue)}`}
+                    />
                   </div>
-                  <div>
-                    <span className="text-muted-foreground">Missing Studies: </span>
-                    <span>{results.trim_and_fill.n_missing}</span>
+                  <div className="mt-2 space-y-1 text-sm">
+                    {results.selectionModel.weights.map(step => (
+                      <div key={step.lower}>
+                        <span className="text-muted-foreground">p ∈ ({step.lower}, {step.upper}] ({step.k} studies): </span>
+                        <span>weight {step.weight.toFixed(3)}</span>
+                      </div>
+                    ))}
                   </div>
                 </div>
-              </div>
+              )}
 
               {/* Fail-safe N */}
-              <div>
-                <h4 className="text-sm font-medium mb-2">Fail-safe N</h4>
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <span className="text-muted-foreground">Rosenthal's N: </span>
-                    <span>{results.fail_safe_n.rosenthal}</span>
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">Orwin's N: </span>
-                    <span>{results.fail_safe_n.orwin}</span>
+              {results.failSafeN && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Fail-safe N</h4>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <Stat label="Rosenthal's N" value={results.failSafeN.rosenthal.n} />
+                    <Stat label="Rosenberg's N" value={results.failSafeN.rosenberg.n} />
+                    <Stat
+                      label="Orwin's N"
+                      value={results.failSafeN.orwin
+                        ? `${results.failSafeN.orwin.n} (target ${results.failSafeN.orwin.target.toFixed(3)})`
+                        : "Not available"}
+                    />
                   </div>
                 </div>
-              </div>
+              )}
+
+              {results.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                  {results.warnings.map(warning => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           )}
         </div>
@@ -176,4 +334,3 @@ export function PublicationBiasTests({ studies, effectMeasure, onRunTests }: Pub
     </div>
   )
 }
-
@@ -0,0 +1,84 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import type { DigitizedPoint, IpdReconstructionResults, ReconstructedArm } from "@/lib/services/ipd-reconstruction"
+
+const chartConfig = {
+  treatmentDigitized: { label: "Treatment (published)", color: "hsl(var(--chart-1))" },
+  treatmentReconstructed: { label: "Treatment (reconstructed)", color: "hsl(var(--chart-1))" },
+  controlDigitized: { label: "Control (published)", color: "hsl(var(--chart-2))" },
+  controlReconstructed: { label: "Control (reconstructed)", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+interface ReconstructedKmChartProps {
+  results: IpdReconstructionResults
+  digitized: { treatment: DigitizedPoint[]; control: DigitizedPoint[] }
+}
+
+// Step curve starting at (0, 1)
+function reconstructedSeries(arm: ReconstructedArm) {
+  return [{ time: 0, survival: 1 }, ...arm.curve.map(point => ({ time: point.time, survival: point.survival }))]
+}
+
+/**
+ * Kaplan-Meier curves of the reconstructed data over the digitized points, to check the
+ * reconstruction against the published figure
+ */
+export function ReconstructedKmChart({ results, digitized }: ReconstructedKmChartProps) {
+  const series = [
+    { key: "treatmentDigitized", data: digitized.treatment, reconstructed: false },
+    { key: "treatmentReconstructed", data: reconstructedSeries(results.treatment), reconstructed: true },
+    { key: "controlDigitized", data: digitized.control, reconstructed: false },
+    { key: "controlReconstructed", data: reconstructedSeries(results.control), reconstructed: true },
+  ]
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[360px] w-full">
+      <LineChart margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          type="number"
+          dataKey="time"
+          domain={[0, "dataMax"]}
+          allowDuplicatedCategory={false}
+          label={{ value: "Time", position: "insideBottom", offset: -10 }}
+        />
+        <YAxis
+          domain={[0, 1]}
+          tickFormatter={value => `${Math.round(value * 100)}%`}
+          label={{ value: "Survival", angle: -90, position: "insideLeft" }}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => `Time: ${payload?.[0]?.payload?.time ?? ""}`}
+              formatter={value => `${(Number(value) * 100).toFixed(1)}%`}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent nameKey="value" />} />
+        {series.map(({ key, data, reconstructed }) => (
+          <Line
+            key={key}
+            data={data}
+            dataKey="survival"
+            name={key}
+            type={reconstructed ? "stepAfter" : "linear"}
+            stroke={`var(--color-${key})`}
+            strokeWidth={reconstructed ? 2 : 0}
+            dot={reconstructed ? false : { r: 2 }}
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  )
+}
@@ -3,7 +3,22 @@
 import { useState } from "react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ForestPlot } from "./forest-plot"
+import { CumulativeForestPlot } from "./cumulative-forest-plot"
+import { BaujatPlot } from "./baujat-plot"
+import { StudyTable, type StudyTableColumn } from "./study-table"
+import { AnalysisProgress } from "./analysis-progress"
+import { createProgressId, useProgressStream } from "@/hooks/use-progress-stream"
+import type {
+  CumulativeParameters,
+  CumulativeResults,
+  CumulativeStep,
+  InfluenceResults,
+  StudyInfluence,
+} from "@/lib/services/meta-analysis"
 
 interface Study {
   study_id: string
@@ -38,199 +53,409 @@ interface SensitivityResults {
       }
     }
   }
-  cumulative: {
-    [study_id: string]: {
-      studies: Study[]
-      overall_effect: {
-        estimate: number
-        ci_lower: number
-        ci_upper: number
-        p_value: number
-      }
-      heterogeneity: {
-        q_statistic: number
-        q_df: number
-        q_pvalue: number
-        i_squared: number
-        tau_squared: number
-        tau: number
-        h_squared: number
-        h: number
-      }
-    }
+}
+
+// Leave-one-out fits streamed while the analysis runs
+interface LeaveOneOutPartial {
+  studyId: string
+  studyLabel: string
+  results: {
+    overallEffect: number
+    ciLower: number
+    ciUpper: number
   }
 }
 
+export type CumulativeOrdering = Pick<CumulativeParameters, "orderBy" | "moderator" | "descending">
+
+const ORDER_LABELS: Record<Exclude<CumulativeOrdering["orderBy"], "moderator">, string> = {
+  year: "Publication year",
+  precision: "Precision (most precise first)",
+  effect_size: "Effect size",
+}
+
+// Influence statistics shown next to each study in the study table
+const INFLUENCE_COLUMNS: StudyTableColumn[] = [
+  { key: "rstudent", label: "Std. residual" },
+  { key: "dffits", label: "DFFITS" },
+  { key: "cooks_distance", label: "Cook's D" },
+  { key: "cov_ratio", label: "Cov. ratio" },
+  { key: "hat", label: "Hat" },
+  { key: "dfbetas", label: "DFBETAS" },
+  { key: "tau_squared_deleted", label: "τ² (deleted)", digits: 4 },
+  { key: "q_deleted", label: "Q (deleted)", digits: 2 },
+]
+
+const FLAG_LABELS: Record<Exclude<keyof StudyInfluence["flags"], "influential">, string> = {
+  outlier: "outlier",
+  dffits: "DFFITS",
+  cooksDistance: "Cook's D",
+  hat: "hat",
+  dfbetas: "DFBETAS",
+}
+
 interface SensitivityAnalysisProps {
   studies: Study[]
   effectMeasure: string
-  onRunAnalysis: () => Promise<SensitivityResults>
+  onRunAnalysis: (progressId: string) => Promise<SensitivityResults>
+  onRunCumulative: (ordering: CumulativeOrdering, progressId: string) => Promise<CumulativeResults>
+  onRunInfluence: (progressId: string) => Promise<InfluenceResults>
 }
 
-export function SensitivityAnalysis({ studies, effectMeasure, onRunAnalysis }: SensitivityAnalysisProps) {
+export function SensitivityAnalysis({
+  studies,
+  effectMeasure,
+  onRunAnalysis,
+  onRunCumulative,
+  onRunInfluence,
+}: SensitivityAnalysisProps) {
   const [results, setResults] = useState<SensitivityResults | null>(null)
+  const [cumulative, setCumulative] = useState<CumulativeResults | null>(null)
+  const [influence, setInfluence] = useState<InfluenceResults | null>(null)
+  const [order, setOrder] = useState<string>("year")
+  const [highlightFlagged, setHighlightFlagged] = useState(true)
+  const [flaggedFirst, setFlaggedFirst] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<"leave_one_out" | "cumulative">("leave_one_out")
+  const [activeTab, setActiveTab] = useState<"leave_one_out" | "cumulative" | "influence">("leave_one_out")
+  const progress = useProgressStream<LeaveOneOutPartial>()
+  const cumulativeProgress = useProgressStream<CumulativeStep>()
+  const influenceProgress = useProgressStream<StudyInfluence>()
+
+  // Moderator columns offered as orderings; their select values are prefixed with
+  // "moderator:" so they can't clash with the built-in orderings
+  const moderators = Object.keys(studies[0] || {}).filter(key =>
+    !["study_id", "study_label", "effect_size", "se", "weight", "year"].includes(key)
+  )
 
   const handleRunAnalysis = async () => {
     setLoading(true)
     setError(null)
 
+    const progressId = createProgressId()
+    progress.start(`/api/progress/${progressId}`)
+
     try {
-      const sensitivityResults = await onRunAnalysis()
+      const sensitivityResults = await onRunAnalysis(progressId)
       setResults(sensitivityResults)
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred during analysis")
     } finally {
+      progress.stop()
+      setLoading(false)
+    }
+  }
+
+  const handleRunCumulative = async () => {
+    setLoading(true)
+    setError(null)
+
+    const progressId = createProgressId()
+    cumulativeProgress.start(`/api/progress/${progressId}`)
+
+    const ordering: CumulativeOrdering = order.startsWith("moderator:")
+      ? { orderBy: "moderator", moderator: order.slice("moderator:".length) }
+      : { orderBy: order as CumulativeOrdering["orderBy"] }
+
+    try {
+      setCumulative(await onRunCumulative(ordering, progressId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred during analysis")
+    } finally {
+      cumulativeProgress.stop()
+      setLoading(false)
+    }
+  }
+
+  const handleRunInfluence = async () => {
+    setLoading(true)
+    setError(null)
+
+    const progressId = createProgressId()
+    influenceProgress.start(`/api/progress/${progressId}`)
+
+    try {
+      setInfluence(await onRunInfluence(progressId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred during analysis")
+    } finally {
+      influenceProgress.stop()
       setLoading(false)
     }
   }
 
+  // Studies with their diagnostics merged in, keyed the way the study table reads them
+  const influenceRows = influence
+    ? studies.map(study => {
+        const diagnostics = influence.studies.find(s => s.studyId === study.study_id)
+        if (!diagnostics) return study
+        return {
+          ...study,
+          rstudent: diagnostics.rstudent,
+          dffits: diagnostics.dffits,
+          cooks_distance: diagnostics.cooksDistance,
+          cov_ratio: diagnostics.covRatio,
+          hat: diagnostics.hat,
+          dfbetas: diagnostics.dfbetas,
+          tau_squared_deleted: diagnostics.tauSquaredDeleted,
+          q_deleted: diagnostics.qDeleted,
+        }
+      })
+    : []
+  const flagged = influence?.studies.filter(s => s.flags.influential || s.flags.outlier) ?? []
+
   return (
     <div className="space-y-4">
       <Card className="p-4">
         <h3 className="text-lg font-semibold mb-4">Sensitivity Analysis</h3>
         
         <div className="space-y-4">
-          <div className="flex gap-4">
-            <Button 
+          <div className="flex gap-2">
+            <Button
+              variant={activeTab === "leave_one_out" ? "default" : "outline"}
+              onClick={() => setActiveTab("leave_one_out")}
+            >
+              Leave-One-Out
+            </Button>
+            <Button
+              variant={activeTab === "cumulative" ? "default" : "outline"}
+              onClick={() => setActiveTab("cumulative")}
+            >
+              Cumulative
+            </Button>
+            <Button
+              variant={activeTab === "influence" ? "default" : "outline"}
+              onClick={() => setActiveTab("influence")}
+            >
+              Influence
+            </Button>
+          </div>
+
+          {activeTab === "leave_one_out" && (
+            <Button
               onClick={handleRunAnalysis}
               disabled={loading}
             >
               {loading ? "Running Analysis..." : "Run Analysis"}
             </Button>
+          )}
 
-            {results && (
-              <div className="flex gap-2">
-                <Button
-                  variant={activeTab === "leave_one_out" ? "default" : "outline"}
-                  onClick={() => setActiveTab("leave_one_out")}
-                >
-                  Leave-One-Out
-                </Button>
-                <Button
-                  variant={activeTab === "cumulative" ? "default" : "outline"}
-                  onClick={() => setActiveTab("cumulative")}
-                >
-                  Cumulative
-                </Button>
-              </div>
-            )}
-          </div>
+          {activeTab === "influence" && (
+            <Button
+              onClick={handleRunInfluence}
+              disabled={loading}
+            >
+              {loading ? "Running Analysis..." : "Run Influence Diagnostics"}
+            </Button>
+          )}
+
+          {activeTab === "cumulative" && (
+            <div className="flex gap-4">
+              <Select value={order} onValueChange={setOrder}>
+                <SelectTrigger className="w-[260px]">
+                  <SelectValue placeholder="Order studies by" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ORDER_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                  {moderators.map(moderator => (
+                    <SelectItem key={moderator} value={`moderator:${moderator}`}>
+                      {moderator}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Button
+                onClick={handleRunCumulative}
+                disabled={loading}
+              >
+                {loading ? "Running Analysis..." : "Run Cumulative Analysis"}
+              </Button>
+            </div>
+          )}
 
           {error && (
             <p className="text-sm text-red-500">{error}</p>
           )}
 
-          {results && (
+          {loading && activeTab === "cumulative" && (
+            <AnalysisProgress progress={cumulativeProgress} />
+          )}
+
+          {loading && activeTab === "influence" && (
+            <AnalysisProgress progress={influenceProgress} />
+          )}
+
+          {loading && activeTab === "leave_one_out" && (
+            <div className="space-y-2">
+              <AnalysisProgress progress={progress} />
+              {progress.partials.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  {progress.partials.map(partial => (
+                    <div key={partial.studyId}>
+                      <span className="text-muted-foreground">Excluding {partial.studyLabel}: </span>
+                      <span>
+                        {partial.results.overallEffect.toFixed(3)} [{partial.results.ciLower.toFixed(3)}, {partial.results.ciUpper.toFixed(3)}]
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeTab === "leave_one_out" && results && (
             <div className="space-y-6">
-              {activeTab === "leave_one_out" ? (
-                // Leave-one-out analysis
-                Object.entries(results.leave_one_out).map(([studyId, data]) => (
-                  <div key={studyId} className="space-y-4">
-                    <h4 className="text-sm font-medium">
-                      Excluding {data.studies[0].study_label}
-                    </h4>
-                    
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <h5 className="text-sm font-medium mb-2">Overall Effect</h5>
-                        <div className="space-y-1 text-sm">
-                          <div>
-                            <span className="text-muted-foreground">Estimate: </span>
-                            <span>{data.overall_effect.estimate.toFixed(3)}</span>
-                          </div>
-                          <div>
-                            <span className="text-muted-foreground">95% CI: </span>
-                            <span>[{data.overall_effect.ci_lower.toFixed(3)}, {data.overall_effect.ci_upper.toFixed(3)}]</span>
-                          </div>
-                          <div>
-                            <span className="text-muted-foreground">P-value: </span>
-                            <span>{data.overall_effect.p_value.toFixed(3)}</span>
-                          </div>
+              {/* Leave-one-out analysis */}
+              {Object.entries(results.leave_one_out).map(([studyId, data]) => (
+                <div key={studyId} className="space-y-4">
+                  <h4 className="text-sm font-medium">
+                    Excluding {data.studies[0].study_label}
+                  </h4>
+                  
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <h5 className="text-sm font-medium mb-2">Overall Effect</h5>
+                      <div className="space-y-1 text-sm">
+                        <div>
+                          <span className="text-muted-foreground">Estimate: </span>
+                          <span>{data.overall_effect.estimate.toFixed(3)}</span>
                         </div>
-                      </div>
-
-                      <div>
-                        <h5 className="text-sm font-medium mb-2">Heterogeneity</h5>
-                        <div className="space-y-1 text-sm">
-                          <div>
-                            <span className="text-muted-foreground">I²: </span>
-                            <span>{data.heterogeneity.i_squared.toFixed(1)}%</span>
-                          </div>
-                          <div>
-                            <span className="text-muted-foreground">Q-statistic: </span>
-                            <span>{data.heterogeneity.q_statistic.toFixed(2)}</span>
-                          </div>
-                          <div>
-                            <span className="text-muted-foreground">P-value: </span>
-                            <span>{data.heterogeneity.q_pvalue.toFixed(3)}</span>
-                          </div>
+                        <div>
+                          <span className="text-muted-foreground">95% CI: </span>
+                          <span>[{data.overall_effect.ci_lower.toFixed(3)}, {data.overall_effect.ci_upper.toFixed(3)}]</span>
+                        </div>
+                        <div>
+                          <span className="text-muted-foreground">P-value: </span>
+                          <span>{data.overall_effect.p_value.toFixed(3)}</span>
                         </div>
                       </div>
                     </div>
 
-                    <ForestPlot
-                      studies={data.studies}
-                      overallEffect={data.overall_effect}
-                      effectMeasure={effectMeasure}
-                    />
-                  </div>
-                ))
-              ) : (
-                // Cumulative analysis
-                Object.entries(results.cumulative).map(([studyId, data]) => (
-                  <div key={studyId} className="space-y-4">
-                    <h4 className="text-sm font-medium">
-                      Up to {data.studies[data.studies.length - 1].study_label}
-                    </h4>
-                    
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <h5 className="text-sm font-medium mb-2">Overall Effect</h5>
-                        <div className="space-y-1 text-sm">
-                          <div>
-                            <span className="text-muted-foreground">Estimate: </span>
-                            <span>{data.overall_effect.estimate.toFixed(3)}</span>
-                          </div>
-                          <div>
-                            <span className="text-muted-foreground">95% CI: </span>
-                            <span>[{data.overall_effect.ci_lower.toFixed(3)}, {data.overall_effect.ci_upper.toFixed(3)}]</span>
-                          </div>
-                          <div>
-                            <span className="text-muted-foreground">P-value: </span>
-                            <span>{data.overall_effect.p_value.toFixed(3)}</span>
-                          </div>
+                    <div>
+                      <h5 className="text-sm font-medium mb-2">Heterogeneity</h5>
+                      <div className="space-y-1 text-sm">
+                        <div>
+                          <span className="text-muted-foreground">I²: </span>
+                          <span>{data.heterogeneity.i_squared.toFixed(1)}%</span>
                         </div>
-                      </div>
-
-                      <div>
-                        <h5 className="text-sm font-medium mb-2">Heterogeneity</h5>
-                        <div className="space-y-1 text-sm">
-                          <div>
-                            <span className="text-muted-foreground">I²: </span>
-                            <span>{data.heterogeneity.i_squared.toFixed(1)}%</span>
-                          </div>
-                          <div>
-                            <span className="text-muted-foreground">Q-statistic: </span>
-                            <span>{data.heterogeneity.q_statistic.toFixed(2)}</span>
-                          </div>
-                          <div>
-                            <span className="text-muted-foreground">P-value: </span>
-                            <span>{data.heterogeneity.q_pvalue.toFixed(3)}</span>
-                          </div>
+                        <div>
+                          <span className="text-muted-foreground">Q-statistic: </span>
+                          <span>{data.heterogeneity.q_statistic.toFixed(2)}</span>
+                        </div>
+                        <div>
+                          <span className="text-muted-foreground">P-value: </span>
+                          <span>{data.heterogeneity.q_pvalue.toFixed(3)}</span>
                         </div>
                       </div>
                     </div>
+                  </div>
+
+                  <ForestPlot
+                    studies={data.studies}
+                    overallEffect={data.overall_effect}
+                    effectMeasure={effectMeasure}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {activeTab === "cumulative" && cumulative && (
+            <div className="space-y-4">
+              <CumulativeForestPlot steps={cumulative.steps} effectMeasure={effectMeasure} />
 
-                    <ForestPlot
-                      studies={data.studies}
-                      overallEffect={data.overall_effect}
-                      effectMeasure={effectMeasure}
-                    />
+              <div className="space-y-1 text-sm">
+                {cumulative.steps.map(step => (
+                  <div key={step.studyId}>
+                    <span className="text-muted-foreground">+ {step.studyLabel} (k = {step.k}): </span>
+                    <span>
+                      {step.estimate.toFixed(3)} [{step.ciLower.toFixed(3)}, {step.ciUpper.toFixed(3)}], I² = {step.iSquared.toFixed(1)}%
+                    </span>
                   </div>
-                ))
+                ))}
+              </div>
+
+              {cumulative.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                  {cumulative.warnings.map(warning => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {activeTab === "influence" && influence && (
+            <div className="space-y-4">
+              <div className="space-y-1 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Cut-offs: </span>
+                  <span>
+                    |std. residual| &gt; {influence.cutoffs.rstudent.toFixed(2)},
+                    |DFFITS| &gt; {influence.cutoffs.dffits.toFixed(2)},
+                    Cook&apos;s D &gt; {influence.cutoffs.cooksDistance.toFixed(2)},
+                    hat &gt; {influence.cutoffs.hat.toFixed(2)},
+                    |DFBETAS| &gt; {influence.cutoffs.dfbetas}
+                  </span>
+                </div>
+                {flagged.length === 0 ? (
+                  <div className="text-muted-foreground">No study exceeds any cut-off</div>
+                ) : (
+                  flagged.map(study => (
+                    <div key={study.studyId}>
+                      <span className="text-muted-foreground">{study.studyLabel}: </span>
+                      <span>
+                        {(Object.keys(FLAG_LABELS) as (keyof typeof FLAG_LABELS)[])
+                          .filter(flag => study.flags[flag])
+                          .map(flag => FLAG_LABELS[flag])
+                          .join(", ")}
+                        {study.flags.influential ? " (influential)" : ""}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className="flex gap-6">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="influence-highlight"
+                    checked={highlightFlagged}
+                    onCheckedChange={(checked) => setHighlightFlagged(!!checked)}
+                  />
+                  <Label htmlFor="influence-highlight">Highlight flagged studies</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="influence-flagged-first"
+                    checked={flaggedFirst}
+                    disabled={!highlightFlagged}
+                    onCheckedChange={(checked) => setFlaggedFirst(!!checked)}
+                  />
+                  <Label htmlFor="influence-flagged-first">Flagged studies first</Label>
+                </div>
+              </div>
+
+              <StudyTable
+                studies={influenceRows}
+                columns={INFLUENCE_COLUMNS}
+                highlightedIds={highlightFlagged ? flagged.map(s => s.studyId) : []}
+                highlightedFirst={flaggedFirst}
+              />
+
+              <BaujatPlot studies={influence.studies} />
+
+              {influence.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                  {influence.warnings.map(warning => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
               )}
             </div>
           )}
@@ -0,0 +1,111 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import type { TrialSequentialResults } from "@/lib/services/meta-analysis"
+
+// Boundaries above this are drawn at the edge of the chart
+const Z_LIMIT = 8
+
+const chartConfig = {
+  zCurve: { label: "Cumulative Z", color: "hsl(var(--chart-1))" },
+  efficacyUpper: { label: "Efficacy boundary", color: "hsl(var(--chart-2))" },
+  efficacyLower: { label: "Efficacy boundary", color: "hsl(var(--chart-2))" },
+  futilityUpper: { label: "Futility boundary", color: "hsl(var(--chart-4))" },
+  futilityLower: { label: "Futility boundary", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig
+
+interface ChartRow {
+  fraction: number
+  zCurve?: number
+  efficacyUpper?: number
+  efficacyLower?: number
+  futilityUpper?: number
+  futilityLower?: number
+}
+
+interface SequentialMonitoringChartProps {
+  results: TrialSequentialResults
+}
+
+/**
+ * Cumulative Z-curve against the monitoring boundaries, with information as a fraction of
+ * the required information size
+ */
+export function SequentialMonitoringChart({ results }: SequentialMonitoringChartProps) {
+  const rows = new Map<number, ChartRow>()
+  const row = (fraction: number) => {
+    const existing = rows.get(fraction)
+    if (existing) return existing
+    const created: ChartRow = { fraction }
+    rows.set(fraction, created)
+    return created
+  }
+
+  for (const boundary of results.boundaries) {
+    Object.assign(row(boundary.informationFraction), {
+      efficacyUpper: boundary.efficacy,
+      efficacyLower: -boundary.efficacy,
+      futilityUpper: boundary.futility,
+      futilityLower: -boundary.futility,
+    })
+  }
+  // Past the required information size the final boundaries stay in force
+  for (const look of results.looks) {
+    const entry = row(look.informationFraction)
+    entry.zCurve = Math.max(-Z_LIMIT, Math.min(Z_LIMIT, look.zStatistic))
+    if (look.informationFraction > 1) {
+      entry.efficacyUpper = look.efficacyBoundary
+      entry.efficacyLower = -look.efficacyBoundary
+    }
+  }
+  const data = Array.from(rows.values()).sort((a, b) => a.fraction - b.fraction)
+  data.unshift({ fraction: 0, zCurve: 0 })
+
+  const maxFraction = Math.max(1, ...data.map(entry => entry.fraction))
+  const conventional = 1.96
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[400px] w-full">
+      <LineChart data={data} margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          type="number"
+          dataKey="fraction"
+          domain={[0, maxFraction]}
+          tickFormatter={value => `${Math.round(value * 100)}%`}
+          label={{ value: "Information (% of required information size)", position: "insideBottom", offset: -10 }}
+        />
+        <YAxis
+          domain={[-Z_LIMIT, Z_LIMIT]}
+          allowDataOverflow
+          label={{ value: "Cumulative Z", angle: -90, position: "insideLeft" }}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => `${Math.round((payload?.[0]?.payload?.fraction ?? 0) * 100)}% of required information`}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} verticalAlign="top" />
+        <ReferenceLine y={conventional} stroke="#94a3b8" strokeDasharray="2 4" />
+        <ReferenceLine y={-conventional} stroke="#94a3b8" strokeDasharray="2 4" />
+        <ReferenceLine y={0} stroke="#cbd5e1" />
+        <ReferenceLine x={1} stroke="#64748b" strokeDasharray="4 4" label={{ value: "RIS", position: "top" }} />
+        <Line dataKey="efficacyUpper" stroke="var(--color-efficacyUpper)" dot={false} connectNulls strokeWidth={2} />
+        <Line dataKey="efficacyLower" stroke="var(--color-efficacyLower)" dot={false} connectNulls strokeWidth={2} legendType="none" />
+        <Line dataKey="futilityUpper" stroke="var(--color-futilityUpper)" dot={false} connectNulls strokeDasharray="5 5" />
+        <Line dataKey="futilityLower" stroke="var(--color-futilityLower)" dot={false} connectNulls strokeDasharray="5 5" legendType="none" />
+        <Line dataKey="zCurve" stroke="var(--color-zCurve)" connectNulls strokeWidth={2} />
+      </LineChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Card } from "@/components/ui/card"
+import type { DiagnosticResults, RocPoint } from "@/lib/services/meta-analysis"
+
+interface SrocPlotProps {
+  results: DiagnosticResults
+}
+
+export function SrocPlot({ results }: SrocPlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    if (!canvasRef.current) return
+
+    const canvas = canvasRef.current
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    // Set canvas dimensions
+    const width = canvas.clientWidth
+    const height = 450
+    canvas.width = width
+    canvas.height = height
+
+    ctx.clearRect(0, 0, width, height)
+    ctx.font = "12px sans-serif"
+    ctx.textBaseline = "middle"
+
+    // Square ROC space: false positive rate across, sensitivity up
+    const margin = { top: 20, right: 20, bottom: 50, left: 60 }
+    const size = Math.min(width - margin.left - margin.right, height - margin.top - margin.bottom)
+    const toX = (fpr: number) => margin.left + fpr * size
+    const toY = (sensitivity: number) => margin.top + (1 - sensitivity) * size
+
+    ctx.beginPath()
+    ctx.moveTo(toX(0), toY(1))
+    ctx.lineTo(toX(0), toY(0))
+    ctx.lineTo(toX(1), toY(0))
+    ctx.strokeStyle = "#000"
+    ctx.stroke()
+
+    ctx.fillStyle = "#000"
+    for (let tick = 0; tick <= 5; tick++) {
+      const value = tick / 5
+      ctx.textAlign = "center"
+      ctx.fillText(value.toFixed(1), toX(value), toY(0) + 15)
+      ctx.textAlign = "right"
+      ctx.fillText(value.toFixed(1), toX(0) - 8, toY(value))
+    }
+    ctx.textAlign = "center"
+    ctx.fillText("False positive rate (1 - specificity)", toX(0.5), height - 10)
+    ctx.save()
+    ctx.translate(15, toY(0.5))
+    ctx.rotate(-Math.PI / 2)
+    ctx.fillText("Sensitivity", 0, 0)
+    ctx.restore()
+
+    // Chance diagonal
+    ctx.beginPath()
+    ctx.moveTo(toX(0), toY(0))
+    ctx.lineTo(toX(1), toY(1))
+    ctx.strokeStyle = "#cbd5e1"
+    ctx.setLineDash([5, 5])
+    ctx.stroke()
+    ctx.setLineDash([])
+
+    const trace = (points: RocPoint[], color: string, dashed: boolean, lineWidth = 1) => {
+      ctx.beginPath()
+      points.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(toX(point.fpr), toY(point.sensitivity))
+        else ctx.lineTo(toX(point.fpr), toY(point.sensitivity))
+      })
+      ctx.strokeStyle = color
+      ctx.lineWidth = lineWidth
+      ctx.setLineDash(dashed ? [4, 4] : [])
+      ctx.stroke()
+      ctx.setLineDash([])
+      ctx.lineWidth = 1
+    }
+
+    trace(results.predictionRegion, "#94a3b8", true)
+    trace(results.confidenceRegion, "#2563eb", true)
+    trace(results.sroc.points, "#000", false, 2)
+
+    // Studies as circles sized by total sample size
+    const totals = results.studies.map(study => study.tp + study.fp + study.fn + study.tn)
+    const maxTotal = Math.max(1, ...totals)
+    results.studies.forEach((study, i) => {
+      ctx.beginPath()
+      ctx.arc(
+        toX(1 - study.specificity.estimate),
+        toY(study.sensitivity.estimate),
+        3 + 7 * Math.sqrt(totals[i] / maxTotal),
+        0,
+        Math.PI * 2
+      )
+      ctx.strokeStyle = "#475569"
+      ctx.stroke()
+    })
+
+    // Summary operating point
+    ctx.beginPath()
+    ctx.arc(
+      toX(1 - results.summary.specificity.estimate),
+      toY(results.summary.sensitivity.estimate),
+      5,
+      0,
+      Math.PI * 2
+    )
+    ctx.fillStyle = "#dc2626"
+    ctx.fill()
+
+    // Legend
+    const legendX = toX(0) + size + 20
+    const legend = [
+      { label: "SROC curve", color: "#000", dashed: false },
+      { label: "95% confidence region", color: "#2563eb", dashed: true },
+      { label: "95% prediction region", color: "#94a3b8", dashed: true },
+    ]
+    if (legendX + 160 <= width) {
+      ctx.textAlign = "left"
+      legend.forEach((entry, i) => {
+        const y = margin.top + 10 + i * 20
+        ctx.beginPath()
+        ctx.moveTo(legendX, y)
+        ctx.lineTo(legendX + 20, y)
+        ctx.strokeStyle = entry.color
+        ctx.setLineDash(entry.dashed ? [4, 4] : [])
+        ctx.stroke()
+        ctx.setLineDash([])
+        ctx.fillStyle = "#000"
+        ctx.fillText(entry.label, legendX + 28, y)
+      })
+    }
+  }, [results])
+
+  return (
+    <Card className="p-4">
+      <canvas
+        ref={canvasRef}
+        className="w-full"
+        style={{ height: "450px" }}
+      />
+    </Card>
+  )
+}
@@ -11,7 +11,8 @@ import {
 } from "@/components/ui/table"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
-import { Search, Edit, Save, X } from "lucide-react"
+import { Search, Edit, Save, X, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react"
+import { cn } from "@/lib/utils"
 
 interface Study {
   study_id: string
@@ -24,20 +25,82 @@ interface Study {
   [key: string]: any
 }
 
+// Additional read-only numeric column, e.g. an influence statistic merged into each study
+export interface StudyTableColumn {
+  key: string
+  label: string
+  digits?: number
+}
+
+type SortDirection = "asc" | "desc"
+
 interface StudyTableProps {
   studies: Study[]
+  columns?: StudyTableColumn[]
+  // Rows to highlight, by study_id
+  highlightedIds?: string[]
+  // Keep highlighted rows above the rest, whatever the sort column
+  highlightedFirst?: boolean
 }
 
-export function StudyTable({ studies }: StudyTableProps) {
+export function StudyTable({ studies, columns = [], highlightedIds = [], highlightedFirst = false }: StudyTableProps) {
   const [searchTerm, setSearchTerm] = useState("")
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editedStudy, setEditedStudy] = useState<Study | null>(null)
+  const [sort, setSort] = useState<{ key: string; direction: SortDirection } | null>(null)
+
+  const isHighlighted = (study: Study) => highlightedIds.includes(study.study_id)
 
   const filteredStudies = studies.filter(study => 
     study.study_label.toLowerCase().includes(searchTerm.toLowerCase()) ||
     study.study_id.toLowerCase().includes(searchTerm.toLowerCase())
   )
 
+  // Missing values sort last in either direction
+  const compareBy = (key: string, direction: SortDirection) => (a: Study, b: Study) => {
+    const x = a[key]
+    const y = b[key]
+    if (x === undefined || x === null) return y === undefined || y === null ? 0 : 1
+    if (y === undefined || y === null) return -1
+    const order = typeof x === "number" && typeof y === "number"
+      ? x - y
+      : String(x).localeCompare(String(y), undefined, { numeric: true })
+    return direction === "asc" ? order : -order
+  }
+
+  const sortedStudies = [...filteredStudies].sort((a, b) =>
+    (highlightedFirst ? Number(isHighlighted(b)) - Number(isHighlighted(a)) : 0) ||
+    (sort ? compareBy(sort.key, sort.direction)(a, b) : 0)
+  )
+
+  // Cycle a column through ascending, descending and unsorted
+  const toggleSort = (key: string) => {
+    setSort(current => {
+      if (!current || current.key !== key) return { key, direction: "asc" }
+      if (current.direction === "asc") return { key, direction: "desc" }
+      return null
+    })
+  }
+
+  const sortableHead = (key: string, label: string, className = "text-right") => (
+    <TableHead key={key} className={className}>
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 hover:text-foreground"
+        onClick={() => toggleSort(key)}
+      >
+        {label}
+        {sort?.key !== key ? (
+          <ArrowUpDown className="h-3 w-3" />
+        ) : sort.direction === "asc" ? (
+          <ArrowUp className="h-3 w-3" />
+        ) : (
+          <ArrowDown className="h-3 w-3" />
+        )}
+      </button>
+    </TableHead>
+  )
+
   const handleEdit = (study: Study) => {
     setEditingId(study.study_id)
     setEditedStudy({ ...study })
@@ -86,25 +149,29 @@ export function StudyTable({ studies }: StudyTableProps) {
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Study ID</TableHead>
-              <TableHead>Study Label</TableHead>
-              <TableHead className="text-right">Effect Size</TableHead>
-              <TableHead className="text-right">Standard Error</TableHead>
-              <TableHead className="text-right">Weight (%)</TableHead>
-              <TableHead className="text-right">Year</TableHead>
+              {sortableHead("study_id", "Study ID", "")}
+              {sortableHead("study_label", "Study Label", "")}
+              {sortableHead("effect_size", "Effect Size")}
+              {sortableHead("se", "Standard Error")}
+              {sortableHead("weight", "Weight (%)")}
+              {sortableHead("year", "Year")}
+              {columns.map(column => sortableHead(column.key, column.label))}
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredStudies.length === 0 ? (
+            {sortedStudies.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="text-center py-4">
+                <TableCell colSpan={7 + columns.length} className="text-center py-4">
                   No studies found
                 </TableCell>
               </TableRow>
             ) : (
-              filteredStudies.map((study) => (
-                <TableRow key={study.study_id}>
+              sortedStudies.map((study) => (
+                <TableRow
+                  key={study.study_id}
+                  className={cn(isHighlighted(study) && "bg-red-50 hover:bg-red-100 dark:bg-red-950/40")}
+                >
                   <TableCell className="font-medium">{study.study_id}</TableCell>
                   <TableCell>
                     {editingId === study.study_id ? (
@@ -164,6 +231,13 @@ export function StudyTable({ studies }: StudyTableProps) {
                       study.year || "-"
                     )}
                   </TableCell>
+                  {columns.map(column => (
+                    <TableCell key={column.key} className="text-right">
+                      {typeof study[column.key] === "number"
+                        ? study[column.key].toFixed(column.digits ?? 3)
+                        : "-"}
+                    </TableCell>
+                  ))}
                   <TableCell className="text-right">
                     {editingId === study.study_id ? (
                       <div className="flex justify-end gap-2">
@@ -2,9 +2,14 @@
 
 import { useState } from "react"
 import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Button } from "@/components/ui/button"
-import { ForestPlot } from "./forest-plot"
+import { SubgroupForestPlot } from "./subgroup-forest-plot"
+import { AnalysisProgress } from "./analysis-progress"
+import { createProgressId, useProgressStream } from "@/hooks/use-progress-stream"
+import type { BetweenGroupTest, SubgroupParameters, SubgroupResults, SubgroupTauSquared } from "@/lib/services/meta-analysis"
 
 interface Study {
   study_id: string
@@ -17,49 +22,31 @@ interface Study {
   [key: string]: any
 }
 
-interface SubgroupResults {
-  subgroups: {
-    [key: string]: {
-      studies: Study[]
-      overall_effect: {
-        estimate: number
-        ci_lower: number
-        ci_upper: number
-        p_value: number
-      }
-      heterogeneity: {
-        q_statistic: number
-        q_df: number
-        q_pvalue: number
-        i_squared: number
-        tau_squared: number
-        tau: number
-        h_squared: number
-        h: number
-      }
-    }
-  }
-  between_groups: {
-    q_statistic: number
-    q_df: number
-    p_value: number
-  }
-}
+// Everything the component chooses; the page supplies the effect measure and model
+export type SubgroupSettings = Pick<SubgroupParameters, "subgroupVar" | "tauSquared" | "betweenGroupTest" | "minK">
 
 interface SubgroupAnalysisProps {
   studies: Study[]
   effectMeasure: string
-  onRunAnalysis: (moderator: string) => Promise<SubgroupResults>
+  onRunAnalysis: (settings: SubgroupSettings, progressId: string) => Promise<SubgroupResults>
+}
+
+function formatP(p: number) {
+  return p < 0.001 ? "< 0.001" : p.toFixed(3)
 }
 
 export function SubgroupAnalysis({ studies, effectMeasure, onRunAnalysis }: SubgroupAnalysisProps) {
   const [selectedModerator, setSelectedModerator] = useState<string>("")
+  const [tauSquared, setTauSquared] = useState<SubgroupTauSquared>("separate")
+  const [betweenGroupTest, setBetweenGroupTest] = useState<BetweenGroupTest>("mixed")
+  const [minK, setMinK] = useState("2")
   const [results, setResults] = useState<SubgroupResults | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const progress = useProgressStream()
 
   // Get unique moderators from studies
-  const moderators = Object.keys(studies[0] || {}).filter(key => 
+  const moderators = Object.keys(studies[0] || {}).filter(key =>
     !["study_id", "study_label", "effect_size", "se", "weight"].includes(key)
   )
 
@@ -69,15 +56,30 @@ export function SubgroupAnalysis({ studies, effectMeasure, onRunAnalysis }: Subg
       return
     }
 
+    const parsedMinK = Number(minK)
+    if (!Number.isInteger(parsedMinK) || parsedMinK < 1) {
+      setError("The minimum number of studies must be a positive whole number")
+      return
+    }
+
     setLoading(true)
     setError(null)
 
+    const progressId = createProgressId()
+    progress.start(`/api/progress/${progressId}`)
+
     try {
-      const subgroupResults = await onRunAnalysis(selectedModerator)
+      const subgroupResults = await onRunAnalysis({
+        subgroupVar: selectedModerator,
+        tauSquared,
+        betweenGroupTest,
+        minK: parsedMinK,
+      }, progressId)
       setResults(subgroupResults)
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred during analysis")
     } finally {
+      progress.stop()
       setLoading(false)
     }
   }
@@ -86,9 +88,9 @@ export function SubgroupAnalysis({ studies, effectMeasure, onRunAnalysis }: Subg
     <div className="space-y-4">
       <Card className="p-4">
         <h3 className="text-lg font-semibold mb-4">Subgroup Analysis</h3>
-        
+
         <div className="space-y-4">
-          <div className="flex gap-4">
+          <div className="flex flex-wrap gap-4 items-center">
             <Select
               value={selectedModerator}
               onValueChange={setSelectedModerator}
@@ -105,7 +107,39 @@ export function SubgroupAnalysis({ studies, effectMeasure, onRunAnalysis }: Subg
               </SelectContent>
             </Select>
 
-            <Button 
+            <Select value={tauSquared} onValueChange={value => setTauSquared(value as SubgroupTauSquared)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="separate">Separate τ² per subgroup</SelectItem>
+                <SelectItem value="common">Common τ²</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={betweenGroupTest} onValueChange={value => setBetweenGroupTest(value as BetweenGroupTest)}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mixed">Mixed-effects Q-between</SelectItem>
+                <SelectItem value="fixed">Fixed-effect Q-between</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center gap-2">
+              <Label htmlFor="subgroup-min-k" className="whitespace-nowrap">Minimum k</Label>
+              <Input
+                id="subgroup-min-k"
+                type="number"
+                min={1}
+                className="w-[80px]"
+                value={minK}
+                onChange={(e) => setMinK(e.target.value)}
+              />
+            </div>
+
+            <Button
               onClick={handleRunAnalysis}
               disabled={loading || !selectedModerator}
             >
@@ -117,77 +151,74 @@ export function SubgroupAnalysis({ studies, effectMeasure, onRunAnalysis }: Subg
             <p className="text-sm text-red-500">{error}</p>
           )}
 
+          {loading && <AnalysisProgress progress={progress} />}
+
           {results && (
             <div className="space-y-6">
               {/* Between-groups test */}
               <div>
-                <h4 className="text-sm font-medium mb-2">Between-groups Test</h4>
+                <h4 className="text-sm font-medium mb-2">
+                  Between-groups Test ({results.betweenGroupTest === "mixed" ? "mixed-effects" : "fixed-effect"})
+                </h4>
                 <div className="grid grid-cols-3 gap-4 text-sm">
                   <div>
                     <span className="text-muted-foreground">Q-statistic: </span>
-                    <span>{results.between_groups.q_statistic.toFixed(2)}</span>
+                    <span>{results.betweenGroupQ.toFixed(2)}</span>
                   </div>
                   <div>
                     <span className="text-muted-foreground">Degrees of freedom: </span>
-                    <span>{results.between_groups.q_df}</span>
+                    <span>{results.betweenGroupDf}</span>
                   </div>
                   <div>
                     <span className="text-muted-foreground">P-value: </span>
-                    <span>{results.between_groups.p_value.toFixed(3)}</span>
+                    <span>{formatP(results.betweenGroupPvalue)}</span>
                   </div>
                 </div>
+                {results.commonTauSquared !== undefined && (
+                  <p className="text-sm mt-1">
+                    <span className="text-muted-foreground">Common τ²: </span>
+                    <span>{results.commonTauSquared.toFixed(4)}</span>
+                  </p>
+                )}
               </div>
 
               {/* Subgroup results */}
-              {Object.entries(results.subgroups).map(([group, data]) => (
-                <div key={group} className="space-y-4">
-                  <h4 className="text-sm font-medium">{group}</h4>
-                  
-                  <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {Object.entries(results.subgroups).map(([group, data]) => (
+                  <div key={group} className="space-y-1 text-sm">
+                    <h4 className="font-medium">{group} (k = {data.k})</h4>
                     <div>
-                      <h5 className="text-sm font-medium mb-2">Overall Effect</h5>
-                      <div className="space-y-1 text-sm">
-                        <div>
-                          <span className="text-muted-foreground">Estimate: </span>
-                          <span>{data.overall_effect.estimate.toFixed(3)}</span>
-                        </div>
-                        <div>
-                          <span className="text-muted-foreground">95% CI: </span>
-                          <span>[{data.overall_effect.ci_lower.toFixed(3)}, {data.overall_effect.ci_upper.toFixed(3)}]</span>
-                        </div>
-                        <div>
-                          <span className="text-muted-foreground">P-value: </span>
-                          <span>{data.overall_effect.p_value.toFixed(3)}</span>
-                        </div>
-                      </div>
+                      <span className="text-muted-foreground">{effectMeasure}: </span>
+                      <span>
+                        {data.overallEffect.toFixed(3)} [{data.ciLower.toFixed(3)}, {data.ciUpper.toFixed(3)}], p = {formatP(data.pValue)}
+                      </span>
                     </div>
-
-                    <div>
-                      <h5 className="text-sm font-medium mb-2">Heterogeneity</h5>
-                      <div className="space-y-1 text-sm">
-                        <div>
-                          <span className="text-muted-foreground">I²: </span>
-                          <span>{data.heterogeneity.i_squared.toFixed(1)}%</span>
-                        </div>
-                        <div>
-                          <span className="text-muted-foreground">Q-statistic: </span>
-                          <span>{data.heterogeneity.q_statistic.toFixed(2)}</span>
-                        </div>
-                        <div>
-                          <span className="text-muted-foreground">P-value: </span>
-                          <span>{data.heterogeneity.q_pvalue.toFixed(3)}</span>
-                        </div>
+                    {data.predictionInterval && (
+                      <div>
+                        <span className="text-muted-foreground">95% PI: </span>
+                        <span>[{data.predictionInterval.lower.toFixed(3)}, {data.predictionInterval.upper.toFixed(3)}]</span>
                       </div>
+                    )}
+                    <div>
+                      <span className="text-muted-foreground">Heterogeneity: </span>
+                      <span>
+                        I² = {data.heterogeneity.iSquared.toFixed(1)}%, τ² = {data.heterogeneity.tauSquared.toFixed(4)},
+                        Q = {data.heterogeneity.qStatistic.toFixed(2)} (p = {formatP(data.heterogeneity.qPvalue)})
+                      </span>
                     </div>
                   </div>
+                ))}
+              </div>
 
-                  <ForestPlot
-                    studies={data.studies}
-                    overallEffect={data.overall_effect}
-                    effectMeasure={effectMeasure}
-                  />
-                </div>
-              ))}
+              <SubgroupForestPlot data={results.forest} />
+
+              {results.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                  {results.warnings.map(warning => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           )}
         </div>
@@ -195,4 +226,3 @@ export function SubgroupAnalysis({ studies, effectMeasure, onRunAnalysis }: Subg
     </div>
   )
 }
-
@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Card } from "@/components/ui/card"
+import { isRatioMeasure } from "@/lib/stats/meta-analysis"
+import type { SubgroupForestData, SubgroupForestSummary } from "@/lib/services/meta-analysis"
+
+interface SubgroupForestPlotProps {
+  data: SubgroupForestData
+}
+
+const ROW_HEIGHT = 24
+
+type Row =
+  | { type: "header"; label: string }
+  | { type: "study"; label: string; estimate: number; ciLower: number; ciUpper: number; weight: number }
+  | { type: "summary"; label: string; summary: SubgroupForestSummary; overall?: boolean }
+  | { type: "note"; label: string }
+
+export function SubgroupForestPlot({ data }: SubgroupForestPlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    if (!canvasRef.current) return
+
+    const canvas = canvasRef.current
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    // Lay the plot out as rows: a header, the studies and the pooled diamond per subgroup
+    const rows: Row[] = []
+    data.groups.forEach(group => {
+      rows.push({ type: "header", label: `${group.group} (k = ${group.k})` })
+      group.studies.forEach(study => rows.push({ type: "study", label: study.studyLabel, ...study }))
+      if (group.summary) {
+        rows.push({ type: "summary", label: `Subtotal: ${group.group}`, summary: group.summary })
+      } else {
+        rows.push({ type: "note", label: "Too few studies to pool" })
+      }
+    })
+    rows.push({ type: "summary", label: "Overall", summary: data.overall, overall: true })
+
+    // Set canvas dimensions
+    const width = canvas.clientWidth
+    const height = Math.max(400, rows.length * ROW_HEIGHT + 80)
+    canvas.width = width
+    canvas.height = height
+
+    ctx.clearRect(0, 0, width, height)
+    ctx.font = "12px sans-serif"
+    ctx.textBaseline = "middle"
+
+    const margin = { top: 20, right: 40, bottom: 50, left: 220 }
+    const plotWidth = width - margin.left - margin.right
+
+    // Scale covers the study intervals, the summaries and their prediction intervals
+    const nullValue = isRatioMeasure(data.effectMeasure) ? 1 : 0
+    const allValues = [nullValue]
+    rows.forEach(row => {
+      if (row.type === "study") allValues.push(row.ciLower, row.ciUpper)
+      if (row.type === "summary") {
+        allValues.push(row.summary.ciLower, row.summary.ciUpper)
+        if (row.summary.predictionInterval) {
+          allValues.push(row.summary.predictionInterval.lower, row.summary.predictionInterval.upper)
+        }
+      }
+    })
+    const minValue = Math.min(...allValues)
+    const maxValue = Math.max(...allValues)
+    const padding = (maxValue - minValue || 1) * 0.05
+    const toX = (value: number) => margin.left + ((value - minValue + padding) / (maxValue - minValue + 2 * padding)) * plotWidth
+
+    // Draw axes
+    ctx.beginPath()
+    ctx.moveTo(margin.left, margin.top)
+    ctx.lineTo(margin.left, height - margin.bottom)
+    ctx.lineTo(width - margin.right, height - margin.bottom)
+    ctx.strokeStyle = "#000"
+    ctx.stroke()
+
+    // Line of no effect
+    ctx.beginPath()
+    ctx.moveTo(toX(nullValue), margin.top)
+    ctx.lineTo(toX(nullValue), height - margin.bottom)
+    ctx.strokeStyle = "#666"
+    ctx.setLineDash([5, 5])
+    ctx.stroke()
+    ctx.setLineDash([])
+
+    const maxWeight = Math.max(1, ...rows.map(row => (row.type === "study" ? row.weight : 0)))
+
+    rows.forEach((row, i) => {
+      const y = margin.top + i * ROW_HEIGHT + ROW_HEIGHT / 2
+      ctx.fillStyle = "#000"
+      ctx.strokeStyle = "#000"
+      ctx.textAlign = "left"
+
+      switch (row.type) {
+        case "header":
+          ctx.font = "bold 12px sans-serif"
+          ctx.fillText(row.label, 10, y)
+          ctx.font = "12px sans-serif"
+          break
+        case "note":
+          ctx.fillStyle = "#666"
+          ctx.fillText(row.label, 20, y)
+          break
+        case "study": {
+          ctx.beginPath()
+          ctx.moveTo(toX(row.ciLower), y)
+          ctx.lineTo(toX(row.ciUpper), y)
+          ctx.stroke()
+
+          // Square area proportional to the weight within the subgroup
+          const size = 4 + 8 * Math.sqrt(row.weight / maxWeight)
+          ctx.fillRect(toX(row.estimate) - size / 2, y - size / 2, size, size)
+          ctx.fillText(row.label, 20, y)
+          break
+        }
+        case "summary": {
+          const { summary } = row
+
+          // Prediction interval as a dashed line through the diamond
+          if (summary.predictionInterval) {
+            ctx.beginPath()
+            ctx.moveTo(toX(summary.predictionInterval.lower), y)
+            ctx.lineTo(toX(summary.predictionInterval.upper), y)
+            ctx.setLineDash([3, 3])
+            ctx.stroke()
+            ctx.setLineDash([])
+          }
+
+          ctx.beginPath()
+          ctx.moveTo(toX(summary.ciLower), y)
+          ctx.lineTo(toX(summary.estimate), y - 7)
+          ctx.lineTo(toX(summary.ciUpper), y)
+          ctx.lineTo(toX(summary.estimate), y + 7)
+          ctx.closePath()
+          ctx.fillStyle = row.overall ? "#000" : "#2563eb"
+          ctx.fill()
+
+          ctx.fillStyle = "#000"
+          if (row.overall) ctx.font = "bold 12px sans-serif"
+          ctx.fillText(row.label, row.overall ? 10 : 20, y)
+          ctx.font = "12px sans-serif"
+          break
+        }
+      }
+    })
+
+    // Scale markers
+    ctx.fillStyle = "#000"
+    ctx.textAlign = "center"
+    for (let i = 0; i <= 5; i++) {
+      const value = minValue + ((maxValue - minValue) * i) / 5
+      const x = toX(value)
+      ctx.beginPath()
+      ctx.moveTo(x, height - margin.bottom)
+      ctx.lineTo(x, height - margin.bottom + 5)
+      ctx.stroke()
+      ctx.fillText(value.toFixed(2), x, height - margin.bottom + 20)
+    }
+    ctx.fillText(data.effectMeasure, margin.left + plotWidth / 2, height - 10)
+  }, [data])
+
+  return (
+    <Card className="p-4">
+      <canvas
+        ref={canvasRef}
+        className="w-full"
+        style={{ minHeight: "400px" }}
+      />
+    </Card>
+  )
+}
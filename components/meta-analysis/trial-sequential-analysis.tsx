@@ -0,0 +1,221 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { SequentialMonitoringChart } from "./sequential-monitoring-chart"
+import { AnalysisProgress } from "./analysis-progress"
+import { createProgressId, useProgressStream } from "@/hooks/use-progress-stream"
+import { Study } from "@/types/meta-analysis"
+import type { SequentialConclusion, SequentialParameters, TrialSequentialResults } from "@/lib/services/meta-analysis"
+
+// Everything the component chooses; the page supplies the effect measure and model
+export type SequentialSettings = Omit<SequentialParameters, "effectMeasure" | "modelType" | "method">
+
+const CONCLUSIONS: Record<SequentialConclusion, string> = {
+  benefit_or_harm: "The Z-curve crossed the efficacy boundary",
+  futility: "The Z-curve entered the futility region",
+  inconclusive: "No boundary has been crossed; more information is needed",
+}
+
+interface TrialSequentialAnalysisProps {
+  studies: Study[]
+  effectMeasure: string
+  onRunAnalysis: (settings: SequentialSettings, progressId: string) => Promise<TrialSequentialResults>
+}
+
+export function TrialSequentialAnalysis({ studies, effectMeasure, onRunAnalysis }: TrialSequentialAnalysisProps) {
+  const [alpha, setAlpha] = useState("0.05")
+  const [power, setPower] = useState("0.8")
+  const [anticipatedEffect, setAnticipatedEffect] = useState("")
+  const [diversity, setDiversity] = useState("")
+  const [results, setResults] = useState<TrialSequentialResults | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const progress = useProgressStream()
+
+  const handleRunAnalysis = async () => {
+    const alphaValue = Number(alpha)
+    const powerValue = Number(power)
+    if (!(alphaValue > 0 && alphaValue < 1) || !(powerValue > 0 && powerValue < 1)) {
+      setError("Alpha and power must lie between 0 and 1")
+      return
+    }
+    if (anticipatedEffect.trim() !== "" && !Number.isFinite(Number(anticipatedEffect))) {
+      setError("The anticipated effect must be a number")
+      return
+    }
+    const diversityValue = Number(diversity)
+    if (diversity.trim() !== "" && !(diversityValue >= 0 && diversityValue < 1)) {
+      setError("Diversity must be at least 0 and below 1")
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    const progressId = createProgressId()
+    progress.start(`/api/progress/${progressId}`)
+
+    try {
+      const sequentialResults = await onRunAnalysis({
+        alpha: alphaValue,
+        beta: 1 - powerValue,
+        ...(anticipatedEffect.trim() !== "" ? { anticipatedEffect: Number(anticipatedEffect) } : {}),
+        ...(diversity.trim() !== "" ? { diversity: diversityValue } : {}),
+      }, progressId)
+      setResults(sequentialResults)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred during analysis")
+    } finally {
+      progress.stop()
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold mb-4">Trial Sequential Analysis</h3>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="tsa-alpha">Alpha (two-sided)</Label>
+              <Input
+                id="tsa-alpha"
+                type="number"
+                min="0"
+                max="1"
+                step="0.01"
+                className="w-[120px]"
+                value={alpha}
+                onChange={event => setAlpha(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="tsa-power">Power</Label>
+              <Input
+                id="tsa-power"
+                type="number"
+                min="0"
+                max="1"
+                step="0.05"
+                className="w-[120px]"
+                value={power}
+                onChange={event => setPower(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="tsa-effect">Anticipated effect ({effectMeasure})</Label>
+              <Input
+                id="tsa-effect"
+                type="number"
+                step="0.01"
+                placeholder="Pooled estimate"
+                className="w-[160px]"
+                value={anticipatedEffect}
+                onChange={event => setAnticipatedEffect(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="tsa-diversity">Diversity (D²)</Label>
+              <Input
+                id="tsa-diversity"
+                type="number"
+                min="0"
+                max="0.99"
+                step="0.05"
+                placeholder="From the data"
+                className="w-[140px]"
+                value={diversity}
+                onChange={event => setDiversity(event.target.value)}
+              />
+            </div>
+
+            <Button onClick={handleRunAnalysis} disabled={loading || studies.length === 0}>
+              {loading ? "Running Analysis..." : "Run Analysis"}
+            </Button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-500">{error}</p>
+          )}
+
+          {loading && <AnalysisProgress progress={progress} />}
+
+          {results && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Anticipated effect: </span>
+                  <span>{results.anticipatedEffect.toFixed(3)}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Diversity (D²): </span>
+                  <span>{(results.diversity * 100).toFixed(1)}%</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Required information size: </span>
+                  <span>
+                    {results.requiredParticipants !== null
+                      ? `${Math.ceil(results.requiredParticipants)} participants`
+                      : `${results.requiredInformation.adjusted.toFixed(1)} (information units)`}
+                  </span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Information accrued: </span>
+                  <span>{(results.informationFraction * 100).toFixed(1)}%</span>
+                </div>
+              </div>
+
+              <p className="text-sm">
+                {CONCLUSIONS[results.conclusion]}
+                {results.crossedAt && ` at ${results.crossedAt}`}.
+              </p>
+
+              <SequentialMonitoringChart results={results} />
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Study</TableHead>
+                    <TableHead>Information</TableHead>
+                    <TableHead>Z</TableHead>
+                    <TableHead>Efficacy boundary</TableHead>
+                    <TableHead>Futility boundary</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.looks.map(look => (
+                    <TableRow key={look.studyId}>
+                      <TableCell>{look.studyLabel}</TableCell>
+                      <TableCell>{(look.informationFraction * 100).toFixed(1)}%</TableCell>
+                      <TableCell>{look.zStatistic.toFixed(2)}</TableCell>
+                      <TableCell>±{look.efficacyBoundary.toFixed(2)}</TableCell>
+                      <TableCell>±{look.futilityBoundary.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {results.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                  {results.warnings.map(warning => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  )
+}
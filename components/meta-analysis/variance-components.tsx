@@ -0,0 +1,73 @@
+"use client"
+
+import { Card } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { MultilevelResults } from "@/lib/services/meta-analysis"
+
+interface VarianceComponentsProps {
+  results: MultilevelResults
+}
+
+function formatP(p: number) {
+  return p < 0.001 ? "< 0.001" : p.toFixed(3)
+}
+
+export function VarianceComponents({ results }: VarianceComponentsProps) {
+  const levels = [
+    { key: "between" as const, label: "Between clusters (level 3)" },
+    { key: "within" as const, label: "Within clusters (level 2)" },
+  ]
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Variance Components</h3>
+        <p className="text-sm text-muted-foreground">
+          {results.k} effect sizes in {results.clusters} clusters, estimated by {results.method}
+          {" "}(log-likelihood {results.logLikelihood.toFixed(2)})
+        </p>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Level</TableHead>
+            <TableHead className="text-right">σ²</TableHead>
+            <TableHead className="text-right">I²</TableHead>
+            <TableHead className="text-right">LRT χ²(1)</TableHead>
+            <TableHead className="text-right">P-value</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {levels.map(({ key, label }) => (
+            <TableRow key={key}>
+              <TableCell>{label}</TableCell>
+              <TableCell className="text-right">{results.sigmaSquared[key].toFixed(4)}</TableCell>
+              <TableCell className="text-right">{results.iSquared[key].toFixed(1)}%</TableCell>
+              <TableCell className="text-right">{results.tests[key].statistic.toFixed(2)}</TableCell>
+              <TableCell className="text-right">{formatP(results.tests[key].pValue)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {results.robust && (
+        <p className="text-sm">
+          <span className="text-muted-foreground">Cluster-robust (CR2) SE: </span>
+          <span>
+            {results.robust.se.toFixed(4)} (model-based {results.robust.modelSe.toFixed(4)}),
+            Satterthwaite df = {results.robust.df.toFixed(1)}
+          </span>
+        </p>
+      )}
+
+      {results.warnings.length > 0 && (
+        <ul className="list-disc pl-5 text-sm text-muted-foreground">
+          {results.warnings.map(warning => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  )
+}
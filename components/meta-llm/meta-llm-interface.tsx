@@ -12,6 +12,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Progress } from "@/components/ui/progress"
+import { AnalysisProgress } from "@/components/meta-analysis/analysis-progress"
+import { createProgressId, useProgressStream } from "@/hooks/use-progress-stream"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 
 export default function MetaLLMInterface() {
@@ -20,8 +22,8 @@ export default function MetaLLMInterface() {
   const [response, setResponse] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [file, setFile] = useState<File | null>(null)
-  const [uploadProgress, setUploadProgress] = useState(0)
-  const [uploadStatus, setUploadStatus] = useState<"idle" | "uploading" | "processing" | "success" | "error">("idle")
+  const [uploadStatus, setUploadStatus] = useState<"idle" | "uploading" | "success" | "error">("idle")
+  const processing = useProgressStream()
   const [studies, setStudies] = useState<Study[]>([])
   const [analysisType, setAnalysisType] = useState<string>("general")
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -41,13 +43,17 @@ export default function MetaLLMInterface() {
     }
 
     setUploadStatus("uploading")
-    setUploadProgress(0)
     setError(null)
 
+    // Follow the server's progress while the upload request is in flight
+    const progressId = createProgressId()
+    processing.start(`/api/progress/${progressId}`)
+
     try {
       // Create form data
       const formData = new FormData()
       formData.append("file", file)
+      formData.append("progressId", progressId)
 
       // Upload the file
       const response = await fetch("/api/meta-analysis/document-processor", {
@@ -60,9 +66,6 @@ export default function MetaLLMInterface() {
         throw new Error(errorData.error || "Failed to upload file")
       }
 
-      setUploadProgress(50)
-      setUploadStatus("processing")
-
       const data = await response.json()
 
       if (!data.success) {
@@ -72,7 +75,6 @@ export default function MetaLLMInterface() {
       // Update studies with the extracted data
       if (data.data && data.data.studies) {
         setStudies(data.data.studies)
-        setUploadProgress(100)
         setUploadStatus("success")
         setResponse(`Successfully extracted ${data.data.studies.length} studies from the document. You can now ask questions about the data.`)
       } else {
@@ -82,6 +84,8 @@ export default function MetaLLMInterface() {
       console.error("Error:", err)
       setError(err.message || "An error occurred while processing the document")
       setUploadStatus("error")
+    } finally {
+      processing.stop()
     }
   }
 
@@ -134,7 +138,7 @@ export default function MetaLLMInterface() {
   const clearFile = () => {
     setFile(null)
     setUploadStatus("idle")
-    setUploadProgress(0)
+    processing.reset()
     if (fileInputRef.current) {
       fileInputRef.current.value = ""
     }
@@ -167,12 +171,12 @@ export default function MetaLLMInterface() {
                     type="file"
                     accept=".pdf,.docx,.txt,.csv,.xlsx,.json"
                     onChange={handleFileChange}
-                    disabled={uploadStatus === "uploading" || uploadStatus === "processing"}
+                    disabled={uploadStatus === "uploading"}
                     ref={fileInputRef}
                     className="flex-1"
                   />
                   {file && (
-                    <Button variant="outline" size="icon" onClick={clearFile} disabled={uploadStatus === "uploading" || uploadStatus === "processing"}>
+                    <Button variant="outline" size="icon" onClick={clearFile} disabled={uploadStatus === "uploading"}>
                       <X className="h-4 w-4" />
                     </Button>
                   )}
@@ -190,30 +194,32 @@ export default function MetaLLMInterface() {
                 </div>
               )}
 
-              {uploadStatus !== "idle" && (
+              {uploadStatus === "uploading" && (
+                <AnalysisProgress progress={processing} />
+              )}
+
+              {(uploadStatus === "success" || uploadStatus === "error") && (
                 <div className="space-y-2">
                   <div className="flex items-center justify-between text-sm">
                     <span>
-                      {uploadStatus === "uploading" && "Uploading document..."}
-                      {uploadStatus === "processing" && "Processing document..."}
                       {uploadStatus === "success" && "Document processed successfully"}
                       {uploadStatus === "error" && "Error processing document"}
                     </span>
-                    <span>{uploadProgress}%</span>
+                    {uploadStatus === "success" && <span>100%</span>}
                   </div>
-                  <Progress value={uploadProgress} className="h-2" />
+                  <Progress value={uploadStatus === "success" ? 100 : processing.percent ?? 0} className="h-2" />
                 </div>
               )}
 
               <Button 
                 onClick={handleUpload} 
-                disabled={!file || uploadStatus === "uploading" || uploadStatus === "processing"}
+                disabled={!file || uploadStatus === "uploading"}
                 className="flex items-center gap-2"
               >
-                {uploadStatus === "uploading" || uploadStatus === "processing" ? (
+                {uploadStatus === "uploading" ? (
                   <>
                     <Loader2 className="h-4 w-4 animate-spin" />
-                    {uploadStatus === "uploading" ? "Uploading..." : "Processing..."}
+                    {processing.stage === "processing" ? "Processing..." : "Uploading..."}
                   </>
                 ) : (
                   <>
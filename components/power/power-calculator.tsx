@@ -0,0 +1,298 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { PowerCurveChart } from "./power-curve-chart"
+import {
+  PowerService,
+  type MetaAnalysisPowerResults,
+  type TrialOutcome,
+  type TrialPowerParameters,
+  type TrialPowerResults,
+} from "@/lib/services/power"
+
+interface NumberFieldProps {
+  id: string
+  label: string
+  value: string
+  onChange: (value: string) => void
+  step?: string
+}
+
+function NumberField({ id, label, value, onChange, step = "0.01" }: NumberFieldProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        step={step}
+        className="w-[140px]"
+        value={value}
+        onChange={event => onChange(event.target.value)}
+      />
+    </div>
+  )
+}
+
+function MetaAnalysisPowerForm() {
+  const [modelType, setModelType] = useState<"FE" | "RE">("RE")
+  const [k, setK] = useState("10")
+  const [groupSize, setGroupSize] = useState("30")
+  const [effectSize, setEffectSize] = useState("0.3")
+  const [iSquared, setISquared] = useState("50")
+  const [alpha, setAlpha] = useState("0.05")
+  const [targetPower, setTargetPower] = useState("0.8")
+  const [results, setResults] = useState<MetaAnalysisPowerResults | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleCalculate = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const powerResults = await PowerService.calculate({
+        calculation: "meta_analysis",
+        modelType,
+        k: Number(k),
+        groupSize: Number(groupSize),
+        effectSize: Number(effectSize),
+        ...(modelType === "RE" ? { iSquared: Number(iSquared) / 100 } : {}),
+        alpha: Number(alpha),
+        power: Number(targetPower),
+      })
+      setResults(powerResults)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred during the calculation")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4 items-end">
+        <div className="space-y-1">
+          <Label>Model</Label>
+          <Select value={modelType} onValueChange={value => setModelType(value as "FE" | "RE")}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="FE">Fixed effect</SelectItem>
+              <SelectItem value="RE">Random effects</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <NumberField id="power-k" label="Expected studies (k)" value={k} onChange={setK} step="1" />
+        <NumberField id="power-group-size" label="Participants per group" value={groupSize} onChange={setGroupSize} step="1" />
+        <NumberField id="power-effect" label="Expected SMD" value={effectSize} onChange={setEffectSize} />
+        {modelType === "RE" && (
+          <NumberField id="power-i-squared" label="Expected I² (%)" value={iSquared} onChange={setISquared} step="5" />
+        )}
+        <NumberField id="power-meta-alpha" label="Alpha (two-sided)" value={alpha} onChange={setAlpha} />
+        <NumberField id="power-meta-target" label="Target power" value={targetPower} onChange={setTargetPower} step="0.05" />
+        <Button onClick={handleCalculate} disabled={loading}>
+          {loading ? "Calculating..." : "Calculate"}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-500">{error}</p>
+      )}
+
+      {results && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="text-muted-foreground">Power: </span>
+              <span>{(results.power * 100).toFixed(1)}%</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Studies for {Math.round(results.targetPower * 100)}% power: </span>
+              <span>{results.requiredStudies ?? "Not reachable"}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Pooled SE: </span>
+              <span>{results.pooledSe.toFixed(4)}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">τ²: </span>
+              <span>{results.tauSquared.toFixed(4)}</span>
+            </div>
+          </div>
+          <PowerCurveChart
+            curve={results.curve}
+            xLabel="Number of studies"
+            targetPower={results.targetPower}
+            marker={Number(k)}
+          />
+          {results.warnings.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-muted-foreground">
+              {results.warnings.map(warning => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function TrialPowerForm() {
+  const [outcome, setOutcome] = useState<TrialOutcome>("continuous")
+  const [meanDifference, setMeanDifference] = useState("5")
+  const [sd, setSd] = useState("10")
+  const [treatmentProportion, setTreatmentProportion] = useState("0.2")
+  const [controlProportion, setControlProportion] = useState("0.3")
+  const [hazardRatio, setHazardRatio] = useState("0.7")
+  const [eventProbability, setEventProbability] = useState("0.5")
+  const [allocationRatio, setAllocationRatio] = useState("1")
+  const [alpha, setAlpha] = useState("0.05")
+  const [targetPower, setTargetPower] = useState("0.8")
+  const [results, setResults] = useState<TrialPowerResults | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleCalculate = async () => {
+    setLoading(true)
+    setError(null)
+
+    const design = {
+      calculation: "two_arm_trial" as const,
+      alpha: Number(alpha),
+      power: Number(targetPower),
+      allocationRatio: Number(allocationRatio),
+    }
+    const parameters: TrialPowerParameters =
+      outcome === "continuous"
+        ? { ...design, outcome, meanDifference: Number(meanDifference), sd: Number(sd) }
+        : outcome === "binary"
+          ? { ...design, outcome, treatmentProportion: Number(treatmentProportion), controlProportion: Number(controlProportion) }
+          : { ...design, outcome, hazardRatio: Number(hazardRatio), eventProbability: Number(eventProbability) }
+
+    try {
+      setResults(await PowerService.calculate(parameters))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred during the calculation")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4 items-end">
+        <div className="space-y-1">
+          <Label>Outcome</Label>
+          <Select value={outcome} onValueChange={value => setOutcome(value as TrialOutcome)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="continuous">Continuous</SelectItem>
+              <SelectItem value="binary">Binary</SelectItem>
+              <SelectItem value="time_to_event">Time to event</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {outcome === "continuous" && (
+          <>
+            <NumberField id="power-md" label="Mean difference" value={meanDifference} onChange={setMeanDifference} />
+            <NumberField id="power-sd" label="Standard deviation" value={sd} onChange={setSd} />
+          </>
+        )}
+        {outcome === "binary" && (
+          <>
+            <NumberField id="power-p1" label="Treatment proportion" value={treatmentProportion} onChange={setTreatmentProportion} />
+            <NumberField id="power-p2" label="Control proportion" value={controlProportion} onChange={setControlProportion} />
+          </>
+        )}
+        {outcome === "time_to_event" && (
+          <>
+            <NumberField id="power-hr" label="Hazard ratio" value={hazardRatio} onChange={setHazardRatio} />
+            <NumberField id="power-event-probability" label="Event probability" value={eventProbability} onChange={setEventProbability} />
+          </>
+        )}
+        <NumberField id="power-allocation" label="Control : treatment" value={allocationRatio} onChange={setAllocationRatio} step="0.5" />
+        <NumberField id="power-trial-alpha" label="Alpha (two-sided)" value={alpha} onChange={setAlpha} />
+        <NumberField id="power-trial-target" label="Target power" value={targetPower} onChange={setTargetPower} step="0.05" />
+        <Button onClick={handleCalculate} disabled={loading}>
+          {loading ? "Calculating..." : "Calculate"}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-500">{error}</p>
+      )}
+
+      {results && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="text-muted-foreground">Treatment arm: </span>
+              <span>{results.sampleSize.treatment}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Control arm: </span>
+              <span>{results.sampleSize.control}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Total: </span>
+              <span>{results.sampleSize.total}</span>
+            </div>
+            {results.events !== null && (
+              <div>
+                <span className="text-muted-foreground">Events needed: </span>
+                <span>{results.events}</span>
+              </div>
+            )}
+            <div>
+              <span className="text-muted-foreground">Achieved power: </span>
+              <span>{(results.achievedPower * 100).toFixed(1)}%</span>
+            </div>
+          </div>
+          <PowerCurveChart
+            curve={results.curve}
+            xLabel="Total sample size"
+            targetPower={results.targetPower}
+            marker={results.sampleSize.total}
+          />
+          {results.warnings.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-muted-foreground">
+              {results.warnings.map(warning => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function PowerCalculator() {
+  return (
+    <Card className="p-4">
+      <Tabs defaultValue="meta-analysis" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="meta-analysis">Meta-analysis</TabsTrigger>
+          <TabsTrigger value="trial">Two-arm trial</TabsTrigger>
+        </TabsList>
+        <TabsContent value="meta-analysis">
+          <MetaAnalysisPowerForm />
+        </TabsContent>
+        <TabsContent value="trial">
+          <TrialPowerForm />
+        </TabsContent>
+      </Tabs>
+    </Card>
+  )
+}
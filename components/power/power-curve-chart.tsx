@@ -0,0 +1,54 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts"
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import type { PowerCurvePoint } from "@/lib/services/power"
+
+const chartConfig = {
+  power: { label: "Power", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig
+
+interface PowerCurveChartProps {
+  curve: PowerCurvePoint[]
+  xLabel: string
+  targetPower: number
+  // Planned or required size, marked on the curve
+  marker?: number
+}
+
+export function PowerCurveChart({ curve, xLabel, targetPower, marker }: PowerCurveChartProps) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[320px] w-full">
+      <LineChart data={curve} margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          type="number"
+          dataKey="x"
+          domain={["dataMin", "dataMax"]}
+          label={{ value: xLabel, position: "insideBottom", offset: -10 }}
+        />
+        <YAxis
+          domain={[0, 1]}
+          tickFormatter={value => `${Math.round(value * 100)}%`}
+          label={{ value: "Power", angle: -90, position: "insideLeft" }}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => `${xLabel}: ${payload?.[0]?.payload?.x ?? ""}`}
+              formatter={value => `${(Number(value) * 100).toFixed(1)}%`}
+            />
+          }
+        />
+        <ReferenceLine y={targetPower} stroke="#94a3b8" strokeDasharray="4 4" />
+        {marker !== undefined && <ReferenceLine x={marker} stroke="#64748b" strokeDasharray="4 4" />}
+        <Line dataKey="power" stroke="var(--color-power)" dot={false} strokeWidth={2} />
+      </LineChart>
+    </ChartContainer>
+  )
+}
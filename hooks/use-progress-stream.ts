@@ -0,0 +1,110 @@
+"use client"
+
+import * as React from "react"
+import type { ProgressEvent } from "@/lib/progress"
+
+// Log lines kept for display
+const MAX_LOG_LINES = 50
+
+export type ProgressStatus = "idle" | "running" | "succeeded" | "failed"
+
+export interface ProgressState<P = unknown, R = unknown> {
+  status: ProgressStatus
+  stage: string | null
+  percent: number | null
+  message: string | null
+  logs: string[]
+  partials: P[]
+  result: R | null
+  error: string | null
+}
+
+const initialState: ProgressState = {
+  status: "idle",
+  stage: null,
+  percent: null,
+  message: null,
+  logs: [],
+  partials: [],
+  result: null,
+  error: null,
+}
+
+function reducer(state: ProgressState, event: ProgressEvent | { type: "reset" | "start" }): ProgressState {
+  switch (event.type) {
+    case "reset":
+      return initialState
+    case "start":
+      return { ...initialState, status: "running" }
+    case "stage":
+      return { ...state, stage: event.stage, percent: event.percent ?? state.percent, message: null }
+    case "progress":
+      return { ...state, percent: event.percent, message: event.message ?? state.message }
+    case "log":
+      return { ...state, logs: [...state.logs, event.line].slice(-MAX_LOG_LINES) }
+    case "partial":
+      return { ...state, partials: [...state.partials, event.data] }
+    case "done":
+      return { ...state, status: "succeeded", percent: 100, result: event.result ?? null }
+    case "error":
+      return { ...state, status: "failed", error: event.message }
+  }
+}
+
+/**
+ * Id for a new progress channel, sent as `progressId` with the request doing the work
+ */
+export function createProgressId() {
+  return crypto.randomUUID()
+}
+
+/**
+ * Follow a progress stream (`/api/progress/[id]` or `/api/jobs/[id]/events`) and collect
+ * stage changes, percentages, log lines and partial results.
+ */
+export function useProgressStream<P = unknown, R = unknown>() {
+  const [state, dispatch] = React.useReducer(reducer, initialState)
+  const sourceRef = React.useRef<EventSource | null>(null)
+
+  const stop = React.useCallback(() => {
+    sourceRef.current?.close()
+    sourceRef.current = null
+  }, [])
+
+  const start = React.useCallback((url: string) => {
+    stop()
+    dispatch({ type: "start" })
+
+    const source = new EventSource(url)
+    sourceRef.current = source
+
+    const handle = (message: MessageEvent) => {
+      // Connection failures also fire "error", without data; EventSource retries on its own
+      if (typeof message.data !== "string") return
+
+      const event = JSON.parse(message.data) as ProgressEvent
+      dispatch(event)
+      if (event.type === "done" || event.type === "error") {
+        source.close()
+      }
+    }
+
+    ;(["stage", "progress", "log", "partial", "done", "error"] as const).forEach(type => {
+      source.addEventListener(type, handle as EventListener)
+    })
+  }, [stop])
+
+  const reset = React.useCallback(() => {
+    stop()
+    dispatch({ type: "reset" })
+  }, [stop])
+
+  React.useEffect(() => stop, [stop])
+
+  return {
+    ...(state as ProgressState<P, R>),
+    start,
+    stop,
+    reset,
+  }
+}
@@ -0,0 +1,16 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // Run analysis jobs inside the Node.js server process; set JOB_WORKER=off on instances
+  // that should only serve requests
+  if (process.env.JOB_WORKER !== 'off') {
+    const { startJobWorker } = await import('./lib/jobs');
+    startJobWorker();
+  }
+
+  // Start R workers now so the first analysis doesn't wait for metafor to load
+  const { isRAvailable, warmRPool } = await import('./lib/r');
+  if (await isRAvailable()) {
+    warmRPool().catch((error) => console.error('Could not start R workers:', error));
+  }
+}
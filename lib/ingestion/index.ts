@@ -0,0 +1,380 @@
+import * as XLSX from 'xlsx';
+import { Study } from '@/types/meta-analysis';
+import { deriveStudy } from '@/lib/stats/effect-sizes';
+import { StatsInputError } from '@/lib/stats/errors';
+
+export type FileFormat = 'csv' | 'tsv' | 'xlsx' | 'json';
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Study fields a source column can be mapped onto. Anything else is kept as a moderator.
+export const STUDY_FIELDS = [
+  'study_id',
+  'study_label',
+  'cluster_id',
+  'author',
+  'year',
+  'effect_size',
+  'se',
+  'ci_lower',
+  'ci_upper',
+  'p_value',
+  't_statistic',
+  'sample_size',
+  'n_treatment',
+  'n_control',
+  'mean_treatment',
+  'sd_treatment',
+  'mean_control',
+  'sd_control',
+  'events_treatment',
+  'events_control',
+  'events',
+  'correlation',
+  'tp',
+  'fp',
+  'fn',
+  'tn',
+] as const;
+
+export type StudyField = typeof STUDY_FIELDS[number];
+
+export interface ColumnMapping {
+  fields: Partial<Record<StudyField, string>>;
+  moderators: string[];
+}
+
+export interface ParsedTable {
+  format: FileFormat;
+  headers: string[];
+  rows: Record<string, unknown>[];
+  // 1-based line (or sheet row) of each record in the original file, for error reporting
+  rowNumbers: number[];
+}
+
+export interface IngestionError {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+const TEXT_FIELDS: StudyField[] = ['study_id', 'study_label', 'cluster_id', 'author'];
+
+// Study keys a moderator must not overwrite: the mapped fields and those derived from them
+const RESERVED_STUDY_KEYS: string[] = [
+  ...STUDY_FIELDS,
+  'weight',
+  'log_effect_size',
+  'transformed_effect_size',
+  'effect_formula',
+];
+
+const FIELD_SYNONYMS: Record<StudyField, string[]> = {
+  study_id: ['study_id', 'studyid', 'id', 'study', 'study_no', 'study_number'],
+  study_label: ['study_label', 'label', 'study_name', 'name', 'citation', 'reference'],
+  cluster_id: ['cluster_id', 'cluster', 'clusterid', 'trial_id', 'trial', 'sample_id'],
+  author: ['author', 'authors', 'first_author', 'lead_author'],
+  year: ['year', 'publication_year', 'pub_year', 'study_year'],
+  effect_size: ['effect_size', 'es', 'yi', 'effect', 'estimate', 'smd', 'md', 'or', 'rr', 'hr', 'g', 'd'],
+  se: ['se', 'std_error', 'standard_error', 'se_effect', 'sei'],
+  ci_lower: ['ci_lower', 'lower', 'lower_ci', 'ci_low', 'lcl', 'ci_lb', 'lower_95'],
+  ci_upper: ['ci_upper', 'upper', 'upper_ci', 'ci_high', 'ucl', 'ci_ub', 'upper_95'],
+  p_value: ['p_value', 'p', 'pval', 'pvalue'],
+  t_statistic: ['t_statistic', 't', 't_value', 'tstat'],
+  sample_size: ['sample_size', 'n', 'n_total', 'total_n', 'sample'],
+  n_treatment: ['n_treatment', 'n_t', 'n1', 'n_exp', 'n_experimental', 'n_intervention'],
+  n_control: ['n_control', 'n_c', 'n2', 'n_ctrl'],
+  mean_treatment: ['mean_treatment', 'mean_t', 'm1', 'mean_exp', 'mean_experimental', 'mean_intervention'],
+  sd_treatment: ['sd_treatment', 'sd_t', 'sd1', 'sd_exp', 'sd_experimental', 'sd_intervention'],
+  mean_control: ['mean_control', 'mean_c', 'm2', 'mean_ctrl'],
+  sd_control: ['sd_control', 'sd_c', 'sd2', 'sd_ctrl'],
+  events_treatment: ['events_treatment', 'events_t', 'e1', 'events_exp', 'events_intervention'],
+  events_control: ['events_control', 'events_c', 'e2', 'events_ctrl'],
+  events: ['events', 'event', 'cases', 'xi', 'event_count', 'positive'],
+  correlation: ['correlation', 'r', 'ri', 'cor'],
+  tp: ['tp', 'true_positive', 'true_positives'],
+  fp: ['fp', 'false_positive', 'false_positives'],
+  fn: ['fn', 'false_negative', 'false_negatives'],
+  tn: ['tn', 'true_negative', 'true_negatives'],
+};
+
+export function detectFormat(fileName: string): FileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'csv':
+      return 'csv';
+    case 'tsv':
+    case 'tab':
+      return 'tsv';
+    case 'xlsx':
+    case 'xls':
+      return 'xlsx';
+    case 'json':
+      return 'json';
+    default:
+      return null;
+  }
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Split delimited text into rows of cells, honouring quoted fields (RFC 4180)
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+function isNumeric(value: unknown): boolean {
+  if (typeof value === 'number') return Number.isFinite(value);
+  return typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value));
+}
+
+/**
+ * Find the header row: the first non-blank row whose filled cells are mostly text.
+ * Returns -1 when the data starts without a header.
+ */
+function findHeaderRow(cells: unknown[][]): number {
+  const firstFilled = cells.findIndex(row => row.some(value => !isBlank(value)));
+  if (firstFilled === -1) return -1;
+
+  // Title rows above the table usually fill fewer cells than the table itself
+  const width = Math.max(...cells.slice(0, 20).map(row => row.filter(value => !isBlank(value)).length));
+  for (let i = firstFilled; i < Math.min(cells.length, firstFilled + 10); i++) {
+    const filled = cells[i].filter(value => !isBlank(value));
+    if (filled.length < Math.max(2, Math.ceil(width / 2))) continue;
+    const textCells = filled.filter(value => !isNumeric(value)).length;
+    return textCells / filled.length > 0.5 ? i : -1;
+  }
+  return -1;
+}
+
+function toTable(format: FileFormat, cells: unknown[][]): ParsedTable {
+  const headerIndex = findHeaderRow(cells);
+  const width = Math.max(0, ...cells.map(row => row.length));
+
+  const seen = new Map<string, number>();
+  const headers = Array.from({ length: width }, (_, i) => {
+    const raw = headerIndex >= 0 && !isBlank(cells[headerIndex][i]) ? String(cells[headerIndex][i]).trim() : `Column ${i + 1}`;
+    // Disambiguate repeated headers so every column stays addressable
+    const count = seen.get(raw) ?? 0;
+    seen.set(raw, count + 1);
+    return count === 0 ? raw : `${raw} (${count + 1})`;
+  });
+
+  const rows: Record<string, unknown>[] = [];
+  const rowNumbers: number[] = [];
+  cells.forEach((row, index) => {
+    if (index <= headerIndex || !row.some(value => !isBlank(value))) return;
+    const record: Record<string, unknown> = {};
+    headers.forEach((header, i) => {
+      const value = row[i];
+      record[header] = typeof value === 'string' ? value.trim() : value;
+    });
+    rows.push(record);
+    rowNumbers.push(index + 1);
+  });
+
+  return { format, headers, rows, rowNumbers };
+}
+
+/**
+ * Parse an uploaded CSV, TSV, XLSX or JSON file into a header list and records
+ */
+export function parseTabularFile(buffer: Buffer, fileName: string): ParsedTable {
+  const format = detectFormat(fileName);
+  if (!format) {
+    throw new StatsInputError('Unsupported file type. Please upload a CSV, TSV, Excel or JSON file');
+  }
+
+  if (format === 'xlsx') {
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      throw new StatsInputError('The workbook does not contain any sheets');
+    }
+    const cells = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '', blankrows: true });
+    return toTable(format, cells);
+  }
+
+  const text = buffer.toString('utf-8').replace(/^\uFEFF/, '');
+
+  if (format === 'json') {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data) || !data.every(item => item && typeof item === 'object')) {
+      throw new StatsInputError('JSON uploads must contain an array of study objects');
+    }
+    const headers = Array.from(new Set(data.flatMap(item => Object.keys(item))));
+    return { format, headers, rows: data, rowNumbers: data.map((_, i) => i + 1) };
+  }
+
+  const delimiter = format === 'tsv' ? '\t' : ',';
+  return toTable(format, parseDelimited(text, delimiter));
+}
+
+/**
+ * Guess which source column feeds each Study field; unmatched columns become moderators,
+ * except those whose names would overwrite a study field
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const fields: ColumnMapping['fields'] = {};
+  const used = new Set<string>();
+
+  STUDY_FIELDS.forEach(field => {
+    const match = headers.find(
+      header => !used.has(header) && FIELD_SYNONYMS[field].includes(normalizeHeader(header))
+    );
+    if (match) {
+      fields[field] = match;
+      used.add(match);
+    }
+  });
+
+  return {
+    fields,
+    moderators: headers.filter(header => !used.has(header) && !RESERVED_STUDY_KEYS.includes(normalizeHeader(header))),
+  };
+}
+
+function parseNumber(value: unknown): number | undefined | null {
+  if (isBlank(value)) return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const parsed = Number(String(value).replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function moderatorValue(value: unknown): string | number | undefined {
+  if (isBlank(value)) return undefined;
+  if (isNumeric(value)) return Number(value);
+  return String(value);
+}
+
+/**
+ * Apply a column mapping to parsed records, deriving effect sizes where needed.
+ * Rows that fail validation are reported instead of aborting the whole upload.
+ */
+export function mapRowsToStudies(
+  table: ParsedTable,
+  mapping: ColumnMapping,
+  effectMeasure: string
+): { studies: Study[]; errors: IngestionError[] } {
+  const studies: Study[] = [];
+  const errors: IngestionError[] = [];
+
+  const unknownColumns = [
+    ...Object.values(mapping.fields),
+    ...mapping.moderators,
+  ].filter(column => column && !table.headers.includes(column));
+  if (unknownColumns.length > 0) {
+    throw new StatsInputError(`Unknown column(s) in mapping: ${unknownColumns.join(', ')}`);
+  }
+
+  const reservedModerators = mapping.moderators.filter(column => RESERVED_STUDY_KEYS.includes(normalizeHeader(column)));
+  if (reservedModerators.length > 0) {
+    throw new StatsInputError(
+      `Moderator column(s) ${reservedModerators.join(', ')} would overwrite study fields; map them as fields instead`
+    );
+  }
+
+  table.rows.forEach((record, index) => {
+    const rowNumber = table.rowNumbers[index];
+    const row: Record<string, any> = {};
+    let valid = true;
+
+    (Object.entries(mapping.fields) as [StudyField, string | undefined][]).forEach(([field, column]) => {
+      if (!column) return;
+      const value = record[column];
+      if (TEXT_FIELDS.includes(field)) {
+        if (!isBlank(value)) row[field] = String(value).trim();
+        return;
+      }
+      const parsed = parseNumber(value);
+      if (parsed === null) {
+        errors.push({ row: rowNumber, column, message: `Expected a number for ${field} but found "${value}"` });
+        valid = false;
+      } else if (parsed !== undefined) {
+        row[field] = parsed;
+      }
+    });
+
+    mapping.moderators.forEach(column => {
+      const value = moderatorValue(record[column]);
+      if (value !== undefined) row[normalizeHeader(column)] = value;
+    });
+
+    if (!valid) return;
+
+    row.study_id = row.study_id ?? String(rowNumber);
+    row.study_label =
+      row.study_label ??
+      (row.author ? (row.year ? `${row.author} (${row.year})` : row.author) : `Study ${row.study_id}`);
+
+    try {
+      studies.push(deriveStudy(row, effectMeasure));
+    } catch (error) {
+      errors.push({
+        row: rowNumber,
+        message: error instanceof Error ? error.message : 'Invalid study row',
+      });
+    }
+  });
+
+  const duplicateIds = studies
+    .map(study => study.study_id)
+    .filter((id, i, ids) => ids.indexOf(id) !== i);
+  if (duplicateIds.length > 0) {
+    errors.push({
+      row: 0,
+      column: mapping.fields.study_id,
+      message: `Duplicate study IDs: ${Array.from(new Set(duplicateIds)).join(', ')}`,
+    });
+  }
+
+  return { studies, errors };
+}
@@ -0,0 +1,324 @@
+import { z } from 'zod';
+import { ParsedTable, STUDY_FIELDS, mapRowsToStudies, suggestColumnMapping } from '@/lib/ingestion';
+import type { ProgressReporter } from '@/lib/progress';
+import { StatsInputError } from '@/lib/stats/errors';
+import { CI_METHODS, TAU_SQUARED_METHODS, isMultilevelModel, poolStudies } from '@/lib/stats/meta-analysis';
+import { runMultilevelAnalysis } from '@/lib/stats/multilevel';
+import { runDiagnosticMetaAnalysis } from '@/lib/stats/diagnostic';
+import { runProportionGlmm } from '@/lib/stats/glmm';
+import { VARIABLE_TYPES, runDescriptiveAnalysis } from '@/lib/stats/descriptive';
+import { COX_TIES, SURVIVAL_CONFIDENCE_TYPES, runSurvivalAnalysis } from '@/lib/stats/survival';
+import { CORRELATION_METHODS, POST_HOC_METHODS, runInferentialAnalysis } from '@/lib/stats/inferential';
+import { REGRESSION_FAMILIES, ROBUST_COVARIANCES, runRegressionAnalysis } from '@/lib/stats/regression';
+
+export type AnalysisType = 'DESCRIPTIVE' | 'INFERENTIAL' | 'SURVIVAL' | 'CUSTOM' | 'DIAGNOSTIC_ACCURACY';
+
+export interface AnalysisJobContext<P = unknown> {
+  analysis: {
+    id: string;
+    name: string;
+    type: AnalysisType;
+  };
+  parameters: P;
+  signal: AbortSignal;
+  progress: ProgressReporter;
+  loadTable: () => Promise<ParsedTable>;
+}
+
+export interface AnalysisExecutor<P = unknown> {
+  // Analysis types the executor may run under
+  types: AnalysisType[];
+  schema: z.ZodType<P, z.ZodTypeDef, unknown>;
+  run: (context: AnalysisJobContext<P>) => Promise<Record<string, unknown>>;
+}
+
+/**
+ * Failure that retrying cannot fix, such as invalid parameters or unusable data
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+/**
+ * Run a statistics engine, treating its input errors for unusable data or parameters as
+ * permanent. Other failures are bugs and stay retryable.
+ */
+function runEngine<T>(run: () => T): T {
+  try {
+    return run();
+  } catch (error) {
+    if (error instanceof StatsInputError) {
+      throw new PermanentJobError(error.message);
+    }
+    throw error;
+  }
+}
+
+// zod enum over an engine's list of accepted values, keeping the engine's union type
+function oneOf<T extends string>(values: T[]) {
+  return z.enum(values as [T, ...T[]]);
+}
+
+const executors = new Map<string, AnalysisExecutor>();
+
+// Executor used when parameters.analysis is omitted
+const DEFAULT_EXECUTORS: Partial<Record<AnalysisType, string>> = {};
+
+export function registerAnalysisExecutor<P>(
+  name: string,
+  executor: AnalysisExecutor<P>,
+  options: { defaultFor?: AnalysisType[] } = {}
+) {
+  // run only ever receives the output of the executor's own schema
+  executors.set(name, executor as AnalysisExecutor);
+  options.defaultFor?.forEach(type => {
+    DEFAULT_EXECUTORS[type] = name;
+  });
+}
+
+/**
+ * Find the executor for an analysis from its type and parameters.analysis
+ */
+export function resolveAnalysisExecutor(type: AnalysisType, parameters: unknown): AnalysisExecutor {
+  const requested = (parameters as { analysis?: unknown } | null)?.analysis;
+  const name = typeof requested === 'string' ? requested : DEFAULT_EXECUTORS[type];
+
+  if (!name) {
+    throw new PermanentJobError(`parameters.analysis is required for ${type} analyses`);
+  }
+
+  const executor = executors.get(name);
+  if (!executor || !executor.types.includes(type)) {
+    throw new PermanentJobError(`Analysis "${name}" is not available for ${type} analyses`);
+  }
+  return executor;
+}
+
+const columnMappingSchema = z.object({
+  fields: z.record(z.enum(STUDY_FIELDS), z.string()),
+  moderators: z.array(z.string()).default([]),
+});
+
+const metaAnalysisParametersSchema = z.object({
+  analysis: z.literal('meta_analysis'),
+  modelType: z.enum(['FE', 'RE', 'THREE_LEVEL', 'RVE']).default('RE'),
+  effectMeasure: z.string().min(1, 'Effect measure is required'),
+  // ML is only supported by the three-level and RVE models, GLMM only by logit proportions
+  method: oneOf(['ML', 'GLMM', ...TAU_SQUARED_METHODS]).optional(),
+  ciMethod: oneOf(CI_METHODS).optional(),
+  mapping: columnMappingSchema.optional(),
+});
+
+registerAnalysisExecutor('meta_analysis', {
+  types: ['CUSTOM'],
+  schema: metaAnalysisParametersSchema,
+  run: async ({ parameters, progress, loadTable }) => {
+    const table = await loadTable();
+    const mapping = parameters.mapping ?? suggestColumnMapping(table.headers);
+    const { studies, errors } = runEngine(() => mapRowsToStudies(table, mapping, parameters.effectMeasure));
+    progress.progress(50, `${studies.length} studies read, ${errors.length} rows skipped`);
+
+    if (studies.length === 0) {
+      throw new PermanentJobError('The dataset does not contain any usable studies');
+    }
+
+    const analysisParameters = {
+      modelType: parameters.modelType,
+      effectMeasure: parameters.effectMeasure,
+      method: parameters.method,
+      ciMethod: parameters.ciMethod,
+    };
+    const results = runEngine(() => (isMultilevelModel(analysisParameters.modelType)
+      ? runMultilevelAnalysis(studies, analysisParameters)
+      : analysisParameters.method === 'GLMM'
+        ? runProportionGlmm(studies, analysisParameters)
+        : poolStudies(studies, analysisParameters)));
+
+    return { ...results, k: studies.length, rowErrors: errors };
+  },
+});
+
+const diagnosticAccuracyParametersSchema = z.object({
+  analysis: z.literal('diagnostic_accuracy').default('diagnostic_accuracy'),
+  continuityCorrection: z.number().positive().optional(),
+  mapping: columnMappingSchema.optional(),
+});
+
+registerAnalysisExecutor('diagnostic_accuracy', {
+  types: ['DIAGNOSTIC_ACCURACY'],
+  schema: diagnosticAccuracyParametersSchema,
+  run: async ({ parameters, progress, loadTable }) => {
+    const table = await loadTable();
+    const mapping = parameters.mapping ?? suggestColumnMapping(table.headers);
+    // Rows are read as diagnostic odds ratios so that incomplete 2x2 tables are reported
+    const { studies, errors } = runEngine(() => mapRowsToStudies(table, mapping, 'DOR'));
+    progress.progress(50, `${studies.length} studies read, ${errors.length} rows skipped`);
+
+    if (studies.length === 0) {
+      throw new PermanentJobError('The dataset does not contain any usable studies');
+    }
+
+    const results = runEngine(() => runDiagnosticMetaAnalysis(studies, {
+      continuityCorrection: parameters.continuityCorrection,
+    }));
+    return { ...results, rowErrors: errors };
+  },
+}, { defaultFor: ['DIAGNOSTIC_ACCURACY'] });
+
+const survivalParametersSchema = z.object({
+  analysis: z.literal('survival').default('survival'),
+  time: z.string().min(1, 'Time column is required'),
+  event: z.string().min(1, 'Event column is required'),
+  eventValue: z.string().optional(),
+  group: z.string().min(1).optional(),
+  strata: z.string().min(1).optional(),
+  covariates: z.array(z.string().min(1)).optional(),
+  confidenceLevel: z.number().gt(0).lt(1).optional(),
+  confidenceType: oneOf(SURVIVAL_CONFIDENCE_TYPES).optional(),
+  ties: oneOf(COX_TIES).optional(),
+  riskTimes: z.array(z.number().min(0)).optional(),
+});
+
+registerAnalysisExecutor('survival', {
+  types: ['SURVIVAL'],
+  schema: survivalParametersSchema,
+  run: async ({ parameters, progress, loadTable }) => {
+    const table = await loadTable();
+    progress.progress(30, `${table.rows.length} patients read`);
+
+    const results = runEngine(() => runSurvivalAnalysis(table, parameters));
+    return { ...results };
+  },
+}, { defaultFor: ['SURVIVAL'] });
+
+const descriptiveParametersSchema = z.object({
+  analysis: z.literal('descriptive').default('descriptive'),
+  variables: z.array(z.string().min(1)).min(1).optional(),
+  groupBy: z.string().min(1).optional(),
+  types: z.record(oneOf(VARIABLE_TYPES)).optional(),
+  bands: z.record(z.array(z.number()).min(1, 'At least one cut point is required')).optional(),
+  maxCategoricalLevels: z.number().int().min(1).optional(),
+  digits: z.number().int().min(0).max(6).optional(),
+});
+
+registerAnalysisExecutor('descriptive', {
+  types: ['DESCRIPTIVE'],
+  schema: descriptiveParametersSchema,
+  run: async ({ parameters, progress, loadTable }) => {
+    const table = await loadTable();
+    progress.progress(30, `${table.rows.length} rows read`);
+
+    const results = runEngine(() => runDescriptiveAnalysis(table, parameters));
+    return { ...results };
+  },
+}, { defaultFor: ['DESCRIPTIVE'] });
+
+const inferentialOptionsSchema = z.object({
+  analysis: z.literal('inferential').default('inferential'),
+  confidenceLevel: z.number().gt(0).lt(1).optional(),
+});
+
+const column = (label: string) => z.string().min(1, `${label} column is required`);
+
+const twoGroupSchema = inferentialOptionsSchema.extend({
+  outcome: column('Outcome'),
+  group: column('Group'),
+  levels: z.tuple([z.string().min(1), z.string().min(1)])
+    .refine(([first, second]) => first !== second, 'The two levels must differ')
+    .optional(),
+});
+
+// Each test takes its own columns, selected by parameters.test
+const inferentialParametersSchema = z.discriminatedUnion('test', [
+  inferentialOptionsSchema.extend({
+    test: z.literal('one_sample_t'),
+    variable: column('Variable'),
+    mu: z.number().optional(),
+  }),
+  twoGroupSchema.extend({
+    test: z.literal('independent_t'),
+    equalVariances: z.boolean().optional(),
+  }),
+  inferentialOptionsSchema.extend({
+    test: z.literal('paired_t'),
+    variable: column('Variable'),
+    pairedVariable: column('Paired variable'),
+  }),
+  inferentialOptionsSchema.extend({
+    test: z.literal('anova'),
+    outcome: column('Outcome'),
+    group: column('Group'),
+    postHoc: oneOf(POST_HOC_METHODS).optional(),
+  }),
+  inferentialOptionsSchema.extend({
+    test: z.literal('chi_square'),
+    row: column('Row'),
+    column: column('Column'),
+    correction: z.boolean().optional(),
+  }),
+  inferentialOptionsSchema.extend({
+    test: z.literal('fisher_exact'),
+    row: column('Row'),
+    column: column('Column'),
+  }),
+  twoGroupSchema.extend({
+    test: z.literal('mann_whitney'),
+  }),
+  inferentialOptionsSchema.extend({
+    test: z.literal('wilcoxon'),
+    variable: column('Variable'),
+    pairedVariable: z.string().min(1).optional(),
+    mu: z.number().optional(),
+  }),
+  inferentialOptionsSchema.extend({
+    test: z.literal('kruskal_wallis'),
+    outcome: column('Outcome'),
+    group: column('Group'),
+  }),
+  inferentialOptionsSchema.extend({
+    test: z.literal('correlation'),
+    x: column('X'),
+    y: column('Y'),
+    method: oneOf(CORRELATION_METHODS).optional(),
+  }),
+]);
+
+registerAnalysisExecutor('inferential', {
+  types: ['INFERENTIAL'],
+  schema: inferentialParametersSchema,
+  run: async ({ parameters, progress, loadTable }) => {
+    const table = await loadTable();
+    progress.progress(30, `${table.rows.length} rows read`);
+
+    const results = runEngine(() => runInferentialAnalysis(table, parameters));
+    return { ...results };
+  },
+}, { defaultFor: ['INFERENTIAL'] });
+
+const regressionParametersSchema = z.object({
+  analysis: z.literal('regression'),
+  formula: z.string().min(1, 'Formula is required').refine(formula => formula.includes('~'), 'The formula must have the form "outcome ~ predictors"'),
+  family: oneOf(REGRESSION_FAMILIES).default('gaussian'),
+  categorical: z.array(z.string().min(1)).optional(),
+  referenceLevels: z.record(z.string()).optional(),
+  eventValue: z.string().optional(),
+  exposure: z.string().min(1).optional(),
+  robust: oneOf(ROBUST_COVARIANCES).optional(),
+  confidenceLevel: z.number().gt(0).lt(1).optional(),
+  hosmerLemeshowGroups: z.number().int().min(3).max(50).optional(),
+});
+
+registerAnalysisExecutor('regression', {
+  types: ['CUSTOM', 'INFERENTIAL'],
+  schema: regressionParametersSchema,
+  run: async ({ parameters, progress, loadTable }) => {
+    const table = await loadTable();
+    progress.progress(30, `${table.rows.length} rows read`);
+
+    const results = runEngine(() => runRegressionAnalysis(table, parameters));
+    return { ...results };
+  },
+});
@@ -0,0 +1,311 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { parseTabularFile } from '@/lib/ingestion';
+import { ProgressReporter, openProgressChannel } from '@/lib/progress';
+import { getStorageForUrl } from '@/lib/storage';
+import { PermanentJobError, resolveAnalysisExecutor } from './executors';
+
+export { PermanentJobError, registerAnalysisExecutor, resolveAnalysisExecutor } from './executors';
+export type { AnalysisExecutor, AnalysisJobContext, AnalysisType } from './executors';
+
+const POLL_INTERVAL_MS = 2000;
+
+// Jobs a single server process runs at once
+const WORKER_CONCURRENCY = Number(process.env.JOB_WORKER_CONCURRENCY) || 2;
+
+// Running jobs allowed per user, by plan
+const USER_CONCURRENCY: Record<string, number> = {
+  BASIC: 1,
+  PROFESSIONAL: 3,
+  ENTERPRISE: 5,
+};
+
+const JOB_TIMEOUT_MS = 10 * 60 * 1000;
+
+// First retry waits this long, doubling with each further attempt
+const RETRY_BASE_DELAY_MS = 5000;
+
+interface ClaimedJob {
+  id: string;
+  analysisId: string;
+  userId: string;
+  attempts: number;
+  maxAttempts: number;
+}
+
+interface WorkerState {
+  timer?: ReturnType<typeof setInterval>;
+  ticking: boolean;
+  running: Map<string, AbortController>;
+}
+
+// Kept on `global` so hot reloads in development don't start a second worker
+const globalForJobs = global as unknown as { jobWorker?: WorkerState };
+
+const worker: WorkerState =
+  globalForJobs.jobWorker ?? (globalForJobs.jobWorker = { ticking: false, running: new Map() });
+
+/**
+ * Progress channel a job reports to, streamed by GET /api/jobs/[id]/events
+ */
+export function jobProgressChannel(jobId: string) {
+  return `job:${jobId}`;
+}
+
+/**
+ * Queue a run of an analysis and wake the worker
+ */
+export async function enqueueAnalysisJob(analysisId: string, userId: string) {
+  const job = await prisma.analysisJob.create({
+    data: { analysisId, userId },
+  });
+  startJobWorker();
+  return job;
+}
+
+/**
+ * Cancel a queued or running job. Returns the job as it stands afterwards, or null if the
+ * user has no such job.
+ */
+export async function cancelAnalysisJob(jobId: string, userId: string) {
+  const { count } = await prisma.analysisJob.updateMany({
+    where: { id: jobId, userId, status: { in: ['QUEUED', 'RUNNING'] } },
+    data: { status: 'CANCELLED', finishedAt: new Date() },
+  });
+
+  if (count === 1) {
+    worker.running.get(jobId)?.abort(new Error('Job cancelled'));
+    openProgressChannel(jobProgressChannel(jobId), userId).fail('Job cancelled');
+  }
+
+  return prisma.analysisJob.findFirst({
+    where: { id: jobId, userId },
+  });
+}
+
+/**
+ * Start polling the queue in this process. Safe to call repeatedly.
+ */
+export function startJobWorker() {
+  if (!worker.timer) {
+    worker.timer = setInterval(() => void tick(), POLL_INTERVAL_MS);
+    worker.timer.unref?.();
+  }
+  void tick();
+}
+
+export function stopJobWorker() {
+  if (worker.timer) {
+    clearInterval(worker.timer);
+    worker.timer = undefined;
+  }
+  worker.running.forEach(controller => controller.abort(new Error('Worker stopped')));
+}
+
+async function tick() {
+  if (worker.ticking) return;
+  worker.ticking = true;
+
+  try {
+    await recoverStaleJobs();
+    await abortCancelledJobs();
+
+    while (worker.running.size < WORKER_CONCURRENCY) {
+      const job = await claimNextJob();
+      if (!job) break;
+      void runJob(job);
+    }
+  } catch (error) {
+    console.error('Job worker error:', error);
+  } finally {
+    worker.ticking = false;
+  }
+}
+
+async function claimNextJob(): Promise<ClaimedJob | null> {
+  const now = new Date();
+  const candidates = await prisma.analysisJob.findMany({
+    where: { status: 'QUEUED', runAfter: { lte: now } },
+    orderBy: { createdAt: 'asc' },
+    take: 20,
+    include: { user: { select: { plan: true } } },
+  });
+
+  for (const candidate of candidates) {
+    const active = await prisma.analysisJob.count({
+      where: { userId: candidate.userId, status: 'RUNNING' },
+    });
+    if (active >= (USER_CONCURRENCY[candidate.user.plan] ?? 1)) continue;
+
+    // Only one worker wins the QUEUED -> RUNNING transition
+    const { count } = await prisma.analysisJob.updateMany({
+      where: { id: candidate.id, status: 'QUEUED' },
+      data: {
+        status: 'RUNNING',
+        attempts: { increment: 1 },
+        lockedAt: now,
+        startedAt: now,
+        error: null,
+      },
+    });
+
+    if (count === 1) {
+      return { ...candidate, attempts: candidate.attempts + 1 };
+    }
+  }
+
+  return null;
+}
+
+async function runJob(job: ClaimedJob) {
+  const controller = new AbortController();
+  const progress = openProgressChannel(jobProgressChannel(job.id), job.userId);
+  worker.running.set(job.id, controller);
+  const timeout = setTimeout(
+    () => controller.abort(new PermanentJobError('Analysis timed out')),
+    JOB_TIMEOUT_MS
+  );
+
+  try {
+    const analysis = await prisma.analysis.findUnique({
+      where: { id: job.analysisId },
+      include: { dataset: true },
+    });
+
+    if (!analysis) {
+      throw new PermanentJobError('Analysis no longer exists');
+    }
+
+    const executor = resolveAnalysisExecutor(analysis.type, analysis.parameters);
+    const parameters = executor.schema.parse(analysis.parameters);
+
+    progress.stage('running', 0);
+    if (job.attempts > 1) {
+      progress.log(`Attempt ${job.attempts} of ${job.maxAttempts}`);
+    }
+
+    const loadTable = async () => {
+      progress.stage('loading_data', 10);
+      const data = await getStorageForUrl(analysis.dataset.fileUrl).get(analysis.dataset.fileUrl);
+      const table = parseTabularFile(data, `${analysis.dataset.name}.${analysis.dataset.fileType}`);
+      progress.stage('analyzing', 30);
+      return table;
+    };
+
+    const results = await abortable(
+      executor.run({
+        analysis: { id: analysis.id, name: analysis.name, type: analysis.type },
+        parameters,
+        signal: controller.signal,
+        progress,
+        loadTable,
+      }),
+      controller.signal
+    );
+
+    progress.stage('saving', 95);
+
+    // A job cancelled while finishing keeps its CANCELLED status and writes nothing
+    const saved = await prisma.$transaction(async (tx: typeof prisma) => {
+      const { count } = await tx.analysisJob.updateMany({
+        where: { id: job.id, status: 'RUNNING' },
+        data: { status: 'SUCCEEDED', finishedAt: new Date(), lockedAt: null },
+      });
+      if (count === 1) {
+        await tx.analysis.update({
+          where: { id: job.analysisId },
+          data: { results },
+        });
+      }
+      return count === 1;
+    });
+
+    if (saved) progress.done(results);
+  } catch (error) {
+    await recordFailure(job, error, progress);
+  } finally {
+    clearTimeout(timeout);
+    worker.running.delete(job.id);
+  }
+}
+
+async function recordFailure(job: ClaimedJob, error: unknown, progress: ProgressReporter) {
+  const message = error instanceof z.ZodError
+    ? `Invalid parameters: ${error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`
+    : error instanceof Error ? error.message : 'Analysis failed';
+  const permanent = error instanceof PermanentJobError || error instanceof z.ZodError;
+  const retry = !permanent && job.attempts < job.maxAttempts;
+
+  if (!permanent) {
+    console.error(`Analysis job ${job.id} failed (attempt ${job.attempts}):`, error);
+  }
+
+  // Matching on RUNNING leaves cancelled jobs alone
+  const { count } = await prisma.analysisJob.updateMany({
+    where: { id: job.id, status: 'RUNNING' },
+    data: retry
+      ? {
+          status: 'QUEUED',
+          error: message,
+          lockedAt: null,
+          runAfter: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+        }
+      : { status: 'FAILED', error: message, lockedAt: null, finishedAt: new Date() },
+  });
+
+  if (count === 0) return;
+  if (retry) {
+    progress.stage('queued');
+    progress.log(`Attempt ${job.attempts} failed, retrying: ${message}`);
+  } else {
+    progress.fail(message);
+  }
+}
+
+/**
+ * Requeue jobs whose worker went away mid-run (e.g. the server restarted)
+ */
+async function recoverStaleJobs() {
+  const staleBefore = new Date(Date.now() - JOB_TIMEOUT_MS * 1.5);
+  const where = {
+    status: 'RUNNING',
+    lockedAt: { lt: staleBefore },
+    id: { notIn: Array.from(worker.running.keys()) },
+  };
+
+  const stale = await prisma.analysisJob.findMany({ where });
+  for (const job of stale) {
+    const retry = job.attempts < job.maxAttempts;
+    await prisma.analysisJob.updateMany({
+      where: { id: job.id, status: 'RUNNING' },
+      data: retry
+        ? { status: 'QUEUED', lockedAt: null, error: 'Worker stopped while running the analysis' }
+        : { status: 'FAILED', lockedAt: null, finishedAt: new Date(), error: 'Worker stopped while running the analysis' },
+    });
+  }
+}
+
+/**
+ * Stop jobs in this process that were cancelled through another process
+ */
+async function abortCancelledJobs() {
+  if (worker.running.size === 0) return;
+
+  const cancelled = await prisma.analysisJob.findMany({
+    where: { id: { in: Array.from(worker.running.keys()) }, status: 'CANCELLED' },
+    select: { id: true },
+  });
+  cancelled.forEach(({ id }: { id: string }) => worker.running.get(id)?.abort(new Error('Job cancelled')));
+}
+
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,252 @@
+/**
+ * In-process progress channels for long-running work (analysis jobs, R scripts, document
+ * processing), streamed to the browser as Server-Sent Events.
+ */
+
+export type ProgressEvent =
+  | { type: 'stage'; stage: string; percent?: number }
+  | { type: 'progress'; percent: number; message?: string }
+  | { type: 'log'; line: string; source: 'r' | 'engine' }
+  | { type: 'partial'; data: unknown }
+  | { type: 'done'; result?: unknown }
+  | { type: 'error'; message: string };
+
+export interface ProgressReporter {
+  stage(stage: string, percent?: number): void;
+  progress(percent: number, message?: string): void;
+  log(line: string, source?: 'r' | 'engine'): void;
+  partial(data: unknown): void;
+  done(result?: unknown): void;
+  fail(message: string): void;
+}
+
+type ProgressListener = (event: ProgressEvent) => void;
+
+interface ProgressChannel {
+  ownerId: string;
+  history: ProgressEvent[];
+  listeners: Set<ProgressListener>;
+  finished: boolean;
+  expiry?: ReturnType<typeof setTimeout>;
+}
+
+// Events kept for subscribers that connect after the work started
+const MAX_HISTORY = 500;
+
+// How long a channel is kept once its work has finished, or before any work starts
+const CHANNEL_TTL_MS = 5 * 60 * 1000;
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// Kept on `global` so route handlers and the job worker share channels across hot reloads
+const globalForProgress = global as unknown as { progressChannels?: Map<string, ProgressChannel> };
+
+const channels: Map<string, ProgressChannel> =
+  globalForProgress.progressChannels ?? (globalForProgress.progressChannels = new Map());
+
+function scheduleExpiry(id: string, channel: ProgressChannel) {
+  if (channel.expiry) clearTimeout(channel.expiry);
+  channel.expiry = setTimeout(() => channels.delete(id), CHANNEL_TTL_MS);
+  channel.expiry.unref?.();
+}
+
+function getChannel(id: string, ownerId: string): ProgressChannel | null {
+  let channel = channels.get(id);
+  if (!channel) {
+    channel = { ownerId, history: [], listeners: new Set(), finished: false };
+    channels.set(id, channel);
+    scheduleExpiry(id, channel);
+  }
+  return channel.ownerId === ownerId ? channel : null;
+}
+
+function emit(id: string, channel: ProgressChannel, event: ProgressEvent) {
+  if (channel.finished) return;
+
+  channel.history.push(event);
+  if (channel.history.length > MAX_HISTORY) {
+    // Keep the first stage so late subscribers still see where the work started
+    channel.history.splice(1, channel.history.length - MAX_HISTORY);
+  }
+
+  if (event.type === 'done' || event.type === 'error') {
+    channel.finished = true;
+    scheduleExpiry(id, channel);
+  } else if (channel.expiry) {
+    clearTimeout(channel.expiry);
+    channel.expiry = undefined;
+  }
+
+  channel.listeners.forEach(listener => listener(event));
+}
+
+/**
+ * Reporter that discards everything, for work started without a progress channel
+ */
+export const silentProgress: ProgressReporter = {
+  stage: () => {},
+  progress: () => {},
+  log: () => {},
+  partial: () => {},
+  done: () => {},
+  fail: () => {},
+};
+
+/**
+ * Reporter for the channel `id`, created on first use. Channels belong to the user that
+ * opened them; another user's id gets a reporter that goes nowhere.
+ */
+export function openProgressChannel(id: string, ownerId: string): ProgressReporter {
+  const channel = getChannel(id, ownerId);
+  if (!channel) return silentProgress;
+
+  const send = (event: ProgressEvent) => emit(id, channel, event);
+  return {
+    stage: (stage, percent) => send({ type: 'stage', stage, percent }),
+    progress: (percent, message) => send({ type: 'progress', percent: Math.max(0, Math.min(100, percent)), message }),
+    log: (line, source = 'engine') => send({ type: 'log', line, source }),
+    partial: (data) => send({ type: 'partial', data }),
+    done: (result) => send({ type: 'done', result }),
+    fail: (message) => send({ type: 'error', message }),
+  };
+}
+
+/**
+ * Listen to a channel, replaying what has happened so far. Returns null when the channel
+ * belongs to another user.
+ */
+export function subscribeToProgress(
+  id: string,
+  ownerId: string,
+  listener: ProgressListener
+): (() => void) | null {
+  const channel = getChannel(id, ownerId);
+  if (!channel) return null;
+
+  channel.history.forEach(listener);
+  channel.listeners.add(listener);
+  return () => {
+    channel.listeners.delete(listener);
+  };
+}
+
+/**
+ * Turn R stderr into progress events. Scripts report with `message()` lines of the form
+ * `PROGRESS <percent> <message>` and `PARTIAL <json>`; anything else is forwarded as a log line.
+ */
+export function createRStderrHandler(reporter: ProgressReporter): (chunk: Buffer | string) => void {
+  let buffered = '';
+
+  return (chunk) => {
+    buffered += chunk.toString();
+    const lines = buffered.split(/\r?\n/);
+    buffered = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const progress = line.match(/^PROGRESS\s+(\d+(?:\.\d+)?)\s*(.*)$/);
+      if (progress) {
+        reporter.progress(Number(progress[1]), progress[2] || undefined);
+        continue;
+      }
+
+      if (line.startsWith('PARTIAL ')) {
+        try {
+          reporter.partial(JSON.parse(line.slice('PARTIAL '.length)));
+          continue;
+        } catch {
+          // Not valid JSON, keep it as a log line
+        }
+      }
+
+      if (line.trim()) reporter.log(line, 'r');
+    }
+  };
+}
+
+interface ProgressStreamOptions {
+  // Events sent before the channel history, e.g. a status snapshot from the database
+  initial?: ProgressEvent[];
+  // Checked periodically for an outcome recorded elsewhere (such as another server process)
+  poll?: () => Promise<ProgressEvent | null>;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Server-Sent Events response for a progress channel. The stream ends after `done` or `error`.
+ */
+export function createProgressResponse(
+  id: string,
+  ownerId: string,
+  signal: AbortSignal,
+  options: ProgressStreamOptions = {}
+): Response | null {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  // Check ownership before committing to a stream
+  const probe = subscribeToProgress(id, ownerId, () => {});
+  if (!probe) return null;
+  probe();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const timers: ReturnType<typeof setInterval>[] = [];
+      let unsubscribe: (() => void) | null = null;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        timers.forEach(clearInterval);
+        unsubscribe?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      cleanup = close;
+
+      const send = (event: ProgressEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        if (event.type === 'done' || event.type === 'error') close();
+      };
+
+      options.initial?.forEach(send);
+      if (closed) return;
+
+      unsubscribe = subscribeToProgress(id, ownerId, send);
+      if (closed) {
+        // The replayed history already finished the stream
+        unsubscribe?.();
+        return;
+      }
+
+      timers.push(setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS));
+
+      if (options.poll) {
+        const poll = options.poll;
+        timers.push(setInterval(() => {
+          poll().then(event => event && send(event)).catch(() => {});
+        }, options.pollIntervalMs ?? 5000));
+      }
+
+      signal.addEventListener('abort', close, { once: true });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,524 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * The one place the app runs R. Scripts are resolved inside the R scripts directory and get
+ * their arguments as an array (never through a shell), a minimal environment, a private
+ * working directory, a memory cap, a wall-clock timeout and a cap on output size. Requests
+ * are served by a warm pool of long-lived R processes so packages like metafor load once.
+ */
+
+export type RErrorCode =
+  | 'SCRIPT_NOT_FOUND'
+  | 'SPAWN_FAILED'
+  | 'TIMEOUT'
+  | 'OUTPUT_LIMIT'
+  | 'ABORTED'
+  | 'SCRIPT_ERROR'
+  | 'INVALID_OUTPUT';
+
+export class RExecutionError extends Error {
+  constructor(
+    readonly code: RErrorCode,
+    message: string,
+    // Tail of what the script wrote to stderr, for logs
+    readonly stderr = ''
+  ) {
+    super(message);
+    this.name = 'RExecutionError';
+  }
+}
+
+export interface RRunOptions {
+  args?: string[];
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+  // Called with stderr (message() and warnings) as it arrives
+  onStderr?: (chunk: string) => void;
+  signal?: AbortSignal;
+  // Run in a fresh Rscript process instead of a pooled worker
+  isolated?: boolean;
+}
+
+export interface RRunResult {
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+}
+
+const R_BINARY = process.env.R_BINARY || 'Rscript';
+
+// Skip saving/restoring workspaces and the user's .Rprofile
+const R_FLAGS = ['--no-save', '--no-restore', '--no-init-file'];
+
+// Next runs the server from the project root; R_SCRIPTS_DIR overrides for other layouts
+const SCRIPTS_DIR = path.resolve(
+  process.env.R_SCRIPTS_DIR || path.join(process.cwd(), 'meta-analysis-backend', 'R')
+);
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.R_TIMEOUT_MS) || 60 * 1000;
+const DEFAULT_MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+// Upper bound on R's vector heap, enforced by R itself
+const MAX_VSIZE = process.env.R_MAX_VSIZE || '2Gb';
+
+// Long-lived workers kept warm; 0 runs every script in its own process
+const POOL_SIZE = process.env.R_POOL_SIZE !== undefined ? Number(process.env.R_POOL_SIZE) : 2;
+
+// Workers are replaced after this many runs to hand memory back
+const MAX_RUNS_PER_WORKER = 50;
+
+const POOL_PRELOAD = process.env.R_POOL_PRELOAD || 'jsonlite,metafor,dplyr,purrr,tidyverse';
+
+// Stderr kept on errors
+const STDERR_TAIL_BYTES = 4096;
+
+function tail(text: string) {
+  return text.length > STDERR_TAIL_BYTES ? text.slice(-STDERR_TAIL_BYTES) : text;
+}
+
+/**
+ * Absolute path of a script in the R scripts directory, refusing anything outside it
+ */
+async function resolveScript(script: string): Promise<string> {
+  const scriptPath = path.resolve(SCRIPTS_DIR, script);
+  if (!scriptPath.startsWith(SCRIPTS_DIR + path.sep) || path.extname(scriptPath) !== '.R') {
+    throw new RExecutionError('SCRIPT_NOT_FOUND', `R script not allowed: ${script}`);
+  }
+
+  try {
+    await fs.access(scriptPath);
+  } catch {
+    throw new RExecutionError('SCRIPT_NOT_FOUND', `R script not found: ${script}`);
+  }
+  return scriptPath;
+}
+
+// Environment passed to R: only what it needs, so the web server's secrets and tokens stay
+// out. This scrubs variables and caps R's heap via R_MAX_VSIZE; it is not a sandbox.
+function restrictedEnv(workDir: string): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {
+    PATH: process.env.PATH,
+    HOME: process.env.HOME,
+    TMPDIR: workDir,
+    LANG: process.env.LANG || 'C.UTF-8',
+    NODE_ENV: process.env.NODE_ENV,
+    R_MAX_VSIZE: MAX_VSIZE,
+    R_POOL_PRELOAD: POOL_PRELOAD,
+  };
+  for (const name of ['R_HOME', 'R_LIBS', 'R_LIBS_USER', 'R_LIBS_SITE']) {
+    if (process.env[name]) env[name] = process.env[name];
+  }
+  return env;
+}
+
+/**
+ * Run a script in its own Rscript process
+ */
+async function runIsolated(scriptPath: string, options: RRunOptions): Promise<RRunResult> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'r-run-'));
+  const started = Date.now();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+
+  try {
+    return await new Promise<RRunResult>((resolve, reject) => {
+      let stdout = '';
+      let stderr = '';
+      let outputBytes = 0;
+      let failure: RExecutionError | null = null;
+
+      const child = spawn(R_BINARY, [...R_FLAGS, scriptPath, ...(options.args ?? [])], {
+        cwd: workDir,
+        env: restrictedEnv(workDir),
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      const stop = (error: RExecutionError) => {
+        if (failure) return;
+        failure = error;
+        child.kill('SIGKILL');
+      };
+
+      const timer = setTimeout(
+        () => stop(new RExecutionError('TIMEOUT', `R script timed out after ${timeoutMs / 1000}s`, tail(stderr))),
+        timeoutMs
+      );
+      const onAbort = () => stop(new RExecutionError('ABORTED', 'R script was cancelled', tail(stderr)));
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const countOutput = (chunk: Buffer) => {
+        outputBytes += chunk.length;
+        if (outputBytes > maxOutputBytes) {
+          stop(new RExecutionError('OUTPUT_LIMIT', `R script output exceeded ${maxOutputBytes} bytes`, tail(stderr)));
+          return false;
+        }
+        return true;
+      };
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        if (countOutput(chunk)) stdout += chunk.toString();
+      });
+
+      child.stderr.on('data', (chunk: Buffer) => {
+        if (!countOutput(chunk)) return;
+        stderr += chunk.toString();
+        options.onStderr?.(chunk.toString());
+      });
+
+      child.on('error', (error) => {
+        failure = failure ?? new RExecutionError('SPAWN_FAILED', `Could not start R: ${error.message}`);
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+
+        if (failure) {
+          reject(failure);
+        } else if (code !== 0) {
+          reject(new RExecutionError('SCRIPT_ERROR', scriptErrorMessage(stderr), tail(stderr)));
+        } else {
+          resolve({ stdout, stderr, durationMs: Date.now() - started });
+        }
+      });
+
+      if (options.signal?.aborted) onAbort();
+    });
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// The `Error ...` line R prints for an uncaught stop(), or the last stderr line
+function scriptErrorMessage(stderr: string) {
+  const lines = stderr.trim().split('\n');
+  const errorLine = lines.find(line => line.startsWith('Error'));
+  return (errorLine ?? lines[lines.length - 1] ?? 'R script failed').trim() || 'R script failed';
+}
+
+interface ActiveRun {
+  id: number;
+  stderr: string;
+  outputBytes: number;
+  options: RRunOptions;
+  resolve: (result: { stdout: string; stderr: string }) => void;
+  reject: (error: RExecutionError) => void;
+}
+
+/**
+ * One long-lived R process running meta-analysis-backend/R/worker.R
+ */
+class PooledWorker {
+  private readonly child: ChildProcess;
+  private buffer = '';
+  private current: ActiveRun | null = null;
+  private nextId = 1;
+  private onReady: () => void = () => {};
+  runs = 0;
+  dead = false;
+  readonly ready: Promise<void>;
+
+  constructor(workerScript: string, private readonly workDir: string, onExit: (worker: PooledWorker) => void) {
+    this.child = spawn(R_BINARY, [...R_FLAGS, workerScript], {
+      cwd: workDir,
+      env: restrictedEnv(workDir),
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      this.onReady = resolve;
+      this.child.once('error', (error) => {
+        reject(new RExecutionError('SPAWN_FAILED', `Could not start R: ${error.message}`));
+      });
+      this.child.once('exit', () => {
+        reject(new RExecutionError('SPAWN_FAILED', 'R worker exited during startup'));
+      });
+    });
+    // Startup failures surface through acquire(); don't report them as unhandled here
+    this.ready.catch(() => {});
+
+    // Failures are reported through the exit handler below
+    this.child.on('error', () => {});
+    this.child.stdin!.on('error', () => {});
+
+    // worker.R replies on stderr; anything reaching stdout bypassed its sink (e.g. compiled code)
+    this.child.stderr!.on('data', (chunk: Buffer) => this.onProtocol(chunk));
+    this.child.stdout!.on('data', (chunk: Buffer) => {
+      if (this.countOutput(chunk.length)) this.onStderr(chunk.toString());
+    });
+    this.child.on('exit', () => {
+      this.dead = true;
+      this.fail(new RExecutionError('SCRIPT_ERROR', 'R worker exited unexpectedly', tail(this.current?.stderr ?? '')));
+      onExit(this);
+      fs.rm(this.workDir, { recursive: true, force: true }).catch(() => {});
+    });
+  }
+
+  run(scriptPath: string, cwd: string, options: RRunOptions): Promise<{ stdout: string; stderr: string }> {
+    this.runs += 1;
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.current = { id, stderr: '', outputBytes: 0, options, resolve, reject };
+      this.child.stdin!.write(
+        JSON.stringify({ id, script: scriptPath, args: options.args ?? [], cwd }) + '\n'
+      );
+    });
+  }
+
+  // Fail the current run and take the worker down; the pool replaces it
+  kill(error: RExecutionError) {
+    this.fail(error);
+    this.dead = true;
+    this.child.kill('SIGKILL');
+  }
+
+  private fail(error: RExecutionError) {
+    const run = this.current;
+    this.current = null;
+    run?.reject(error);
+  }
+
+  private countOutput(bytes: number): boolean {
+    const run = this.current;
+    if (!run) return true;
+    run.outputBytes += bytes;
+    const limit = run.options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+    if (run.outputBytes > limit) {
+      this.kill(new RExecutionError('OUTPUT_LIMIT', `R script output exceeded ${limit} bytes`, tail(run.stderr)));
+      return false;
+    }
+    return true;
+  }
+
+  private onProtocol(chunk: Buffer) {
+    if (!this.countOutput(chunk.length)) return;
+
+    this.buffer += chunk.toString();
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let reply: any;
+      try {
+        reply = JSON.parse(line);
+      } catch {
+        // R's own diagnostics, not a reply
+        this.onStderr(line + '\n');
+        continue;
+      }
+      this.onReply(reply);
+    }
+  }
+
+  private onReply(reply: any) {
+    if (reply.type === 'ready') {
+      this.onReady();
+      return;
+    }
+
+    const run = this.current;
+    if (!run || reply.id !== run.id) return;
+
+    if (reply.type === 'stderr') {
+      this.onStderr(String(reply.text ?? ''));
+    } else if (reply.type === 'result') {
+      this.current = null;
+      if (reply.ok) {
+        run.resolve({ stdout: String(reply.stdout ?? ''), stderr: run.stderr });
+      } else {
+        run.reject(new RExecutionError('SCRIPT_ERROR', `Error: ${reply.error}`, tail(run.stderr)));
+      }
+    }
+  }
+
+  private onStderr(text: string) {
+    const run = this.current;
+    if (!run) return;
+    run.stderr += text;
+    run.options.onStderr?.(text);
+  }
+}
+
+class RWorkerPool {
+  private readonly workers = new Set<PooledWorker>();
+  private readonly idle: PooledWorker[] = [];
+  private readonly waiting: Array<(worker: PooledWorker | RExecutionError) => void> = [];
+  // Workers between spawn and ready, counted against the pool size
+  private starting = 0;
+
+  constructor(private readonly size: number) {}
+
+  private async spawnWorker(): Promise<PooledWorker> {
+    this.starting += 1;
+    try {
+      const workerScript = await resolveScript('worker.R');
+      const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'r-worker-'));
+      const worker = new PooledWorker(workerScript, workDir, (exited) => this.remove(exited));
+
+      try {
+        await worker.ready;
+      } catch (error) {
+        // A binary that never started has no exit event to clean up after it
+        worker.kill(error as RExecutionError);
+        await fs.rm(workDir, { recursive: true, force: true });
+        throw error;
+      }
+
+      this.workers.add(worker);
+      return worker;
+    } finally {
+      this.starting -= 1;
+    }
+  }
+
+  private get capacity() {
+    return this.size - this.workers.size - this.starting;
+  }
+
+  private remove(worker: PooledWorker) {
+    this.workers.delete(worker);
+    const index = this.idle.indexOf(worker);
+    if (index >= 0) this.idle.splice(index, 1);
+
+    // Someone is waiting and there is room again
+    if (this.waiting.length > 0 && this.capacity > 0) {
+      const next = this.waiting.shift()!;
+      this.spawnWorker().then(next, next);
+    }
+  }
+
+  async acquire(): Promise<PooledWorker> {
+    const idle = this.idle.pop();
+    if (idle) return idle;
+
+    if (this.capacity > 0) {
+      return this.spawnWorker();
+    }
+
+    const worker = await new Promise<PooledWorker | RExecutionError>(resolve => this.waiting.push(resolve));
+    if (worker instanceof RExecutionError) throw worker;
+    return worker;
+  }
+
+  release(worker: PooledWorker) {
+    if (worker.dead) return;
+
+    if (worker.runs >= MAX_RUNS_PER_WORKER) {
+      // Exit handler removes it and starts a replacement for any waiter
+      worker.kill(new RExecutionError('ABORTED', 'R worker recycled'));
+      return;
+    }
+
+    const next = this.waiting.shift();
+    if (next) {
+      next(worker);
+    } else {
+      this.idle.push(worker);
+    }
+  }
+
+  async warm() {
+    while (this.capacity > 0) {
+      this.release(await this.spawnWorker());
+    }
+  }
+
+  shutdown() {
+    this.workers.forEach(worker => worker.kill(new RExecutionError('ABORTED', 'R pool shut down')));
+  }
+}
+
+// Kept on `global` so hot reloads in development reuse the running workers
+const globalForR = global as unknown as { rWorkerPool?: RWorkerPool };
+
+function getPool(): RWorkerPool | null {
+  if (POOL_SIZE <= 0) return null;
+  if (!globalForR.rWorkerPool) {
+    const pool = new RWorkerPool(POOL_SIZE);
+    globalForR.rWorkerPool = pool;
+    process.once('exit', () => pool.shutdown());
+  }
+  return globalForR.rWorkerPool;
+}
+
+async function runPooled(pool: RWorkerPool, scriptPath: string, options: RRunOptions): Promise<RRunResult> {
+  const started = Date.now();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const worker = await pool.acquire();
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'r-run-'));
+
+  const timer = setTimeout(
+    () => worker.kill(new RExecutionError('TIMEOUT', `R script timed out after ${timeoutMs / 1000}s`)),
+    timeoutMs
+  );
+  const onAbort = () => worker.kill(new RExecutionError('ABORTED', 'R script was cancelled'));
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    if (options.signal?.aborted) onAbort();
+    const { stdout, stderr } = await worker.run(scriptPath, workDir, options);
+    return { stdout, stderr, durationMs: Date.now() - started };
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+    pool.release(worker);
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Run a script from the R scripts directory (e.g. `run_analysis.R`)
+ */
+export async function runRScript(script: string, options: RRunOptions = {}): Promise<RRunResult> {
+  const scriptPath = await resolveScript(script);
+  const pool = options.isolated ? null : getPool();
+  return pool ? runPooled(pool, scriptPath, options) : runIsolated(scriptPath, options);
+}
+
+/**
+ * Run a script that prints a single JSON document on stdout and parse it
+ */
+export async function runRScriptJson<T = any>(script: string, options: RRunOptions = {}): Promise<T> {
+  const { stdout, stderr } = await runRScript(script, options);
+  try {
+    return JSON.parse(stdout) as T;
+  } catch {
+    throw new RExecutionError('INVALID_OUTPUT', 'Failed to parse R script output', tail(stderr));
+  }
+}
+
+/**
+ * Start the pool's workers ahead of the first request
+ */
+export async function warmRPool() {
+  await getPool()?.warm();
+}
+
+// Whether R and metafor are installed, checked once per process
+let rAvailability: Promise<boolean> | null = null;
+
+export function isRAvailable(): Promise<boolean> {
+  if (!rAvailability) {
+    rAvailability = new Promise((resolve) => {
+      const rProcess = spawn(R_BINARY, [...R_FLAGS, '-e', 'packageVersion("metafor")'], {
+        stdio: 'ignore',
+        env: restrictedEnv(os.tmpdir()),
+      });
+      const timer = setTimeout(() => rProcess.kill('SIGKILL'), 30 * 1000);
+      rProcess.on('close', (code) => {
+        clearTimeout(timer);
+        resolve(code === 0);
+      });
+      rProcess.on('error', () => {
+        clearTimeout(timer);
+        resolve(false);
+      });
+    });
+  }
+  return rAvailability;
+}
@@ -0,0 +1,96 @@
+import type { IngestionError } from '@/lib/ingestion';
+
+// Types for descriptive summaries of stored datasets, stored in Analysis.results
+
+// Binary variables are categorical with two levels and take one row in Table 1; text
+// variables have too many distinct values to tabulate, such as identifiers or free text
+export type VariableType = 'continuous' | 'categorical' | 'binary' | 'text';
+
+export interface DescriptiveParameters {
+  // Columns to describe; defaults to every column except groupBy
+  variables?: string[];
+  // Column whose levels stratify every summary, such as sex
+  groupBy?: string;
+  // Types that override inference, by column
+  types?: Record<string, VariableType>;
+  // Cut points that turn continuous columns into bands, such as { age: [18, 40, 65] }
+  bands?: Record<string, number[]>;
+  // Numeric columns with at most this many distinct values are categorical; defaults to 5
+  maxCategoricalLevels?: number;
+  // Decimal places in the Table 1 cells; defaults to 1
+  digits?: number;
+}
+
+export interface NumericSummary {
+  mean: number;
+  // Null with fewer than two values
+  sd: number | null;
+  se: number | null;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  iqr: number;
+}
+
+export interface FrequencyRow {
+  level: string;
+  count: number;
+  // Of the non-missing values
+  percent: number;
+  cumulativePercent: number;
+}
+
+export interface VariableSummary {
+  name: string;
+  type: VariableType;
+  // Type inferred from the values, before overrides and bands
+  inferredType: VariableType;
+  n: number;
+  missing: number;
+  missingPercent: number;
+  distinct: number;
+  // Continuous variables only; null when every value is missing
+  numeric: NumericSummary | null;
+  // Categorical and binary variables only
+  frequencies: FrequencyRow[] | null;
+}
+
+export interface GroupSummary {
+  group: string;
+  n: number;
+  variables: VariableSummary[];
+}
+
+export interface TableOneColumn {
+  // 'overall' or the group level
+  key: string;
+  label: string;
+  n: number;
+}
+
+// One line of Table 1: a variable heading, a statistic of a continuous variable, a level
+// of a categorical one, or its missing count. Cells follow the columns.
+export interface TableOneRow {
+  variable: string;
+  label: string;
+  kind: 'variable' | 'mean_sd' | 'median_iqr' | 'level' | 'missing';
+  cells: string[];
+}
+
+export interface TableOne {
+  columns: TableOneColumn[];
+  rows: TableOneRow[];
+}
+
+export interface DescriptiveResults {
+  n: number;
+  groupBy: string | null;
+  variables: VariableSummary[];
+  // Rows with a missing groupBy value are only counted in the overall summaries
+  groups: GroupSummary[] | null;
+  tableOne: TableOne;
+  rowErrors: IngestionError[];
+  warnings: string[];
+}
@@ -0,0 +1,137 @@
+import type { IngestionError } from '@/lib/ingestion';
+
+// Types for hypothesis tests on stored datasets, stored in Analysis.results. Every test
+// is two-sided.
+
+export type InferentialTest =
+  | 'one_sample_t'
+  | 'independent_t'
+  | 'paired_t'
+  | 'anova'
+  | 'chi_square'
+  | 'fisher_exact'
+  | 'mann_whitney'
+  | 'wilcoxon'
+  | 'kruskal_wallis'
+  | 'correlation';
+
+export type PostHocMethod = 'tukey' | 'games_howell' | 'bonferroni' | 'none';
+
+export type CorrelationMethod = 'pearson' | 'spearman' | 'kendall';
+
+interface TestOptions {
+  // Defaults to 0.95
+  confidenceLevel?: number;
+}
+
+// Two-group tests compare the first level against the second; by default the group column
+// must have exactly two levels, taken in sorted order
+interface TwoGroupOptions {
+  outcome: string;
+  group: string;
+  levels?: [string, string];
+}
+
+export type InferentialParameters = TestOptions & (
+  | { test: 'one_sample_t'; variable: string; mu?: number }
+  // Welch's test unless equalVariances is set
+  | ({ test: 'independent_t'; equalVariances?: boolean } & TwoGroupOptions)
+  // Differences are variable minus pairedVariable
+  | { test: 'paired_t'; variable: string; pairedVariable: string }
+  // Defaults to Tukey's HSD
+  | { test: 'anova'; outcome: string; group: string; postHoc?: PostHocMethod }
+  // Yates' continuity correction for 2x2 tables unless correction is false
+  | { test: 'chi_square'; row: string; column: string; correction?: boolean }
+  | { test: 'fisher_exact'; row: string; column: string }
+  | ({ test: 'mann_whitney' } & TwoGroupOptions)
+  // Signed-rank test of variable minus pairedVariable, or of variable against mu
+  | { test: 'wilcoxon'; variable: string; pairedVariable?: string; mu?: number }
+  | { test: 'kruskal_wallis'; outcome: string; group: string }
+  // Defaults to Pearson
+  | { test: 'correlation'; x: string; y: string; method?: CorrelationMethod }
+);
+
+export interface TestStatistic {
+  name: string;
+  value: number;
+  // Numerator and denominator degrees of freedom for F; only the first for t and chi-square
+  df: number | null;
+  df2: number | null;
+}
+
+// Estimate on the scale of the data, or a standardized effect size; the interval is null
+// where no standard one exists
+export interface Estimate {
+  name: string;
+  value: number;
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface AssumptionCheck {
+  assumption: string;
+  test: string | null;
+  // Group or variable the check applies to
+  subject: string | null;
+  statistic: number | null;
+  pValue: number | null;
+  met: boolean;
+  message: string;
+}
+
+export interface GroupDescriptive {
+  group: string;
+  n: number;
+  mean: number;
+  sd: number | null;
+  median: number;
+  // Confidence interval of the mean
+  lower: number | null;
+  upper: number | null;
+  // Kruskal-Wallis and Mann-Whitney only
+  meanRank: number | null;
+}
+
+export interface PostHocComparison {
+  groupA: string;
+  groupB: string;
+  // Mean difference, or difference in mean ranks for Dunn's test
+  difference: number;
+  lower: number | null;
+  upper: number | null;
+  statistic: number;
+  // Adjusted for the number of comparisons
+  pValue: number;
+}
+
+export interface PostHocResults {
+  method: PostHocMethod | 'dunn_holm';
+  comparisons: PostHocComparison[];
+}
+
+export interface ContingencyTable {
+  rows: string[];
+  columns: string[];
+  observed: number[][];
+  expected: number[][];
+}
+
+export interface InferentialResults {
+  test: InferentialTest;
+  // Name of the procedure as reported, such as "Welch two-sample t-test"
+  method: string;
+  n: number;
+  confidenceLevel: number;
+  statistic: TestStatistic;
+  pValue: number;
+  // Main estimate with its interval: a mean difference, odds ratio, location shift or
+  // correlation
+  estimate: Estimate | null;
+  effectSizes: Estimate[];
+  groups: GroupDescriptive[] | null;
+  postHoc: PostHocResults | null;
+  table: ContingencyTable | null;
+  assumptions: AssumptionCheck[];
+  rowErrors: IngestionError[];
+  warnings: string[];
+}
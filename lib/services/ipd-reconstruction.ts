@@ -0,0 +1,85 @@
+import type { Study } from '@/types/meta-analysis';
+import type { KaplanMeierPoint, LogRankTest } from './survival';
+
+// Types for reconstructing individual patient data from published Kaplan-Meier curves
+// (Guyot et al., 2012), shared by the stats engine, the API route and the tool
+
+// Point read off a published curve; survival as a proportion between 0 and 1
+export interface DigitizedPoint {
+  time: number;
+  survival: number;
+}
+
+// Row of the numbers-at-risk table printed under the curve
+export interface AtRiskEntry {
+  time: number;
+  nRisk: number;
+}
+
+export interface DigitizedArm {
+  curve: DigitizedPoint[];
+  atRisk: AtRiskEntry[];
+  // Reported number of events, which fixes censoring after the last at-risk time
+  totalEvents?: number;
+}
+
+export interface IpdReconstructionParameters {
+  studyId: string;
+  studyLabel: string;
+  year?: number;
+  author?: string;
+  treatment: DigitizedArm;
+  control: DigitizedArm;
+  // Defaults to 0.95
+  confidenceLevel?: number;
+}
+
+export interface ReconstructedPatient {
+  time: number;
+  event: boolean;
+}
+
+export interface ReconstructedArm {
+  n: number;
+  events: number;
+  censored: number;
+  patients: ReconstructedPatient[];
+  // Kaplan-Meier curve of the reconstructed data, to overlay on the digitized curve
+  curve: KaplanMeierPoint[];
+}
+
+export interface IpdReconstructionResults {
+  // Treatment versus control, from a Cox model of the reconstructed data
+  logHazardRatio: number;
+  se: number;
+  hazardRatio: number;
+  lower: number;
+  upper: number;
+  pValue: number;
+  logRank: LogRankTest;
+  treatment: ReconstructedArm;
+  control: ReconstructedArm;
+  // Ready for MetaAnalysisService.runAnalysis with effectMeasure 'HR'
+  study: Study;
+  warnings: string[];
+}
+
+export class IpdReconstructionService {
+  static async reconstruct(parameters: IpdReconstructionParameters): Promise<IpdReconstructionResults> {
+    const response = await fetch('/api/stats/ipd-reconstruction', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(parameters),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to reconstruct patient data');
+    }
+
+    const { results } = await response.json();
+    return results;
+  }
+}
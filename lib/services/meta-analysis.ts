@@ -1,9 +1,20 @@
 import { Study } from '@/types/meta-analysis';
 
+// Wald-type (z) intervals or the Hartung-Knapp-Sidik-Jonkman t-based adjustment,
+// optionally truncated so the adjusted SE never falls below the Wald SE
+export type CiMethod = 'z' | 'hksj' | 'hksj-truncated';
+
+// Models for dependent effect sizes nested in clusters (Study.cluster_id): a three-level
+// random-effects model, and the same model with cluster-robust (RVE) standard errors
+export type MultilevelModelType = 'THREE_LEVEL' | 'RVE';
+
+export type ModelType = 'FE' | 'RE' | MultilevelModelType;
+
 export interface MetaAnalysisParameters {
-  modelType: 'FE' | 'RE';
+  modelType: ModelType;
   effectMeasure: string;
   method?: string;
+  ciMethod?: CiMethod;
   moderators?: string[];
 }
 
@@ -12,6 +23,7 @@ export interface MetaAnalysisResults {
   ciLower: number;
   ciUpper: number;
   pValue: number;
+  ciMethod?: CiMethod;
   heterogeneity: {
     iSquared: number;
     tauSquared: number;
@@ -24,13 +36,118 @@ export interface MetaAnalysisResults {
     lower: number;
     upper: number;
   };
+  multilevel?: MultilevelResults;
+  glmm?: GlmmResults;
+}
+
+export interface VarianceComponentTest {
+  statistic: number;
+  pValue: number;
+}
+
+// Variance components of three-level and RVE models; the overall heterogeneity reports
+// their sum as tau²
+export interface MultilevelResults {
+  k: number;
+  clusters: number;
+  method: 'REML' | 'ML';
+  // Between-cluster (level 3) and within-cluster (level 2) variances
+  sigmaSquared: { between: number; within: number };
+  iSquared: { between: number; within: number };
+  logLikelihood: number;
+  // Likelihood-ratio tests of each variance component against zero
+  tests: { between: VarianceComponentTest; within: VarianceComponentTest };
+  // CR2 standard error with Satterthwaite degrees of freedom; RVE only
+  robust?: {
+    se: number;
+    modelSe: number;
+    df: number;
+  };
+  warnings: string[];
+}
+
+// Random-intercept logistic model for single-arm proportions (effectMeasure PLO with
+// method GLMM), fitted by maximum likelihood with adaptive Gauss-Hermite quadrature
+export interface GlmmResults {
+  k: number;
+  logLikelihood: number;
+  quadraturePoints: number;
+  // Likelihood-ratio test of tau² = 0 against the fixed-effect logistic model
+  heterogeneityTest: VarianceComponentTest;
+  warnings: string[];
+}
+
+// Each subgroup gets its own tau², or one tau² is estimated from all subgroups
+export type SubgroupTauSquared = 'separate' | 'common';
+
+// The fixed-effect Q-between partitions Cochran's Q; the mixed-effects version tests
+// the random-effects subgroup estimates against each other
+export type BetweenGroupTest = 'fixed' | 'mixed';
+
+export interface SubgroupParameters extends MetaAnalysisParameters {
+  subgroupVar: string;
+  tauSquared?: SubgroupTauSquared;
+  // Defaults to 'mixed' for random-effects models and 'fixed' otherwise
+  betweenGroupTest?: BetweenGroupTest;
+  // Subgroups with fewer studies are not pooled or tested; defaults to 2
+  minK?: number;
+}
+
+export interface SubgroupSummary extends MetaAnalysisResults {
+  k: number;
+  studyIds: string[];
+}
+
+// Forest plot payload on the reporting scale, shared by both component trees
+export interface SubgroupForestStudy {
+  studyId: string;
+  studyLabel: string;
+  estimate: number;
+  ciLower: number;
+  ciUpper: number;
+  // Percentage weight within the subgroup
+  weight: number;
+}
+
+export interface SubgroupForestSummary {
+  estimate: number;
+  ciLower: number;
+  ciUpper: number;
+  predictionInterval?: {
+    lower: number;
+    upper: number;
+  };
+}
+
+export interface SubgroupForestGroup {
+  group: string;
+  k: number;
+  studies: SubgroupForestStudy[];
+  // Absent for subgroups below the minimum k
+  summary?: SubgroupForestSummary;
+}
+
+export interface SubgroupForestData {
+  effectMeasure: string;
+  groups: SubgroupForestGroup[];
+  overall: SubgroupForestSummary;
 }
 
 export interface SubgroupResults {
-  subgroups: Record<string, MetaAnalysisResults>;
+  subgroupVar: string;
+  tauSquared: SubgroupTauSquared;
+  betweenGroupTest: BetweenGroupTest;
+  minK: number;
+  subgroups: Record<string, SubgroupSummary>;
+  // Subgroups below the minimum k, left out of pooling and the between-group test
+  excluded: Array<{ group: string; k: number }>;
+  // The shared tau² when tauSquared is 'common'
+  commonTauSquared?: number;
   betweenGroupQ: number;
   betweenGroupDf: number;
   betweenGroupPvalue: number;
+  forest: SubgroupForestData;
+  warnings: string[];
 }
 
 export interface SensitivityResults {
@@ -47,30 +164,598 @@ export interface SensitivityResults {
   }>;
 }
 
+// Cut-offs a study exceeded; `influential` follows metafor's rule of any one of
+// DFFITS, Cook's distance, hat value or DFBETAS
+export interface InfluenceFlags {
+  outlier: boolean;
+  dffits: boolean;
+  cooksDistance: boolean;
+  hat: boolean;
+  dfbetas: boolean;
+  influential: boolean;
+}
+
+export interface StudyInfluence {
+  studyId: string;
+  studyLabel: string;
+  rstudent: number;
+  dffits: number;
+  cooksDistance: number;
+  covRatio: number;
+  hat: number;
+  // Percentage weight in the full model
+  weight: number;
+  dfbetas: number;
+  // Pooled estimate, tau² and Q with the study removed; the estimate is on the reporting scale
+  estimateDeleted: number;
+  tauSquaredDeleted: number;
+  qDeleted: number;
+  // Baujat plot: contribution to Q against influence on the fixed-effect estimate
+  baujat: {
+    x: number;
+    y: number;
+  };
+  flags: InfluenceFlags;
+}
+
+export interface InfluenceResults {
+  k: number;
+  cutoffs: {
+    rstudent: number;
+    dffits: number;
+    cooksDistance: number;
+    hat: number;
+    dfbetas: number;
+  };
+  studies: StudyInfluence[];
+  warnings: string[];
+}
+
+// How studies are ordered before they are added one at a time
+export type CumulativeOrder = 'year' | 'precision' | 'effect_size' | 'moderator';
+
+export interface CumulativeParameters extends MetaAnalysisParameters {
+  orderBy: CumulativeOrder;
+  // Column to order by when orderBy is 'moderator'
+  moderator?: string;
+  // Year, effect size and moderators ascend and precision descends unless reversed
+  descending?: boolean;
+}
+
+export interface CumulativeStep {
+  studyId: string;
+  studyLabel: string;
+  orderValue: number | string | null;
+  k: number;
+  estimate: number;
+  ciLower: number;
+  ciUpper: number;
+  pValue: number;
+  iSquared: number;
+  tauSquared: number;
+}
+
+export interface CumulativeResults {
+  orderBy: CumulativeOrder;
+  moderator?: string;
+  steps: CumulativeStep[];
+  warnings: string[];
+}
+
+export type PublicationBiasMethod =
+  | 'egger'
+  | 'begg'
+  | 'trim_and_fill'
+  | 'pet_peese'
+  | 'selection_model'
+  | 'fail_safe_n';
+
+// L0 and R0 estimators of the number of missing studies (Duval & Tweedie)
+export type TrimAndFillEstimator = 'L0' | 'R0';
+
+// Side of the funnel plot on which studies are assumed to be missing
+export type FunnelSide = 'left' | 'right';
+
+export interface PublicationBiasParameters {
+  effectMeasure: string;
+  modelType?: ModelType;
+  method?: string;
+  methods?: PublicationBiasMethod[];
+  trimAndFill?: {
+    estimator?: TrimAndFillEstimator;
+    // Estimated from the funnel plot asymmetry when omitted
+    side?: FunnelSide;
+  };
+  selectionModel?: {
+    // One-sided p-value cutpoints of the step function, e.g. [0.025]
+    cutpoints?: number[];
+  };
+  failSafeN?: {
+    alpha?: number;
+    // Orwin's target effect, on the reporting scale; defaults to half the mean effect
+    target?: number;
+  };
+}
+
+// Estimates and confidence limits are on the reporting scale (exponentiated for OR/RR);
+// standard errors stay on the analysis scale
+export interface BiasAdjustedEstimate {
+  estimate: number;
+  se: number;
+  ciLower: number;
+  ciUpper: number;
+  pValue: number;
+}
+
+export interface RegressionTestResult {
+  intercept: number;
+  se: number;
+  statistic: number;
+  df: number;
+  pValue: number;
+  ciLower: number;
+  ciUpper: number;
+}
+
+export interface SelectionModelWeight {
+  // One-sided p-value interval (lower, upper]
+  lower: number;
+  upper: number;
+  k: number;
+  weight: number;
+  se?: number;
+}
+
 export interface PublicationBiasResults {
-  egger?: {
-    intercept: number;
+  effectMeasure: string;
+  k: number;
+  // The unadjusted model the other methods are compared against
+  model: BiasAdjustedEstimate & { tauSquared: number };
+  egger?: RegressionTestResult & {
+    // Precision-effect slope, i.e. the effect of a study with infinite precision
     slope: number;
-    seIntercept: number;
+  };
+  begg?: {
+    kendallTau: number;
+    statistic: number;
     pValue: number;
-    interpretation: string;
+    exact: boolean;
   };
-  trimAndFill?: {
+  trimAndFill?: BiasAdjustedEstimate & {
+    estimator: TrimAndFillEstimator;
+    side: FunnelSide;
     k0: number;
-    estimateOriginal: number;
-    estimateAdjusted: number;
-    ciLowerAdjusted: number;
-    ciUpperAdjusted: number;
-    interpretation: string;
+    k0Se: number;
+    tauSquared: number;
+    // Imputed studies, on the reporting scale so they can be drawn on the funnel plot
+    filled: Study[];
+  };
+  petPeese?: BiasAdjustedEstimate & {
+    selected: 'PET' | 'PEESE';
+    pet: RegressionTestResult;
+    peese: RegressionTestResult;
+  };
+  selectionModel?: BiasAdjustedEstimate & {
+    cutpoints: number[];
+    tauSquared: number;
+    weights: SelectionModelWeight[];
+    likelihoodRatio: {
+      statistic: number;
+      df: number;
+      pValue: number;
+    };
+    converged: boolean;
   };
   failSafeN?: {
-    n: number;
-    interpretation: string;
+    rosenthal: { n: number; pValue: number; alpha: number };
+    orwin: { n: number; target: number } | null;
+    rosenberg: { n: number; pValue: number; alpha: number };
   };
+  warnings: string[];
+}
+
+export interface MetaRegressionParameters {
+  effectMeasure: string;
+  modelType?: ModelType;
+  method?: string;
+  ciMethod?: CiMethod;
+  moderators: string[];
+  // Moderators to dummy-code even though their values are numeric
+  categorical?: string[];
+  // Reference level per categorical moderator; defaults to the first level in sort order
+  referenceLevels?: Record<string, string>;
+  interactions?: Array<[string, string]>;
+  // Number of permutations for permutation p-values; 0 skips the permutation test
+  permutations?: number;
+  seed?: number;
+}
+
+export interface MetaRegressionCoefficient {
+  name: string;
+  // Moderator or interaction (e.g. "dose:design") the coefficient belongs to
+  term: string;
+  estimate: number;
+  se: number;
+  statistic: number;
+  pValue: number;
+  ciLower: number;
+  ciUpper: number;
+  permutationPValue?: number;
+}
+
+export interface ModeratorTest {
+  statistic: number;
+  df: number;
+  // Denominator degrees of freedom of the F test used with Knapp-Hartung adjustments
+  df2?: number;
+  pValue: number;
+  permutationPValue?: number;
+}
+
+export interface BubblePlotData {
+  moderator: string;
+  points: Array<{
+    studyId: string;
+    studyLabel: string;
+    x: number;
+    y: number;
+    // Percentage weight in the fitted model
+    weight: number;
+  }>;
+  // Predicted effect across the moderator's range, with the other moderators held at
+  // their mean (continuous) or reference level (categorical)
+  line: Array<{
+    x: number;
+    fitted: number;
+    ciLower: number;
+    ciUpper: number;
+  }>;
+}
+
+// Coefficients, fitted values and bubble plot effects are on the analysis scale
+// (log scale for OR/RR)
+export interface MetaRegressionResults {
+  effectMeasure: string;
+  scale: 'log' | 'identity';
+  modelType: 'FE' | 'RE';
+  method: string;
+  ciMethod: CiMethod;
+  k: number;
+  // Studies left out because a moderator value was missing
+  excluded: string[];
+  coefficients: MetaRegressionCoefficient[];
+  // Omnibus QM test of all moderators
+  omnibus: ModeratorTest;
+  // Per-term tests, so categorical moderators are tested as a whole
+  termTests: Array<ModeratorTest & { term: string }>;
+  residualHeterogeneity: {
+    qStatistic: number;
+    qDf: number;
+    qPvalue: number;
+    tauSquared: number;
+    iSquared: number;
+  };
+  // Proportional reduction in tau² relative to the intercept-only model, in percent
+  rSquared: number | null;
+  // Levels of each categorical moderator, reference level first
+  levels: Record<string, string[]>;
+  permutations?: number;
+  bubble: BubblePlotData[];
+  warnings: string[];
+}
+
+// Contrast-level rows are two-arm studies with `treatment` and `comparator` columns and
+// an effect of treatment versus comparator; arm-level rows hold one arm each, grouped
+// into studies by study_id
+export type NetworkDataFormat = 'contrast' | 'arm';
+
+// Whether small effects (e.g. ORs below 1 for a harmful outcome) mean a better treatment
+export type NetworkSmallValues = 'good' | 'bad';
+
+export interface NetworkArm {
+  study_id: string;
+  study_label?: string;
+  treatment: string;
+  sample_size: number;
+  // Binary outcomes (OR, RR, RD)
+  events?: number;
+  // Continuous outcomes (MD, SMD)
+  mean?: number;
+  sd?: number;
+}
+
+export interface NetworkParameters {
+  effectMeasure: string;
+  modelType?: 'FE' | 'RE';
+  // REML or DL estimator of the common between-study variance
+  method?: string;
+  dataFormat: NetworkDataFormat;
+  // Defaults to the treatment included in the most studies
+  reference?: string;
+  smallValues?: NetworkSmallValues;
+  // Seed for the simulated rank probabilities behind SUCRA
+  seed?: number;
+}
+
+// Effect of `treatment` versus `comparator` on the reporting scale
+export interface NetworkComparison {
+  treatment: string;
+  comparator: string;
+  estimate: number;
+  ciLower: number;
+  ciUpper: number;
+  pValue: number;
+}
+
+export interface NetworkRanking {
+  treatment: string;
+  pScore: number;
+  sucra: number;
+  meanRank: number;
+  // Probability of each rank, best first
+  rankProbabilities: number[];
+}
+
+export interface NetworkEvidence {
+  estimate: number;
+  ciLower: number;
+  ciUpper: number;
+}
+
+// Direct evidence for one comparison split from the indirect evidence of the rest of
+// the network (side-splitting)
+export interface NodeSplit {
+  treatment: string;
+  comparator: string;
+  directStudies: number;
+  direct: NetworkEvidence;
+  indirect: NetworkEvidence;
+  network: NetworkEvidence;
+  // Direct minus indirect on the analysis scale (log ratio of ratios for OR/RR)
+  difference: number;
+  differenceSe: number;
+  pValue: number;
+}
+
+export interface NetworkGeometry {
+  nodes: Array<{
+    treatment: string;
+    studies: number;
+    // Arm-level data only
+    sampleSize?: number;
+  }>;
+  edges: Array<{
+    treatment1: string;
+    treatment2: string;
+    studies: number;
+  }>;
+}
+
+export interface NetworkResults {
+  effectMeasure: string;
+  modelType: 'FE' | 'RE';
+  method: string;
+  reference: string;
+  treatments: string[];
+  k: number;
+  multiArmStudies: number;
+  tauSquared: number;
+  // Cochran's Q of the fixed-effect consistency model, pooling heterogeneity and
+  // inconsistency
+  heterogeneity: {
+    qStatistic: number;
+    qDf: number;
+    qPvalue: number;
+    iSquared: number;
+  };
+  // Every treatment versus the reference
+  relativeEffects: NetworkComparison[];
+  // league[i][j] is treatments[i] versus treatments[j]; null on the diagonal
+  league: Array<Array<NetworkComparison | null>>;
+  rankings: NetworkRanking[];
+  nodeSplits: NodeSplit[];
+  geometry: NetworkGeometry;
+  warnings: string[];
+}
+
+export interface DiagnosticParameters {
+  // Added to every cell of a study with a zero cell before the logit transform;
+  // defaults to 0.5
+  continuityCorrection?: number;
+}
+
+export interface DiagnosticEstimate {
+  estimate: number;
+  ciLower: number;
+  ciUpper: number;
+}
+
+export interface DiagnosticStudy {
+  studyId: string;
+  studyLabel: string;
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+  // Observed proportions with Wilson score intervals
+  sensitivity: DiagnosticEstimate;
+  specificity: DiagnosticEstimate;
+}
+
+// A point in ROC space
+export interface RocPoint {
+  fpr: number;
+  sensitivity: number;
+}
+
+// Bivariate random-effects model of logit sensitivity and logit specificity (Reitsma
+// et al., 2005)
+export interface DiagnosticResults {
+  k: number;
+  studies: DiagnosticStudy[];
+  summary: {
+    sensitivity: DiagnosticEstimate;
+    specificity: DiagnosticEstimate;
+    diagnosticOddsRatio: DiagnosticEstimate;
+    positiveLikelihoodRatio: DiagnosticEstimate;
+    negativeLikelihoodRatio: DiagnosticEstimate;
+  };
+  // Between-study variances on the logit scale and their correlation
+  heterogeneity: {
+    tauSquaredSensitivity: number;
+    tauSquaredSpecificity: number;
+    correlation: number;
+  };
+  logLikelihood: number;
+  // 95% regions around the summary point, traced in ROC space
+  confidenceRegion: RocPoint[];
+  predictionRegion: RocPoint[];
+  // Rutter-Gatsonis summary ROC curve over the observed false positive rates
+  sroc: {
+    points: RocPoint[];
+    auc: number;
+  };
+  warnings: string[];
+}
+
+// Priors on the between-study SD tau. Half-normal and half-Cauchy priors are set by their
+// scale; the empirical priors are on tau²: log-normal (Turner et al., 2015) and log-t
+// with 5 degrees of freedom (Rhodes et al., 2015), with location and scale taken from
+// the published tables for the outcome and comparison
+export type TauPrior =
+  | { type: 'half_normal'; scale: number }
+  | { type: 'half_cauchy'; scale: number }
+  | { type: 'turner'; location: number; scale: number }
+  | { type: 'rhodes'; location: number; scale: number };
+
+export type TauPriorType = TauPrior['type'];
+
+// Whether a benefit is an effect above or below the threshold
+export type BenefitDirection = 'above' | 'below';
+
+export interface BayesianParameters {
+  effectMeasure: string;
+  // Normal prior for the mean effect on the analysis scale (log scale for ratio
+  // measures); defaults to mean 0 and SD 10
+  muPrior?: { mean: number; sd: number };
+  tauPrior: TauPrior;
+  // Defaults to 0.95
+  credibleLevel?: number;
+  // On the reporting scale; defaults to the null value (1 for ratio measures, else 0)
+  threshold?: number;
+  benefit?: BenefitDirection;
+}
+
+export interface PosteriorSummary {
+  // Posterior mean and SD on the analysis scale
+  mean: number;
+  sd: number;
+  // Posterior median and equal-tailed credible interval on the reporting scale
+  median: number;
+  lower: number;
+  upper: number;
+}
+
+export interface BayesianResults {
+  k: number;
+  effectMeasure: string;
+  credibleLevel: number;
+  muPrior: { mean: number; sd: number };
+  tauPrior: TauPrior;
+  mu: PosteriorSummary;
+  // Between-study SD; the same scale for analysis and reporting
+  tau: PosteriorSummary;
+  // Interval for the effect in a new study
+  predictive: {
+    median: number;
+    lower: number;
+    upper: number;
+  };
+  probability: {
+    threshold: number;
+    benefit: BenefitDirection;
+    // Posterior probability that the mean effect, and the effect in a new study, lie on
+    // the benefit side of the threshold
+    mu: number;
+    predictive: number;
+  };
+  warnings: string[];
+}
+
+// Trial sequential analysis: information is measured as the sum of fixed-effect weights
+// (1 / variance), so the required information size applies to any effect measure
+export interface SequentialParameters extends MetaAnalysisParameters {
+  // Two-sided type I error and type II error; default 0.05 and 0.2 (80% power)
+  alpha?: number;
+  beta?: number;
+  // Effect the meta-analysis should be able to detect, on the reporting scale; defaults
+  // to the pooled estimate
+  anticipatedEffect?: number;
+  // Anticipated diversity D² in [0, 1); defaults to the estimate from the data for the
+  // random-effects model and 0 for the fixed-effect model
+  diversity?: number;
+}
+
+export interface SequentialBoundary {
+  informationFraction: number;
+  // O'Brien-Fleming efficacy boundary for |Z|
+  efficacy: number;
+  // Futility (inner wedge) boundary for |Z|; it meets the efficacy boundary at the
+  // required information size
+  futility: number;
+}
+
+export interface SequentialLook {
+  studyId: string;
+  studyLabel: string;
+  year?: number;
+  k: number;
+  information: number;
+  informationFraction: number;
+  // Cumulative participants, when every study so far reports a sample size
+  participants: number | null;
+  // Cumulative Z statistic, positive when the pooled effect is above the null
+  zStatistic: number;
+  // Boundaries in force at this look; past the required information size, those at the size
+  efficacyBoundary: number;
+  futilityBoundary: number;
+}
+
+export type SequentialConclusion = 'benefit_or_harm' | 'futility' | 'inconclusive';
+
+export interface TrialSequentialResults {
+  effectMeasure: string;
+  modelType: 'FE' | 'RE';
+  alpha: number;
+  beta: number;
+  anticipatedEffect: number;
+  diversity: number;
+  requiredInformation: {
+    unadjusted: number;
+    // Inflated by 1 / (1 - D²)
+    adjusted: number;
+  };
+  // Required information size in participants, scaled from the information per
+  // participant observed so far; null when sample sizes are missing
+  requiredParticipants: number | null;
+  accumulatedInformation: number;
+  informationFraction: number;
+  looks: SequentialLook[];
+  // Boundaries at each look up to the required information size and at the size itself
+  boundaries: SequentialBoundary[];
+  // First look at which the Z-curve crosses a boundary, and what it crossed
+  conclusion: SequentialConclusion;
+  crossedAt: string | null;
+  warnings: string[];
+}
+
+export interface RequestOptions {
+  // Channel to stream progress to, followed with GET /api/progress/[progressId]
+  progressId?: string;
 }
 
 export class MetaAnalysisService {
-  private static async callApi(operation: string, data: any, parameters: any) {
+  private static async callApi(operation: string, data: any, parameters: any, options: RequestOptions = {}) {
     const response = await fetch('/api/meta-analysis', {
       method: 'POST',
       headers: {
@@ -80,6 +765,7 @@ export class MetaAnalysisService {
         operation,
         data,
         parameters,
+        progressId: options.progressId,
       }),
     });
 
@@ -91,36 +777,102 @@ export class MetaAnalysisService {
     return response.json();
   }
 
-  static async runAnalysis(studies: Study[], parameters: MetaAnalysisParameters): Promise<MetaAnalysisResults> {
-    const { results } = await this.callApi('run_analysis', studies, parameters);
+  static async runAnalysis(
+    studies: Study[],
+    parameters: MetaAnalysisParameters,
+    options?: RequestOptions
+  ): Promise<MetaAnalysisResults> {
+    const { results } = await this.callApi('run_analysis', studies, parameters, options);
     return results;
   }
 
   static async runSubgroupAnalysis(
     studies: Study[],
-    subgroupVar: string,
-    parameters: MetaAnalysisParameters
+    parameters: SubgroupParameters,
+    options?: RequestOptions
   ): Promise<SubgroupResults> {
-    const { results } = await this.callApi('subgroup_analysis', studies, {
-      ...parameters,
-      subgroupVar,
-    });
+    const { results } = await this.callApi('subgroup_analysis', studies, parameters, options);
     return results;
   }
 
   static async runSensitivityAnalysis(
     studies: Study[],
-    parameters: MetaAnalysisParameters
+    parameters: MetaAnalysisParameters,
+    options?: RequestOptions
   ): Promise<SensitivityResults> {
-    const { results } = await this.callApi('sensitivity_analysis', studies, parameters);
+    const { results } = await this.callApi('sensitivity_analysis', studies, parameters, options);
+    return results;
+  }
+
+  static async runInfluenceDiagnostics(
+    studies: Study[],
+    parameters: MetaAnalysisParameters,
+    options?: RequestOptions
+  ): Promise<InfluenceResults> {
+    const { results } = await this.callApi('influence_diagnostics', studies, parameters, options);
+    return results;
+  }
+
+  static async runCumulativeAnalysis(
+    studies: Study[],
+    parameters: CumulativeParameters,
+    options?: RequestOptions
+  ): Promise<CumulativeResults> {
+    const { results } = await this.callApi('cumulative_analysis', studies, parameters, options);
+    return results;
+  }
+
+  static async runTrialSequentialAnalysis(
+    studies: Study[],
+    parameters: SequentialParameters,
+    options?: RequestOptions
+  ): Promise<TrialSequentialResults> {
+    const { results } = await this.callApi('trial_sequential_analysis', studies, parameters, options);
     return results;
   }
 
   static async assessPublicationBias(
     studies: Study[],
-    methods: string[] = ['egger', 'trim_and_fill', 'fail_safe_n']
+    parameters: PublicationBiasParameters,
+    options?: RequestOptions
   ): Promise<PublicationBiasResults> {
-    const { results } = await this.callApi('publication_bias', studies, { methods });
+    const { results } = await this.callApi('publication_bias', studies, parameters, options);
+    return results;
+  }
+
+  static async runMetaRegression(
+    studies: Study[],
+    parameters: MetaRegressionParameters,
+    options?: RequestOptions
+  ): Promise<MetaRegressionResults> {
+    const { results } = await this.callApi('meta_regression', studies, parameters, options);
+    return results;
+  }
+
+  static async runNetworkMetaAnalysis(
+    rows: Study[] | NetworkArm[],
+    parameters: NetworkParameters,
+    options?: RequestOptions
+  ): Promise<NetworkResults> {
+    const { results } = await this.callApi('network_meta_analysis', rows, parameters, options);
+    return results;
+  }
+
+  static async runDiagnosticAccuracy(
+    studies: Study[],
+    parameters: DiagnosticParameters,
+    options?: RequestOptions
+  ): Promise<DiagnosticResults> {
+    const { results } = await this.callApi('diagnostic_accuracy', studies, parameters, options);
     return results;
   }
-} 
\ No newline at end of file
+
+  static async runBayesianMetaAnalysis(
+    studies: Study[],
+    parameters: BayesianParameters,
+    options?: RequestOptions
+  ): Promise<BayesianResults> {
+    const { results } = await this.callApi('bayesian_meta_analysis', studies, parameters, options);
+    return results;
+  }
+}
@@ -0,0 +1,109 @@
+// Types for power and sample size calculations, shared by the stats engine, the API route
+// and the calculator
+
+export type TrialOutcome = 'continuous' | 'binary' | 'time_to_event';
+
+// A priori power of a planned meta-analysis of standardized mean differences (Hedges and
+// Pigott, 2001)
+export interface MetaAnalysisPowerParameters {
+  calculation: 'meta_analysis';
+  modelType: 'FE' | 'RE';
+  // Expected number of studies and average participants per group
+  k: number;
+  groupSize: number;
+  // Expected standardized mean difference
+  effectSize: number;
+  // Expected I² between 0 and 1; random-effects model only
+  iSquared?: number;
+  // Two-sided; defaults to 0.05
+  alpha?: number;
+  // Target power for the number of studies needed; defaults to 0.8
+  power?: number;
+}
+
+interface TrialDesign {
+  calculation: 'two_arm_trial';
+  // Two-sided; defaults to 0.05
+  alpha?: number;
+  // Target power; defaults to 0.8
+  power?: number;
+  // Control participants per treatment participant; defaults to 1
+  allocationRatio?: number;
+}
+
+export type TrialPowerParameters = TrialDesign & (
+  | { outcome: 'continuous'; meanDifference: number; sd: number }
+  | { outcome: 'binary'; treatmentProportion: number; controlProportion: number }
+  // Probability that a participant has an event during follow-up, pooled over both arms
+  | { outcome: 'time_to_event'; hazardRatio: number; eventProbability: number }
+);
+
+export type PowerParameters = MetaAnalysisPowerParameters | TrialPowerParameters;
+
+export interface PowerCurvePoint {
+  x: number;
+  power: number;
+}
+
+export interface MetaAnalysisPowerResults {
+  calculation: 'meta_analysis';
+  modelType: 'FE' | 'RE';
+  alpha: number;
+  power: number;
+  // Sampling variance of a typical study's SMD and the implied tau²
+  withinStudyVariance: number;
+  tauSquared: number;
+  // Standard error of the pooled estimate and the noncentrality parameter
+  pooledSe: number;
+  noncentrality: number;
+  // Smallest number of studies reaching the target power
+  targetPower: number;
+  requiredStudies: number | null;
+  // Power against the number of studies
+  curve: PowerCurvePoint[];
+  warnings: string[];
+}
+
+export interface TrialPowerResults {
+  calculation: 'two_arm_trial';
+  outcome: TrialOutcome;
+  alpha: number;
+  targetPower: number;
+  allocationRatio: number;
+  sampleSize: {
+    treatment: number;
+    control: number;
+    total: number;
+  };
+  // Events needed for a time-to-event outcome
+  events: number | null;
+  // Power at the rounded sample size
+  achievedPower: number;
+  // Power against the total sample size
+  curve: PowerCurvePoint[];
+  warnings: string[];
+}
+
+export type PowerResults = MetaAnalysisPowerResults | TrialPowerResults;
+
+export class PowerService {
+  static calculate(parameters: MetaAnalysisPowerParameters): Promise<MetaAnalysisPowerResults>;
+  static calculate(parameters: TrialPowerParameters): Promise<TrialPowerResults>;
+  static async calculate(parameters: PowerParameters): Promise<PowerResults> {
+    const response = await fetch('/api/stats/power', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(parameters),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to calculate power');
+    }
+
+    const { results } = await response.json();
+    return results;
+  }
+}
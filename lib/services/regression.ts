@@ -0,0 +1,138 @@
+import type { IngestionError } from '@/lib/ingestion';
+
+// Types for generalized linear models of stored datasets, stored in Analysis.results
+
+// Each family uses its canonical link: identity, logit and log
+export type RegressionFamily = 'gaussian' | 'binomial' | 'poisson';
+
+// Heteroskedasticity-consistent covariance estimators, as in the sandwich package;
+// 'model' keeps the model-based covariance
+export type RobustCovariance = 'model' | 'HC0' | 'HC1' | 'HC3';
+
+export interface RegressionParameters {
+  // Model formula such as "y ~ age + factor(stage) + age:sex". Terms are joined with +,
+  // a:b is an interaction and a*b expands to a + b + a:b. factor(x) treats x as
+  // categorical, log(x) and sqrt(x) transform it, "." stands for every other column and
+  // "- 1" drops the intercept. Backticks quote column names with spaces.
+  formula: string;
+  // Defaults to 'gaussian'
+  family?: RegressionFamily;
+  // Columns to dummy-code even though their values are numeric
+  categorical?: string[];
+  // Reference level per categorical column; defaults to the first level in sort order
+  referenceLevels?: Record<string, string>;
+  // Value of a binomial outcome that counts as the event; by default 1 (of 0/1), true,
+  // yes, or the second of two levels in sort order
+  eventValue?: string;
+  // Poisson only: column of exposure such as person-time, entering as a log offset
+  exposure?: string;
+  // Defaults to 'model'
+  robust?: RobustCovariance;
+  // Defaults to 0.95
+  confidenceLevel?: number;
+  // Binomial only: groups of the Hosmer-Lemeshow test; defaults to 10
+  hosmerLemeshowGroups?: number;
+}
+
+export interface RegressionCoefficient {
+  name: string;
+  // Formula term (e.g. "age:sex") the coefficient belongs to
+  term: string;
+  estimate: number;
+  se: number;
+  // t for the gaussian family, z otherwise
+  statistic: number;
+  pValue: number;
+  ciLower: number;
+  ciUpper: number;
+  // Odds ratio (binomial) or incidence rate ratio (poisson) with its interval; null for
+  // the gaussian family
+  ratio: { estimate: number; ciLower: number; ciUpper: number } | null;
+}
+
+export interface RegressionTest {
+  statistic: number;
+  df: number;
+  // Denominator degrees of freedom of F tests
+  df2?: number;
+  pValue: number;
+}
+
+// Variance inflation of each term, or the generalized VIF of Fox and Monette (1992) for
+// terms with several columns; adjustedGvif = GVIF^(1/(2 df)) is comparable to sqrt(VIF)
+export interface VarianceInflation {
+  term: string;
+  df: number;
+  gvif: number;
+  adjustedGvif: number;
+}
+
+// Per-observation diagnostics for residual, Q-Q and influence plots
+export interface RegressionResidual {
+  // Row in the uploaded file
+  row: number;
+  observed: number;
+  fitted: number;
+  linearPredictor: number;
+  response: number;
+  pearson: number;
+  deviance: number;
+  // Deviance residual standardized by dispersion and leverage
+  standardized: number;
+  leverage: number;
+  cooksDistance: number;
+}
+
+export interface HosmerLemeshowGroup {
+  group: number;
+  n: number;
+  observed: number;
+  expected: number;
+  meanPredicted: number;
+}
+
+export interface HosmerLemeshowTest extends RegressionTest {
+  groups: HosmerLemeshowGroup[];
+}
+
+export interface RegressionResults {
+  formula: string;
+  family: RegressionFamily;
+  link: 'identity' | 'logit' | 'log';
+  response: string;
+  // Binomial only: the outcome value modelled as the event
+  eventLevel: string | null;
+  robust: RobustCovariance;
+  confidenceLevel: number;
+  n: number;
+  coefficients: RegressionCoefficient[];
+  // Wald tests of each term, so categorical variables are tested as a whole
+  termTests: Array<RegressionTest & { term: string }>;
+  // F test (gaussian) or likelihood ratio test (other families) against the null model
+  modelTest: RegressionTest | null;
+  converged: boolean;
+  iterations: number;
+  // Residual variance for the gaussian family, 1 otherwise
+  dispersion: number;
+  deviance: number;
+  nullDeviance: number;
+  dfResidual: number;
+  dfNull: number;
+  logLikelihood: number;
+  aic: number;
+  bic: number;
+  // Gaussian only
+  rSquared: number | null;
+  adjustedRSquared: number | null;
+  // McFadden's pseudo R², for the other families
+  pseudoRSquared: number | null;
+  // Levels of each categorical variable, reference level first
+  levels: Record<string, string[]>;
+  // Null with fewer than two terms
+  vif: VarianceInflation[] | null;
+  residuals: RegressionResidual[];
+  // Binomial only
+  hosmerLemeshow: HosmerLemeshowTest | null;
+  rowErrors: IngestionError[];
+  warnings: string[];
+}
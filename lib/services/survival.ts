@@ -0,0 +1,144 @@
+import type { IngestionError } from '@/lib/ingestion';
+
+// Types for survival analyses of patient-level datasets, stored in Analysis.results
+
+// Scale on which Kaplan-Meier confidence intervals are built, as survfit's conf.type
+export type SurvivalConfidenceType = 'log' | 'log-log' | 'plain';
+
+// Handling of tied event times in the Cox model
+export type CoxTies = 'efron' | 'breslow';
+
+export interface SurvivalParameters {
+  // Columns holding follow-up time and event status
+  time: string;
+  event: string;
+  // Value of the event column that marks an event; by default 1 (of 0/1), 2 (of 1/2),
+  // true or yes
+  eventValue?: string;
+  // Column comparing Kaplan-Meier curves with the log-rank test
+  group?: string;
+  // Column whose levels stratify the log-rank test and the Cox model
+  strata?: string;
+  // Columns entering the Cox model; text columns are dummy coded against their first level
+  covariates?: string[];
+  // Defaults to 0.95
+  confidenceLevel?: number;
+  // Defaults to 'log'
+  confidenceType?: SurvivalConfidenceType;
+  // Defaults to 'efron'
+  ties?: CoxTies;
+  // Times for the numbers-at-risk table; by default evenly spaced over follow-up
+  riskTimes?: number[];
+}
+
+export interface KaplanMeierPoint {
+  time: number;
+  nRisk: number;
+  nEvent: number;
+  nCensor: number;
+  survival: number;
+  // Greenwood standard error of the survival probability
+  se: number | null;
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface MedianSurvival {
+  estimate: number | null;
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface KaplanMeierCurve {
+  // Group level, or null for the whole sample
+  group: string | null;
+  n: number;
+  events: number;
+  points: KaplanMeierPoint[];
+  median: MedianSurvival;
+  atRisk: { time: number; nRisk: number }[];
+}
+
+export interface LogRankGroup {
+  group: string;
+  n: number;
+  observed: number;
+  expected: number;
+}
+
+export interface LogRankTest {
+  groups: LogRankGroup[];
+  statistic: number;
+  df: number;
+  pValue: number;
+  // Levels of the strata column when the test is stratified
+  strata: string[] | null;
+}
+
+export interface CoxCoefficient {
+  term: string;
+  covariate: string;
+  // Level compared with the reference for a dummy-coded covariate
+  level: string | null;
+  estimate: number;
+  se: number;
+  z: number;
+  pValue: number;
+  hazardRatio: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ChiSquareTest {
+  statistic: number;
+  df: number;
+  pValue: number;
+}
+
+// Grambsch-Therneau test of one term, or of all terms together ('GLOBAL')
+export interface ProportionalHazardsTest extends ChiSquareTest {
+  term: string;
+  // Correlation of the scaled Schoenfeld residuals with transformed time; null for GLOBAL
+  rho: number | null;
+}
+
+export interface SchoenfeldResidual {
+  time: number;
+  // 1 - Kaplan-Meier just before the event time
+  transformedTime: number;
+  // Scaled residuals per term, which plot beta(t)
+  scaled: number[];
+}
+
+export interface CoxModel {
+  n: number;
+  events: number;
+  ties: CoxTies;
+  strata: string | null;
+  coefficients: CoxCoefficient[];
+  logLikelihood: {
+    null: number;
+    fitted: number;
+  };
+  likelihoodRatioTest: ChiSquareTest;
+  waldTest: ChiSquareTest;
+  scoreTest: ChiSquareTest;
+  iterations: number;
+  converged: boolean;
+  proportionalHazards: {
+    tests: ProportionalHazardsTest[];
+    residuals: SchoenfeldResidual[];
+  };
+}
+
+export interface SurvivalResults {
+  n: number;
+  events: number;
+  confidenceLevel: number;
+  confidenceType: SurvivalConfidenceType;
+  kaplanMeier: KaplanMeierCurve[];
+  logRank: LogRankTest | null;
+  cox: CoxModel | null;
+  rowErrors: IngestionError[];
+  warnings: string[];
+}
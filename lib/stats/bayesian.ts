@@ -0,0 +1,290 @@
+import { Study } from '@/types/meta-analysis';
+import type {
+  BayesianParameters,
+  BayesianResults,
+  BenefitDirection,
+  PosteriorSummary,
+  TauPrior,
+  TauPriorType,
+} from '@/lib/services/meta-analysis';
+import { logGamma, normalCdf } from './distributions';
+import { StatsInputError } from './errors';
+import { getEffectData, isRatioMeasure, reportingTransform } from './meta-analysis';
+import { isProportionMeasure, logit } from './proportions';
+
+export const TAU_PRIOR_TYPES: TauPriorType[] = ['half_normal', 'half_cauchy', 'turner', 'rhodes'];
+
+const DEFAULT_MU_PRIOR = { mean: 0, sd: 10 };
+
+// Degrees of freedom of the Rhodes et al. log-t prior
+const RHODES_DF = 5;
+
+// Integration points over tau
+const GRID_POINTS = 2000;
+
+// Grid points with a smaller posterior weight are ignored when summarizing mu
+const NEGLIGIBLE_WEIGHT = 1e-12;
+
+// With this few studies the posterior for tau is driven by its prior
+const FEW_STUDIES = 5;
+
+// One point of the tau grid: the conditional posterior of mu given tau is normal
+interface GridPoint {
+  tau: number;
+  weight: number;
+  mean: number;
+  variance: number;
+}
+
+export function isTauPriorType(value: unknown): value is TauPriorType {
+  return (TAU_PRIOR_TYPES as unknown[]).includes(value);
+}
+
+export function isBenefitDirection(value: unknown): value is BenefitDirection {
+  return value === 'above' || value === 'below';
+}
+
+function logSumExp(values: number[]): number {
+  const max = Math.max(...values);
+  return max + Math.log(values.reduce((sum, value) => sum + Math.exp(value - max), 0));
+}
+
+/**
+ * Log density of the prior on tau (not tau²), up to a constant for the empirical priors
+ * on tau² via the change of variables d(tau²) = 2 tau d(tau)
+ */
+function logTauPriorDensity(prior: TauPrior, tau: number): number {
+  switch (prior.type) {
+    case 'half_normal': {
+      const z = tau / prior.scale;
+      return Math.log(2 / (prior.scale * Math.sqrt(2 * Math.PI))) - 0.5 * z * z;
+    }
+    case 'half_cauchy': {
+      const z = tau / prior.scale;
+      return Math.log(2 / (Math.PI * prior.scale)) - Math.log1p(z * z);
+    }
+    case 'turner': {
+      const z = (2 * Math.log(tau) - prior.location) / prior.scale;
+      return Math.log(2 / (tau * prior.scale * Math.sqrt(2 * Math.PI))) - 0.5 * z * z;
+    }
+    case 'rhodes': {
+      const z = (2 * Math.log(tau) - prior.location) / prior.scale;
+      const logT = logGamma((RHODES_DF + 1) / 2) - logGamma(RHODES_DF / 2) -
+        0.5 * Math.log(RHODES_DF * Math.PI) - ((RHODES_DF + 1) / 2) * Math.log1p((z * z) / RHODES_DF);
+      return logT + Math.log(2 / (tau * prior.scale));
+    }
+  }
+}
+
+function validateTauPrior(prior: TauPrior) {
+  if (!prior || !isTauPriorType(prior.type)) {
+    throw new StatsInputError(`Unsupported tau prior: ${prior?.type}`);
+  }
+  if (!(prior.scale > 0)) {
+    throw new StatsInputError('The tau prior scale must be positive');
+  }
+  if ((prior.type === 'turner' || prior.type === 'rhodes') && !Number.isFinite(prior.location)) {
+    throw new StatsInputError('The tau prior location must be a number');
+  }
+}
+
+/**
+ * Posterior of the normal-normal model on a grid over tau. For each tau the mean effect
+ * has a conjugate normal posterior; the marginal likelihood of tau integrates mu out.
+ */
+function posteriorGrid(yi: number[], vi: number[], muPrior: { mean: number; sd: number }, tauPrior: TauPrior): GridPoint[] {
+  const priorPrecision = 1 / (muPrior.sd * muPrior.sd);
+
+  // tau = c t / (1 - t) maps the unit interval onto [0, inf); c is a typical within-study
+  // SE so the grid is densest where the data are informative
+  const c = Math.sqrt(vi.reduce((sum, v) => sum + v, 0) / vi.length);
+
+  const points = Array.from({ length: GRID_POINTS }, (_, i) => {
+    const t = (i + 0.5) / GRID_POINTS;
+    const tau = (c * t) / (1 - t);
+    const jacobian = c / ((1 - t) * (1 - t));
+
+    const weights = vi.map(v => 1 / (v + tau * tau));
+    const precision = priorPrecision + weights.reduce((sum, w) => sum + w, 0);
+    const weightedSum = muPrior.mean * priorPrecision + weights.reduce((sum, w, j) => sum + w * yi[j], 0);
+    const mean = weightedSum / precision;
+
+    const logMarginal = 0.5 * (
+      weights.reduce((sum, w) => sum + Math.log(w), 0) + Math.log(priorPrecision) - Math.log(precision) -
+      weights.reduce((sum, w, j) => sum + w * yi[j] * yi[j], 0) - priorPrecision * muPrior.mean * muPrior.mean +
+      (weightedSum * weightedSum) / precision
+    );
+
+    return {
+      tau,
+      logWeight: logMarginal + logTauPriorDensity(tauPrior, tau) + Math.log(jacobian),
+      mean,
+      variance: 1 / precision,
+    };
+  });
+
+  const logNormalizer = logSumExp(points.map(point => point.logWeight));
+  return points.map(({ tau, logWeight, mean, variance }) => ({
+    tau,
+    weight: Math.exp(logWeight - logNormalizer),
+    mean,
+    variance,
+  }));
+}
+
+/**
+ * Quantile of a normal mixture by bisection on its CDF
+ */
+function mixtureQuantile(grid: GridPoint[], extraVariance: (point: GridPoint) => number, p: number): number {
+  const sds = grid.map(point => Math.sqrt(point.variance + extraVariance(point)));
+  const cdf = (x: number) => grid.reduce((sum, point, j) => sum + point.weight * normalCdf((x - point.mean) / sds[j]), 0);
+
+  let low = Math.min(...grid.map((point, j) => point.mean - 10 * sds[j]));
+  let high = Math.max(...grid.map((point, j) => point.mean + 10 * sds[j]));
+  for (let iteration = 0; iteration < 60; iteration++) {
+    const mid = (low + high) / 2;
+    if (cdf(mid) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+function mixtureProbabilityAbove(grid: GridPoint[], extraVariance: (point: GridPoint) => number, x: number): number {
+  return grid.reduce((sum, point) =>
+    sum + point.weight * (1 - normalCdf((x - point.mean) / Math.sqrt(point.variance + extraVariance(point)))), 0);
+}
+
+/**
+ * Map a threshold on the reporting scale to the analysis scale. Only the Freeman-Tukey
+ * transform has no closed-form inverse; it is inverted by bisection over its range.
+ */
+function toAnalysisScale(effectMeasure: string, transform: (x: number) => number, value: number): number {
+  const measure = effectMeasure.toUpperCase();
+  if (isRatioMeasure(measure)) return Math.log(value);
+  if (!isProportionMeasure(measure)) return value;
+  switch (measure) {
+    case 'PR':
+      return value;
+    case 'PLO':
+      return logit(value);
+    case 'PAS':
+      return Math.asin(Math.sqrt(value));
+    case 'PFT': {
+      // The double arcsine of a proportion lies between 0 and pi/2 for any sample size
+      let low = 0;
+      let high = Math.PI / 2;
+      for (let iteration = 0; iteration < 100; iteration++) {
+        const mid = (low + high) / 2;
+        if (transform(mid) < value) low = mid;
+        else high = mid;
+      }
+      return (low + high) / 2;
+    }
+  }
+}
+
+/**
+ * Bayesian random-effects meta-analysis: y_i ~ N(mu, v_i + tau²) with a normal prior on
+ * mu and the chosen prior on tau. The posterior is computed by numerical integration
+ * over tau, as in the bayesmeta R package.
+ */
+export function runBayesianMetaAnalysis(studies: Study[], parameters: BayesianParameters): BayesianResults {
+  const muPrior = parameters.muPrior ?? DEFAULT_MU_PRIOR;
+  if (!Number.isFinite(muPrior.mean) || !(muPrior.sd > 0)) {
+    throw new StatsInputError('The prior for mu needs a mean and a positive SD');
+  }
+  validateTauPrior(parameters.tauPrior);
+  const credibleLevel = parameters.credibleLevel ?? 0.95;
+  if (!(credibleLevel > 0 && credibleLevel < 1)) {
+    throw new StatsInputError('The credible level must lie between 0 and 1');
+  }
+  const benefit = parameters.benefit ?? 'above';
+  if (!isBenefitDirection(benefit)) {
+    throw new StatsInputError(`Unsupported benefit direction: ${benefit}`);
+  }
+
+  const { yi, vi } = getEffectData(studies, parameters.effectMeasure);
+  const k = yi.length;
+  if (k === 0) {
+    throw new StatsInputError('At least one study is required for pooling');
+  }
+
+  const warnings: string[] = [];
+  if (k < FEW_STUDIES) {
+    warnings.push(`With ${k} ${k === 1 ? 'study' : 'studies'} the posterior for tau largely reflects its prior`);
+  }
+
+  const transform = reportingTransform(parameters.effectMeasure, studies);
+  const grid = posteriorGrid(yi, vi, muPrior, parameters.tauPrior)
+    .filter(point => point.weight > NEGLIGIBLE_WEIGHT);
+  const tail = (1 - credibleLevel) / 2;
+
+  // Mean effect: a mixture over tau of the conditional normal posteriors
+  const none = () => 0;
+  const muMean = grid.reduce((sum, point) => sum + point.weight * point.mean, 0);
+  const muVariance = grid.reduce((sum, point) => sum + point.weight * (point.variance + (point.mean - muMean) ** 2), 0);
+  const mu: PosteriorSummary = {
+    mean: muMean,
+    sd: Math.sqrt(muVariance),
+    median: transform(mixtureQuantile(grid, none, 0.5)),
+    lower: transform(mixtureQuantile(grid, none, tail)),
+    upper: transform(mixtureQuantile(grid, none, 1 - tail)),
+  };
+
+  // tau: quantiles from the cumulative grid weights
+  const tauQuantile = (p: number) => {
+    let cumulative = 0;
+    for (const point of grid) {
+      cumulative += point.weight;
+      if (cumulative >= p) return point.tau;
+    }
+    return grid[grid.length - 1].tau;
+  };
+  const tauMean = grid.reduce((sum, point) => sum + point.weight * point.tau, 0);
+  const tau: PosteriorSummary = {
+    mean: tauMean,
+    sd: Math.sqrt(grid.reduce((sum, point) => sum + point.weight * (point.tau - tauMean) ** 2, 0)),
+    median: tauQuantile(0.5),
+    lower: tauQuantile(tail),
+    upper: tauQuantile(1 - tail),
+  };
+
+  // Effect in a new study: the mixture widened by tau²
+  const between = (point: GridPoint) => point.tau * point.tau;
+  const predictive = {
+    median: transform(mixtureQuantile(grid, between, 0.5)),
+    lower: transform(mixtureQuantile(grid, between, tail)),
+    upper: transform(mixtureQuantile(grid, between, 1 - tail)),
+  };
+
+  const threshold = parameters.threshold ?? (isRatioMeasure(parameters.effectMeasure) ? 1 : 0);
+  if (isRatioMeasure(parameters.effectMeasure) && !(threshold > 0)) {
+    throw new StatsInputError('The threshold for a ratio measure must be positive');
+  }
+  if (isProportionMeasure(parameters.effectMeasure) && !(threshold >= 0 && threshold <= 1)) {
+    throw new StatsInputError('The threshold for a proportion must lie between 0 and 1');
+  }
+  const cut = toAnalysisScale(parameters.effectMeasure, transform, threshold);
+  const above = {
+    mu: mixtureProbabilityAbove(grid, none, cut),
+    predictive: mixtureProbabilityAbove(grid, between, cut),
+  };
+
+  return {
+    k,
+    effectMeasure: parameters.effectMeasure,
+    credibleLevel,
+    muPrior,
+    tauPrior: parameters.tauPrior,
+    mu,
+    tau,
+    predictive,
+    probability: {
+      threshold,
+      benefit,
+      mu: benefit === 'above' ? above.mu : 1 - above.mu,
+      predictive: benefit === 'above' ? above.predictive : 1 - above.predictive,
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,117 @@
+import { Study } from '@/types/meta-analysis';
+import type { CumulativeOrder, CumulativeParameters, CumulativeResults, CumulativeStep } from '@/lib/services/meta-analysis';
+import { StatsInputError } from './errors';
+import {
+  getEffectData,
+  independentModelType,
+  isCiMethod,
+  isTauSquaredMethod,
+  poolEffects,
+  reportingTransform,
+  TauSquaredMethod,
+} from './meta-analysis';
+
+export const CUMULATIVE_ORDERS: CumulativeOrder[] = ['year', 'precision', 'effect_size', 'moderator'];
+
+export function isCumulativeOrder(order: string): order is CumulativeOrder {
+  return (CUMULATIVE_ORDERS as string[]).includes(order);
+}
+
+function orderValue(study: Study, yi: number, parameters: CumulativeParameters): number | string | null {
+  const value = (() => {
+    switch (parameters.orderBy) {
+      case 'year':
+        return study.year;
+      case 'precision':
+        return 1 / study.se;
+      case 'effect_size':
+        return yi;
+      case 'moderator':
+        return study[parameters.moderator as string];
+    }
+  })();
+
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : String(value);
+}
+
+function compareValues(a: number | string, b: number | string): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+/**
+ * Cumulative meta-analysis: studies are added one at a time in the requested order and
+ * the model is refitted after each addition. `onStep` is called with every step.
+ */
+export function runCumulativeAnalysis(
+  studies: Study[],
+  parameters: CumulativeParameters,
+  onStep?: (step: CumulativeStep, index: number) => void
+): CumulativeResults {
+  const modelType = independentModelType(parameters.modelType, 'Cumulative meta-analysis');
+  const method = parameters.method ?? 'REML';
+  if (modelType === 'RE' && !isTauSquaredMethod(method)) {
+    throw new StatsInputError(`Unsupported tau² estimator: ${method}`);
+  }
+  if (parameters.ciMethod && !isCiMethod(parameters.ciMethod)) {
+    throw new StatsInputError(`Unsupported confidence interval method: ${parameters.ciMethod}`);
+  }
+  if (!isCumulativeOrder(parameters.orderBy)) {
+    throw new StatsInputError(`Unsupported ordering: ${parameters.orderBy}`);
+  }
+  if (parameters.orderBy === 'moderator' && !parameters.moderator) {
+    throw new StatsInputError('Select a moderator to order by');
+  }
+
+  const { yi, vi } = getEffectData(studies, parameters.effectMeasure);
+  const values = studies.map((study, i) => orderValue(study, yi[i], parameters));
+
+  // Precision ordering puts the most precise study first; ties keep the dataset order
+  const direction = (parameters.orderBy === 'precision' ? -1 : 1) * (parameters.descending ? -1 : 1);
+  const known = studies.map((_, i) => i).filter(i => values[i] !== null);
+  const missing = studies.map((_, i) => i).filter(i => values[i] === null);
+  known.sort((a, b) => direction * compareValues(values[a]!, values[b]!) || a - b);
+
+  const warnings: string[] = [];
+  if (missing.length > 0) {
+    const column = parameters.orderBy === 'moderator' ? parameters.moderator : parameters.orderBy;
+    warnings.push(`${missing.length} ${missing.length === 1 ? 'study has' : 'studies have'} no ${column} and ${missing.length === 1 ? 'was' : 'were'} added last`);
+  }
+
+  const order = [...known, ...missing];
+  const transform = reportingTransform(parameters.effectMeasure, studies);
+
+  const steps = order.map((index, position) => {
+    const included = order.slice(0, position + 1);
+    const pooled = poolEffects(included.map(i => yi[i]), included.map(i => vi[i]), {
+      modelType,
+      method: method as TauSquaredMethod,
+      ciMethod: parameters.ciMethod,
+    });
+
+    const step: CumulativeStep = {
+      studyId: studies[index].study_id,
+      studyLabel: studies[index].study_label,
+      orderValue: values[index],
+      k: pooled.k,
+      estimate: transform(pooled.estimate),
+      ciLower: transform(pooled.ciLower),
+      ciUpper: transform(pooled.ciUpper),
+      pValue: pooled.pValue,
+      iSquared: pooled.iSquared,
+      tauSquared: pooled.tauSquared,
+    };
+    onStep?.(step, position);
+    return step;
+  });
+
+  return {
+    orderBy: parameters.orderBy,
+    ...(parameters.orderBy === 'moderator' ? { moderator: parameters.moderator } : {}),
+    steps,
+    warnings,
+  };
+}
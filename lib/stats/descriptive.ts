@@ -0,0 +1,326 @@
+import type { IngestionError, ParsedTable } from '@/lib/ingestion';
+import type {
+  DescriptiveParameters,
+  DescriptiveResults,
+  FrequencyRow,
+  GroupSummary,
+  NumericSummary,
+  TableOne,
+  TableOneRow,
+  VariableSummary,
+  VariableType,
+} from '@/lib/services/descriptive';
+import { StatsInputError } from './errors';
+
+export const VARIABLE_TYPES: VariableType[] = ['continuous', 'categorical', 'binary', 'text'];
+
+const DEFAULT_MAX_CATEGORICAL_LEVELS = 5;
+
+// Text columns with more distinct values than this, and than half their values, are
+// treated as identifiers or free text rather than categories
+const MAX_TEXT_LEVELS = 20;
+
+// Spreadsheet conventions for a missing value
+const MISSING_CODES = ['na', 'n/a', 'nan', 'null', '.', '-'];
+
+// How a column is read: its type and, for categorical columns, the levels in display order
+interface VariableSpec {
+  name: string;
+  type: VariableType;
+  inferredType: VariableType;
+  // Cleaned value of each row; null when missing
+  values: (string | number | null)[];
+  levels: string[];
+}
+
+function isMissing(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'number') return !Number.isFinite(value);
+  const text = String(value).trim();
+  return text === '' || MISSING_CODES.includes(text.toLowerCase());
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function compareLevels(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function inferType(present: unknown[], maxCategoricalLevels: number): VariableType {
+  const distinct = new Set(present.map(value => String(value).trim())).size;
+  if (present.length > 0 && present.every(value => toNumber(value) !== undefined)) {
+    if (distinct > maxCategoricalLevels) return 'continuous';
+    return distinct === 2 ? 'binary' : 'categorical';
+  }
+  if (distinct === 2) return 'binary';
+  return distinct > MAX_TEXT_LEVELS && distinct > present.length / 2 ? 'text' : 'categorical';
+}
+
+/**
+ * Label of each band between cut points: "< 18", "18 to < 40", ..., ">= 65"
+ */
+function bandLabels(cuts: number[]): string[] {
+  return [
+    `< ${cuts[0]}`,
+    ...cuts.slice(1).map((cut, i) => `${cuts[i]} to < ${cut}`),
+    `>= ${cuts[cuts.length - 1]}`,
+  ];
+}
+
+/**
+ * Decide the type and levels of a column, reporting values that do not fit a type the
+ * caller asked for
+ */
+function specifyVariable(
+  table: ParsedTable,
+  name: string,
+  parameters: DescriptiveParameters,
+  errors: IngestionError[],
+  warnings: string[]
+): VariableSpec {
+  const raw = table.rows.map(row => (isMissing(row[name]) ? null : row[name]));
+  const present = raw.filter(value => value !== null);
+  const inferredType = inferType(present, parameters.maxCategoricalLevels ?? DEFAULT_MAX_CATEGORICAL_LEVELS);
+  if (present.length === 0) {
+    warnings.push(`${name} has no values`);
+  }
+
+  const cuts = parameters.bands?.[name];
+  if (cuts && cuts.length > 0) {
+    const sorted = [...cuts].sort((a, b) => a - b);
+    const labels = bandLabels(sorted);
+    const values = raw.map((value, i) => {
+      if (value === null) return null;
+      const number = toNumber(value);
+      if (number === undefined) {
+        errors.push({ row: table.rowNumbers[i], column: name, message: 'Expected a number to band' });
+        return null;
+      }
+      return labels[sorted.filter(cut => number >= cut).length];
+    });
+    return { name, type: 'categorical', inferredType, values, levels: labels };
+  }
+
+  const type = parameters.types?.[name] ?? inferredType;
+  if (type === 'continuous') {
+    const values = raw.map((value, i) => {
+      if (value === null) return null;
+      const number = toNumber(value);
+      if (number === undefined) {
+        errors.push({ row: table.rowNumbers[i], column: name, message: 'Expected a number' });
+        return null;
+      }
+      return number;
+    });
+    return { name, type, inferredType, values, levels: [] };
+  }
+
+  const values: (string | null)[] = raw.map(value => (value === null ? null : String(value).trim()));
+  const levels = Array.from(new Set(values.filter((value): value is string => value !== null))).sort(compareLevels);
+  if (type === 'binary' && levels.length > 2) {
+    warnings.push(`${name} has ${levels.length} levels and is summarized as categorical`);
+    return { name, type: 'categorical', inferredType, values, levels };
+  }
+  return { name, type, inferredType, values, levels };
+}
+
+/**
+ * Sample quantile by linear interpolation between order statistics (type 7)
+ */
+function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (position - below) * (sorted[above] - sorted[below]);
+}
+
+function numericSummary(values: number[]): NumericSummary | null {
+  const n = values.length;
+  if (n === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  const sd = n > 1
+    ? Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1))
+    : null;
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  return {
+    mean,
+    sd,
+    se: sd === null ? null : sd / Math.sqrt(n),
+    min: sorted[0],
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    max: sorted[n - 1],
+    iqr: q3 - q1,
+  };
+}
+
+function frequencies(values: string[], levels: string[]): FrequencyRow[] {
+  let cumulative = 0;
+  return levels.map(level => {
+    const count = values.filter(value => value === level).length;
+    const percent = values.length > 0 ? (100 * count) / values.length : 0;
+    cumulative += percent;
+    return { level, count, percent, cumulativePercent: cumulative };
+  });
+}
+
+/**
+ * Summarize a variable over the rows selected by index
+ */
+function summarize(spec: VariableSpec, rows: number[]): VariableSummary {
+  const values = rows.map(i => spec.values[i]);
+  const present = values.filter((value): value is string | number => value !== null);
+  const missing = values.length - present.length;
+
+  return {
+    name: spec.name,
+    type: spec.type,
+    inferredType: spec.inferredType,
+    n: present.length,
+    missing,
+    missingPercent: values.length > 0 ? (100 * missing) / values.length : 0,
+    distinct: new Set(present).size,
+    numeric: spec.type === 'continuous' ? numericSummary(present as number[]) : null,
+    frequencies: spec.type === 'categorical' || spec.type === 'binary'
+      ? frequencies(present as string[], spec.levels)
+      : null,
+  };
+}
+
+/**
+ * Table 1 layout: mean (SD) and median [Q1, Q3] for continuous variables, n (%) for each
+ * level of a categorical variable and for the second level of a binary one
+ */
+function buildTableOne(
+  columns: TableOne['columns'],
+  summaries: VariableSummary[][],
+  specs: VariableSpec[],
+  digits: number
+): TableOne {
+  const fixed = (value: number | null) => (value === null ? '-' : value.toFixed(digits));
+  const nPercent = (count: number, total: number) =>
+    `${count} (${total > 0 ? ((100 * count) / total).toFixed(digits) : fixed(null)}%)`;
+  const rows: TableOneRow[] = [];
+
+  specs.forEach((spec, v) => {
+    if (spec.type === 'text') return;
+    const cellsOf = (cell: (summary: VariableSummary) => string) => summaries.map(column => cell(column[v]));
+
+    if (spec.type === 'continuous') {
+      rows.push({ variable: spec.name, label: spec.name, kind: 'variable', cells: columns.map(() => '') });
+      rows.push({
+        variable: spec.name,
+        label: 'Mean (SD)',
+        kind: 'mean_sd',
+        cells: cellsOf(({ numeric }) => (numeric ? `${fixed(numeric.mean)} (${fixed(numeric.sd)})` : '-')),
+      });
+      rows.push({
+        variable: spec.name,
+        label: 'Median [Q1, Q3]',
+        kind: 'median_iqr',
+        cells: cellsOf(({ numeric }) =>
+          (numeric ? `${fixed(numeric.median)} [${fixed(numeric.q1)}, ${fixed(numeric.q3)}]` : '-')),
+      });
+    } else if (spec.type === 'binary' && spec.levels.length === 2) {
+      const level = spec.levels[1];
+      rows.push({
+        variable: spec.name,
+        label: `${spec.name}: ${level}`,
+        kind: 'variable',
+        cells: cellsOf(summary => nPercent(summary.frequencies?.[1]?.count ?? 0, summary.n)),
+      });
+    } else {
+      rows.push({ variable: spec.name, label: spec.name, kind: 'variable', cells: columns.map(() => '') });
+      spec.levels.forEach((level, l) => {
+        rows.push({
+          variable: spec.name,
+          label: level,
+          kind: 'level',
+          cells: cellsOf(summary => nPercent(summary.frequencies?.[l]?.count ?? 0, summary.n)),
+        });
+      });
+    }
+
+    if (summaries[0][v].missing > 0) {
+      rows.push({
+        variable: spec.name,
+        label: 'Missing',
+        kind: 'missing',
+        cells: cellsOf(summary => nPercent(summary.missing, summary.n + summary.missing)),
+      });
+    }
+  });
+
+  return { columns, rows };
+}
+
+/**
+ * Describe the columns of a dataset: inferred types, missingness, numeric summaries and
+ * frequency tables, overall and by group, with a Table 1 layout of the same numbers
+ */
+export function runDescriptiveAnalysis(table: ParsedTable, parameters: DescriptiveParameters = {}): DescriptiveResults {
+  const { groupBy } = parameters;
+  const variables = parameters.variables ?? table.headers.filter(header => header !== groupBy);
+  const unknown = [...variables, ...(groupBy ? [groupBy] : []), ...Object.keys(parameters.bands ?? {})]
+    .filter(column => !table.headers.includes(column));
+  if (unknown.length > 0) {
+    throw new StatsInputError(`Unknown column${unknown.length === 1 ? '' : 's'}: ${Array.from(new Set(unknown)).join(', ')}`);
+  }
+  if (variables.length === 0) {
+    throw new StatsInputError('There are no variables to describe');
+  }
+  if (table.rows.length === 0) {
+    throw new StatsInputError('The dataset does not contain any rows');
+  }
+
+  const errors: IngestionError[] = [];
+  const warnings: string[] = [];
+  const specs = variables.map(name => specifyVariable(table, name, parameters, errors, warnings));
+  const allRows = table.rows.map((_, i) => i);
+  const overall = specs.map(spec => summarize(spec, allRows));
+
+  let groups: GroupSummary[] | null = null;
+  if (groupBy) {
+    const groupValues = table.rows.map(row => (isMissing(row[groupBy]) ? null : String(row[groupBy]).trim()));
+    const levels = Array.from(new Set(groupValues.filter((value): value is string => value !== null))).sort(compareLevels);
+    const ungrouped = groupValues.filter(value => value === null).length;
+    if (ungrouped > 0) {
+      warnings.push(`${ungrouped} ${ungrouped === 1 ? 'row has' : 'rows have'} no ${groupBy} and ${ungrouped === 1 ? 'is' : 'are'} only counted overall`);
+    }
+    groups = levels.map(group => {
+      const rows = allRows.filter(i => groupValues[i] === group);
+      return { group, n: rows.length, variables: specs.map(spec => summarize(spec, rows)) };
+    });
+  }
+
+  const columns = [
+    { key: 'overall', label: 'Overall', n: table.rows.length },
+    ...(groups ?? []).map(group => ({ key: group.group, label: `${groupBy}: ${group.group}`, n: group.n })),
+  ];
+  const tableOne = buildTableOne(
+    columns,
+    [overall, ...(groups ?? []).map(group => group.variables)],
+    specs,
+    parameters.digits ?? 1
+  );
+
+  return {
+    n: table.rows.length,
+    groupBy: groupBy ?? null,
+    variables: overall,
+    groups,
+    tableOne,
+    rowErrors: errors,
+    warnings,
+  };
+}
@@ -0,0 +1,332 @@
+import type {
+  DiagnosticEstimate,
+  DiagnosticParameters,
+  DiagnosticResults,
+  DiagnosticStudy,
+  RocPoint,
+} from '@/lib/services/meta-analysis';
+import { normalQuantile } from './distributions';
+import { StatsInputError } from './errors';
+import { estimateTauSquared } from './meta-analysis';
+import { cholesky, invert, Matrix, multiply } from './matrix';
+import { nelderMead } from './optimize';
+import { expit, logit } from './proportions';
+
+// Five parameters (two means, two variances, a correlation) need a few more studies than
+// a univariate model
+const MIN_STUDIES = 4;
+
+const CONTINUITY_CORRECTION = 0.5;
+
+// Points traced around each confidence and prediction region
+const REGION_POINTS = 100;
+
+// Points on the summary ROC curve across the observed false positive rates
+const SROC_POINTS = 101;
+
+// Between-study variances below this leave the HSROC slope undetermined
+const MIN_TAU_SQUARED = 1e-8;
+
+const CONFIDENCE_LEVEL = 0.95;
+
+// One study on the logit scale: y = (logit sensitivity, logit specificity)
+interface LogitStudy {
+  y: [number, number];
+  variances: [number, number];
+}
+
+interface BivariateFit {
+  mu: number[];
+  // Covariance of the summary logits
+  covariance: Matrix;
+  sigma: Matrix;
+  logLikelihood: number;
+  converged: boolean;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Wilson score interval for a proportion
+ */
+function wilson(successes: number, n: number, z: number): DiagnosticEstimate {
+  const p = successes / n;
+  const denominator = 1 + (z * z) / n;
+  const center = (p + (z * z) / (2 * n)) / denominator;
+  const halfWidth = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denominator;
+  return { estimate: p, ciLower: Math.max(0, center - halfWidth), ciUpper: Math.min(1, center + halfWidth) };
+}
+
+function symmetric2x2(a: number, b: number, c: number): Matrix {
+  return [[a, c], [c, b]];
+}
+
+function logDeterminant2x2(m: Matrix): number {
+  return Math.log(m[0][0] * m[1][1] - m[0][1] * m[1][0]);
+}
+
+/**
+ * Between-study covariance from unconstrained parameters: log SDs and the Fisher z of
+ * the correlation
+ */
+function sigmaFromParameters([logTau1, logTau2, zRho]: number[]): Matrix {
+  const tau1 = Math.exp(logTau1);
+  const tau2 = Math.exp(logTau2);
+  return symmetric2x2(tau1 * tau1, tau2 * tau2, Math.tanh(zRho) * tau1 * tau2);
+}
+
+/**
+ * Generalized least squares summary for a fixed between-study covariance, with the REML
+ * log-likelihood
+ */
+function fitGivenSigma(studies: LogitStudy[], sigma: Matrix): Omit<BivariateFit, 'converged'> {
+  const inverses = studies.map(study =>
+    invert([[study.variances[0] + sigma[0][0], sigma[0][1]], [sigma[1][0], study.variances[1] + sigma[1][1]]])
+  );
+
+  const information: Matrix = [[0, 0], [0, 0]];
+  const score = [0, 0];
+  inverses.forEach((w, i) => {
+    for (let r = 0; r < 2; r++) {
+      for (let c = 0; c < 2; c++) {
+        information[r][c] += w[r][c];
+        score[r] += w[r][c] * studies[i].y[c];
+      }
+    }
+  });
+  const covariance = invert(information);
+  const mu = multiply(covariance, score.map(value => [value])).map(row => row[0]);
+
+  let quadratic = 0;
+  let logDeterminant = 0;
+  inverses.forEach((w, i) => {
+    const r = [studies[i].y[0] - mu[0], studies[i].y[1] - mu[1]];
+    quadratic += r[0] * (w[0][0] * r[0] + w[0][1] * r[1]) + r[1] * (w[1][0] * r[0] + w[1][1] * r[1]);
+    logDeterminant -= logDeterminant2x2(w);
+  });
+
+  const n = 2 * studies.length;
+  const logLikelihood = -0.5 * (
+    (n - 2) * Math.log(2 * Math.PI) + logDeterminant + logDeterminant2x2(information) + quadratic
+  );
+
+  return { mu, covariance, sigma, logLikelihood };
+}
+
+/**
+ * Restricted maximum likelihood fit of the bivariate normal model
+ */
+function fitBivariate(studies: LogitStudy[]): BivariateFit {
+  // Start from the univariate DerSimonian-Laird variances and no correlation
+  const start = [0, 1].map(j => {
+    const tauSquared = estimateTauSquared(
+      studies.map(study => study.y[j]),
+      studies.map(study => study.variances[j]),
+      'DL'
+    );
+    return 0.5 * Math.log(Math.max(tauSquared, 0.01));
+  });
+
+  const result = nelderMead(
+    x => -fitGivenSigma(studies, sigmaFromParameters(x)).logLikelihood,
+    [...start, 0],
+    { step: 0.5 }
+  );
+
+  return { ...fitGivenSigma(studies, sigmaFromParameters(result.x)), converged: result.converged };
+}
+
+/**
+ * Ellipse of constant Mahalanobis distance around the summary logits, mapped into ROC
+ * space
+ */
+function region(mu: number[], covariance: Matrix, radius: number): RocPoint[] {
+  // cholesky returns the upper factor U with covariance = U'U
+  const u = cholesky(covariance);
+  return Array.from({ length: REGION_POINTS + 1 }, (_, i) => {
+    const angle = (2 * Math.PI * i) / REGION_POINTS;
+    const a = radius * Math.cos(angle);
+    const b = radius * Math.sin(angle);
+    const logitSensitivity = mu[0] + u[0][0] * a;
+    const logitSpecificity = mu[1] + u[0][1] * a + u[1][1] * b;
+    return { fpr: expit(-logitSpecificity), sensitivity: expit(logitSensitivity) };
+  });
+}
+
+/**
+ * Summary estimate on the probability scale from a logit and its variance
+ */
+function backTransform(estimate: number, variance: number, z: number): DiagnosticEstimate {
+  const se = Math.sqrt(variance);
+  return { estimate: expit(estimate), ciLower: expit(estimate - z * se), ciUpper: expit(estimate + z * se) };
+}
+
+/**
+ * Ratio estimate from a log value and its variance
+ */
+function exponentiate(estimate: number, variance: number, z: number): DiagnosticEstimate {
+  const se = Math.sqrt(variance);
+  return { estimate: Math.exp(estimate), ciLower: Math.exp(estimate - z * se), ciUpper: Math.exp(estimate + z * se) };
+}
+
+/**
+ * Delta-method variance of g'mu for gradient g
+ */
+function quadraticForm(gradient: number[], covariance: Matrix): number {
+  return gradient.reduce((sum, gi, i) => sum + gradient.reduce((inner, gj, j) => inner + gi * covariance[i][j] * gj, 0), 0);
+}
+
+/**
+ * Diagnostic test accuracy meta-analysis of 2x2 tables (TP, FP, FN, TN). Logit
+ * sensitivity and logit specificity follow a bivariate normal random-effects model
+ * (Reitsma et al., 2005) fitted by REML; the summary ROC curve is its equivalent
+ * hierarchical SROC (Harbord et al., 2007).
+ */
+export function runDiagnosticMetaAnalysis(
+  rows: Record<string, any>[],
+  parameters: DiagnosticParameters = {}
+): DiagnosticResults {
+  const continuityCorrection = parameters.continuityCorrection ?? CONTINUITY_CORRECTION;
+  if (!(continuityCorrection > 0)) {
+    throw new StatsInputError(`Unsupported continuity correction: ${continuityCorrection}`);
+  }
+
+  const warnings: string[] = [];
+  const z = normalQuantile(1 - (1 - CONFIDENCE_LEVEL) / 2);
+  const studies: DiagnosticStudy[] = [];
+  const logitStudies: LogitStudy[] = [];
+  let corrected = 0;
+
+  rows.forEach((row, i) => {
+    const label = row.study_label ?? row.study_id ?? `Row ${i + 1}`;
+    const [tp, fp, fn, tn] = ['tp', 'fp', 'fn', 'tn'].map(field => toNumber(row[field]));
+    if (tp === undefined || fp === undefined || fn === undefined || tn === undefined) {
+      throw new StatsInputError(`${label}: TP, FP, FN and TN are all required`);
+    }
+    if ([tp, fp, fn, tn].some(count => count < 0)) {
+      throw new StatsInputError(`${label}: cell counts cannot be negative`);
+    }
+    if (tp + fn === 0 || fp + tn === 0) {
+      throw new StatsInputError(`${label}: needs at least one diseased and one non-diseased participant`);
+    }
+
+    studies.push({
+      studyId: String(row.study_id ?? label),
+      studyLabel: String(label),
+      tp,
+      fp,
+      fn,
+      tn,
+      sensitivity: wilson(tp, tp + fn, z),
+      specificity: wilson(tn, fp + tn, z),
+    });
+
+    const correction = [tp, fp, fn, tn].some(count => count === 0) ? continuityCorrection : 0;
+    if (correction > 0) corrected++;
+    const [a, b, c, d] = [tp, fp, fn, tn].map(count => count + correction);
+    logitStudies.push({
+      y: [Math.log(a / c), Math.log(d / b)],
+      variances: [1 / a + 1 / c, 1 / d + 1 / b],
+    });
+  });
+
+  if (studies.length < MIN_STUDIES) {
+    throw new StatsInputError(`The bivariate model needs at least ${MIN_STUDIES} studies`);
+  }
+  if (corrected > 0) {
+    warnings.push(`${corrected} ${corrected === 1 ? 'study has' : 'studies have'} a zero cell and ${corrected === 1 ? 'was' : 'were'} corrected by adding ${continuityCorrection} to every cell`);
+  }
+
+  const fit = fitBivariate(logitStudies);
+  if (!fit.converged) {
+    warnings.push('The REML optimizer did not converge; estimates may be unreliable');
+  }
+
+  const { mu, covariance, sigma } = fit;
+  const tauSquaredSensitivity = sigma[0][0];
+  const tauSquaredSpecificity = sigma[1][1];
+  const correlation = tauSquaredSensitivity > 0 && tauSquaredSpecificity > 0
+    ? sigma[0][1] / Math.sqrt(tauSquaredSensitivity * tauSquaredSpecificity)
+    : 0;
+  if (Math.abs(correlation) > 0.99) {
+    warnings.push('The between-study correlation is at its boundary; the model may be overparameterized');
+  }
+
+  // Summary measures by the delta method on the logit scale
+  const sensitivity = expit(mu[0]);
+  const specificity = expit(mu[1]);
+  const logPositiveLikelihoodRatio = Math.log(sensitivity) - Math.log(1 - specificity);
+  const logNegativeLikelihoodRatio = Math.log(1 - sensitivity) - Math.log(specificity);
+
+  // Regions hold 95% of a bivariate normal: the radius is the root of the chi-square(2)
+  // quantile
+  const radius = Math.sqrt(-2 * Math.log(1 - CONFIDENCE_LEVEL));
+  const confidenceRegion = region(mu, covariance, radius);
+  const predictionRegion = region(
+    mu,
+    covariance.map((row, r) => row.map((value, c) => value + sigma[r][c])),
+    radius
+  );
+
+  // HSROC: logit(sens) = Λ exp(-β/2) + exp(-β) logit(fpr), with β = ln(σB/σA) and
+  // Λ = sqrt(σB/σA) μA + sqrt(σA/σB) μB for A = sensitivity and B = specificity
+  let ratio = 1;
+  if (tauSquaredSensitivity < MIN_TAU_SQUARED || tauSquaredSpecificity < MIN_TAU_SQUARED) {
+    warnings.push('A between-study variance is zero; the SROC curve assumes a symmetric shape');
+  } else {
+    ratio = Math.sqrt(tauSquaredSpecificity / tauSquaredSensitivity);
+  }
+  const lambda = Math.sqrt(ratio) * mu[0] + mu[1] / Math.sqrt(ratio);
+  const curve = (fpr: number) => expit(lambda / Math.sqrt(ratio) + logit(fpr) / ratio);
+
+  const observedFpr = studies.map(study => 1 - study.specificity.estimate).filter(fpr => fpr > 0 && fpr < 1);
+  const minFpr = observedFpr.length > 0 ? Math.min(...observedFpr) : 1 - specificity;
+  const maxFpr = observedFpr.length > 0 ? Math.max(...observedFpr) : 1 - specificity;
+  const points = Array.from({ length: SROC_POINTS }, (_, i) => {
+    const fpr = minFpr + ((maxFpr - minFpr) * i) / (SROC_POINTS - 1);
+    return { fpr, sensitivity: curve(fpr) };
+  });
+
+  // Area under the whole curve by the trapezoidal rule
+  const grid = 1000;
+  let auc = 0;
+  for (let i = 0; i < grid; i++) {
+    const left = i === 0 ? 0 : curve(i / grid);
+    const right = i + 1 === grid ? 1 : curve((i + 1) / grid);
+    auc += (left + right) / (2 * grid);
+  }
+
+  return {
+    k: studies.length,
+    studies,
+    summary: {
+      sensitivity: backTransform(mu[0], covariance[0][0], z),
+      specificity: backTransform(mu[1], covariance[1][1], z),
+      diagnosticOddsRatio: exponentiate(mu[0] + mu[1], quadraticForm([1, 1], covariance), z),
+      positiveLikelihoodRatio: exponentiate(
+        logPositiveLikelihoodRatio,
+        quadraticForm([1 - sensitivity, specificity], covariance),
+        z
+      ),
+      negativeLikelihoodRatio: exponentiate(
+        logNegativeLikelihoodRatio,
+        quadraticForm([-sensitivity, -(1 - specificity)], covariance),
+        z
+      ),
+    },
+    heterogeneity: {
+      tauSquaredSensitivity,
+      tauSquaredSpecificity,
+      correlation,
+    },
+    logLikelihood: fit.logLikelihood,
+    confidenceRegion,
+    predictionRegion,
+    sroc: { points, auc },
+    warnings,
+  };
+}
@@ -0,0 +1,316 @@
+// Probability distributions used by the in-process statistics engines.
+// Everything here is pure TypeScript so it can run on the server and in the browser.
+
+const LANCZOS_COEFFICIENTS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+const MAX_ITERATIONS = 500;
+const EPSILON = 1e-14;
+const TINY = 1e-300;
+
+/**
+ * Natural logarithm of the gamma function (Lanczos approximation)
+ */
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  const z = x - 1;
+  let sum = 0.99999999999980993;
+  for (let i = 0; i < LANCZOS_COEFFICIENTS.length; i++) {
+    sum += LANCZOS_COEFFICIENTS[i] / (z + i + 1);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Regularized lower incomplete gamma function P(a, x)
+ */
+export function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x === Infinity) return 1;
+  if (x < a + 1) return gammaSeries(a, x);
+  return 1 - gammaContinuedFraction(a, x);
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x) = 1 - P(a, x)
+ */
+export function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  if (x === Infinity) return 0;
+  if (x < a + 1) return 1 - gammaSeries(a, x);
+  return gammaContinuedFraction(a, x);
+}
+
+function gammaSeries(a: number, x: number): number {
+  let term = 1 / a;
+  let sum = term;
+  let ap = a;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    ap += 1;
+    term *= x / ap;
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+}
+
+function gammaContinuedFraction(a: number, x: number): number {
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+export function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const logFront =
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x);
+
+  if (x < (a + 1) / (a + b + 2)) {
+    return Math.exp(logFront) * betaContinuedFraction(x, a, b) / a;
+  }
+  return 1 - Math.exp(logFront) * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - qab * x / qap;
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = -(a + m) * (qab + m) * x / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return h;
+}
+
+/**
+ * Standard normal density
+ */
+export function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal cumulative distribution function
+ */
+export function normalCdf(x: number): number {
+  if (x === Infinity) return 1;
+  if (x === -Infinity) return 0;
+  const tail = 0.5 * regularizedGammaQ(0.5, (x * x) / 2);
+  return x >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Standard normal quantile (Acklam's approximation refined with one Halley step)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  let x: number;
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  } else if (p <= 1 - pLow) {
+    const q = p - 0.5;
+    const r = q * q;
+    x = (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  } else {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    x = -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const e = normalCdf(x) - p;
+  const u = e * Math.sqrt(2 * Math.PI) * Math.exp((x * x) / 2);
+  return x - u / (1 + (x * u) / 2);
+}
+
+/**
+ * Two-sided p-value for a standard normal test statistic
+ */
+export function normalTwoSidedP(z: number): number {
+  return Math.min(1, 2 * normalCdf(-Math.abs(z)));
+}
+
+/**
+ * Student t cumulative distribution function
+ */
+export function tCdf(t: number, df: number): number {
+  if (df === Infinity) return normalCdf(t);
+  const tail = 0.5 * regularizedBeta(df / (df + t * t), df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Student t quantile, found by bisection on the CDF
+ */
+export function tQuantile(p: number, df: number): number {
+  if (df === Infinity) return normalQuantile(p);
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p === 0.5) return 0;
+
+  const upper = p > 0.5;
+  const target = upper ? p : 1 - p;
+  let lo = 0;
+  let hi = Math.max(1, normalQuantile(target));
+  while (tCdf(hi, df) < target) hi *= 2;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (tCdf(mid, df) < target) lo = mid;
+    else hi = mid;
+    if (hi - lo < 1e-12 * Math.max(1, hi)) break;
+  }
+  const x = (lo + hi) / 2;
+  return upper ? x : -x;
+}
+
+/**
+ * Two-sided p-value for a Student t test statistic
+ */
+export function tTwoSidedP(t: number, df: number): number {
+  if (df === Infinity) return normalTwoSidedP(t);
+  return Math.min(1, regularizedBeta(df / (df + t * t), df / 2, 0.5));
+}
+
+/**
+ * Chi-square cumulative distribution function
+ */
+export function chiSquareCdf(x: number, df: number): number {
+  return regularizedGammaP(df / 2, x / 2);
+}
+
+/**
+ * Chi-square upper tail probability P(X > x)
+ */
+export function chiSquareSurvival(x: number, df: number): number {
+  if (df <= 0) return 1;
+  return regularizedGammaQ(df / 2, x / 2);
+}
+
+/**
+ * F distribution cumulative distribution function
+ */
+export function fCdf(x: number, df1: number, df2: number): number {
+  if (x <= 0) return 0;
+  return regularizedBeta((df1 * x) / (df1 * x + df2), df1 / 2, df2 / 2);
+}
+
+/**
+ * F distribution upper tail probability P(X > x)
+ */
+export function fSurvival(x: number, df1: number, df2: number): number {
+  if (x <= 0) return 1;
+  return regularizedBeta(df2 / (df2 + df1 * x), df2 / 2, df1 / 2);
+}
+
+// Simpson grids for the studentized range integrals
+const RANGE_INNER_INTERVALS = 200;
+const RANGE_OUTER_INTERVALS = 300;
+
+function simpson(fn: (x: number) => number, lo: number, hi: number, intervals: number): number {
+  const h = (hi - lo) / intervals;
+  let sum = fn(lo) + fn(hi);
+  for (let i = 1; i < intervals; i++) {
+    sum += (i % 2 === 1 ? 4 : 2) * fn(lo + i * h);
+  }
+  return (sum * h) / 3;
+}
+
+/**
+ * Probability that the range of k standard normal variables is below w
+ */
+function normalRangeCdf(w: number, k: number): number {
+  if (w <= 0) return 0;
+  const integrand = (z: number) => normalPdf(z) * Math.pow(Math.max(0, normalCdf(z) - normalCdf(z - w)), k - 1);
+  return Math.min(1, k * simpson(integrand, -8, 8, RANGE_INNER_INTERVALS));
+}
+
+/**
+ * Studentized range cumulative distribution function for k means and df degrees of freedom,
+ * integrating the normal range over the distribution of the standard deviation estimate
+ */
+export function studentizedRangeCdf(q: number, k: number, df: number): number {
+  if (q <= 0) return 0;
+  if (df === Infinity || df > 5000) return normalRangeCdf(q, k);
+
+  // Density of s = sqrt(chi-square / df)
+  const logConstant = (df / 2) * Math.log(df) - logGamma(df / 2) - (df / 2 - 1) * Math.log(2);
+  const density = (s: number) =>
+    (s <= 0 ? 0 : Math.exp(logConstant + (df - 1) * Math.log(s) - (df * s * s) / 2));
+  const width = 10 / Math.sqrt(2 * df);
+  const integrand = (s: number) => density(s) * normalRangeCdf(q * s, k);
+  return Math.min(1, simpson(integrand, Math.max(0, 1 - width), 1 + width, RANGE_OUTER_INTERVALS));
+}
+
+/**
+ * Studentized range quantile, found by bisection on the CDF
+ */
+export function studentizedRangeQuantile(p: number, k: number, df: number): number {
+  let lo = 0;
+  let hi = 4;
+  while (studentizedRangeCdf(hi, k, df) < p) hi *= 2;
+  for (let i = 0; i < 50; i++) {
+    const mid = (lo + hi) / 2;
+    if (studentizedRangeCdf(mid, k, df) < p) lo = mid;
+    else hi = mid;
+    if (hi - lo < 1e-6) break;
+  }
+  return (lo + hi) / 2;
+}
@@ -0,0 +1,420 @@
+import { EffectSizeFormula, Study } from '@/types/meta-analysis';
+import { logGamma, normalQuantile } from './distributions';
+import { StatsInputError } from './errors';
+import { isRatioMeasure } from './meta-analysis';
+import { freemanTukey, isProportionMeasure, logit, ProportionMeasure, proportionTransform } from './proportions';
+
+export interface EffectSize {
+  // Effect on the analysis scale (log scale for ratio measures)
+  yi: number;
+  se: number;
+  formula: EffectSizeFormula;
+}
+
+export interface ContinuousArms {
+  meanTreatment: number;
+  sdTreatment: number;
+  nTreatment: number;
+  meanControl: number;
+  sdControl: number;
+  nControl: number;
+}
+
+export interface BinaryArms {
+  eventsTreatment: number;
+  nTreatment: number;
+  eventsControl: number;
+  nControl: number;
+}
+
+export interface StudyDerivationError {
+  row: number;
+  studyId?: string;
+  message: string;
+}
+
+// Continuity correction added to every cell of a 2x2 table that contains a zero
+const CONTINUITY_CORRECTION = 0.5;
+
+function assertPositive(value: number, name: string) {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new StatsInputError(`${name} must be a positive number`);
+  }
+}
+
+function assertArmSizes(nTreatment: number, nControl: number) {
+  assertPositive(nTreatment, 'Treatment sample size');
+  assertPositive(nControl, 'Control sample size');
+}
+
+/**
+ * Exact small-sample correction factor J for Hedges' g
+ */
+export function hedgesCorrection(df: number): number {
+  return Math.exp(logGamma(df / 2) - 0.5 * Math.log(df / 2) - logGamma((df - 1) / 2));
+}
+
+/**
+ * Raw mean difference between two independent groups
+ */
+export function meanDifference(arms: ContinuousArms): EffectSize {
+  assertArmSizes(arms.nTreatment, arms.nControl);
+  return {
+    yi: arms.meanTreatment - arms.meanControl,
+    se: Math.sqrt(arms.sdTreatment ** 2 / arms.nTreatment + arms.sdControl ** 2 / arms.nControl),
+    formula: 'mean_difference',
+  };
+}
+
+function hedgesG(d: number, nTreatment: number, nControl: number, formula: EffectSizeFormula): EffectSize {
+  const df = nTreatment + nControl - 2;
+  if (df < 2) {
+    throw new StatsInputError("At least four participants are required for Hedges' g");
+  }
+  const g = hedgesCorrection(df) * d;
+  const variance = 1 / nTreatment + 1 / nControl + (g * g) / (2 * (nTreatment + nControl));
+  return { yi: g, se: Math.sqrt(variance), formula };
+}
+
+/**
+ * Bias-corrected standardized mean difference (Hedges' g) using the pooled SD
+ */
+export function standardizedMeanDifference(arms: ContinuousArms): EffectSize {
+  assertArmSizes(arms.nTreatment, arms.nControl);
+  const df = arms.nTreatment + arms.nControl - 2;
+  const pooledSd = Math.sqrt(
+    ((arms.nTreatment - 1) * arms.sdTreatment ** 2 + (arms.nControl - 1) * arms.sdControl ** 2) / df
+  );
+  assertPositive(pooledSd, 'Pooled standard deviation');
+  return hedgesG((arms.meanTreatment - arms.meanControl) / pooledSd, arms.nTreatment, arms.nControl, 'hedges_g');
+}
+
+/**
+ * Hedges' g from an independent-samples t statistic
+ */
+export function standardizedMeanDifferenceFromT(t: number, nTreatment: number, nControl: number): EffectSize {
+  assertArmSizes(nTreatment, nControl);
+  return hedgesG(t * Math.sqrt(1 / nTreatment + 1 / nControl), nTreatment, nControl, 'hedges_g_from_t');
+}
+
+function twoByTwo(arms: BinaryArms) {
+  assertArmSizes(arms.nTreatment, arms.nControl);
+  if (
+    arms.eventsTreatment < 0 || arms.eventsTreatment > arms.nTreatment ||
+    arms.eventsControl < 0 || arms.eventsControl > arms.nControl
+  ) {
+    throw new StatsInputError('Event counts must lie between zero and the arm size');
+  }
+
+  let a = arms.eventsTreatment;
+  let b = arms.nTreatment - arms.eventsTreatment;
+  let c = arms.eventsControl;
+  let d = arms.nControl - arms.eventsControl;
+  if (a === 0 || b === 0 || c === 0 || d === 0) {
+    a += CONTINUITY_CORRECTION;
+    b += CONTINUITY_CORRECTION;
+    c += CONTINUITY_CORRECTION;
+    d += CONTINUITY_CORRECTION;
+  }
+  return { a, b, c, d };
+}
+
+/**
+ * Log odds ratio from 2x2 counts
+ */
+export function logOddsRatio(arms: BinaryArms): EffectSize {
+  const { a, b, c, d } = twoByTwo(arms);
+  return {
+    yi: Math.log((a * d) / (b * c)),
+    se: Math.sqrt(1 / a + 1 / b + 1 / c + 1 / d),
+    formula: 'log_odds_ratio',
+  };
+}
+
+/**
+ * Log risk ratio from 2x2 counts
+ */
+export function logRiskRatio(arms: BinaryArms): EffectSize {
+  const { a, b, c, d } = twoByTwo(arms);
+  return {
+    yi: Math.log((a / (a + b)) / (c / (c + d))),
+    se: Math.sqrt(1 / a - 1 / (a + b) + 1 / c - 1 / (c + d)),
+    formula: 'log_risk_ratio',
+  };
+}
+
+/**
+ * Risk difference from 2x2 counts
+ */
+export function riskDifference(arms: BinaryArms): EffectSize {
+  assertArmSizes(arms.nTreatment, arms.nControl);
+  const p1 = arms.eventsTreatment / arms.nTreatment;
+  const p2 = arms.eventsControl / arms.nControl;
+  const se = Math.sqrt((p1 * (1 - p1)) / arms.nTreatment + (p2 * (1 - p2)) / arms.nControl);
+  assertPositive(se, 'Risk difference standard error');
+  return { yi: p1 - p2, se, formula: 'risk_difference' };
+}
+
+/**
+ * Single-arm proportion of events out of n on the scale of a proportion measure. Raw and
+ * logit proportions of zero or one get the continuity correction.
+ */
+export function singleArmProportion(events: number, n: number, measure: ProportionMeasure): EffectSize {
+  assertPositive(n, 'Sample size');
+  if (events < 0 || events > n) {
+    throw new StatsInputError('Events must lie between zero and the sample size');
+  }
+
+  const corrected = events === 0 || events === n;
+  const x = corrected ? events + CONTINUITY_CORRECTION : events;
+  const total = corrected ? n + 2 * CONTINUITY_CORRECTION : n;
+  const p = x / total;
+
+  switch (measure) {
+    case 'PR':
+      return { yi: p, se: Math.sqrt((p * (1 - p)) / total), formula: 'raw_proportion' };
+    case 'PLO':
+      return { yi: logit(p), se: Math.sqrt(1 / x + 1 / (total - x)), formula: 'logit_proportion' };
+    case 'PAS':
+      return { yi: Math.asin(Math.sqrt(events / n)), se: Math.sqrt(1 / (4 * n)), formula: 'arcsine_proportion' };
+    case 'PFT':
+      return { yi: freemanTukey(events / n, n), se: Math.sqrt(1 / (4 * n + 2)), formula: 'freeman_tukey' };
+  }
+}
+
+/**
+ * Fisher's z transformation of a correlation coefficient
+ */
+export function fisherZ(r: number, n: number): EffectSize {
+  if (!(Math.abs(r) < 1)) {
+    throw new StatsInputError('Correlation must lie strictly between -1 and 1');
+  }
+  if (!(n > 3)) {
+    throw new StatsInputError('Fisher z requires a sample size greater than 3');
+  }
+  return { yi: Math.atanh(r), se: 1 / Math.sqrt(n - 3), formula: 'fisher_z' };
+}
+
+/**
+ * Standard error from a reported confidence interval. Ratio measures are converted to the
+ * log scale first.
+ */
+export function fromConfidenceInterval(
+  estimate: number,
+  lower: number,
+  upper: number,
+  ratio = false,
+  level = 0.95
+): EffectSize {
+  if (ratio && !(estimate > 0 && lower > 0 && upper > 0)) {
+    throw new StatsInputError('Ratio estimates and confidence limits must be positive');
+  }
+  const scale = ratio ? Math.log : (x: number) => x;
+  const width = scale(upper) - scale(lower);
+  assertPositive(width, 'Confidence interval width');
+  return {
+    yi: scale(estimate),
+    se: width / (2 * normalQuantile(1 - (1 - level) / 2)),
+    formula: 'from_ci',
+  };
+}
+
+/**
+ * Standard error from an estimate and its two-sided p-value
+ */
+export function fromPValue(estimate: number, pValue: number, ratio = false): EffectSize {
+  if (!(pValue > 0 && pValue < 1)) {
+    throw new StatsInputError('P-value must lie strictly between 0 and 1');
+  }
+  if (ratio && !(estimate > 0)) {
+    throw new StatsInputError('Ratio estimates must be positive');
+  }
+  const yi = ratio ? Math.log(estimate) : estimate;
+  if (yi === 0) {
+    throw new StatsInputError('A null estimate carries no information about its standard error');
+  }
+  return { yi, se: Math.abs(yi) / normalQuantile(1 - pValue / 2), formula: 'from_p_value' };
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function armSizes(row: Record<string, any>): { nTreatment?: number; nControl?: number } {
+  const nTreatment = toNumber(row.n_treatment) ?? toNumber(row.sample_size?.treatment);
+  const nControl = toNumber(row.n_control) ?? toNumber(row.sample_size?.control);
+  if (nTreatment !== undefined && nControl !== undefined) {
+    return { nTreatment, nControl };
+  }
+  // A single total sample size is assumed to be split evenly between arms
+  const total = toNumber(row.sample_size);
+  if (total !== undefined) {
+    return { nTreatment: total / 2, nControl: total / 2 };
+  }
+  return {};
+}
+
+/**
+ * Pick the formula that fits the columns present in a row
+ */
+export function computeEffectSize(row: Record<string, any>, effectMeasure: string): EffectSize {
+  const measure = effectMeasure.toUpperCase();
+  const ratio = isRatioMeasure(measure);
+  const { nTreatment, nControl } = armSizes(row);
+
+  const meanTreatment = toNumber(row.mean_treatment);
+  const sdTreatment = toNumber(row.sd_treatment);
+  const meanControl = toNumber(row.mean_control);
+  const sdControl = toNumber(row.sd_control);
+  const hasArms =
+    meanTreatment !== undefined && sdTreatment !== undefined &&
+    meanControl !== undefined && sdControl !== undefined &&
+    nTreatment !== undefined && nControl !== undefined;
+
+  if (hasArms && (measure === 'MD' || measure === 'SMD')) {
+    const arms = { meanTreatment, sdTreatment, nTreatment, meanControl, sdControl, nControl };
+    return measure === 'MD' ? meanDifference(arms) : standardizedMeanDifference(arms);
+  }
+
+  const tStatistic = toNumber(row.t_statistic);
+  if (measure === 'SMD' && tStatistic !== undefined && nTreatment !== undefined && nControl !== undefined) {
+    return standardizedMeanDifferenceFromT(tStatistic, nTreatment, nControl);
+  }
+
+  const eventsTreatment = toNumber(row.events_treatment);
+  const eventsControl = toNumber(row.events_control);
+  if (
+    eventsTreatment !== undefined && eventsControl !== undefined &&
+    nTreatment !== undefined && nControl !== undefined
+  ) {
+    const arms = { eventsTreatment, nTreatment, eventsControl, nControl };
+    if (measure === 'OR') return logOddsRatio(arms);
+    if (measure === 'RR') return logRiskRatio(arms);
+    if (measure === 'RD') return riskDifference(arms);
+  }
+
+  // A diagnostic odds ratio is the odds ratio of a positive test in the diseased
+  // (TP of TP + FN) versus the non-diseased (FP of FP + TN)
+  const tp = toNumber(row.tp);
+  const fp = toNumber(row.fp);
+  const fn = toNumber(row.fn);
+  const tn = toNumber(row.tn);
+  if (measure === 'DOR' && tp !== undefined && fp !== undefined && fn !== undefined && tn !== undefined) {
+    return logOddsRatio({ eventsTreatment: tp, nTreatment: tp + fn, eventsControl: fp, nControl: fp + tn });
+  }
+
+  const correlation = toNumber(row.correlation);
+  const n = toNumber(row.n) ?? toNumber(row.sample_size);
+  const events = toNumber(row.events);
+  if (isProportionMeasure(measure) && events !== undefined && n !== undefined) {
+    return singleArmProportion(events, n, measure);
+  }
+
+  if ((measure === 'COR' || measure === 'ZCOR') && correlation !== undefined && n !== undefined) {
+    return fisherZ(correlation, n);
+  }
+
+  const estimate = toNumber(row.effect_size);
+  if (estimate !== undefined) {
+    const ciLower = toNumber(row.ci_lower) ?? toNumber(row.confidence_interval?.[0]);
+    const ciUpper = toNumber(row.ci_upper) ?? toNumber(row.confidence_interval?.[1]);
+    if (ciLower !== undefined && ciUpper !== undefined) {
+      // Accept the level either as a proportion (0.95) or a percentage (95)
+      const level = toNumber(row.ci_level);
+      return fromConfidenceInterval(
+        estimate, ciLower, ciUpper, ratio, level !== undefined && level > 1 ? level / 100 : level
+      );
+    }
+
+    const pValue = toNumber(row.p_value);
+    if (pValue !== undefined) {
+      return fromPValue(estimate, pValue, ratio);
+    }
+  }
+
+  throw new StatsInputError(`Not enough information to compute an effect size${measure ? ` (${measure})` : ''}`);
+}
+
+/**
+ * Complete a row into a Study, deriving effect_size and se when they are not reported
+ */
+export function deriveStudy(row: Record<string, any>, effectMeasure: string): Study {
+  const effectSize = toNumber(row.effect_size);
+  const se = toNumber(row.se);
+
+  if (effectSize !== undefined && se !== undefined) {
+    return {
+      ...row,
+      study_id: row.study_id,
+      study_label: row.study_label,
+      effect_size: effectSize,
+      se,
+      weight: toNumber(row.weight) ?? 1 / (se * se),
+      effect_formula: row.effect_formula ?? 'reported',
+    };
+  }
+
+  const derived = computeEffectSize(row, effectMeasure);
+  const measure = effectMeasure.toUpperCase();
+  if (isProportionMeasure(measure)) {
+    // Proportions are reported as such, with the interval back-transformed from the
+    // analysis scale
+    const back = proportionTransform(measure, [row]);
+    const z = normalQuantile(0.975);
+    return {
+      ...row,
+      study_id: row.study_id,
+      study_label: row.study_label,
+      effect_size: back(derived.yi),
+      transformed_effect_size: derived.yi,
+      ci_lower: back(derived.yi - z * derived.se),
+      ci_upper: back(derived.yi + z * derived.se),
+      se: derived.se,
+      weight: 1 / (derived.se * derived.se),
+      effect_formula: derived.formula,
+    };
+  }
+
+  const ratio = isRatioMeasure(effectMeasure);
+  return {
+    ...row,
+    study_id: row.study_id,
+    study_label: row.study_label,
+    // Ratio measures keep the natural-scale estimate alongside the log value the engines pool
+    effect_size: ratio ? Math.exp(derived.yi) : derived.yi,
+    ...(ratio ? { log_effect_size: derived.yi } : {}),
+    se: derived.se,
+    weight: 1 / (derived.se * derived.se),
+    effect_formula: derived.formula,
+  };
+}
+
+/**
+ * Derive every row, collecting row-level errors instead of failing on the first one
+ */
+export function deriveStudies(
+  rows: Record<string, any>[],
+  effectMeasure: string
+): { studies: Study[]; errors: StudyDerivationError[] } {
+  const studies: Study[] = [];
+  const errors: StudyDerivationError[] = [];
+
+  rows.forEach((row, index) => {
+    try {
+      studies.push(deriveStudy(row, effectMeasure));
+    } catch (error) {
+      errors.push({
+        row: index + 1,
+        studyId: row?.study_id,
+        message: error instanceof Error ? error.message : 'Invalid study row',
+      });
+    }
+  });
+
+  return { studies, errors };
+}
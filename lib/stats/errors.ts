@@ -0,0 +1,10 @@
+/**
+ * Data or parameters a statistics engine cannot work with. Routes answer these with 400
+ * and analysis jobs fail without retrying; any other error from an engine is a bug.
+ */
+export class StatsInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatsInputError';
+  }
+}
@@ -0,0 +1,212 @@
+import { Study } from '@/types/meta-analysis';
+import type { MetaAnalysisParameters, MetaAnalysisResults } from '@/lib/services/meta-analysis';
+import { chiSquareSurvival, logGamma, normalQuantile, normalTwoSidedP, tQuantile } from './distributions';
+import { StatsInputError } from './errors';
+import { estimateTauSquared, getEffectData, PooledEstimate, toMetaAnalysisResults } from './meta-analysis';
+import { invert, Matrix, symmetricEigen } from './matrix';
+import { nelderMead, numericHessian } from './optimize';
+import { expit, logit, proportionSampleSize } from './proportions';
+
+// Nodes per study of the adaptive Gauss-Hermite rule
+const QUADRATURE_POINTS = 15;
+
+// log tau below this is treated as tau² = 0
+const MIN_LOG_TAU = -8;
+
+interface Quadrature {
+  nodes: number[];
+  weights: number[];
+}
+
+interface Counts {
+  events: number;
+  n: number;
+  // log of the binomial coefficient
+  logChoose: number;
+}
+
+/**
+ * Gauss-Hermite rule for weight exp(-x²) by the Golub-Welsch algorithm
+ */
+function gaussHermite(points: number): Quadrature {
+  const jacobi: Matrix = Array.from({ length: points }, (_, i) =>
+    Array.from({ length: points }, (_, j) => (Math.abs(i - j) === 1 ? Math.sqrt(Math.max(i, j) / 2) : 0))
+  );
+  const { values, vectors } = symmetricEigen(jacobi);
+  return {
+    nodes: values,
+    weights: values.map((_, j) => Math.sqrt(Math.PI) * vectors[0][j] ** 2),
+  };
+}
+
+function softplus(x: number): number {
+  return x > 0 ? x + Math.log1p(Math.exp(-x)) : Math.log1p(Math.exp(x));
+}
+
+function logSumExp(values: number[]): number {
+  const max = Math.max(...values);
+  return max + Math.log(values.reduce((sum, value) => sum + Math.exp(value - max), 0));
+}
+
+/**
+ * Marginal log-likelihood of one study under logit(p) = mu + b, b ~ N(0, tau²). The
+ * quadrature is centred on the mode of the integrand and scaled by its curvature.
+ */
+function studyLogLikelihood(counts: Counts, mu: number, tau: number, quadrature: Quadrature): number {
+  const { events, n } = counts;
+  const tauSquared = tau * tau;
+  const integrand = (b: number) => events * (mu + b) - n * softplus(mu + b) - (b * b) / (2 * tauSquared);
+
+  // The integrand is log-concave, so Newton's method finds the mode
+  let mode = 0;
+  let curvature = 0;
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const p = expit(mu + mode);
+    const gradient = events - n * p - mode / tauSquared;
+    curvature = n * p * (1 - p) + 1 / tauSquared;
+    const step = gradient / curvature;
+    mode += step;
+    if (Math.abs(step) < 1e-10) break;
+  }
+  const scale = Math.sqrt(2 / curvature);
+
+  const terms = quadrature.nodes.map((t, j) =>
+    Math.log(quadrature.weights[j]) + t * t + integrand(mode + scale * t)
+  );
+  return counts.logChoose + Math.log(scale) + logSumExp(terms) - 0.5 * Math.log(2 * Math.PI * tauSquared);
+}
+
+function fixedLogLikelihood(counts: Counts[], mu: number): number {
+  return counts.reduce((sum, { events, n, logChoose }) => sum + logChoose + events * mu - n * softplus(mu), 0);
+}
+
+/**
+ * Random-intercept logistic meta-analysis of single-arm proportions (the binomial-normal
+ * model), the GLMM alternative to pooling logit-transformed proportions. Results are
+ * reported on the proportion scale.
+ */
+export function runProportionGlmm(studies: Study[], parameters: MetaAnalysisParameters): MetaAnalysisResults {
+  if (parameters.effectMeasure.toUpperCase() !== 'PLO') {
+    throw new StatsInputError('The GLMM is only available for logit-transformed proportions (PLO)');
+  }
+  if (parameters.modelType !== 'FE' && parameters.modelType !== 'RE') {
+    throw new StatsInputError(`Unsupported model for the GLMM: ${parameters.modelType}`);
+  }
+  if (parameters.ciMethod && parameters.ciMethod !== 'z') {
+    throw new StatsInputError('Hartung-Knapp intervals are not available for the GLMM');
+  }
+
+  const counts: Counts[] = studies.map(study => {
+    const events = Number(study.events);
+    const n = proportionSampleSize(study);
+    if (!Number.isFinite(events) || n === undefined || events < 0 || events > n) {
+      throw new StatsInputError(`Study ${study.study_label} needs events between zero and its sample size for the GLMM`);
+    }
+    return { events, n, logChoose: logGamma(n + 1) - logGamma(events + 1) - logGamma(n - events + 1) };
+  });
+  const k = counts.length;
+  if (k < 2) {
+    throw new StatsInputError('The GLMM requires at least 2 studies');
+  }
+
+  const totalEvents = counts.reduce((sum, c) => sum + c.events, 0);
+  const totalN = counts.reduce((sum, c) => sum + c.n, 0);
+  if (totalEvents === 0 || totalEvents === totalN) {
+    throw new StatsInputError('The GLMM cannot be fitted when every study has no events or only events');
+  }
+
+  const warnings: string[] = [];
+  const quadrature = gaussHermite(QUADRATURE_POINTS);
+
+  // Fixed-effect logistic model: the pooled proportion of all events
+  const fixedMu = logit(totalEvents / totalN);
+  const fixedLogLik = fixedLogLikelihood(counts, fixedMu);
+
+  // Logit-transformed proportions give starting values, Cochran's Q and the typical
+  // within-study variance for I²
+  const { yi, vi } = getEffectData(studies, 'PLO');
+
+  let estimate = fixedMu;
+  let tauSquared = 0;
+  let logLikelihood = fixedLogLik;
+  let variance = 1 / counts.reduce((sum, c) => sum + c.n * expit(fixedMu) * (1 - expit(fixedMu)), 0);
+
+  if (parameters.modelType === 'RE') {
+    const negativeLogLik = ([mu, logTau]: number[]) =>
+      logTau < MIN_LOG_TAU
+        ? Infinity
+        : -counts.reduce((sum, c) => sum + studyLogLikelihood(c, mu, Math.exp(logTau), quadrature), 0);
+    const start = [fixedMu, 0.5 * Math.log(Math.max(estimateTauSquared(yi, vi, 'DL'), 0.05))];
+    const result = nelderMead(negativeLogLik, start, { step: 0.5 });
+    if (!result.converged) {
+      warnings.push('The GLMM did not converge; estimates may be unreliable');
+    }
+
+    // At the boundary the fixed-effect logistic model is the maximum
+    if (-result.value > fixedLogLik && result.x[1] > MIN_LOG_TAU + 1) {
+      estimate = result.x[0];
+      tauSquared = Math.exp(2 * result.x[1]);
+      logLikelihood = -result.value;
+      const covariance = invert(numericHessian(negativeLogLik, result.x));
+      variance = covariance[0][0];
+    }
+  }
+
+  const se = Math.sqrt(variance);
+  const statistic = estimate / se;
+  const zCrit = normalQuantile(0.975);
+
+  const wi = vi.map(v => 1 / v);
+  const sumWi = wi.reduce((a, b) => a + b, 0);
+  const sumWi2 = wi.reduce((a, b) => a + b * b, 0);
+  const typicalVariance = ((k - 1) * sumWi) / (sumWi * sumWi - sumWi2);
+  const fixedMean = yi.reduce((sum, y, i) => sum + wi[i] * y, 0) / sumWi;
+  const qStatistic = yi.reduce((sum, y, i) => sum + wi[i] * (y - fixedMean) ** 2, 0);
+
+  const lrt = Math.max(0, 2 * (logLikelihood - fixedLogLik));
+
+  // I² and H² as in poolEffects: from Q for the fixed-effect model and from tau²
+  // relative to the typical within-study variance otherwise
+  const random = parameters.modelType === 'RE';
+  const iSquared = random
+    ? (100 * tauSquared) / (tauSquared + typicalVariance)
+    : qStatistic > 0 ? Math.max(0, (100 * (qStatistic - (k - 1))) / qStatistic) : 0;
+  const hSquared = random ? (tauSquared + typicalVariance) / typicalVariance : qStatistic / (k - 1);
+
+  const pooled: PooledEstimate = {
+    k,
+    estimate,
+    se,
+    statistic,
+    pValue: normalTwoSidedP(statistic),
+    ciMethod: 'z',
+    ciLower: estimate - zCrit * se,
+    ciUpper: estimate + zCrit * se,
+    tauSquared,
+    qStatistic,
+    qDf: k - 1,
+    qPvalue: chiSquareSurvival(qStatistic, k - 1),
+    iSquared,
+    hSquared,
+    weights: vi.map(v => 1 / (v + tauSquared)),
+  };
+  if (random) {
+    const tCrit = tQuantile(0.975, k - 1);
+    const predictionSe = Math.sqrt(tauSquared + variance);
+    pooled.predictionInterval = {
+      lower: estimate - tCrit * predictionSe,
+      upper: estimate + tCrit * predictionSe,
+    };
+  }
+
+  return {
+    ...toMetaAnalysisResults(pooled, 'PLO', studies),
+    glmm: {
+      k,
+      logLikelihood,
+      quadraturePoints: QUADRATURE_POINTS,
+      heterogeneityTest: { statistic: lrt, pValue: chiSquareSurvival(lrt, 1) },
+      warnings,
+    },
+  };
+}
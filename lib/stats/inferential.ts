@@ -0,0 +1,1143 @@
+import type { IngestionError, ParsedTable } from '@/lib/ingestion';
+import type {
+  AssumptionCheck,
+  ContingencyTable,
+  CorrelationMethod,
+  Estimate,
+  GroupDescriptive,
+  InferentialParameters,
+  InferentialResults,
+  InferentialTest,
+  PostHocComparison,
+  PostHocMethod,
+  PostHocResults,
+} from '@/lib/services/inferential';
+import {
+  chiSquareSurvival,
+  fSurvival,
+  logGamma,
+  normalCdf,
+  normalQuantile,
+  normalTwoSidedP,
+  studentizedRangeCdf,
+  studentizedRangeQuantile,
+  tQuantile,
+  tTwoSidedP,
+} from './distributions';
+import { StatsInputError } from './errors';
+
+export const INFERENTIAL_TESTS: InferentialTest[] = [
+  'one_sample_t',
+  'independent_t',
+  'paired_t',
+  'anova',
+  'chi_square',
+  'fisher_exact',
+  'mann_whitney',
+  'wilcoxon',
+  'kruskal_wallis',
+  'correlation',
+];
+export const POST_HOC_METHODS: PostHocMethod[] = ['tukey', 'games_howell', 'bonferroni', 'none'];
+export const CORRELATION_METHODS: CorrelationMethod[] = ['pearson', 'spearman', 'kendall'];
+
+// Rank tests use their exact null distributions below this group size when there are no
+// ties, as wilcox.test does
+const EXACT_RANK_LIMIT = 50;
+
+// Shapiro-Wilk is defined for 3 to 5000 values
+const SHAPIRO_WILK_MIN = 3;
+const SHAPIRO_WILK_MAX = 5000;
+
+// Significance level at which an assumption check counts as failed
+const ASSUMPTION_ALPHA = 0.05;
+
+// Everything a test returns besides what runInferentialAnalysis fills in
+type TestOutcome = Omit<InferentialResults, 'test' | 'n' | 'confidenceLevel' | 'rowErrors' | 'warnings'> & {
+  n: number;
+};
+
+interface Context {
+  table: ParsedTable;
+  confidenceLevel: number;
+  errors: IngestionError[];
+  warnings: string[];
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function compareLevels(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function checkColumns(table: ParsedTable, columns: string[]) {
+  const unknown = columns.filter(column => !table.headers.includes(column));
+  if (unknown.length > 0) {
+    throw new StatsInputError(`Unknown column${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`);
+  }
+}
+
+/**
+ * Numeric values of a column by row; missing values are null and values that are not
+ * numbers are reported
+ */
+function numericColumn(context: Context, column: string): (number | null)[] {
+  return context.table.rows.map((row, i) => {
+    if (isMissing(row[column])) return null;
+    const value = toNumber(row[column]);
+    if (value === undefined) {
+      context.errors.push({ row: context.table.rowNumbers[i], column, message: 'Expected a number' });
+      return null;
+    }
+    return value;
+  });
+}
+
+function levelColumn(context: Context, column: string): (string | null)[] {
+  return context.table.rows.map(row => (isMissing(row[column]) ? null : String(row[column]).trim()));
+}
+
+function warnIncomplete(context: Context, dropped: number) {
+  if (dropped > 0) {
+    context.warnings.push(`${dropped} ${dropped === 1 ? 'row has' : 'rows have'} missing values and ${dropped === 1 ? 'was' : 'were'} left out`);
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function mean(values: number[]): number {
+  return sum(values) / values.length;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((total, value) => total + (value - m) ** 2, 0) / (values.length - 1);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Mid-ranks, and the tie term sum(t^3 - t) over groups of tied values
+ */
+function rank(values: number[]): { ranks: number[]; tieTerm: number; ties: boolean } {
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const ranks = new Array(values.length).fill(0);
+  let tieTerm = 0;
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && values[order[j + 1]] === values[order[i]]) j++;
+    const midRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k]] = midRank;
+    const t = j - i + 1;
+    tieTerm += t * t * t - t;
+    i = j + 1;
+  }
+  return { ranks, tieTerm, ties: tieTerm > 0 };
+}
+
+function criticalZ(confidenceLevel: number): number {
+  return normalQuantile(1 - (1 - confidenceLevel) / 2);
+}
+
+function criticalT(confidenceLevel: number, df: number): number {
+  return tQuantile(1 - (1 - confidenceLevel) / 2, df);
+}
+
+function polynomial(coefficients: number[], x: number): number {
+  return coefficients.reduceRight((total, coefficient) => total * x + coefficient, 0);
+}
+
+/**
+ * Shapiro-Wilk W with Royston's (1995) approximations to the coefficients and p-value
+ */
+function shapiroWilk(values: number[]): { statistic: number; pValue: number } | null {
+  const n = values.length;
+  if (n < SHAPIRO_WILK_MIN || n > SHAPIRO_WILK_MAX) return null;
+  const x = [...values].sort((a, b) => a - b);
+  if (x[n - 1] - x[0] < 1e-12 * Math.max(1, Math.abs(x[0]))) return null;
+
+  const a = new Array(n).fill(0);
+  if (n === 3) {
+    a[0] = -Math.SQRT1_2;
+    a[2] = Math.SQRT1_2;
+  } else {
+    const m = x.map((_, i) => normalQuantile((i + 1 - 0.375) / (n + 0.25)));
+    const summ2 = sum(m.map(value => value * value));
+    const ssumm2 = Math.sqrt(summ2);
+    const rsn = 1 / Math.sqrt(n);
+    const a1 = polynomial([0, 0.221157, -0.147981, -2.07119, 4.434685, -2.706056], rsn) + m[n - 1] / ssumm2;
+
+    let first = 1;
+    let fac: number;
+    if (n > 5) {
+      const a2 = polynomial([0, 0.042981, -0.293762, -1.752461, 5.682633, -3.582633], rsn) + m[n - 2] / ssumm2;
+      fac = Math.sqrt((summ2 - 2 * m[n - 1] ** 2 - 2 * m[n - 2] ** 2) / (1 - 2 * a1 * a1 - 2 * a2 * a2));
+      a[1] = -a2;
+      a[n - 2] = a2;
+      first = 2;
+    } else {
+      fac = Math.sqrt((summ2 - 2 * m[n - 1] ** 2) / (1 - 2 * a1 * a1));
+    }
+    a[0] = -a1;
+    a[n - 1] = a1;
+    for (let i = first; i < n - first; i++) a[i] = m[i] / fac;
+  }
+
+  const xMean = mean(x);
+  const ssq = sum(x.map(value => (value - xMean) ** 2));
+  const statistic = Math.min(1, sum(x.map((value, i) => a[i] * value)) ** 2 / ssq);
+
+  let pValue: number;
+  if (n === 3) {
+    pValue = Math.max(0, (6 / Math.PI) * (Math.asin(Math.sqrt(statistic)) - Math.PI / 3));
+  } else if (n <= 11) {
+    const gamma = polynomial([-2.273, 0.459], n);
+    const mu = polynomial([0.544, -0.39978, 0.025054, -6.714e-4], n);
+    const sigma = Math.exp(polynomial([1.3822, -0.77857, 0.062767, -0.0020322], n));
+    const w1 = Math.log(1 - statistic);
+    pValue = w1 >= gamma ? 0 : 1 - normalCdf((-Math.log(gamma - w1) - mu) / sigma);
+  } else {
+    const logN = Math.log(n);
+    const mu = polynomial([-1.5861, -0.31082, -0.083751, 0.0038915], logN);
+    const sigma = Math.exp(polynomial([-0.4803, -0.082676, 0.0030302], logN));
+    pValue = 1 - normalCdf((Math.log(1 - statistic) - mu) / sigma);
+  }
+  return { statistic, pValue: Math.min(1, Math.max(0, pValue)) };
+}
+
+function normalityCheck(values: number[], subject: string): AssumptionCheck {
+  const result = shapiroWilk(values);
+  if (!result) {
+    return {
+      assumption: 'normality',
+      test: 'Shapiro-Wilk',
+      subject,
+      statistic: null,
+      pValue: null,
+      met: true,
+      message: values.length < SHAPIRO_WILK_MIN
+        ? 'Too few values to test normality'
+        : 'Normality could not be tested for these values',
+    };
+  }
+  const met = result.pValue >= ASSUMPTION_ALPHA;
+  return {
+    assumption: 'normality',
+    test: 'Shapiro-Wilk',
+    subject,
+    ...result,
+    met,
+    message: met ? 'No evidence against normality' : 'The values depart from normality',
+  };
+}
+
+/**
+ * Brown-Forsythe test of equal spread: one-way ANOVA of absolute deviations from the
+ * group medians
+ */
+function equalVarianceCheck(groups: number[][]): AssumptionCheck {
+  const deviations = groups.map(values => {
+    const centre = median(values);
+    return values.map(value => Math.abs(value - centre));
+  });
+  const n = sum(groups.map(values => values.length));
+  const k = groups.length;
+  const grand = mean(deviations.flat());
+  const between = sum(deviations.map(values => values.length * (mean(values) - grand) ** 2));
+  const within = sum(deviations.map(values => {
+    const m = mean(values);
+    return sum(values.map(value => (value - m) ** 2));
+  }));
+
+  if (within <= 0 || n - k <= 0) {
+    return {
+      assumption: 'equal variances',
+      test: 'Brown-Forsythe',
+      subject: null,
+      statistic: null,
+      pValue: null,
+      met: true,
+      message: 'Equal variances could not be tested for these values',
+    };
+  }
+  const statistic = (between / (k - 1)) / (within / (n - k));
+  const pValue = fSurvival(statistic, k - 1, n - k);
+  const met = pValue >= ASSUMPTION_ALPHA;
+  return {
+    assumption: 'equal variances',
+    test: 'Brown-Forsythe',
+    subject: null,
+    statistic,
+    pValue,
+    met,
+    message: met ? 'No evidence of unequal variances' : 'The group variances differ',
+  };
+}
+
+function describeGroup(group: string, values: number[], confidenceLevel: number, meanRank: number | null = null): GroupDescriptive {
+  const n = values.length;
+  const m = mean(values);
+  const sd = n > 1 ? Math.sqrt(variance(values)) : null;
+  const margin = sd !== null ? criticalT(confidenceLevel, n - 1) * (sd / Math.sqrt(n)) : null;
+  return {
+    group,
+    n,
+    mean: m,
+    sd,
+    median: median(values),
+    lower: margin !== null ? m - margin : null,
+    upper: margin !== null ? m + margin : null,
+    meanRank,
+  };
+}
+
+/**
+ * Split an outcome by group, keeping the rows with both values; with levels given, only
+ * those levels and in that order
+ */
+function groupedValues(
+  context: Context,
+  outcome: string,
+  group: string,
+  levels?: string[]
+): { names: string[]; groups: number[][] } {
+  checkColumns(context.table, [outcome, group]);
+  const values = numericColumn(context, outcome);
+  const labels = levelColumn(context, group);
+  warnIncomplete(context, values.filter((value, i) => value === null || labels[i] === null).length);
+
+  const present = Array.from(new Set(labels.filter((label, i): label is string => label !== null && values[i] !== null)))
+    .sort(compareLevels);
+  const names = levels ?? present;
+  const missingLevels = names.filter(name => !present.includes(name));
+  if (missingLevels.length > 0) {
+    throw new StatsInputError(`${group} has no values for ${missingLevels.join(', ')}`);
+  }
+  const groups = names.map(name => values.filter((value, i): value is number => value !== null && labels[i] === name));
+  return { names, groups };
+}
+
+function twoGroups(context: Context, outcome: string, group: string, levels?: [string, string]) {
+  const grouped = groupedValues(context, outcome, group, levels);
+  if (grouped.names.length !== 2) {
+    throw new StatsInputError(`${group} has ${grouped.names.length} levels; choose the two to compare with levels`);
+  }
+  return grouped;
+}
+
+function pairedDifferences(context: Context, variable: string, pairedVariable: string): number[] {
+  checkColumns(context.table, [variable, pairedVariable]);
+  const first = numericColumn(context, variable);
+  const second = numericColumn(context, pairedVariable);
+  warnIncomplete(context, first.filter((value, i) => value === null || second[i] === null).length);
+  return first.flatMap((value, i) => (value !== null && second[i] !== null ? [value - (second[i] as number)] : []));
+}
+
+/**
+ * Standardized mean difference with the large-sample interval of Hedges and Olkin
+ */
+function standardizedEffect(name: string, d: number, variance: number, confidenceLevel: number): Estimate {
+  const margin = criticalZ(confidenceLevel) * Math.sqrt(variance);
+  return { name, value: d, lower: d - margin, upper: d + margin };
+}
+
+function oneSampleTTest(values: number[], mu: number, label: string, context: Context, paired: boolean): TestOutcome {
+  const n = values.length;
+  if (n < 2) throw new StatsInputError('At least two values are required');
+  const sd = Math.sqrt(variance(values));
+  if (sd === 0) throw new StatsInputError('The values do not vary');
+
+  const m = mean(values);
+  const se = sd / Math.sqrt(n);
+  const t = (m - mu) / se;
+  const margin = criticalT(context.confidenceLevel, n - 1) * se;
+  const d = (m - mu) / sd;
+
+  return {
+    method: paired ? 'Paired t-test' : 'One-sample t-test',
+    n,
+    statistic: { name: 't', value: t, df: n - 1, df2: null },
+    pValue: tTwoSidedP(t, n - 1),
+    estimate: {
+      name: paired ? 'Mean difference' : 'Mean',
+      value: m,
+      lower: m - margin,
+      upper: m + margin,
+    },
+    effectSizes: [standardizedEffect(paired ? "Cohen's dz" : "Cohen's d", d, 1 / n + (d * d) / (2 * n), context.confidenceLevel)],
+    groups: null,
+    postHoc: null,
+    table: null,
+    assumptions: [normalityCheck(values, label)],
+  };
+}
+
+function independentTTest(names: string[], groups: number[][], equalVariances: boolean, context: Context): TestOutcome {
+  const [x, y] = groups;
+  const n1 = x.length;
+  const n2 = y.length;
+  if (n1 < 2 || n2 < 2) throw new StatsInputError('Each group needs at least two values');
+  const v1 = variance(x);
+  const v2 = variance(y);
+  const pooled = ((n1 - 1) * v1 + (n2 - 1) * v2) / (n1 + n2 - 2);
+  if (pooled === 0) throw new StatsInputError('The values do not vary');
+
+  const difference = mean(x) - mean(y);
+  const se = equalVariances
+    ? Math.sqrt(pooled * (1 / n1 + 1 / n2))
+    : Math.sqrt(v1 / n1 + v2 / n2);
+  const df = equalVariances
+    ? n1 + n2 - 2
+    : (v1 / n1 + v2 / n2) ** 2 / ((v1 / n1) ** 2 / (n1 - 1) + (v2 / n2) ** 2 / (n2 - 1));
+  const t = difference / se;
+  const margin = criticalT(context.confidenceLevel, df) * se;
+
+  const d = difference / Math.sqrt(pooled);
+  const g = d * (1 - 3 / (4 * (n1 + n2) - 9));
+  const gVariance = (n1 + n2) / (n1 * n2) + (g * g) / (2 * (n1 + n2));
+
+  return {
+    method: equalVariances ? 'Two-sample t-test' : 'Welch two-sample t-test',
+    n: n1 + n2,
+    statistic: { name: 't', value: t, df, df2: null },
+    pValue: tTwoSidedP(t, df),
+    estimate: {
+      name: `Mean difference (${names[0]} - ${names[1]})`,
+      value: difference,
+      lower: difference - margin,
+      upper: difference + margin,
+    },
+    effectSizes: [
+      standardizedEffect("Cohen's d", d, (n1 + n2) / (n1 * n2) + (d * d) / (2 * (n1 + n2)), context.confidenceLevel),
+      standardizedEffect("Hedges' g", g, gVariance, context.confidenceLevel),
+    ],
+    groups: names.map((name, i) => describeGroup(name, groups[i], context.confidenceLevel)),
+    postHoc: null,
+    table: null,
+    assumptions: [
+      ...names.map((name, i) => normalityCheck(groups[i], name)),
+      equalVarianceCheck(groups),
+    ],
+  };
+}
+
+/**
+ * Holm's step-down adjustment
+ */
+function holm(pValues: number[]): number[] {
+  const order = pValues.map((_, i) => i).sort((a, b) => pValues[a] - pValues[b]);
+  const adjusted = new Array(pValues.length).fill(0);
+  let running = 0;
+  order.forEach((index, rankIndex) => {
+    running = Math.max(running, Math.min(1, (pValues.length - rankIndex) * pValues[index]));
+    adjusted[index] = running;
+  });
+  return adjusted;
+}
+
+function pairs(k: number): [number, number][] {
+  const result: [number, number][] = [];
+  for (let i = 0; i < k; i++) {
+    for (let j = i + 1; j < k; j++) result.push([i, j]);
+  }
+  return result;
+}
+
+/**
+ * Pairwise comparisons after ANOVA: Tukey-Kramer and Games-Howell use the studentized
+ * range, Bonferroni pooled-variance t-tests
+ */
+function anovaPostHoc(
+  method: PostHocMethod,
+  names: string[],
+  groups: number[][],
+  meanSquareError: number,
+  dfError: number,
+  confidenceLevel: number
+): PostHocResults | null {
+  if (method === 'none') return null;
+  const k = groups.length;
+  const means = groups.map(mean);
+  const variances = groups.map(values => (values.length > 1 ? variance(values) : 0));
+  const comparisons = pairs(k);
+  const tukeyCritical = method === 'tukey' ? studentizedRangeQuantile(confidenceLevel, k, dfError) : 0;
+
+  return {
+    method,
+    comparisons: comparisons.map(([i, j]): PostHocComparison => {
+      const difference = means[i] - means[j];
+      const ni = groups[i].length;
+      const nj = groups[j].length;
+
+      if (method === 'bonferroni') {
+        const se = Math.sqrt(meanSquareError * (1 / ni + 1 / nj));
+        const t = difference / se;
+        const margin = tQuantile(1 - (1 - confidenceLevel) / (2 * comparisons.length), dfError) * se;
+        return {
+          groupA: names[i],
+          groupB: names[j],
+          difference,
+          lower: difference - margin,
+          upper: difference + margin,
+          statistic: t,
+          pValue: Math.min(1, comparisons.length * tTwoSidedP(t, dfError)),
+        };
+      }
+
+      let se: number;
+      let df: number;
+      let critical: number;
+      if (method === 'tukey') {
+        se = Math.sqrt((meanSquareError / 2) * (1 / ni + 1 / nj));
+        df = dfError;
+        critical = tukeyCritical;
+      } else {
+        const vi = variances[i] / ni;
+        const vj = variances[j] / nj;
+        se = Math.sqrt((vi + vj) / 2);
+        df = (vi + vj) ** 2 / (vi * vi / (ni - 1) + vj * vj / (nj - 1));
+        critical = studentizedRangeQuantile(confidenceLevel, k, df);
+      }
+      const q = Math.abs(difference) / se;
+      return {
+        groupA: names[i],
+        groupB: names[j],
+        difference,
+        lower: difference - critical * se,
+        upper: difference + critical * se,
+        statistic: q,
+        pValue: Math.max(0, 1 - studentizedRangeCdf(q, k, df)),
+      };
+    }),
+  };
+}
+
+function oneWayAnova(names: string[], groups: number[][], postHoc: PostHocMethod, context: Context): TestOutcome {
+  const k = groups.length;
+  if (k < 2) throw new StatsInputError('At least two groups are required');
+  const n = sum(groups.map(values => values.length));
+  if (n - k < 1) throw new StatsInputError('Too few values for the number of groups');
+  if (postHoc === 'games_howell' && groups.some(values => values.length < 2)) {
+    throw new StatsInputError('Games-Howell comparisons need at least two values per group');
+  }
+
+  const grand = mean(groups.flat());
+  const means = groups.map(mean);
+  const ssBetween = sum(groups.map((values, i) => values.length * (means[i] - grand) ** 2));
+  const residuals = groups.flatMap((values, i) => values.map(value => value - means[i]));
+  const ssWithin = sum(residuals.map(value => value * value));
+  if (ssWithin === 0) throw new StatsInputError('The values do not vary within groups');
+
+  const dfBetween = k - 1;
+  const dfWithin = n - k;
+  const meanSquareError = ssWithin / dfWithin;
+  const f = (ssBetween / dfBetween) / meanSquareError;
+  const ssTotal = ssBetween + ssWithin;
+
+  return {
+    method: 'One-way ANOVA',
+    n,
+    statistic: { name: 'F', value: f, df: dfBetween, df2: dfWithin },
+    pValue: fSurvival(f, dfBetween, dfWithin),
+    estimate: null,
+    effectSizes: [
+      { name: 'Eta squared', value: ssBetween / ssTotal, lower: null, upper: null },
+      { name: 'Omega squared', value: (ssBetween - dfBetween * meanSquareError) / (ssTotal + meanSquareError), lower: null, upper: null },
+    ],
+    groups: names.map((name, i) => describeGroup(name, groups[i], context.confidenceLevel)),
+    postHoc: anovaPostHoc(postHoc, names, groups, meanSquareError, dfWithin, context.confidenceLevel),
+    table: null,
+    assumptions: [normalityCheck(residuals, 'residuals'), equalVarianceCheck(groups)],
+  };
+}
+
+function contingencyTable(context: Context, row: string, column: string): ContingencyTable {
+  checkColumns(context.table, [row, column]);
+  const rowValues = levelColumn(context, row);
+  const columnValues = levelColumn(context, column);
+  warnIncomplete(context, rowValues.filter((value, i) => value === null || columnValues[i] === null).length);
+
+  const complete = rowValues.map((value, i) => value !== null && columnValues[i] !== null);
+  const rows = Array.from(new Set(rowValues.filter((value, i): value is string => complete[i]))).sort(compareLevels);
+  const columns = Array.from(new Set(columnValues.filter((value, i): value is string => complete[i]))).sort(compareLevels);
+  if (rows.length < 2 || columns.length < 2) {
+    throw new StatsInputError('Both variables need at least two levels');
+  }
+
+  const observed = rows.map(() => new Array(columns.length).fill(0));
+  rowValues.forEach((value, i) => {
+    if (complete[i]) observed[rows.indexOf(value as string)][columns.indexOf(columnValues[i] as string)]++;
+  });
+  const total = sum(observed.flat());
+  const rowTotals = observed.map(sum);
+  const columnTotals = columns.map((_, c) => sum(observed.map(cells => cells[c])));
+  const expected = rowTotals.map(rowTotal => columnTotals.map(columnTotal => (rowTotal * columnTotal) / total));
+
+  return { rows, columns, observed, expected };
+}
+
+/**
+ * Woolf interval for the odds ratio of a 2x2 table, adding 0.5 to every cell when one is empty
+ */
+function woolfOddsRatio(observed: number[][], confidenceLevel: number): Estimate {
+  const cells = observed.flat();
+  const shifted = cells.some(cell => cell === 0) ? cells.map(cell => cell + 0.5) : cells;
+  const [a, b, c, d] = shifted;
+  const logOr = Math.log((a * d) / (b * c));
+  const margin = criticalZ(confidenceLevel) * Math.sqrt(sum(shifted.map(cell => 1 / cell)));
+  return { name: 'Odds ratio', value: Math.exp(logOr), lower: Math.exp(logOr - margin), upper: Math.exp(logOr + margin) };
+}
+
+function chiSquareTest(table: ContingencyTable, correction: boolean, context: Context): TestOutcome {
+  const { observed, expected } = table;
+  const n = sum(observed.flat());
+  const yates = correction && observed.length === 2 && observed[0].length === 2;
+  let statistic = 0;
+  let uncorrected = 0;
+  observed.forEach((cells, r) => cells.forEach((cell, c) => {
+    const deviation = Math.abs(cell - expected[r][c]);
+    const adjusted = yates ? deviation - Math.min(0.5, deviation) : deviation;
+    statistic += (adjusted * adjusted) / expected[r][c];
+    uncorrected += (deviation * deviation) / expected[r][c];
+  }));
+  const df = (observed.length - 1) * (observed[0].length - 1);
+
+  const expectedCells = expected.flat();
+  const small = expectedCells.filter(value => value < 5).length;
+  const met = expectedCells.every(value => value >= 1) && small <= 0.2 * expectedCells.length;
+
+  return {
+    method: yates ? "Pearson's chi-square test with Yates' continuity correction" : "Pearson's chi-square test",
+    n,
+    statistic: { name: 'Chi-square', value: statistic, df, df2: null },
+    pValue: chiSquareSurvival(statistic, df),
+    estimate: df === 1 ? woolfOddsRatio(observed, context.confidenceLevel) : null,
+    effectSizes: [{
+      name: "Cramer's V",
+      value: Math.sqrt(uncorrected / (n * (Math.min(observed.length, observed[0].length) - 1))),
+      lower: null,
+      upper: null,
+    }],
+    groups: null,
+    postHoc: null,
+    table,
+    assumptions: [{
+      assumption: 'expected counts',
+      test: null,
+      subject: null,
+      statistic: null,
+      pValue: null,
+      met,
+      message: met
+        ? 'All expected counts are adequate'
+        : `${small} of ${expectedCells.length} expected counts are below 5; consider Fisher's exact test`,
+    }],
+  };
+}
+
+function logChoose(n: number, k: number): number {
+  return logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
+}
+
+/**
+ * Find where an increasing function of log(x) crosses a target, by bisection
+ */
+function solveOnLogScale(fn: (x: number) => number, target: number): number {
+  let lo = -50;
+  let hi = 50;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (fn(Math.exp(mid)) < target) lo = mid;
+    else hi = mid;
+    if (hi - lo < 1e-10) break;
+  }
+  return Math.exp((lo + hi) / 2);
+}
+
+/**
+ * Fisher's exact test of a 2x2 table, with the conditional maximum likelihood odds ratio
+ * and its exact interval from the noncentral hypergeometric distribution, as fisher.test
+ */
+function fisherExactTest(table: ContingencyTable, context: Context): TestOutcome {
+  if (table.rows.length !== 2 || table.columns.length !== 2) {
+    throw new StatsInputError("Fisher's exact test needs two levels of each variable");
+  }
+  const [[a, b], [c, d]] = table.observed;
+  const m = a + c;
+  const n = b + d;
+  const k = a + b;
+  const lo = Math.max(0, k - n);
+  const hi = Math.min(k, m);
+  const support = Array.from({ length: hi - lo + 1 }, (_, i) => lo + i);
+  const logDensity = support.map(x => logChoose(m, x) + logChoose(n, k - x) - logChoose(m + n, k));
+
+  const density = (ncp: number) => {
+    const logs = logDensity.map((value, i) => value + support[i] * Math.log(ncp));
+    const max = Math.max(...logs);
+    const weights = logs.map(value => Math.exp(value - max));
+    const total = sum(weights);
+    return weights.map(weight => weight / total);
+  };
+  const meanOf = (ncp: number) => sum(density(ncp).map((p, i) => p * support[i]));
+  const upperTail = (ncp: number) => sum(density(ncp).filter((_, i) => support[i] >= a));
+  const lowerTail = (ncp: number) => sum(density(ncp).filter((_, i) => support[i] <= a));
+
+  const nullDensity = density(1);
+  const observedDensity = nullDensity[a - lo];
+  const pValue = Math.min(1, sum(nullDensity.filter(p => p <= observedDensity * (1 + 1e-7))));
+
+  const alpha = 1 - context.confidenceLevel;
+  const estimate = a === lo ? 0 : a === hi ? Infinity : solveOnLogScale(meanOf, a);
+  const lower = a === lo ? 0 : solveOnLogScale(upperTail, alpha / 2);
+  // lowerTail falls as the odds ratio grows
+  const upper = a === hi ? null : solveOnLogScale(ncp => -lowerTail(ncp), -alpha / 2);
+  if (!Number.isFinite(estimate)) {
+    context.warnings.push('The odds ratio is infinite because a cell is empty');
+  }
+
+  return {
+    method: "Fisher's exact test",
+    n: m + n,
+    statistic: { name: 'Odds ratio', value: estimate, df: null, df2: null },
+    pValue,
+    estimate: { name: 'Odds ratio (conditional MLE)', value: estimate, lower, upper },
+    effectSizes: [woolfOddsRatio(table.observed, context.confidenceLevel)],
+    groups: null,
+    postHoc: null,
+    table,
+    assumptions: [],
+  };
+}
+
+/**
+ * Number of subsets of the ranks 1..total of each size and sum, for exact rank-sum
+ * distributions
+ */
+function subsetSumCounts(total: number, size: number): number[] {
+  const maxSum = (size * (2 * total - size + 1)) / 2;
+  let counts = Array.from({ length: size + 1 }, () => new Array(maxSum + 1).fill(0));
+  counts[0][0] = 1;
+  for (let r = 1; r <= total; r++) {
+    const next = counts.map(row => [...row]);
+    for (let j = 1; j <= Math.min(r, size); j++) {
+      for (let s = r; s <= maxSum; s++) next[j][s] += counts[j - 1][s - r];
+    }
+    counts = next;
+  }
+  return counts[size];
+}
+
+// Two-sided exact p-value from counts of a discrete statistic over its support
+function exactTwoSidedP(counts: number[], observed: number, offset: number): number {
+  const total = sum(counts);
+  const index = Math.round(observed) + offset;
+  const below = sum(counts.slice(0, index + 1)) / total;
+  const above = sum(counts.slice(index)) / total;
+  return Math.min(1, 2 * Math.min(below, above));
+}
+
+/**
+ * Hodges-Lehmann estimate as the median of the given differences, with the interval from
+ * the normal approximation to the rank statistic
+ */
+function hodgesLehmann(name: string, differences: number[], sd: number, expected: number, confidenceLevel: number): Estimate {
+  const sorted = [...differences].sort((a, b) => a - b);
+  const count = Math.floor(expected - criticalZ(confidenceLevel) * sd);
+  const valid = count >= 0 && count < sorted.length - count;
+  return {
+    name,
+    value: median(sorted),
+    lower: valid ? sorted[count] : null,
+    upper: valid ? sorted[sorted.length - 1 - count] : null,
+  };
+}
+
+function mannWhitneyTest(names: string[], groups: number[][], context: Context): TestOutcome {
+  const [x, y] = groups;
+  const n1 = x.length;
+  const n2 = y.length;
+  if (n1 < 1 || n2 < 1) throw new StatsInputError('Each group needs at least one value');
+
+  const { ranks, tieTerm, ties } = rank([...x, ...y]);
+  const total = n1 + n2;
+  const w = sum(ranks.slice(0, n1)) - (n1 * (n1 + 1)) / 2;
+  const expected = (n1 * n2) / 2;
+  const sd = Math.sqrt((n1 * n2 / 12) * ((total + 1) - tieTerm / (total * (total - 1))));
+
+  const exact = n1 < EXACT_RANK_LIMIT && n2 < EXACT_RANK_LIMIT && !ties;
+  let pValue: number;
+  if (exact) {
+    // Rank sums of the first group, shifted to start at W = 0
+    const counts = subsetSumCounts(total, n1).slice((n1 * (n1 + 1)) / 2);
+    pValue = exactTwoSidedP(counts, w, 0);
+  } else {
+    const z = (w - expected - 0.5 * Math.sign(w - expected)) / sd;
+    pValue = normalTwoSidedP(z);
+    if (ties) context.warnings.push('Ties are present, so the p-value uses the normal approximation');
+  }
+
+  const differences = x.flatMap(a => y.map(b => a - b));
+  const meanRanks = [mean(ranks.slice(0, n1)), mean(ranks.slice(n1))];
+  // Rank tests compare locations only when the distributions share a shape
+  const spread = equalVarianceCheck(groups);
+
+  return {
+    method: exact ? 'Wilcoxon rank-sum (Mann-Whitney) test, exact' : 'Wilcoxon rank-sum (Mann-Whitney) test with continuity correction',
+    n: total,
+    statistic: { name: 'W', value: w, df: null, df2: null },
+    pValue,
+    estimate: hodgesLehmann(`Location shift (${names[0]} - ${names[1]})`, differences, sd, expected, context.confidenceLevel),
+    effectSizes: [{ name: 'Rank-biserial correlation', value: (2 * w) / (n1 * n2) - 1, lower: null, upper: null }],
+    groups: names.map((name, i) => describeGroup(name, groups[i], context.confidenceLevel, meanRanks[i])),
+    postHoc: null,
+    table: null,
+    assumptions: [{
+      ...spread,
+      assumption: 'similar spread',
+      message: spread.met
+        ? 'The groups have similar spread, so the location shift is interpretable'
+        : 'The groups differ in spread; the test compares distributions rather than locations',
+    }],
+  };
+}
+
+function wilcoxonSignedRankTest(values: number[], label: string, context: Context): TestOutcome {
+  const nonZero = values.filter(value => value !== 0);
+  const zeros = values.length - nonZero.length;
+  const n = nonZero.length;
+  if (n < 1) throw new StatsInputError('All differences are zero');
+
+  const { ranks, tieTerm, ties } = rank(nonZero.map(Math.abs));
+  const v = sum(ranks.filter((_, i) => nonZero[i] > 0));
+  const expected = (n * (n + 1)) / 4;
+  const sd = Math.sqrt((n * (n + 1) * (2 * n + 1)) / 24 - tieTerm / 48);
+
+  const exact = n < EXACT_RANK_LIMIT && !ties && zeros === 0;
+  let pValue: number;
+  if (exact) {
+    const counts = new Array((n * (n + 1)) / 2 + 1).fill(0);
+    counts[0] = 1;
+    for (let r = 1; r <= n; r++) {
+      for (let s = counts.length - 1; s >= r; s--) counts[s] += counts[s - r];
+    }
+    pValue = exactTwoSidedP(counts, v, 0);
+  } else {
+    const z = (v - expected - 0.5 * Math.sign(v - expected)) / sd;
+    pValue = normalTwoSidedP(z);
+  }
+
+  const walsh: number[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) walsh.push((nonZero[i] + nonZero[j]) / 2);
+  }
+
+  const assumptions: AssumptionCheck[] = [];
+  if (zeros > 0 || ties) {
+    assumptions.push({
+      assumption: 'no zeros or ties',
+      test: null,
+      subject: label,
+      statistic: null,
+      pValue: null,
+      met: false,
+      message: [
+        zeros > 0 ? `${zeros} zero ${zeros === 1 ? 'difference was' : 'differences were'} dropped` : null,
+        ties ? 'tied ranks are present' : null,
+      ].filter(Boolean).join(' and ') + '; the p-value uses the normal approximation',
+    });
+  }
+
+  return {
+    method: exact ? 'Wilcoxon signed-rank test, exact' : 'Wilcoxon signed-rank test with continuity correction',
+    n: values.length,
+    statistic: { name: 'V', value: v, df: null, df2: null },
+    pValue,
+    estimate: hodgesLehmann('Pseudo-median', walsh, sd, expected, context.confidenceLevel),
+    effectSizes: [{ name: 'Matched-pairs rank-biserial correlation', value: (4 * v) / (n * (n + 1)) - 1, lower: null, upper: null }],
+    groups: null,
+    postHoc: null,
+    table: null,
+    assumptions,
+  };
+}
+
+function kruskalWallisTest(names: string[], groups: number[][], context: Context): TestOutcome {
+  const k = groups.length;
+  if (k < 2) throw new StatsInputError('At least two groups are required');
+  const all = groups.flat();
+  const n = all.length;
+  const { ranks, tieTerm } = rank(all);
+
+  const groupRanks: number[][] = [];
+  let offset = 0;
+  groups.forEach(values => {
+    groupRanks.push(ranks.slice(offset, offset + values.length));
+    offset += values.length;
+  });
+  const meanRanks = groupRanks.map(mean);
+  const correction = 1 - tieTerm / (n * n * n - n);
+  if (correction <= 0) throw new StatsInputError('The values do not vary');
+  const h = ((12 / (n * (n + 1))) * sum(groupRanks.map(values => sum(values) ** 2 / values.length)) - 3 * (n + 1)) / correction;
+
+  // Dunn's test with Holm's adjustment
+  const rankVariance = (n * (n + 1)) / 12 - tieTerm / (12 * (n - 1));
+  const comparisons = pairs(k).map(([i, j]) => {
+    const difference = meanRanks[i] - meanRanks[j];
+    const z = difference / Math.sqrt(rankVariance * (1 / groups[i].length + 1 / groups[j].length));
+    return { groupA: names[i], groupB: names[j], difference, lower: null, upper: null, statistic: z, pValue: normalTwoSidedP(z) };
+  });
+  const adjusted = holm(comparisons.map(comparison => comparison.pValue));
+  const spread = equalVarianceCheck(groups);
+
+  return {
+    method: 'Kruskal-Wallis rank sum test',
+    n,
+    statistic: { name: 'H', value: h, df: k - 1, df2: null },
+    pValue: chiSquareSurvival(h, k - 1),
+    estimate: null,
+    effectSizes: [{ name: 'Epsilon squared', value: h / (n - 1), lower: null, upper: null }],
+    groups: names.map((name, i) => describeGroup(name, groups[i], context.confidenceLevel, meanRanks[i])),
+    postHoc: {
+      method: 'dunn_holm',
+      comparisons: comparisons.map((comparison, i) => ({ ...comparison, pValue: adjusted[i] })),
+    },
+    table: null,
+    assumptions: [{
+      ...spread,
+      assumption: 'similar spread',
+      message: spread.met
+        ? 'The groups have similar spread, so differences reflect location'
+        : 'The groups differ in spread; the test compares distributions rather than locations',
+    }],
+  };
+}
+
+function pearson(x: number[], y: number[]): number {
+  const mx = mean(x);
+  const my = mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  x.forEach((value, i) => {
+    sxy += (value - mx) * (y[i] - my);
+    sxx += (value - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  });
+  if (sxx === 0 || syy === 0) throw new StatsInputError('Both variables must vary');
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+// Tie counts t of each group of tied values
+function tieSizes(values: number[]): number[] {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts.values()).filter(count => count > 1);
+}
+
+/**
+ * Kendall's tau-b with the tie-corrected variance of the concordance count
+ */
+function kendall(x: number[], y: number[]): { tau: number; z: number } {
+  const n = x.length;
+  let concordance = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      concordance += Math.sign(x[i] - x[j]) * Math.sign(y[i] - y[j]);
+    }
+  }
+  const tx = tieSizes(x);
+  const ty = tieSizes(y);
+  const pairsCount = (n * (n - 1)) / 2;
+  const n1 = sum(tx.map(t => (t * (t - 1)) / 2));
+  const n2 = sum(ty.map(t => (t * (t - 1)) / 2));
+  const denominator = Math.sqrt((pairsCount - n1) * (pairsCount - n2));
+  if (denominator === 0) throw new StatsInputError('Both variables must vary');
+
+  const v0 = n * (n - 1) * (2 * n + 5);
+  const vt = sum(tx.map(t => t * (t - 1) * (2 * t + 5)));
+  const vu = sum(ty.map(t => t * (t - 1) * (2 * t + 5)));
+  const v1 = sum(tx.map(t => t * (t - 1))) * sum(ty.map(t => t * (t - 1)));
+  const v2 = sum(tx.map(t => t * (t - 1) * (t - 2))) * sum(ty.map(t => t * (t - 1) * (t - 2)));
+  const varianceS = (v0 - vt - vu) / 18
+    + v1 / (2 * n * (n - 1))
+    + (n > 2 ? v2 / (9 * n * (n - 1) * (n - 2)) : 0);
+
+  return { tau: concordance / denominator, z: concordance / Math.sqrt(varianceS) };
+}
+
+/**
+ * Interval for a correlation on Fisher's z scale with the given standard error
+ */
+function fisherInterval(r: number, se: number, confidenceLevel: number): { lower: number | null; upper: number | null } {
+  if (!Number.isFinite(se) || Math.abs(r) >= 1) return { lower: null, upper: null };
+  const z = Math.atanh(r);
+  const margin = criticalZ(confidenceLevel) * se;
+  return { lower: Math.tanh(z - margin), upper: Math.tanh(z + margin) };
+}
+
+function correlationTest(x: number[], y: number[], method: CorrelationMethod, names: [string, string], context: Context): TestOutcome {
+  const n = x.length;
+  if (n < 3) throw new StatsInputError('At least three complete pairs are required');
+
+  let r: number;
+  let statistic: InferentialResults['statistic'];
+  let pValue: number;
+  let se: number;
+  let name: string;
+  let label: string;
+
+  if (method === 'kendall') {
+    const result = kendall(x, y);
+    r = result.tau;
+    statistic = { name: 'z', value: result.z, df: null, df2: null };
+    pValue = normalTwoSidedP(result.z);
+    // Fieller, Hartley and Pearson (1957)
+    se = n > 4 ? Math.sqrt(0.437 / (n - 4)) : NaN;
+    name = "Kendall's tau-b";
+    label = "Kendall's rank correlation";
+  } else {
+    r = method === 'spearman' ? pearson(rank(x).ranks, rank(y).ranks) : pearson(x, y);
+    const t = Math.abs(r) >= 1 ? Infinity : r * Math.sqrt((n - 2) / (1 - r * r));
+    statistic = { name: 't', value: t, df: n - 2, df2: null };
+    pValue = Number.isFinite(t) ? tTwoSidedP(t, n - 2) : 0;
+    // Bonett and Wright (2000) for Spearman
+    se = n > 3 ? Math.sqrt((method === 'spearman' ? 1 + (r * r) / 2 : 1) / (n - 3)) : NaN;
+    name = method === 'spearman' ? "Spearman's rho" : "Pearson's r";
+    label = method === 'spearman' ? "Spearman's rank correlation" : "Pearson's product-moment correlation";
+  }
+
+  const estimate: Estimate = { name, value: r, ...fisherInterval(r, se, context.confidenceLevel) };
+  const assumptions = method === 'pearson'
+    ? names.map((variable, i) => normalityCheck(i === 0 ? x : y, variable))
+    : [];
+  if (method === 'spearman' && (tieSizes(x).length > 0 || tieSizes(y).length > 0)) {
+    context.warnings.push('Ties are present, so the p-value uses the t approximation');
+  }
+
+  return {
+    method: label,
+    n,
+    statistic,
+    pValue,
+    estimate,
+    effectSizes: [
+      estimate,
+      ...(method === 'pearson'
+        ? [{ name: 'r squared', value: r * r, lower: null, upper: null }]
+        : []),
+    ],
+    groups: null,
+    postHoc: null,
+    table: null,
+    assumptions,
+  };
+}
+
+function completePairs(context: Context, first: string, second: string): [number[], number[]] {
+  checkColumns(context.table, [first, second]);
+  const x = numericColumn(context, first);
+  const y = numericColumn(context, second);
+  const complete = x.map((value, i) => value !== null && y[i] !== null);
+  warnIncomplete(context, complete.filter(keep => !keep).length);
+  return [
+    x.filter((_, i) => complete[i]) as number[],
+    y.filter((_, i) => complete[i]) as number[],
+  ];
+}
+
+function completeValues(context: Context, column: string): number[] {
+  checkColumns(context.table, [column]);
+  const values = numericColumn(context, column);
+  warnIncomplete(context, values.filter(value => value === null).length);
+  return values.filter((value): value is number => value !== null);
+}
+
+/**
+ * Run one hypothesis test on a dataset, with its effect sizes, confidence intervals and
+ * the checks of its assumptions
+ */
+export function runInferentialAnalysis(table: ParsedTable, parameters: InferentialParameters): InferentialResults {
+  const confidenceLevel = parameters.confidenceLevel ?? 0.95;
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+    throw new StatsInputError('The confidence level must lie between 0 and 1');
+  }
+  const context: Context = { table, confidenceLevel, errors: [], warnings: [] };
+
+  let outcome: TestOutcome;
+  switch (parameters.test) {
+    case 'one_sample_t':
+      outcome = oneSampleTTest(completeValues(context, parameters.variable), parameters.mu ?? 0, parameters.variable, context, false);
+      break;
+    case 'paired_t': {
+      const differences = pairedDifferences(context, parameters.variable, parameters.pairedVariable);
+      outcome = oneSampleTTest(differences, 0, `${parameters.variable} - ${parameters.pairedVariable}`, context, true);
+      break;
+    }
+    case 'independent_t': {
+      const { names, groups } = twoGroups(context, parameters.outcome, parameters.group, parameters.levels);
+      outcome = independentTTest(names, groups, parameters.equalVariances ?? false, context);
+      break;
+    }
+    case 'anova': {
+      const { names, groups } = groupedValues(context, parameters.outcome, parameters.group);
+      outcome = oneWayAnova(names, groups, parameters.postHoc ?? 'tukey', context);
+      break;
+    }
+    case 'chi_square':
+      outcome = chiSquareTest(contingencyTable(context, parameters.row, parameters.column), parameters.correction ?? true, context);
+      break;
+    case 'fisher_exact':
+      outcome = fisherExactTest(contingencyTable(context, parameters.row, parameters.column), context);
+      break;
+    case 'mann_whitney': {
+      const { names, groups } = twoGroups(context, parameters.outcome, parameters.group, parameters.levels);
+      outcome = mannWhitneyTest(names, groups, context);
+      break;
+    }
+    case 'wilcoxon': {
+      const { pairedVariable, mu = 0 } = parameters;
+      const values = pairedVariable
+        ? pairedDifferences(context, parameters.variable, pairedVariable)
+        : completeValues(context, parameters.variable).map(value => value - mu);
+      outcome = wilcoxonSignedRankTest(values, pairedVariable ? `${parameters.variable} - ${pairedVariable}` : parameters.variable, context);
+      break;
+    }
+    case 'kruskal_wallis': {
+      const { names, groups } = groupedValues(context, parameters.outcome, parameters.group);
+      outcome = kruskalWallisTest(names, groups, context);
+      break;
+    }
+    case 'correlation': {
+      const [x, y] = completePairs(context, parameters.x, parameters.y);
+      outcome = correlationTest(x, y, parameters.method ?? 'pearson', [parameters.x, parameters.y], context);
+      break;
+    }
+    default:
+      throw new StatsInputError(`Unsupported test: ${(parameters as { test: string }).test}`);
+  }
+
+  return {
+    test: parameters.test,
+    confidenceLevel,
+    ...outcome,
+    rowErrors: context.errors,
+    warnings: context.warnings,
+  };
+}
@@ -0,0 +1,117 @@
+import { Study } from '@/types/meta-analysis';
+import type { InfluenceResults, MetaAnalysisParameters, StudyInfluence } from '@/lib/services/meta-analysis';
+import { normalQuantile } from './distributions';
+import { StatsInputError } from './errors';
+import {
+  getEffectData,
+  independentModelType,
+  isCiMethod,
+  isTauSquaredMethod,
+  poolEffects,
+  reportingTransform,
+  TauSquaredMethod,
+} from './meta-analysis';
+
+/**
+ * Case-deletion diagnostics for the intercept-only model, following metafor's
+ * influence(): every study is removed in turn and the model refitted. `onStudy` is
+ * called after each refit.
+ */
+export function runInfluenceDiagnostics(
+  studies: Study[],
+  parameters: MetaAnalysisParameters,
+  onStudy?: (study: StudyInfluence, index: number) => void
+): InfluenceResults {
+  const modelType = independentModelType(parameters.modelType, 'Influence diagnostics');
+  const method = parameters.method ?? 'REML';
+  if (modelType === 'RE' && !isTauSquaredMethod(method)) {
+    throw new StatsInputError(`Unsupported tau² estimator: ${method}`);
+  }
+  if (parameters.ciMethod && !isCiMethod(parameters.ciMethod)) {
+    throw new StatsInputError(`Unsupported confidence interval method: ${parameters.ciMethod}`);
+  }
+
+  const k = studies.length;
+  if (k < 3) {
+    throw new StatsInputError('Influence diagnostics require at least 3 studies');
+  }
+
+  const { yi, vi } = getEffectData(studies, parameters.effectMeasure);
+  const options = {
+    modelType,
+    method: method as TauSquaredMethod,
+    ciMethod: parameters.ciMethod,
+  };
+  const full = poolEffects(yi, vi, options);
+  const fixed = poolEffects(yi, vi, { modelType: 'FE' });
+  const sumW = full.weights.reduce((a, b) => a + b, 0);
+  const variance = full.se * full.se;
+
+  // One coefficient, so p = 1 throughout; the Cook's distance cut-off is the median of
+  // a chi-square with one degree of freedom
+  const p = 1;
+  const cutoffs = {
+    rstudent: normalQuantile(0.975),
+    dffits: 3 * Math.sqrt(p / (k - p)),
+    cooksDistance: normalQuantile(0.75) ** 2,
+    hat: (3 * p) / k,
+    dfbetas: 1,
+  };
+
+  const transform = reportingTransform(parameters.effectMeasure, studies);
+
+  const results = studies.map((study, i) => {
+    const keepY = yi.filter((_, j) => j !== i);
+    const keepV = vi.filter((_, j) => j !== i);
+    const deleted = poolEffects(keepY, keepV, options);
+    const fixedDeleted = poolEffects(keepY, keepV, { modelType: 'FE' });
+    const varianceDeleted = deleted.se * deleted.se;
+
+    const hat = full.weights[i] / sumW;
+    const change = full.estimate - deleted.estimate;
+    const rstudent = (yi[i] - deleted.estimate) / Math.sqrt(vi[i] + deleted.tauSquared + varianceDeleted);
+    const dffits = change / Math.sqrt(hat * (vi[i] + deleted.tauSquared));
+    const cooksDistance = (change * change) / variance;
+    const dfbetas = change / deleted.se;
+
+    const flags = {
+      outlier: Math.abs(rstudent) > cutoffs.rstudent,
+      dffits: Math.abs(dffits) > cutoffs.dffits,
+      cooksDistance: cooksDistance > cutoffs.cooksDistance,
+      hat: hat > cutoffs.hat,
+      dfbetas: Math.abs(dfbetas) > cutoffs.dfbetas,
+      influential: false,
+    };
+    flags.influential = flags.dffits || flags.cooksDistance || flags.hat || flags.dfbetas;
+
+    const result: StudyInfluence = {
+      studyId: study.study_id,
+      studyLabel: study.study_label,
+      rstudent,
+      dffits,
+      cooksDistance,
+      covRatio: varianceDeleted / variance,
+      hat,
+      weight: 100 * hat,
+      dfbetas,
+      estimateDeleted: transform(deleted.estimate),
+      tauSquaredDeleted: deleted.tauSquared,
+      qDeleted: deleted.qStatistic,
+      // Baujat et al. (2002) use the fixed-effect model for both axes
+      baujat: {
+        x: (yi[i] - fixed.estimate) ** 2 / vi[i],
+        y: (fixed.estimate - fixedDeleted.estimate) ** 2 / (fixedDeleted.se * fixedDeleted.se),
+      },
+      flags,
+    };
+    onStudy?.(result, i);
+    return result;
+  });
+
+  const warnings: string[] = [];
+  if (k < 10) {
+    warnings.push('With fewer than 10 studies the cut-offs flag studies readily; interpret flags with caution');
+  }
+
+  return { k, cutoffs, studies: results, warnings };
+}
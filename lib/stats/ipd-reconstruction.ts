@@ -0,0 +1,262 @@
+import type {
+  AtRiskEntry,
+  DigitizedArm,
+  DigitizedPoint,
+  IpdReconstructionParameters,
+  IpdReconstructionResults,
+  ReconstructedArm,
+  ReconstructedPatient,
+} from '@/lib/services/ipd-reconstruction';
+import { StatsInputError } from './errors';
+import { runSurvivalAnalysis } from './survival';
+
+// Bound on the censoring adjustments within one at-risk interval
+const MAX_ADJUSTMENTS = 100;
+
+interface ArmReconstruction {
+  patients: ReconstructedPatient[];
+  warnings: string[];
+}
+
+/**
+ * Sort the digitized points, start the curve at (0, 1) and remove the small rises that
+ * digitizing a step curve leaves behind
+ */
+function cleanCurve(curve: DigitizedPoint[]): DigitizedPoint[] {
+  const points = curve
+    .filter(point => Number.isFinite(point.time) && Number.isFinite(point.survival) && point.time >= 0)
+    .map(point => ({ time: point.time, survival: Math.min(1, Math.max(0, point.survival)) }))
+    .sort((a, b) => a.time - b.time || b.survival - a.survival);
+
+  if (points.length === 0 || points[0].time > 0) {
+    points.unshift({ time: 0, survival: 1 });
+  } else {
+    points[0] = { time: 0, survival: 1 };
+  }
+
+  for (let k = 1; k < points.length; k++) {
+    points[k].survival = Math.min(points[k].survival, points[k - 1].survival);
+  }
+  return points;
+}
+
+/**
+ * Keep the at-risk rows that have digitized points in their interval; a row without any
+ * is merged into the interval before it
+ */
+function usableAtRisk(atRisk: AtRiskEntry[], times: number[], warnings: string[]): AtRiskEntry[] {
+  const sorted = [...atRisk].sort((a, b) => a.time - b.time);
+  if (sorted.length === 0 || sorted[0].time !== 0) {
+    throw new StatsInputError('The numbers at risk must start at time 0');
+  }
+  sorted.forEach((entry, i) => {
+    if (!Number.isInteger(entry.nRisk) || entry.nRisk < 0) {
+      throw new StatsInputError('Numbers at risk must be non-negative whole numbers');
+    }
+    if (i > 0 && entry.nRisk > sorted[i - 1].nRisk) {
+      throw new StatsInputError(`The number at risk rises at time ${entry.time}`);
+    }
+  });
+
+  const kept = sorted.filter((entry, i) => {
+    const end = i + 1 < sorted.length ? sorted[i + 1].time : Infinity;
+    return times.some(time => time >= entry.time && time < end);
+  });
+  const dropped = sorted.length - kept.length;
+  if (dropped > 0) {
+    warnings.push(`${dropped} at-risk ${dropped === 1 ? 'time has' : 'times have'} no digitized points and ${dropped === 1 ? 'was' : 'were'} merged into the previous interval`);
+  }
+  return kept;
+}
+
+/**
+ * Reconstruct the event and censoring times of one arm with the algorithm of Guyot et al.
+ * (2012). Within each interval of the at-risk table, censoring is spread evenly and its
+ * amount adjusted until the reconstructed number at risk at the next row matches the
+ * published one; events then follow from the drops of the digitized curve.
+ */
+function reconstructArm(arm: DigitizedArm): ArmReconstruction {
+  const warnings: string[] = [];
+  const curve = cleanCurve(arm.curve);
+  const times = curve.map(point => point.time);
+  const survival = curve.map(point => point.survival);
+  const atRisk = usableAtRisk(arm.atRisk, times, warnings);
+  const last = curve.length - 1;
+
+  const lower = atRisk.map(entry => times.findIndex(time => time >= entry.time));
+  const upper = lower.map((_, i) => (i + 1 < lower.length ? lower[i + 1] - 1 : last));
+
+  const nHat = new Array(curve.length + 1).fill(0);
+  const events = new Array(curve.length).fill(0);
+  const censored = new Array(curve.length).fill(0);
+  const censorTimes: number[] = [];
+  let reference = 1;
+  let censoredSoFar = 0;
+  let eventsSoFar = 0;
+
+  atRisk.forEach((entry, i) => {
+    const lo = lower[i];
+    const hi = upper[i];
+    const isLast = i + 1 === atRisk.length;
+    // Censoring is spread up to the first point of the next interval
+    const end = isLast ? times[hi] : times[lower[i + 1]];
+
+    let nCensor: number;
+    if (!isLast) {
+      const ratio = survival[lo] > 0 ? survival[lower[i + 1]] / survival[lo] : 0;
+      nCensor = Math.round(entry.nRisk * ratio - atRisk[i + 1].nRisk);
+    } else if (i > 0 && times[upper[i - 1]] > times[lower[0]]) {
+      // Without a later at-risk row, censoring continues at the average rate so far
+      const rate = censoredSoFar / (times[upper[i - 1]] - times[lower[0]]);
+      nCensor = Math.round(rate * (times[hi] - times[lo]));
+    } else {
+      nCensor = 0;
+    }
+    nCensor = Math.min(Math.max(nCensor, 0), entry.nRisk);
+
+    let intervalReference = reference;
+    let intervalCensorTimes: number[] = [];
+    const tried = new Set<number>();
+
+    for (let adjustment = 0; adjustment < MAX_ADJUSTMENTS; adjustment++) {
+      tried.add(nCensor);
+      const intervalTimes = Array.from({ length: nCensor }, (_, j) => times[lo] + ((j + 1) * (end - times[lo])) / (nCensor + 1));
+      intervalReference = reference;
+      intervalCensorTimes = [];
+      nHat[lo] = entry.nRisk;
+
+      for (let k = lo; k <= hi; k++) {
+        const next = k < hi ? times[k + 1] : Infinity;
+        const censorings = intervalTimes.filter(time => time >= times[k] && time < next);
+        if (k === 0) {
+          events[k] = 0;
+        } else {
+          const drop = intervalReference > 0 ? 1 - survival[k] / intervalReference : 0;
+          events[k] = Math.min(Math.max(Math.round(nHat[k] * drop), 0), nHat[k]);
+        }
+        censored[k] = Math.min(censorings.length, nHat[k] - events[k]);
+        intervalCensorTimes.push(...censorings.slice(0, censored[k]));
+        if (events[k] > 0) {
+          intervalReference *= 1 - events[k] / nHat[k];
+        }
+        nHat[k + 1] = nHat[k] - events[k] - censored[k];
+      }
+
+      let difference: number;
+      if (!isLast) {
+        difference = nHat[hi + 1] - atRisk[i + 1].nRisk;
+      } else if (arm.totalEvents !== undefined) {
+        // Too many reconstructed events means too little censoring
+        const intervalEvents = events.slice(lo, hi + 1).reduce((sum, value) => sum + value, 0);
+        difference = eventsSoFar + intervalEvents - arm.totalEvents;
+      } else {
+        break;
+      }
+
+      const adjusted = Math.min(Math.max(nCensor + difference, 0), entry.nRisk);
+      if (difference === 0 || tried.has(adjusted)) {
+        if (difference !== 0) {
+          warnings.push(isLast
+            ? `The reconstructed events differ from the reported total by ${difference}`
+            : `The reconstructed number at risk at time ${atRisk[i + 1].time} is off by ${difference}`);
+        }
+        break;
+      }
+      nCensor = adjusted;
+    }
+
+    reference = intervalReference;
+    censorTimes.push(...intervalCensorTimes);
+    censoredSoFar += intervalCensorTimes.length;
+    eventsSoFar += events.slice(lo, hi + 1).reduce((sum, value) => sum + value, 0);
+  });
+
+  const patients: ReconstructedPatient[] = [];
+  events.forEach((count, k) => {
+    for (let j = 0; j < count; j++) patients.push({ time: times[k], event: true });
+  });
+  censorTimes.forEach(time => patients.push({ time, event: false }));
+  // Patients still at risk after the last point are censored there
+  for (let j = 0; j < nHat[curve.length]; j++) patients.push({ time: times[last], event: false });
+  patients.sort((a, b) => a.time - b.time);
+
+  return { patients, warnings };
+}
+
+function summarizeArm(patients: ReconstructedPatient[], curve: ReconstructedArm['curve']): ReconstructedArm {
+  const events = patients.filter(patient => patient.event).length;
+  return { n: patients.length, events, censored: patients.length - events, patients, curve };
+}
+
+/**
+ * Reconstruct both arms of a trial from digitized Kaplan-Meier curves and numbers at risk,
+ * and estimate the treatment hazard ratio with a Cox model of the reconstructed data
+ */
+export function reconstructHazardRatio(parameters: IpdReconstructionParameters): IpdReconstructionResults {
+  const arms = { treatment: parameters.treatment, control: parameters.control };
+  const reconstructed = {} as Record<keyof typeof arms, ArmReconstruction>;
+  const warnings: string[] = [];
+
+  (Object.keys(arms) as (keyof typeof arms)[]).forEach(arm => {
+    try {
+      reconstructed[arm] = reconstructArm(arms[arm]);
+    } catch (error) {
+      if (!(error instanceof StatsInputError)) throw error;
+      throw new StatsInputError(`${arm === 'treatment' ? 'Treatment' : 'Control'} arm: ${error.message}`);
+    }
+    warnings.push(...reconstructed[arm].warnings.map(warning => `${arm === 'treatment' ? 'Treatment' : 'Control'} arm: ${warning}`));
+  });
+
+  // Levels are coded so that the Cox model compares treatment against control
+  const rows = (Object.keys(reconstructed) as (keyof typeof arms)[]).flatMap(arm =>
+    reconstructed[arm].patients.map(patient => ({ time: patient.time, event: patient.event ? 1 : 0, arm })));
+  const survival = runSurvivalAnalysis(
+    { headers: ['time', 'event', 'arm'], rows, rowNumbers: rows.map((_, i) => i + 1) },
+    {
+      time: 'time',
+      event: 'event',
+      group: 'arm',
+      covariates: ['arm'],
+      confidenceLevel: parameters.confidenceLevel,
+    }
+  );
+  warnings.push(...survival.warnings);
+
+  const coefficient = survival.cox?.coefficients[0];
+  if (!coefficient || !survival.logRank) {
+    throw new StatsInputError('The reconstructed data do not support a hazard ratio; check that both arms have events');
+  }
+
+  const curveOf = (arm: string) => survival.kaplanMeier.find(curve => curve.group === arm)?.points ?? [];
+  const treatment = summarizeArm(reconstructed.treatment.patients, curveOf('treatment'));
+  const control = summarizeArm(reconstructed.control.patients, curveOf('control'));
+
+  return {
+    logHazardRatio: coefficient.estimate,
+    se: coefficient.se,
+    hazardRatio: coefficient.hazardRatio,
+    lower: coefficient.lower,
+    upper: coefficient.upper,
+    pValue: coefficient.pValue,
+    logRank: survival.logRank,
+    treatment,
+    control,
+    study: {
+      study_id: parameters.studyId,
+      study_label: parameters.studyLabel,
+      ...(parameters.year !== undefined ? { year: parameters.year } : {}),
+      ...(parameters.author !== undefined ? { author: parameters.author } : {}),
+      effect_size: coefficient.hazardRatio,
+      log_effect_size: coefficient.estimate,
+      se: coefficient.se,
+      weight: 1 / (coefficient.se * coefficient.se),
+      ci_lower: coefficient.lower,
+      ci_upper: coefficient.upper,
+      p_value: coefficient.pValue,
+      n_treatment: treatment.n,
+      n_control: control.n,
+      effect_formula: 'reconstructed_ipd',
+    },
+    warnings,
+  };
+}
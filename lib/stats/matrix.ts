@@ -0,0 +1,179 @@
+import { StatsInputError } from './errors';
+
+export type Matrix = number[][];
+
+export interface WeightedLeastSquaresFit {
+  coefficients: number[];
+  // (X'WX)^-1, the covariance of the coefficients when the weights are inverse variances
+  covariance: Matrix;
+  fitted: number[];
+  residuals: number[];
+  // Weighted residual sum of squares
+  rss: number;
+  df: number;
+}
+
+export function transpose(a: Matrix): Matrix {
+  if (a.length === 0) return [];
+  return a[0].map((_, j) => a.map(row => row[j]));
+}
+
+export function multiply(a: Matrix, b: Matrix): Matrix {
+  return a.map(row =>
+    b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0))
+  );
+}
+
+export function multiplyVector(a: Matrix, x: number[]): number[] {
+  return a.map(row => row.reduce((sum, value, j) => sum + value * x[j], 0));
+}
+
+export function identity(n: number): Matrix {
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+}
+
+/**
+ * Invert a square matrix by Gauss-Jordan elimination with partial pivoting
+ */
+export function invert(a: Matrix): Matrix {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, ...identity(n)[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+
+    const scale = Math.max(1, ...a.map(row => Math.abs(row[col])));
+    if (Math.abs(m[pivot][col]) < 1e-12 * scale) {
+      throw new StatsInputError('Matrix is singular; check for collinear or constant predictors');
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    const divisor = m[col][col];
+    for (let j = 0; j < 2 * n; j++) m[col][j] /= divisor;
+
+    for (let row = 0; row < n; row++) {
+      if (row === col || m[row][col] === 0) continue;
+      const factor = m[row][col];
+      for (let j = 0; j < 2 * n; j++) m[row][j] -= factor * m[col][j];
+    }
+  }
+
+  return m.map(row => row.slice(n));
+}
+
+/**
+ * Upper-triangular Cholesky factor U of a symmetric positive-definite matrix, A = U'U
+ */
+export function cholesky(a: Matrix): Matrix {
+  const n = a.length;
+  const u: Matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      let sum = a[i][j];
+      for (let k = 0; k < i; k++) sum -= u[k][i] * u[k][j];
+      if (i === j) {
+        if (sum <= 0) throw new StatsInputError('Matrix is not positive definite');
+        u[i][i] = Math.sqrt(sum);
+      } else {
+        u[i][j] = sum / u[i][i];
+      }
+    }
+  }
+
+  return u;
+}
+
+/**
+ * Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations. The columns of
+ * `vectors` are the eigenvectors.
+ */
+export function symmetricEigen(a: Matrix): { values: number[]; vectors: Matrix } {
+  const n = a.length;
+  const m = a.map(row => [...row]);
+  const vectors = identity(n);
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) offDiagonal += m[i][j] * m[i][j];
+    }
+    if (offDiagonal < 1e-24) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(m[p][q]) < 1e-300) continue;
+        const theta = (m[q][q] - m[p][p]) / (2 * m[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const mkp = m[k][p];
+          const mkq = m[k][q];
+          m[k][p] = c * mkp - s * mkq;
+          m[k][q] = s * mkp + c * mkq;
+        }
+        for (let k = 0; k < n; k++) {
+          const mpk = m[p][k];
+          const mqk = m[q][k];
+          m[p][k] = c * mpk - s * mqk;
+          m[q][k] = s * mpk + c * mqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = vectors[k][p];
+          const vkq = vectors[k][q];
+          vectors[k][p] = c * vkp - s * vkq;
+          vectors[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: m.map((row, i) => row[i]), vectors };
+}
+
+/**
+ * Symmetric inverse square root A^(-1/2) of a symmetric positive semi-definite matrix;
+ * directions with (numerically) zero eigenvalues are dropped, giving the Moore-Penrose
+ * version
+ */
+export function inverseSquareRoot(a: Matrix): Matrix {
+  const { values, vectors } = symmetricEigen(a);
+  const tolerance = 1e-12 * Math.max(1, ...values.map(Math.abs));
+  const n = a.length;
+
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) =>
+    values.reduce((sum, value, k) =>
+      value > tolerance ? sum + (vectors[i][k] * vectors[j][k]) / Math.sqrt(value) : sum, 0)
+  ));
+}
+
+/**
+ * Weighted least squares fit of y on the columns of X
+ */
+export function weightedLeastSquares(x: Matrix, y: number[], weights: number[]): WeightedLeastSquaresFit {
+  const p = x[0]?.length ?? 0;
+  const xtwx: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+  const xtwy: number[] = new Array(p).fill(0);
+
+  x.forEach((row, i) => {
+    for (let a = 0; a < p; a++) {
+      xtwy[a] += row[a] * weights[i] * y[i];
+      for (let b = 0; b < p; b++) {
+        xtwx[a][b] += row[a] * weights[i] * row[b];
+      }
+    }
+  });
+
+  const covariance = invert(xtwx);
+  const coefficients = multiplyVector(covariance, xtwy);
+  const fitted = multiplyVector(x, coefficients);
+  const residuals = y.map((value, i) => value - fitted[i]);
+  const rss = residuals.reduce((sum, r, i) => sum + weights[i] * r * r, 0);
+
+  return { coefficients, covariance, fitted, residuals, rss, df: y.length - p };
+}
@@ -0,0 +1,387 @@
+import { Study } from '@/types/meta-analysis';
+import type {
+  CiMethod,
+  MetaAnalysisParameters,
+  MetaAnalysisResults,
+  ModelType,
+  MultilevelModelType,
+} from '@/lib/services/meta-analysis';
+import { chiSquareSurvival, normalQuantile, normalTwoSidedP, tQuantile, tTwoSidedP } from './distributions';
+import { StatsInputError } from './errors';
+import { isProportionMeasure, proportionTransform } from './proportions';
+
+export type TauSquaredMethod = 'DL' | 'REML' | 'PM' | 'SJ' | 'HE';
+
+export const TAU_SQUARED_METHODS: TauSquaredMethod[] = ['DL', 'REML', 'PM', 'SJ', 'HE'];
+
+export const CI_METHODS: CiMethod[] = ['z', 'hksj', 'hksj-truncated'];
+
+export const MULTILEVEL_MODEL_TYPES: MultilevelModelType[] = ['THREE_LEVEL', 'RVE'];
+
+// Effect measures that are pooled on the log scale and exponentiated for reporting,
+// mirroring run_analysis.R
+export const RATIO_MEASURES = ['OR', 'RR', 'DOR', 'HR'];
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+export interface PoolingOptions {
+  modelType: 'FE' | 'RE';
+  method?: TauSquaredMethod;
+  ciMethod?: CiMethod;
+  level?: number;
+  // Use this tau² instead of estimating it, e.g. a value shared across subgroups
+  tauSquared?: number;
+}
+
+export interface PooledEstimate {
+  k: number;
+  estimate: number;
+  se: number;
+  statistic: number;
+  // Degrees of freedom of the t reference distribution; absent for z-based inference
+  df?: number;
+  pValue: number;
+  ciMethod: CiMethod;
+  ciLower: number;
+  ciUpper: number;
+  tauSquared: number;
+  qStatistic: number;
+  qDf: number;
+  qPvalue: number;
+  iSquared: number;
+  hSquared: number;
+  weights: number[];
+  predictionInterval?: {
+    lower: number;
+    upper: number;
+  };
+}
+
+export function isRatioMeasure(effectMeasure: string): boolean {
+  return RATIO_MEASURES.includes(effectMeasure.toUpperCase());
+}
+
+export function isTauSquaredMethod(method: string): method is TauSquaredMethod {
+  return (TAU_SQUARED_METHODS as string[]).includes(method);
+}
+
+export function isCiMethod(method: string): method is CiMethod {
+  return (CI_METHODS as string[]).includes(method);
+}
+
+export function isMultilevelModel(modelType: string): modelType is MultilevelModelType {
+  return (MULTILEVEL_MODEL_TYPES as string[]).includes(modelType);
+}
+
+/**
+ * Narrow the model type for analyses that treat studies as independent, rejecting the
+ * three-level and RVE models
+ */
+export function independentModelType(modelType: ModelType, analysis: string): 'FE' | 'RE' {
+  if (isMultilevelModel(modelType)) {
+    throw new StatsInputError(`${analysis} is not available for three-level or RVE models`);
+  }
+  return modelType;
+}
+
+/**
+ * Map values from the analysis scale to the reporting scale: exponentiated for ratio
+ * measures and back to proportions for proportion measures
+ */
+export function reportingTransform(effectMeasure: string, studies: Study[] = []): (x: number) => number {
+  const measure = effectMeasure.toUpperCase();
+  if (isProportionMeasure(measure)) return proportionTransform(measure, studies);
+  return isRatioMeasure(measure) ? Math.exp : (x: number) => x;
+}
+
+/**
+ * Extract effect sizes (yi) and sampling variances (vi) on the analysis scale
+ */
+export function getEffectData(studies: Study[], effectMeasure: string): { yi: number[]; vi: number[] } {
+  const ratio = isRatioMeasure(effectMeasure);
+  const measure = effectMeasure.toUpperCase();
+  // Only raw proportions can be pooled from a reported effect size without the counts
+  const transformed = isProportionMeasure(measure) && measure !== 'PR';
+  const yi: number[] = [];
+  const vi: number[] = [];
+
+  studies.forEach(study => {
+    let y: number;
+    if (typeof study.log_effect_size === 'number') {
+      y = study.log_effect_size;
+    } else if (typeof study.transformed_effect_size === 'number') {
+      y = study.transformed_effect_size;
+    } else if (transformed) {
+      throw new StatsInputError(`Study ${study.study_label} needs events and a sample size for ${measure}`);
+    } else if (ratio) {
+      if (!(study.effect_size > 0)) {
+        throw new StatsInputError(`Study ${study.study_label} has a non-positive ${effectMeasure}`);
+      }
+      y = Math.log(study.effect_size);
+    } else {
+      y = study.effect_size;
+    }
+
+    if (!Number.isFinite(y) || !Number.isFinite(study.se) || study.se <= 0) {
+      throw new StatsInputError(`Study ${study.study_label} has an invalid effect size or standard error`);
+    }
+
+    yi.push(y);
+    vi.push(study.se * study.se);
+  });
+
+  return { yi, vi };
+}
+
+function weightedMean(yi: number[], wi: number[]): number {
+  let sumW = 0;
+  let sumWY = 0;
+  for (let i = 0; i < yi.length; i++) {
+    sumW += wi[i];
+    sumWY += wi[i] * yi[i];
+  }
+  return sumWY / sumW;
+}
+
+function cochranQ(yi: number[], vi: number[]): number {
+  const wi = vi.map(v => 1 / v);
+  const mu = weightedMean(yi, wi);
+  return yi.reduce((sum, y, i) => sum + wi[i] * (y - mu) ** 2, 0);
+}
+
+function generalizedQ(yi: number[], vi: number[], tauSquared: number): number {
+  const wi = vi.map(v => 1 / (v + tauSquared));
+  const mu = weightedMean(yi, wi);
+  return yi.reduce((sum, y, i) => sum + wi[i] * (y - mu) ** 2, 0);
+}
+
+function dersimonianLaird(yi: number[], vi: number[]): number {
+  const k = yi.length;
+  const wi = vi.map(v => 1 / v);
+  const sumW = wi.reduce((a, b) => a + b, 0);
+  const sumW2 = wi.reduce((a, b) => a + b * b, 0);
+  return Math.max(0, (cochranQ(yi, vi) - (k - 1)) / (sumW - sumW2 / sumW));
+}
+
+function hedges(yi: number[], vi: number[]): number {
+  const k = yi.length;
+  const mean = yi.reduce((a, b) => a + b, 0) / k;
+  const ss = yi.reduce((sum, y) => sum + (y - mean) ** 2, 0);
+  const meanV = vi.reduce((a, b) => a + b, 0) / k;
+  return Math.max(0, ss / (k - 1) - meanV);
+}
+
+function sidikJonkman(yi: number[], vi: number[]): number {
+  const k = yi.length;
+  const mean = yi.reduce((a, b) => a + b, 0) / k;
+  const tau0 = yi.reduce((sum, y) => sum + (y - mean) ** 2, 0) / k;
+  if (tau0 === 0) return 0;
+  return tau0 * generalizedQ(yi, vi, tau0) / (k - 1);
+}
+
+function pauleMandel(yi: number[], vi: number[]): number {
+  const df = yi.length - 1;
+  if (generalizedQ(yi, vi, 0) <= df) return 0;
+
+  // Q(tau²) is monotonically decreasing, so bracket the root and bisect
+  let lo = 0;
+  let hi = Math.max(dersimonianLaird(yi, vi), 1e-4);
+  while (generalizedQ(yi, vi, hi) > df) hi *= 2;
+
+  for (let i = 0; i < 200 && hi - lo > TOLERANCE * Math.max(1, hi); i++) {
+    const mid = (lo + hi) / 2;
+    if (generalizedQ(yi, vi, mid) > df) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+function restrictedMaximumLikelihood(yi: number[], vi: number[]): number {
+  let tauSquared = dersimonianLaird(yi, vi);
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const wi = vi.map(v => 1 / (v + tauSquared));
+    const mu = weightedMean(yi, wi);
+    const sumW = wi.reduce((a, b) => a + b, 0);
+    const sumW2 = wi.reduce((a, b) => a + b * b, 0);
+    const numerator = yi.reduce((sum, y, j) => sum + wi[j] ** 2 * ((y - mu) ** 2 - vi[j]), 0);
+    const next = Math.max(0, numerator / sumW2 + 1 / sumW);
+
+    if (Math.abs(next - tauSquared) < TOLERANCE) {
+      return next;
+    }
+    tauSquared = next;
+  }
+
+  return tauSquared;
+}
+
+/**
+ * Estimate the between-study variance with the requested estimator
+ */
+export function estimateTauSquared(yi: number[], vi: number[], method: TauSquaredMethod = 'REML'): number {
+  if (yi.length < 2) return 0;
+
+  switch (method) {
+    case 'DL':
+      return dersimonianLaird(yi, vi);
+    case 'REML':
+      return restrictedMaximumLikelihood(yi, vi);
+    case 'PM':
+      return pauleMandel(yi, vi);
+    case 'SJ':
+      return sidikJonkman(yi, vi);
+    case 'HE':
+      return hedges(yi, vi);
+    default:
+      throw new StatsInputError(`Unsupported tau² estimator: ${method}`);
+  }
+}
+
+/**
+ * Pool effect sizes on the analysis scale with an inverse-variance model
+ */
+export function poolEffects(yi: number[], vi: number[], options: PoolingOptions): PooledEstimate {
+  const k = yi.length;
+  if (k === 0) {
+    throw new StatsInputError('At least one study is required for pooling');
+  }
+
+  const level = options.level ?? 0.95;
+  const zCrit = normalQuantile(1 - (1 - level) / 2);
+  const qStatistic = cochranQ(yi, vi);
+  const qDf = k - 1;
+  const qPvalue = qDf > 0 ? chiSquareSurvival(qStatistic, qDf) : 1;
+
+  const tauSquared = options.modelType === 'RE'
+    ? options.tauSquared ?? estimateTauSquared(yi, vi, options.method ?? 'REML')
+    : 0;
+
+  const weights = vi.map(v => 1 / (v + tauSquared));
+  const sumW = weights.reduce((a, b) => a + b, 0);
+  const estimate = weightedMean(yi, weights);
+  const ciMethod = options.ciMethod ?? 'z';
+
+  let se = Math.sqrt(1 / sumW);
+  let df: number | undefined;
+  if (ciMethod !== 'z' && k > 1) {
+    // Hartung-Knapp-Sidik-Jonkman: rescale the variance by the weighted residual
+    // mean square and use a t distribution with k - 1 degrees of freedom
+    const scale = yi.reduce((sum, y, i) => sum + weights[i] * (y - estimate) ** 2, 0) / qDf;
+    se *= Math.sqrt(ciMethod === 'hksj-truncated' ? Math.max(1, scale) : scale);
+    df = qDf;
+  }
+
+  const statistic = estimate / se;
+  const crit = df !== undefined ? tQuantile(1 - (1 - level) / 2, df) : zCrit;
+  const pValue = df !== undefined ? tTwoSidedP(statistic, df) : normalTwoSidedP(statistic);
+
+  // I² and H² follow metafor: based on Q for the fixed-effect model and on tau² relative
+  // to the typical within-study variance for random-effects models
+  let iSquared = 0;
+  let hSquared = 1;
+  if (qDf > 0) {
+    if (options.modelType === 'RE') {
+      const wi = vi.map(v => 1 / v);
+      const sumWi = wi.reduce((a, b) => a + b, 0);
+      const sumWi2 = wi.reduce((a, b) => a + b * b, 0);
+      const typicalVariance = (qDf * sumWi) / (sumWi * sumWi - sumWi2);
+      iSquared = (100 * tauSquared) / (tauSquared + typicalVariance);
+      hSquared = (tauSquared + typicalVariance) / typicalVariance;
+    } else {
+      iSquared = qStatistic > 0 ? Math.max(0, (100 * (qStatistic - qDf)) / qStatistic) : 0;
+      hSquared = qStatistic / qDf;
+    }
+  }
+
+  const result: PooledEstimate = {
+    k,
+    estimate,
+    se,
+    statistic,
+    df,
+    pValue,
+    ciMethod,
+    ciLower: estimate - crit * se,
+    ciUpper: estimate + crit * se,
+    tauSquared,
+    qStatistic,
+    qDf,
+    qPvalue,
+    iSquared,
+    hSquared,
+    weights,
+  };
+
+  if (options.modelType === 'RE' && k > 1) {
+    const tCrit = tQuantile(1 - (1 - level) / 2, k - 1);
+    const piSe = Math.sqrt(tauSquared + se * se);
+    result.predictionInterval = {
+      lower: estimate - tCrit * piSe,
+      upper: estimate + tCrit * piSe,
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Convert a pooled estimate to the run_analysis.R result shape, back-transforming
+ * ratio and proportion measures to the reporting scale
+ */
+export function toMetaAnalysisResults(
+  pooled: PooledEstimate,
+  effectMeasure: string,
+  studies: Study[] = []
+): MetaAnalysisResults {
+  const transform = reportingTransform(effectMeasure, studies);
+
+  const results: MetaAnalysisResults = {
+    overallEffect: transform(pooled.estimate),
+    ciLower: transform(pooled.ciLower),
+    ciUpper: transform(pooled.ciUpper),
+    pValue: pooled.pValue,
+    ciMethod: pooled.ciMethod,
+    heterogeneity: {
+      iSquared: pooled.iSquared,
+      tauSquared: pooled.tauSquared,
+      hSquared: pooled.hSquared,
+      qStatistic: pooled.qStatistic,
+      qDf: pooled.qDf,
+      qPvalue: pooled.qPvalue,
+    },
+  };
+
+  if (pooled.predictionInterval) {
+    results.predictionInterval = {
+      lower: transform(pooled.predictionInterval.lower),
+      upper: transform(pooled.predictionInterval.upper),
+    };
+  }
+
+  return results;
+}
+
+/**
+ * Run a meta-analysis in-process, returning the same shape as run_analysis.R
+ */
+export function poolStudies(studies: Study[], parameters: MetaAnalysisParameters): MetaAnalysisResults {
+  const modelType = independentModelType(parameters.modelType, 'Univariate pooling');
+  const method = parameters.method ?? 'REML';
+  if (modelType === 'RE' && !isTauSquaredMethod(method)) {
+    throw new StatsInputError(`Unsupported tau² estimator: ${method}`);
+  }
+  if (parameters.ciMethod && !isCiMethod(parameters.ciMethod)) {
+    throw new StatsInputError(`Unsupported confidence interval method: ${parameters.ciMethod}`);
+  }
+
+  const { yi, vi } = getEffectData(studies, parameters.effectMeasure);
+  const pooled = poolEffects(yi, vi, {
+    modelType,
+    method: method as TauSquaredMethod,
+    ciMethod: parameters.ciMethod,
+  });
+
+  return toMetaAnalysisResults(pooled, parameters.effectMeasure, studies);
+}
@@ -0,0 +1,495 @@
+import { Study } from '@/types/meta-analysis';
+import type {
+  BubblePlotData,
+  CiMethod,
+  MetaRegressionCoefficient,
+  MetaRegressionParameters,
+  MetaRegressionResults,
+  ModeratorTest,
+} from '@/lib/services/meta-analysis';
+import { chiSquareSurvival, fSurvival, normalQuantile, normalTwoSidedP, tQuantile, tTwoSidedP } from './distributions';
+import { StatsInputError } from './errors';
+import {
+  getEffectData,
+  independentModelType,
+  isCiMethod,
+  isRatioMeasure,
+  isTauSquaredMethod,
+  TauSquaredMethod,
+} from './meta-analysis';
+import { invert, Matrix } from './matrix';
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+// Points along the moderator range for the bubble plot regression line
+const BUBBLE_LINE_POINTS = 50;
+
+export const MAX_PERMUTATIONS = 10000;
+
+interface DesignColumn {
+  name: string;
+  term: string;
+}
+
+interface Design {
+  columns: DesignColumn[];
+  // Model matrix row for a set of moderator values
+  row(values: Record<string, unknown>): number[];
+  levels: Record<string, string[]>;
+  continuous: string[];
+}
+
+interface MixedModelFit {
+  coefficients: number[];
+  covariance: Matrix;
+  tauSquared: number;
+  weights: number[];
+  // Knapp-Hartung scale factor; 1 for Wald-type inference
+  scale: number;
+}
+
+interface ModelOptions {
+  modelType: 'FE' | 'RE';
+  method: TauSquaredMethod;
+  ciMethod: CiMethod;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '' ||
+    (typeof value === 'number' && !Number.isFinite(value));
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Dummy-code categorical moderators and multiply out interaction terms
+ */
+function buildDesign(studies: Study[], parameters: MetaRegressionParameters): Design {
+  const categorical = new Set(parameters.categorical ?? []);
+  const levels: Record<string, string[]> = {};
+  const continuous: string[] = [];
+
+  // Columns contributed by each moderator, as functions of a study's values
+  const termColumns = new Map<string, Array<{ suffix: string; value: (values: Record<string, unknown>) => number }>>();
+
+  parameters.moderators.forEach(moderator => {
+    const values = studies.map(study => study[moderator]);
+    const numeric = !categorical.has(moderator) && values.every(value => toNumber(value) !== null);
+
+    if (numeric) {
+      continuous.push(moderator);
+      termColumns.set(moderator, [{ suffix: '', value: values => toNumber(values[moderator]) ?? NaN }]);
+      return;
+    }
+
+    const distinct = Array.from(new Set(values.map(String))).sort((a, b) =>
+      a.localeCompare(b, undefined, { numeric: true })
+    );
+    const reference = parameters.referenceLevels?.[moderator] ?? distinct[0];
+    if (!distinct.includes(reference)) {
+      throw new StatsInputError(`Reference level "${reference}" does not occur in ${moderator}`);
+    }
+    if (distinct.length < 2) {
+      throw new StatsInputError(`Moderator ${moderator} has a single level and cannot be estimated`);
+    }
+
+    levels[moderator] = [reference, ...distinct.filter(level => level !== reference)];
+    termColumns.set(moderator, levels[moderator].slice(1).map(level => ({
+      suffix: `[${level}]`,
+      value: (values: Record<string, unknown>) => (String(values[moderator]) === level ? 1 : 0),
+    })));
+  });
+
+  const columns: DesignColumn[] = [{ name: 'intercept', term: 'intercept' }];
+  const generators: Array<(values: Record<string, unknown>) => number> = [() => 1];
+
+  parameters.moderators.forEach(moderator => {
+    termColumns.get(moderator)!.forEach(column => {
+      columns.push({ name: `${moderator}${column.suffix}`, term: moderator });
+      generators.push(column.value);
+    });
+  });
+
+  (parameters.interactions ?? []).forEach(([a, b]) => {
+    const left = termColumns.get(a);
+    const right = termColumns.get(b);
+    if (!left || !right || a === b) {
+      throw new StatsInputError(`Interaction ${a}:${b} must combine two different moderators of the model`);
+    }
+    const term = `${a}:${b}`;
+    left.forEach(l => right.forEach(r => {
+      columns.push({ name: `${a}${l.suffix}:${b}${r.suffix}`, term });
+      generators.push(values => l.value(values) * r.value(values));
+    }));
+  });
+
+  return {
+    columns,
+    row: values => generators.map(generate => generate(values)),
+    levels,
+    continuous,
+  };
+}
+
+// X'diag(d)X
+function crossprod(x: Matrix, d: number[]): Matrix {
+  const p = x[0].length;
+  const result: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+  x.forEach((row, i) => {
+    for (let a = 0; a < p; a++) {
+      for (let b = a; b < p; b++) {
+        result[a][b] += row[a] * d[i] * row[b];
+      }
+    }
+  });
+  for (let a = 0; a < p; a++) {
+    for (let b = 0; b < a; b++) result[a][b] = result[b][a];
+  }
+  return result;
+}
+
+function trace(a: Matrix, b: Matrix): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < a.length; j++) sum += a[i][j] * b[j][i];
+  }
+  return sum;
+}
+
+/**
+ * Weighted least squares quantities needed by the tau² estimators. With
+ * P = W - WX(X'WX)^-1X'W: Py = W(y - Xb), so y'Py and y'PPy follow from the residuals.
+ */
+function weightedFit(x: Matrix, yi: number[], weights: number[]) {
+  const covariance = invert(crossprod(x, weights));
+  const xtwy = x[0].map((_, a) => x.reduce((sum, row, i) => sum + row[a] * weights[i] * yi[i], 0));
+  const coefficients = covariance.map(row => row.reduce((sum, c, b) => sum + c * xtwy[b], 0));
+  const residuals = yi.map((y, i) => y - x[i].reduce((sum, value, a) => sum + value * coefficients[a], 0));
+
+  const yPy = residuals.reduce((sum, r, i) => sum + weights[i] * r * r, 0);
+  const yPPy = residuals.reduce((sum, r, i) => sum + (weights[i] * r) ** 2, 0);
+
+  const sumW = weights.reduce((a, b) => a + b, 0);
+  const sumW2 = weights.reduce((a, b) => a + b * b, 0);
+  const xw2x = crossprod(x, weights.map(w => w * w));
+  const xw3x = crossprod(x, weights.map(w => w * w * w));
+  const cxw2x = covariance.map(row => xw2x[0].map((_, b) => row.reduce((sum, c, j) => sum + c * xw2x[j][b], 0)));
+
+  return {
+    coefficients,
+    covariance,
+    residuals,
+    yPy,
+    yPPy,
+    traceP: sumW - trace(covariance, xw2x),
+    tracePP: sumW2 - 2 * trace(covariance, xw3x) + trace(cxw2x, cxw2x),
+  };
+}
+
+/**
+ * Residual between-study variance of a meta-regression model
+ */
+export function estimateResidualTauSquared(x: Matrix, yi: number[], vi: number[], method: TauSquaredMethod): number {
+  const k = yi.length;
+  const p = x[0].length;
+  const residualQ = (tauSquared: number) => weightedFit(x, yi, vi.map(v => 1 / (v + tauSquared))).yPy;
+
+  switch (method) {
+    case 'DL': {
+      const fit = weightedFit(x, yi, vi.map(v => 1 / v));
+      return Math.max(0, (fit.yPy - (k - p)) / fit.traceP);
+    }
+    case 'HE': {
+      const fit = weightedFit(x, yi, vi.map(() => 1));
+      const leverage = x.map(row => row.reduce((sum, value, a) =>
+        sum + value * row.reduce((inner, other, b) => inner + fit.covariance[a][b] * other, 0), 0));
+      const expected = vi.reduce((sum, v, i) => sum + v * (1 - leverage[i]), 0);
+      return Math.max(0, (fit.residuals.reduce((sum, r) => sum + r * r, 0) - expected) / (k - p));
+    }
+    case 'SJ': {
+      const mean = yi.reduce((a, b) => a + b, 0) / k;
+      const tau0 = yi.reduce((sum, y) => sum + (y - mean) ** 2, 0) / k;
+      if (tau0 === 0) return 0;
+      return (tau0 * residualQ(tau0)) / (k - p);
+    }
+    case 'PM': {
+      const df = k - p;
+      if (residualQ(0) <= df) return 0;
+      let lo = 0;
+      let hi = 1e-4;
+      while (residualQ(hi) > df) hi *= 2;
+      for (let i = 0; i < 200 && hi - lo > TOLERANCE * Math.max(1, hi); i++) {
+        const mid = (lo + hi) / 2;
+        if (residualQ(mid) > df) lo = mid;
+        else hi = mid;
+      }
+      return (lo + hi) / 2;
+    }
+    case 'REML': {
+      // Fisher scoring from the DerSimonian-Laird value, halving steps that leave the boundary
+      let tauSquared = estimateResidualTauSquared(x, yi, vi, 'DL');
+      for (let i = 0; i < MAX_ITERATIONS; i++) {
+        const fit = weightedFit(x, yi, vi.map(v => 1 / (v + tauSquared)));
+        let step = (fit.yPPy - fit.traceP) / fit.tracePP;
+        while (tauSquared + step < 0 && Math.abs(step) > TOLERANCE) step /= 2;
+        const next = Math.max(0, tauSquared + step);
+        if (Math.abs(next - tauSquared) < TOLERANCE) return next;
+        tauSquared = next;
+      }
+      return tauSquared;
+    }
+    default:
+      throw new StatsInputError(`Unsupported tau² estimator: ${method}`);
+  }
+}
+
+function fitModel(x: Matrix, yi: number[], vi: number[], options: ModelOptions): MixedModelFit {
+  const tauSquared = options.modelType === 'RE' ? estimateResidualTauSquared(x, yi, vi, options.method) : 0;
+  const weights = vi.map(v => 1 / (v + tauSquared));
+  const fit = weightedFit(x, yi, weights);
+
+  let scale = 1;
+  if (options.ciMethod !== 'z') {
+    // Knapp-Hartung: rescale by the weighted residual mean square
+    scale = fit.yPy / (yi.length - x[0].length);
+    if (options.ciMethod === 'hksj-truncated') scale = Math.max(1, scale);
+  }
+
+  return {
+    coefficients: fit.coefficients,
+    covariance: fit.covariance.map(row => row.map(value => value * scale)),
+    tauSquared,
+    weights,
+    scale,
+  };
+}
+
+/**
+ * Wald test that the coefficients at `indices` are all zero
+ */
+function waldTest(fit: MixedModelFit, indices: number[], ciMethod: CiMethod, residualDf: number): ModeratorTest {
+  const b = indices.map(i => fit.coefficients[i]);
+  const inverse = invert(indices.map(i => indices.map(j => fit.covariance[i][j])));
+  const statistic = b.reduce((sum, bi, a) => sum + bi * inverse[a].reduce((inner, value, c) => inner + value * b[c], 0), 0);
+  const df = indices.length;
+
+  if (ciMethod === 'z') {
+    return { statistic, df, pValue: chiSquareSurvival(statistic, df) };
+  }
+  return { statistic: statistic / df, df, df2: residualDf, pValue: fSurvival(statistic / df, df, residualDf) };
+}
+
+// Small, seedable generator (mulberry32) so permutation p-values are reproducible
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(values: T[], random: () => number): T[] {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Mixed-effects meta-regression with continuous and categorical moderators, interaction
+ * terms, an omnibus QM test, the R² analog and optional permutation p-values.
+ * `onProgress` receives the fraction of permutations completed.
+ */
+export function runMetaRegression(
+  studies: Study[],
+  parameters: MetaRegressionParameters,
+  onProgress?: (fraction: number) => void
+): MetaRegressionResults {
+  const modelType = independentModelType(parameters.modelType ?? 'RE', 'Meta-regression');
+  const method = parameters.method ?? 'REML';
+  const ciMethod = parameters.ciMethod ?? 'z';
+  if (modelType === 'RE' && !isTauSquaredMethod(method)) {
+    throw new StatsInputError(`Unsupported tau² estimator: ${method}`);
+  }
+  if (!isCiMethod(ciMethod)) {
+    throw new StatsInputError(`Unsupported confidence interval method: ${ciMethod}`);
+  }
+  if (!Array.isArray(parameters.moderators) || parameters.moderators.length === 0) {
+    throw new StatsInputError('Select at least one moderator');
+  }
+
+  const permutations = Math.floor(parameters.permutations ?? 0);
+  if (permutations < 0 || permutations > MAX_PERMUTATIONS) {
+    throw new StatsInputError(`The number of permutations must be between 0 and ${MAX_PERMUTATIONS}`);
+  }
+
+  const warnings: string[] = [];
+  const complete = studies.filter(study => parameters.moderators.every(moderator => !isMissing(study[moderator])));
+  const excluded = studies.filter(study => !complete.includes(study)).map(study => study.study_label);
+  if (excluded.length > 0) {
+    warnings.push(`${excluded.length} ${excluded.length === 1 ? 'study was' : 'studies were'} excluded because of missing moderator values`);
+  }
+
+  const design = buildDesign(complete, parameters);
+  const { yi, vi } = getEffectData(complete, parameters.effectMeasure);
+  const x = complete.map(study => design.row(study));
+  const k = yi.length;
+  const p = design.columns.length;
+  if (k <= p) {
+    throw new StatsInputError(`Meta-regression with ${p} coefficients needs more than ${p} studies (found ${k})`);
+  }
+
+  const options: ModelOptions = { modelType, method: method as TauSquaredMethod, ciMethod };
+  const fit = fitModel(x, yi, vi, options);
+  const residualDf = k - p;
+  const useT = ciMethod !== 'z';
+  const crit = useT ? tQuantile(0.975, residualDf) : normalQuantile(0.975);
+
+  const coefficients: MetaRegressionCoefficient[] = design.columns.map((column, i) => {
+    const estimate = fit.coefficients[i];
+    const se = Math.sqrt(fit.covariance[i][i]);
+    const statistic = estimate / se;
+    return {
+      name: column.name,
+      term: column.term,
+      estimate,
+      se,
+      statistic,
+      pValue: useT ? tTwoSidedP(statistic, residualDf) : normalTwoSidedP(statistic),
+      ciLower: estimate - crit * se,
+      ciUpper: estimate + crit * se,
+    };
+  });
+
+  const moderatorIndices = design.columns.map((_, i) => i).slice(1);
+  const terms = Array.from(new Set(design.columns.slice(1).map(column => column.term)));
+  const termIndices = terms.map(term => design.columns.map((column, i) => (column.term === term ? i : -1)).filter(i => i >= 0));
+
+  const omnibus = waldTest(fit, moderatorIndices, ciMethod, residualDf);
+  const termTests = terms.map((term, t) => ({ term, ...waldTest(fit, termIndices[t], ciMethod, residualDf) }));
+
+  // Residual heterogeneity uses fixed-effect weights, as in metafor's QE test
+  const fixedFit = weightedFit(x, yi, vi.map(v => 1 / v));
+  const qStatistic = fixedFit.yPy;
+  const typicalVariance = residualDf / fixedFit.traceP;
+  const residualHeterogeneity = {
+    qStatistic,
+    qDf: residualDf,
+    qPvalue: chiSquareSurvival(qStatistic, residualDf),
+    tauSquared: fit.tauSquared,
+    iSquared: modelType === 'RE' ? (100 * fit.tauSquared) / (fit.tauSquared + typicalVariance) : 0,
+  };
+
+  let rSquared: number | null = null;
+  if (modelType === 'RE') {
+    const interceptOnly = estimateResidualTauSquared(yi.map(() => [1]), yi, vi, options.method);
+    if (interceptOnly > 0) {
+      rSquared = Math.max(0, (100 * (interceptOnly - fit.tauSquared)) / interceptOnly);
+    } else {
+      warnings.push('There is no between-study variance to explain, so R² is not reported');
+    }
+  }
+
+  if (permutations > 0) {
+    // Permute effects and variances against the moderators, refit, and count statistics
+    // at least as extreme as the observed ones
+    const random = createRandom(parameters.seed ?? 1);
+    const observed = coefficients.map(c => Math.abs(c.statistic));
+    const exceedCoefficient = new Array(p).fill(0);
+    const exceedTerm = new Array(terms.length).fill(0);
+    let exceedOmnibus = 0;
+    const order = yi.map((_, i) => i);
+
+    for (let iteration = 0; iteration < permutations; iteration++) {
+      const permuted = shuffle(order, random);
+      const permutedFit = fitModel(x, permuted.map(i => yi[i]), permuted.map(i => vi[i]), options);
+
+      permutedFit.coefficients.forEach((b, i) => {
+        if (Math.abs(b / Math.sqrt(permutedFit.covariance[i][i])) >= observed[i] - 1e-12) exceedCoefficient[i]++;
+      });
+      if (waldTest(permutedFit, moderatorIndices, ciMethod, residualDf).statistic >= omnibus.statistic - 1e-12) {
+        exceedOmnibus++;
+      }
+      termIndices.forEach((indices, t) => {
+        if (waldTest(permutedFit, indices, ciMethod, residualDf).statistic >= termTests[t].statistic - 1e-12) {
+          exceedTerm[t]++;
+        }
+      });
+
+      if (onProgress && (iteration + 1) % Math.max(1, Math.floor(permutations / 20)) === 0) {
+        onProgress((iteration + 1) / permutations);
+      }
+    }
+
+    coefficients.forEach((c, i) => { c.permutationPValue = (exceedCoefficient[i] + 1) / (permutations + 1); });
+    omnibus.permutationPValue = (exceedOmnibus + 1) / (permutations + 1);
+    termTests.forEach((test, t) => { test.permutationPValue = (exceedTerm[t] + 1) / (permutations + 1); });
+  }
+
+  const sumWeights = fit.weights.reduce((a, b) => a + b, 0);
+  const reference: Record<string, unknown> = {};
+  design.continuous.forEach(moderator => {
+    reference[moderator] = complete.reduce((sum, study) => sum + (toNumber(study[moderator]) ?? 0), 0) / k;
+  });
+  Object.entries(design.levels).forEach(([moderator, levels]) => { reference[moderator] = levels[0]; });
+
+  const bubble: BubblePlotData[] = design.continuous.map(moderator => {
+    const xs = complete.map(study => toNumber(study[moderator]) as number);
+    const min = Math.min(...xs);
+    const max = Math.max(...xs);
+
+    const line = Array.from({ length: BUBBLE_LINE_POINTS }, (_, i) => {
+      const value = min + ((max - min) * i) / (BUBBLE_LINE_POINTS - 1);
+      const row = design.row({ ...reference, [moderator]: value });
+      const fitted = row.reduce((sum, r, a) => sum + r * fit.coefficients[a], 0);
+      const variance = row.reduce((sum, r, a) =>
+        sum + r * row.reduce((inner, other, b) => inner + fit.covariance[a][b] * other, 0), 0);
+      const se = Math.sqrt(Math.max(0, variance));
+      return { x: value, fitted, ciLower: fitted - crit * se, ciUpper: fitted + crit * se };
+    });
+
+    return {
+      moderator,
+      points: complete.map((study, i) => ({
+        studyId: study.study_id,
+        studyLabel: study.study_label,
+        x: xs[i],
+        y: yi[i],
+        weight: (100 * fit.weights[i]) / sumWeights,
+      })),
+      line,
+    };
+  });
+
+  return {
+    effectMeasure: parameters.effectMeasure,
+    scale: isRatioMeasure(parameters.effectMeasure) ? 'log' : 'identity',
+    modelType,
+    method: modelType === 'RE' ? method : 'FE',
+    ciMethod,
+    k,
+    excluded,
+    coefficients,
+    omnibus,
+    termTests,
+    residualHeterogeneity,
+    rSquared,
+    levels: design.levels,
+    ...(permutations > 0 ? { permutations } : {}),
+    bubble,
+    warnings,
+  };
+}
@@ -0,0 +1,355 @@
+import { Study } from '@/types/meta-analysis';
+import type {
+  MetaAnalysisParameters,
+  MetaAnalysisResults,
+  MultilevelResults,
+  VarianceComponentTest,
+} from '@/lib/services/meta-analysis';
+import { chiSquareSurvival, normalQuantile, normalTwoSidedP, tQuantile, tTwoSidedP } from './distributions';
+import { StatsInputError } from './errors';
+import { getEffectData, isMultilevelModel, PooledEstimate, toMetaAnalysisResults } from './meta-analysis';
+import { cholesky, inverseSquareRoot, Matrix, multiply, transpose } from './matrix';
+import { nelderMead } from './optimize';
+
+export type MultilevelMethod = 'REML' | 'ML';
+
+// Satterthwaite degrees of freedom below this make RVE tests unreliable (Tipton, 2015)
+const MIN_ROBUST_DF = 4;
+
+interface Cluster {
+  id: string;
+  indices: number[];
+}
+
+interface VarianceFit {
+  between: number;
+  within: number;
+  logLikelihood: number;
+  converged: boolean;
+}
+
+// Per-cluster quantities of V = diag(vi + within) + between * J, inverted in closed
+// form with the Sherman-Morrison formula
+interface ClusterBlock {
+  // 1'V^-1 for the studies of the cluster; the GLS weights
+  weights: number[];
+  logDeterminant: number;
+}
+
+export function isMultilevelMethod(method: string): method is MultilevelMethod {
+  return method === 'REML' || method === 'ML';
+}
+
+function hasClusterId(study: Study): boolean {
+  const value = study.cluster_id;
+  return value !== undefined && value !== null && String(value).trim() !== '';
+}
+
+/**
+ * Group studies by cluster_id, in order of first appearance. Studies without a
+ * cluster_id form clusters of their own.
+ */
+function groupClusters(studies: Study[]): Cluster[] {
+  const clusters = new Map<string, number[]>();
+  studies.forEach((study, i) => {
+    const id = hasClusterId(study) ? `cluster:${String(study.cluster_id).trim()}` : `study:${study.study_id}:${i}`;
+    clusters.set(id, [...(clusters.get(id) ?? []), i]);
+  });
+  return [...clusters.entries()].map(([id, indices]) => ({ id, indices }));
+}
+
+function clusterBlock(vi: number[], indices: number[], between: number, within: number): ClusterBlock {
+  const d = indices.map(i => vi[i] + within);
+  const sumInverse = d.reduce((sum, value) => sum + 1 / value, 0);
+  const shrink = 1 - (between * sumInverse) / (1 + between * sumInverse);
+
+  return {
+    weights: d.map(value => shrink / value),
+    logDeterminant: d.reduce((sum, value) => sum + Math.log(value), 0) + Math.log(1 + between * sumInverse),
+  };
+}
+
+// Marginal covariance of the studies in a cluster
+function clusterCovariance(vi: number[], indices: number[], between: number, within: number): Matrix {
+  return indices.map((i, a) => indices.map((_, b) => between + (a === b ? vi[i] + within : 0)));
+}
+
+// Inverse of the cluster covariance, using V^-1 = D^-1 - c D^-1 1 1' D^-1
+function clusterInverse(vi: number[], indices: number[], between: number, within: number): Matrix {
+  const d = indices.map(i => vi[i] + within);
+  const sumInverse = d.reduce((sum, value) => sum + 1 / value, 0);
+  const c = between / (1 + between * sumInverse);
+  return d.map((da, a) => d.map((db, b) => (a === b ? 1 / da : 0) - c / (da * db)));
+}
+
+/**
+ * Generalized least squares estimate of the overall effect and the (restricted)
+ * log-likelihood for the given variance components
+ */
+function evaluate(
+  yi: number[],
+  vi: number[],
+  clusters: Cluster[],
+  between: number,
+  within: number,
+  method: MultilevelMethod
+): { estimate: number; sumWeights: number; weights: number[]; logLikelihood: number } {
+  const k = yi.length;
+  const weights = new Array<number>(k).fill(0);
+  let logDeterminant = 0;
+  clusters.forEach(cluster => {
+    const block = clusterBlock(vi, cluster.indices, between, within);
+    cluster.indices.forEach((i, a) => { weights[i] = block.weights[a]; });
+    logDeterminant += block.logDeterminant;
+  });
+
+  const sumWeights = weights.reduce((a, b) => a + b, 0);
+  const estimate = weights.reduce((sum, w, i) => sum + w * yi[i], 0) / sumWeights;
+
+  // r'V^-1 r, summed over the cluster blocks
+  let quadratic = 0;
+  clusters.forEach(cluster => {
+    const inverse = clusterInverse(vi, cluster.indices, between, within);
+    const r = cluster.indices.map(i => yi[i] - estimate);
+    r.forEach((ra, a) => r.forEach((rb, b) => { quadratic += ra * inverse[a][b] * rb; }));
+  });
+
+  // Constants follow metafor, so the log-likelihoods are comparable with rma.mv()
+  const logLikelihood = method === 'REML'
+    ? -0.5 * ((k - 1) * Math.log(2 * Math.PI) - Math.log(k) + logDeterminant + Math.log(sumWeights) + quadratic)
+    : -0.5 * (k * Math.log(2 * Math.PI) + logDeterminant + quadratic);
+
+  return { estimate, sumWeights, weights, logLikelihood };
+}
+
+/**
+ * Maximize the (restricted) likelihood over the variance components. Each component is
+ * optimized on the standard deviation scale, so it stays non-negative; `fixed` holds
+ * components constrained to zero for the likelihood-ratio tests.
+ */
+function fitVarianceComponents(
+  yi: number[],
+  vi: number[],
+  clusters: Cluster[],
+  method: MultilevelMethod,
+  fixed: { between?: boolean; within?: boolean } = {}
+): VarianceFit {
+  const free = (['between', 'within'] as const).filter(name => !fixed[name]);
+  const components = (x: number[]) => {
+    const values = { between: 0, within: 0 };
+    free.forEach((name, i) => { values[name] = x[i] * x[i]; });
+    return values;
+  };
+
+  // Start from an equal split of the method-of-moments total variance
+  const mean = yi.reduce((a, b) => a + b, 0) / yi.length;
+  const spread = yi.reduce((sum, y) => sum + (y - mean) ** 2, 0) / Math.max(1, yi.length - 1);
+  const meanV = vi.reduce((a, b) => a + b, 0) / vi.length;
+  const startSd = Math.sqrt(Math.max(spread - meanV, 0.01 * meanV) / Math.max(1, free.length));
+
+  const fit = free.length > 0
+    ? nelderMead(x => {
+        const { between, within } = components(x);
+        return -evaluate(yi, vi, clusters, between, within, method).logLikelihood;
+      }, free.map(() => startSd), { step: startSd / 2 })
+    : { x: [], value: -evaluate(yi, vi, clusters, 0, 0, method).logLikelihood, converged: true };
+
+  const { between, within } = components(fit.x);
+  return { between, within, logLikelihood: -fit.value, converged: fit.converged };
+}
+
+function likelihoodRatioTest(full: VarianceFit, reduced: VarianceFit): VarianceComponentTest {
+  const statistic = Math.max(0, 2 * (full.logLikelihood - reduced.logLikelihood));
+  return { statistic, pValue: chiSquareSurvival(statistic, 1) };
+}
+
+/**
+ * CR2 cluster-robust variance of the overall effect with Satterthwaite degrees of
+ * freedom, using the fitted three-level model as the working model (as
+ * clubSandwich::vcovCR(type = "CR2") and coef_test() do for rma.mv fits)
+ */
+function robustVariance(
+  yi: number[],
+  vi: number[],
+  clusters: Cluster[],
+  fit: VarianceFit,
+  estimate: number,
+  weights: number[],
+  sumWeights: number
+): { variance: number; df: number } {
+  const k = yi.length;
+  const m = 1 / sumWeights;
+  const phi = clusters.map(cluster => clusterCovariance(vi, cluster.indices, fit.between, fit.within));
+
+  // Adjustment A_j = D'(D (Phi_j - X_j M X_j') D')^(-1/2) D with Phi_j = D'D, so that the
+  // adjusted residual cross-products are unbiased for Phi_j under the working model
+  const p = clusters.map((cluster, j) => {
+    const d = cholesky(phi[j]);
+    const centered = phi[j].map(row => row.map(value => value - m));
+    const adjustment = multiply(
+      multiply(transpose(d), inverseSquareRoot(multiply(multiply(d, centered), transpose(d)))),
+      d
+    );
+    // p_j = A_j W_j 1 M, where W_j 1 are the study weights of the cluster
+    return adjustment.map(row => row.reduce((sum, value, b) => sum + value * weights[cluster.indices[b]] * m, 0));
+  });
+
+  const variance = clusters.reduce((sum, cluster, j) => {
+    const term = cluster.indices.reduce((s, i, a) => s + p[j][a] * (yi[i] - estimate), 0);
+    return sum + term * term;
+  }, 0);
+
+  // The robust variance is a quadratic form y'(sum_j h_j h_j')y with h_j = (I - H)' g_j,
+  // where g_j embeds p_j in the full data; Satterthwaite matches its first two moments
+  const h = clusters.map((cluster, j) => {
+    const g = new Array<number>(k).fill(0);
+    cluster.indices.forEach((i, a) => { g[i] = p[j][a]; });
+    const total = g.reduce((a, b) => a + b, 0);
+    return g.map((value, i) => value - weights[i] * m * total);
+  });
+  const phiH = h.map(vector => {
+    const product = new Array<number>(k).fill(0);
+    clusters.forEach((cluster, c) => {
+      cluster.indices.forEach((i, a) => {
+        product[i] = cluster.indices.reduce((sum, l, b) => sum + phi[c][a][b] * vector[l], 0);
+      });
+    });
+    return product;
+  });
+
+  let trace = 0;
+  let traceSquared = 0;
+  h.forEach((hi, i) => {
+    trace += hi.reduce((sum, value, l) => sum + value * phiH[i][l], 0);
+    h.forEach((_, j) => {
+      const cross = hi.reduce((sum, value, l) => sum + value * phiH[j][l], 0);
+      traceSquared += cross * cross;
+    });
+  });
+
+  return { variance, df: (trace * trace) / traceSquared };
+}
+
+/**
+ * Three-level random-effects meta-analysis of effect sizes nested in clusters
+ * (Study.cluster_id), with between- and within-cluster variance components. The RVE
+ * model keeps the three-level point estimate and weights but bases inference on CR2
+ * cluster-robust standard errors with Satterthwaite degrees of freedom.
+ */
+export function runMultilevelAnalysis(studies: Study[], parameters: MetaAnalysisParameters): MetaAnalysisResults {
+  const { modelType } = parameters;
+  if (!isMultilevelModel(modelType)) {
+    throw new StatsInputError(`Unsupported multilevel model: ${modelType}`);
+  }
+  const method = parameters.method ?? 'REML';
+  if (!isMultilevelMethod(method)) {
+    throw new StatsInputError(`Three-level models are estimated by REML or ML, not ${method}`);
+  }
+  if (parameters.ciMethod && parameters.ciMethod !== 'z') {
+    throw new StatsInputError('Hartung-Knapp intervals are not available for three-level models; use RVE for small-sample inference');
+  }
+
+  const { yi, vi } = getEffectData(studies, parameters.effectMeasure);
+  const k = yi.length;
+  const clusters = groupClusters(studies);
+  if (k < 3) {
+    throw new StatsInputError('Three-level models require at least 3 studies');
+  }
+  if (clusters.length < 2) {
+    throw new StatsInputError('Three-level models require at least 2 clusters');
+  }
+
+  const warnings: string[] = [];
+  const unclustered = studies.filter(study => !hasClusterId(study)).length;
+  if (unclustered > 0) {
+    warnings.push(`${unclustered} ${unclustered === 1 ? 'study has' : 'studies have'} no cluster_id and ${unclustered === 1 ? 'was' : 'were'} treated as ${unclustered === 1 ? 'its own cluster' : 'their own clusters'}`);
+  }
+  if (clusters.length === k) {
+    warnings.push('Every cluster holds a single study, so the between- and within-cluster variances cannot be separated');
+  }
+
+  const fit = fitVarianceComponents(yi, vi, clusters, method);
+  if (!fit.converged) {
+    warnings.push('The variance components did not converge; estimates may be inaccurate');
+  }
+  const { estimate, sumWeights, weights } = evaluate(yi, vi, clusters, fit.between, fit.within, method);
+  const modelSe = Math.sqrt(1 / sumWeights);
+
+  const tests = {
+    between: likelihoodRatioTest(fit, fitVarianceComponents(yi, vi, clusters, method, { between: true })),
+    within: likelihoodRatioTest(fit, fitVarianceComponents(yi, vi, clusters, method, { within: true })),
+  };
+
+  // Heterogeneity relative to the typical within-study variance, split by level
+  // (Cheung, 2014)
+  const wi = vi.map(v => 1 / v);
+  const sumWi = wi.reduce((a, b) => a + b, 0);
+  const sumWi2 = wi.reduce((a, b) => a + b * b, 0);
+  const typicalVariance = ((k - 1) * sumWi) / (sumWi * sumWi - sumWi2);
+  const totalVariance = fit.between + fit.within + typicalVariance;
+
+  const fixedMean = yi.reduce((sum, y, i) => sum + wi[i] * y, 0) / sumWi;
+  const qStatistic = yi.reduce((sum, y, i) => sum + wi[i] * (y - fixedMean) ** 2, 0);
+
+  let se = modelSe;
+  let df: number | undefined;
+  let robust: MultilevelResults['robust'];
+  if (modelType === 'RVE') {
+    const result = robustVariance(yi, vi, clusters, fit, estimate, weights, sumWeights);
+    se = Math.sqrt(result.variance);
+    df = result.df;
+    robust = { se, modelSe, df };
+    if (df < MIN_ROBUST_DF) {
+      warnings.push(`The robust test has ${df.toFixed(1)} degrees of freedom; with fewer than ${MIN_ROBUST_DF} its p-value may be unreliable`);
+    }
+  }
+
+  const statistic = estimate / se;
+  const crit = df !== undefined ? tQuantile(0.975, df) : normalQuantile(0.975);
+  const predictionSe = Math.sqrt(fit.between + fit.within + se * se);
+  const predictionCrit = tQuantile(0.975, df ?? k - 1);
+
+  const pooled: PooledEstimate = {
+    k,
+    estimate,
+    se,
+    statistic,
+    df,
+    pValue: df !== undefined ? tTwoSidedP(statistic, df) : normalTwoSidedP(statistic),
+    ciMethod: 'z',
+    ciLower: estimate - crit * se,
+    ciUpper: estimate + crit * se,
+    tauSquared: fit.between + fit.within,
+    qStatistic,
+    qDf: k - 1,
+    qPvalue: chiSquareSurvival(qStatistic, k - 1),
+    iSquared: (100 * (fit.between + fit.within)) / totalVariance,
+    hSquared: totalVariance / typicalVariance,
+    weights,
+    predictionInterval: {
+      lower: estimate - predictionCrit * predictionSe,
+      upper: estimate + predictionCrit * predictionSe,
+    },
+  };
+
+  const results = toMetaAnalysisResults(pooled, parameters.effectMeasure, studies);
+  return {
+    ...results,
+    // Robust intervals are t-based with their own small-sample correction
+    ciMethod: modelType === 'RVE' ? undefined : 'z',
+    multilevel: {
+      k,
+      clusters: clusters.length,
+      method,
+      sigmaSquared: { between: fit.between, within: fit.within },
+      iSquared: {
+        between: (100 * fit.between) / totalVariance,
+        within: (100 * fit.within) / totalVariance,
+      },
+      logLikelihood: fit.logLikelihood,
+      tests,
+      ...(robust ? { robust } : {}),
+      warnings,
+    },
+  };
+}
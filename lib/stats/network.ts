@@ -0,0 +1,612 @@
+import type {
+  NetworkComparison,
+  NetworkDataFormat,
+  NetworkEvidence,
+  NetworkGeometry,
+  NetworkParameters,
+  NetworkRanking,
+  NetworkResults,
+  NetworkSmallValues,
+  NodeSplit,
+} from '@/lib/services/meta-analysis';
+import { chiSquareSurvival, normalCdf, normalQuantile, normalTwoSidedP } from './distributions';
+import { deriveStudies, hedgesCorrection } from './effect-sizes';
+import { StatsInputError } from './errors';
+import { getEffectData, isRatioMeasure } from './meta-analysis';
+import { cholesky, invert, Matrix, multiply, transpose } from './matrix';
+import { createRandom } from './meta-regression';
+import { nelderMead } from './optimize';
+
+// Draws from the sampling distribution of the treatment effects behind SUCRA
+const RANK_SIMULATIONS = 10000;
+
+// Added to the events of every arm of a study with a zero cell, with 2x that added to the arm size
+const CONTINUITY_CORRECTION = 0.5;
+
+const ARM_LEVEL_MEASURES = ['OR', 'RR', 'RD', 'MD', 'SMD'];
+
+// A study as the contrasts of each arm against its first (baseline) arm
+interface NetworkStudy {
+  id: string;
+  label: string;
+  treatments: string[];
+  y: number[];
+  // Sampling covariance of the contrasts
+  s: Matrix;
+  sampleSizes?: number[];
+}
+
+// Contrasts of one study in a linear model for the basic parameters
+interface Block {
+  y: number[];
+  x: Matrix;
+  s: Matrix;
+}
+
+interface GlsFit {
+  coefficients: number[];
+  covariance: Matrix;
+  // r'V^-1 r at the estimates
+  quadratic: number;
+  logDeterminant: number;
+  logDeterminantInformation: number;
+}
+
+export function isNetworkDataFormat(value: unknown): value is NetworkDataFormat {
+  return value === 'contrast' || value === 'arm';
+}
+
+export function isNetworkSmallValues(value: unknown): value is NetworkSmallValues {
+  return value === 'good' || value === 'bad';
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function logDeterminant(a: Matrix): number {
+  return 2 * cholesky(a).reduce((sum, row, i) => sum + Math.log(row[i]), 0);
+}
+
+/**
+ * Contrast-level rows: every row is a two-arm study of `treatment` versus `comparator`
+ */
+function contrastStudies(rows: Record<string, any>[], effectMeasure: string): NetworkStudy[] {
+  const { studies, errors } = deriveStudies(rows, effectMeasure);
+  if (errors.length > 0) {
+    throw new StatsInputError(`Could not compute effect sizes: ${errors[0].message}`);
+  }
+
+  const { yi, vi } = getEffectData(studies, effectMeasure);
+  return studies.map((study, i) => {
+    const treatment = text(study.treatment);
+    const comparator = text(study.comparator);
+    if (!treatment || !comparator) {
+      throw new StatsInputError(`Study ${study.study_label} needs both a treatment and a comparator`);
+    }
+    if (treatment === comparator) {
+      throw new StatsInputError(`Study ${study.study_label} compares ${treatment} with itself`);
+    }
+    return {
+      id: study.study_id,
+      label: study.study_label,
+      treatments: [comparator, treatment],
+      y: [yi[i]],
+      s: [[vi[i]]],
+    };
+  });
+}
+
+/**
+ * Arm-level rows: contrasts against the first arm of each study, with the covariance
+ * the shared baseline arm induces in multi-arm studies
+ */
+function armStudies(rows: Record<string, any>[], effectMeasure: string, warnings: string[]): NetworkStudy[] {
+  const measure = effectMeasure.toUpperCase();
+  if (!ARM_LEVEL_MEASURES.includes(measure)) {
+    throw new StatsInputError(`Arm-level data is not supported for ${effectMeasure}; supply contrast-level rows`);
+  }
+
+  const groups = new Map<string, Record<string, any>[]>();
+  rows.forEach(row => {
+    const id = text(row.study_id);
+    if (!id) throw new StatsInputError('Every arm needs a study_id');
+    groups.set(id, [...(groups.get(id) ?? []), row]);
+  });
+
+  const studies: NetworkStudy[] = [];
+  groups.forEach((arms, id) => {
+    const label = text(arms[0].study_label) || id;
+    const treatments = arms.map(arm => text(arm.treatment));
+    if (treatments.some(treatment => !treatment)) {
+      throw new StatsInputError(`Study ${label} has an arm without a treatment`);
+    }
+    if (new Set(treatments).size !== treatments.length) {
+      throw new StatsInputError(`Study ${label} lists the same treatment in more than one arm`);
+    }
+    if (arms.length < 2) {
+      warnings.push(`Study ${label} has a single arm and was left out`);
+      return;
+    }
+
+    const n = arms.map(arm => toNumber(arm.sample_size));
+    if (n.some(value => value === undefined || value <= 0)) {
+      throw new StatsInputError(`Study ${label} needs a positive sample_size for every arm`);
+    }
+    const sizes = n as number[];
+
+    let theta: number[];
+    let s: Matrix;
+    if (measure === 'MD' || measure === 'SMD') {
+      const means = arms.map(arm => toNumber(arm.mean));
+      const sds = arms.map(arm => toNumber(arm.sd));
+      if (means.some(value => value === undefined) || sds.some(value => value === undefined || value <= 0)) {
+        throw new StatsInputError(`Study ${label} needs a mean and a positive sd for every arm`);
+      }
+      const m = means as number[];
+      const sd = sds as number[];
+
+      if (measure === 'MD') {
+        const v = sd.map((value, i) => (value * value) / sizes[i]);
+        theta = m;
+        s = m.slice(1).map((_, i) => m.slice(1).map((__, j) => v[0] + (i === j ? v[i + 1] : 0)));
+      } else {
+        // Hedges' g against the baseline arm with the SD pooled over all arms, and the
+        // large-sample covariance of g's sharing a control group (Gleser & Olkin, 2009)
+        const total = sizes.reduce((a, b) => a + b, 0);
+        const df = total - arms.length;
+        if (df < 2) {
+          throw new StatsInputError(`Study ${label} has too few participants for Hedges' g`);
+        }
+        const pooledSd = Math.sqrt(sd.reduce((sum, value, i) => sum + (sizes[i] - 1) * value * value, 0) / df);
+        const correction = hedgesCorrection(df);
+        const g = m.map(value => (correction * (value - m[0])) / pooledSd);
+        theta = g;
+        s = g.slice(1).map((gi, i) => g.slice(1).map((gj, j) =>
+          1 / sizes[0] + (i === j ? 1 / sizes[i + 1] : 0) + (gi * gj) / (2 * total)
+        ));
+      }
+    } else {
+      const counts = arms.map(arm => toNumber(arm.events));
+      if (counts.some((value, i) => value === undefined || value < 0 || value > sizes[i])) {
+        throw new StatsInputError(`Study ${label} needs events between zero and the arm size for every arm`);
+      }
+      const events = counts as number[];
+      if (events.every(value => value === 0) || events.every((value, i) => value === sizes[i])) {
+        warnings.push(`Study ${label} has ${events[0] === 0 ? 'no events' : 'only events'} in every arm and was left out`);
+        return;
+      }
+
+      const zeroCell = events.some((value, i) => value === 0 || value === sizes[i]);
+      const e = events.map(value => (zeroCell ? value + CONTINUITY_CORRECTION : value));
+      const total = sizes.map(value => (zeroCell ? value + 2 * CONTINUITY_CORRECTION : value));
+
+      let v: number[];
+      if (measure === 'OR') {
+        theta = e.map((value, i) => Math.log(value / (total[i] - value)));
+        v = e.map((value, i) => 1 / value + 1 / (total[i] - value));
+      } else if (measure === 'RR') {
+        theta = e.map((value, i) => Math.log(value / total[i]));
+        v = e.map((value, i) => 1 / value - 1 / total[i]);
+      } else {
+        // Risk differences use the observed proportions; the correction only keeps the
+        // variances positive
+        theta = events.map((value, i) => value / sizes[i]);
+        v = e.map((value, i) => (value / total[i]) * (1 - value / total[i]) / total[i]);
+      }
+      s = v.slice(1).map((_, i) => v.slice(1).map((__, j) => v[0] + (i === j ? v[i + 1] : 0)));
+    }
+
+    studies.push({
+      id,
+      label,
+      treatments,
+      y: theta.slice(1).map(value => value - theta[0]),
+      s,
+      sampleSizes: sizes,
+    });
+  });
+
+  return studies;
+}
+
+// Connected components of the treatments, linking the treatments of every edge
+function components(treatments: string[], edges: Array<[string, string]>): string[][] {
+  const parent = new Map(treatments.map(treatment => [treatment, treatment]));
+  const find = (treatment: string): string => {
+    const root = parent.get(treatment)!;
+    if (root === treatment) return root;
+    const top = find(root);
+    parent.set(treatment, top);
+    return top;
+  };
+  edges.forEach(([a, b]) => parent.set(find(a), find(b)));
+
+  const groups = new Map<string, string[]>();
+  treatments.forEach(treatment => {
+    const root = find(treatment);
+    groups.set(root, [...(groups.get(root) ?? []), treatment]);
+  });
+  return [...groups.values()];
+}
+
+// Contrasts of a multi-arm study share half of the between-study variance
+function blockCovariance(block: Block, tauSquared: number): Matrix {
+  return block.s.map((row, i) => row.map((value, j) => value + tauSquared * (i === j ? 1 : 0.5)));
+}
+
+/**
+ * Generalized least squares fit of the stacked study contrasts
+ */
+function gls(blocks: Block[], tauSquared: number): GlsFit {
+  const p = blocks[0].x[0].length;
+  const information: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+  const score = new Array<number>(p).fill(0);
+  const weights: Matrix[] = [];
+  let logDet = 0;
+
+  blocks.forEach(block => {
+    const v = blockCovariance(block, tauSquared);
+    const w = invert(v);
+    weights.push(w);
+    logDet += logDeterminant(v);
+
+    const xtw = multiply(transpose(block.x), w);
+    const xtwx = multiply(xtw, block.x);
+    for (let a = 0; a < p; a++) {
+      score[a] += xtw[a].reduce((sum, value, i) => sum + value * block.y[i], 0);
+      for (let b = 0; b < p; b++) information[a][b] += xtwx[a][b];
+    }
+  });
+
+  const covariance = invert(information);
+  const coefficients = covariance.map(row => row.reduce((sum, value, b) => sum + value * score[b], 0));
+
+  let quadratic = 0;
+  blocks.forEach((block, s) => {
+    const r = block.y.map((y, i) => y - block.x[i].reduce((sum, value, b) => sum + value * coefficients[b], 0));
+    r.forEach((ri, i) => r.forEach((rj, j) => { quadratic += ri * weights[s][i][j] * rj; }));
+  });
+
+  return {
+    coefficients,
+    covariance,
+    quadratic,
+    logDeterminant: logDet,
+    logDeterminantInformation: logDeterminant(information),
+  };
+}
+
+/**
+ * DerSimonian-Laird estimator for a common tau² in a network (Jackson, White & Riley,
+ * 2012): E[Q] = df + tau² tr(R P), with R the residual-forming matrix of the
+ * fixed-effect fit
+ */
+function networkDerSimonianLaird(blocks: Block[], qStatistic: number, df: number): number {
+  const p = blocks[0].x[0].length;
+  const information: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+  const spread: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+  let traceWP = 0;
+
+  blocks.forEach(block => {
+    const w = invert(block.s);
+    const structure = block.s.map((row, i) => row.map((_, j) => (i === j ? 1 : 0.5)));
+    const wp = multiply(w, structure);
+    traceWP += wp.reduce((sum, row, i) => sum + row[i], 0);
+
+    const xtw = multiply(transpose(block.x), w);
+    const xtwx = multiply(xtw, block.x);
+    const xtwpwx = multiply(multiply(xtw, structure), transpose(xtw));
+    for (let a = 0; a < p; a++) {
+      for (let b = 0; b < p; b++) {
+        information[a][b] += xtwx[a][b];
+        spread[a][b] += xtwpwx[a][b];
+      }
+    }
+  });
+
+  const product = multiply(invert(information), spread);
+  const trace = traceWP - product.reduce((sum, row, i) => sum + row[i], 0);
+  return Math.max(0, (qStatistic - df) / trace);
+}
+
+function restrictedLogLikelihood(blocks: Block[], tauSquared: number): number {
+  const fit = gls(blocks, tauSquared);
+  return -0.5 * (fit.logDeterminant + fit.logDeterminantInformation + fit.quadratic);
+}
+
+/**
+ * Re-express a study's contrasts against another of its arms. With the consistency
+ * structure for tau², the transformed block keeps the same form.
+ */
+function rebaseline(study: NetworkStudy, baseline: string): NetworkStudy {
+  const q = study.treatments.indexOf(baseline);
+  if (q === 0) return study;
+
+  const m = study.y.length;
+  const arms = study.treatments.map((_, k) => k).filter(k => k !== q);
+  const l: Matrix = arms.map(k => {
+    const row = new Array<number>(m).fill(0);
+    if (k > 0) row[k - 1] += 1;
+    row[q - 1] -= 1;
+    return row;
+  });
+
+  return {
+    ...study,
+    treatments: [baseline, ...arms.map(k => study.treatments[k])],
+    y: l.map(row => row.reduce((sum, value, i) => sum + value * study.y[i], 0)),
+    s: multiply(multiply(l, study.s), transpose(l)),
+  };
+}
+
+/**
+ * Network meta-analysis with a frequentist consistency model: every treatment effect is
+ * expressed through basic parameters against the reference and estimated by generalized
+ * least squares, with one between-study variance shared by all comparisons. `onSplit`
+ * is called after each node-splitting model.
+ */
+export function runNetworkMetaAnalysis(
+  rows: Record<string, any>[],
+  parameters: NetworkParameters,
+  onSplit?: (split: NodeSplit, index: number, total: number) => void
+): NetworkResults {
+  const modelType = parameters.modelType ?? 'RE';
+  if (modelType !== 'FE' && modelType !== 'RE') {
+    throw new StatsInputError(`Unsupported network model: ${modelType}`);
+  }
+  const method = parameters.method ?? 'REML';
+  if (method !== 'REML' && method !== 'DL') {
+    throw new StatsInputError(`Unsupported tau² estimator for network meta-analysis: ${method}`);
+  }
+  if (!isNetworkDataFormat(parameters.dataFormat)) {
+    throw new StatsInputError(`Unsupported network data format: ${parameters.dataFormat}`);
+  }
+  const smallValues = parameters.smallValues ?? 'good';
+  if (!isNetworkSmallValues(smallValues)) {
+    throw new StatsInputError(`Unsupported ranking direction: ${smallValues}`);
+  }
+
+  const warnings: string[] = [];
+  const studies = parameters.dataFormat === 'arm'
+    ? armStudies(rows, parameters.effectMeasure, warnings)
+    : contrastStudies(rows, parameters.effectMeasure);
+  if (studies.length === 0) {
+    throw new StatsInputError('No studies with usable comparisons');
+  }
+
+  // Treatments in order of first appearance; the default reference is the one included
+  // in the most studies
+  const treatments = [...new Set(studies.flatMap(study => study.treatments))];
+  if (treatments.length < 2) {
+    throw new StatsInputError('A network needs at least two treatments');
+  }
+  const studyCounts = treatments.map(treatment => studies.filter(study => study.treatments.includes(treatment)).length);
+  const reference = parameters.reference ?? treatments[studyCounts.indexOf(Math.max(...studyCounts))];
+  if (!treatments.includes(reference)) {
+    throw new StatsInputError(`Reference treatment ${reference} is not in the network`);
+  }
+
+  const edges = studies.flatMap(study =>
+    study.treatments.slice(1).map(treatment => [study.treatments[0], treatment] as [string, string])
+  );
+  const parts = components(treatments, edges);
+  if (parts.length > 1) {
+    throw new StatsInputError(`The network is disconnected: ${parts.map(part => `{${part.join(', ')}}`).join(' and ')}`);
+  }
+
+  // Basic parameters: every treatment except the reference, against the reference
+  const basic = treatments.filter(treatment => treatment !== reference);
+  const column = new Map(basic.map((treatment, i) => [treatment, i]));
+  const p = basic.length;
+  const contrastRow = (treatment: string, baseline: string, extra = 0) => {
+    const row = new Array<number>(p + extra).fill(0);
+    if (column.has(treatment)) row[column.get(treatment)!] += 1;
+    if (column.has(baseline)) row[column.get(baseline)!] -= 1;
+    return row;
+  };
+  const blocks: Block[] = studies.map(study => ({
+    y: study.y,
+    x: study.treatments.slice(1).map(treatment => contrastRow(treatment, study.treatments[0])),
+    s: study.s,
+  }));
+
+  const contrasts = blocks.reduce((sum, block) => sum + block.y.length, 0);
+  const qDf = contrasts - p;
+  const fixed = gls(blocks, 0);
+  const qStatistic = fixed.quadratic;
+
+  let tauSquared = 0;
+  if (modelType === 'RE') {
+    if (qDf <= 0) {
+      warnings.push('The network has no degrees of freedom for heterogeneity, so tau² was set to zero');
+    } else {
+      tauSquared = networkDerSimonianLaird(blocks, qStatistic, qDf);
+      if (method === 'REML') {
+        const meanV = blocks.reduce((sum, block) => sum + block.s[0][0], 0) / blocks.length;
+        const start = Math.sqrt(Math.max(tauSquared, 0.01 * meanV));
+        const fit = nelderMead(x => -restrictedLogLikelihood(blocks, x[0] * x[0]), [start], { step: start / 2 });
+        tauSquared = fit.x[0] * fit.x[0];
+        if (!fit.converged) {
+          warnings.push('The REML estimate of tau² did not converge');
+        }
+      }
+    }
+  }
+
+  const model = modelType === 'RE' ? gls(blocks, tauSquared) : fixed;
+
+  // Effects and covariance over all treatments, with the reference fixed at zero
+  const index = (treatment: string) => column.get(treatment);
+  const effect = (treatment: string) => (index(treatment) === undefined ? 0 : model.coefficients[index(treatment)!]);
+  const covariance = (a: string, b: string) =>
+    index(a) === undefined || index(b) === undefined ? 0 : model.covariance[index(a)!][index(b)!];
+  const contrastVariance = (a: string, b: string) => covariance(a, a) + covariance(b, b) - 2 * covariance(a, b);
+
+  const zCrit = normalQuantile(0.975);
+  const transform = isRatioMeasure(parameters.effectMeasure) ? Math.exp : (x: number) => x;
+  const evidence = (estimate: number, se: number): NetworkEvidence => ({
+    estimate: transform(estimate),
+    ciLower: transform(estimate - zCrit * se),
+    ciUpper: transform(estimate + zCrit * se),
+  });
+  const compare = (treatment: string, comparator: string): NetworkComparison => {
+    const estimate = effect(treatment) - effect(comparator);
+    const se = Math.sqrt(contrastVariance(treatment, comparator));
+    return { treatment, comparator, ...evidence(estimate, se), pValue: normalTwoSidedP(estimate / se) };
+  };
+
+  const relativeEffects = basic.map(treatment => compare(treatment, reference));
+  const league = treatments.map(a => treatments.map(b => (a === b ? null : compare(a, b))));
+
+  // P-scores are the mean probability of beating each competitor (Rücker & Schwarzer,
+  // 2015); SUCRA comes from simulated rank probabilities
+  const sign = smallValues === 'good' ? -1 : 1;
+  const pScores = treatments.map(a => treatments
+    .filter(b => b !== a)
+    .reduce((sum, b) => sum + normalCdf((sign * (effect(a) - effect(b))) / Math.sqrt(contrastVariance(a, b))), 0) /
+    (treatments.length - 1));
+
+  const random = createRandom(parameters.seed ?? 1);
+  const normal = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  const factor = transpose(cholesky(model.covariance));
+  const rankCounts = treatments.map(() => new Array<number>(treatments.length).fill(0));
+  for (let draw = 0; draw < RANK_SIMULATIONS; draw++) {
+    const z = basic.map(() => normal());
+    const values = treatments.map(treatment => {
+      const i = index(treatment);
+      return i === undefined ? 0 : model.coefficients[i] + factor[i].reduce((sum, value, j) => sum + value * z[j], 0);
+    });
+    const order = treatments.map((_, i) => i).sort((a, b) => sign * (values[b] - values[a]));
+    order.forEach((treatmentIndex, rank) => { rankCounts[treatmentIndex][rank]++; });
+  }
+
+  const rankings: NetworkRanking[] = treatments.map((treatment, i) => {
+    const rankProbabilities = rankCounts[i].map(count => count / RANK_SIMULATIONS);
+    let cumulative = 0;
+    let sucra = 0;
+    rankProbabilities.slice(0, -1).forEach(probability => {
+      cumulative += probability;
+      sucra += cumulative;
+    });
+    return {
+      treatment,
+      pScore: pScores[i],
+      sucra: sucra / (treatments.length - 1),
+      meanRank: rankProbabilities.reduce((sum, probability, rank) => sum + (rank + 1) * probability, 0),
+      rankProbabilities,
+    };
+  });
+
+  // Node-splitting: for each directly compared pair, studies of both treatments get a
+  // separate parameter for that comparison, so the basic parameters carry only the
+  // indirect evidence. Tau² is held at the consistency-model value.
+  const pairs: Array<[string, string]> = [];
+  treatments.forEach((a, i) => treatments.slice(i + 1).forEach(b => {
+    if (studies.some(study => study.treatments.includes(a) && study.treatments.includes(b))) pairs.push([a, b]);
+  }));
+
+  const nodeSplits: NodeSplit[] = [];
+  pairs.forEach(([treatment, comparator], pairIndex) => {
+    const splitStudies = studies.map(study =>
+      study.treatments.includes(treatment) && study.treatments.includes(comparator) ? rebaseline(study, comparator) : study
+    );
+    const isSplit = (study: NetworkStudy, arm: string) =>
+      arm === treatment && study.treatments[0] === comparator && study.treatments.includes(treatment);
+
+    // Indirect evidence needs a path between the two treatments without the split contrasts
+    const remaining = splitStudies.flatMap(study => study.treatments.slice(1)
+      .filter(arm => !isSplit(study, arm))
+      .map(arm => [study.treatments[0], arm] as [string, string]));
+    const connected = components(treatments, remaining)
+      .some(part => part.includes(treatment) && part.includes(comparator));
+    if (!connected) return;
+
+    const splitBlocks: Block[] = splitStudies.map(study => ({
+      y: study.y,
+      x: study.treatments.slice(1).map(arm => {
+        if (!isSplit(study, arm)) return contrastRow(arm, study.treatments[0], 1);
+        const row = new Array<number>(p + 1).fill(0);
+        row[p] = 1;
+        return row;
+      }),
+      s: study.s,
+    }));
+    const fit = gls(splitBlocks, tauSquared);
+
+    // Indirect estimate as a linear combination of the basic parameters
+    const weights = new Array<number>(p + 1).fill(0);
+    if (column.has(treatment)) weights[column.get(treatment)!] += 1;
+    if (column.has(comparator)) weights[column.get(comparator)!] -= 1;
+    const indirect = weights.reduce((sum, value, a) => sum + value * fit.coefficients[a], 0);
+    const indirectVariance = weights.reduce((sum, wa, a) =>
+      sum + weights.reduce((inner, wb, b) => inner + wa * wb * fit.covariance[a][b], 0), 0);
+    const covarianceWithDirect = weights.reduce((sum, value, a) => sum + value * fit.covariance[a][p], 0);
+    const direct = fit.coefficients[p];
+    const directVariance = fit.covariance[p][p];
+
+    const difference = direct - indirect;
+    const differenceSe = Math.sqrt(Math.max(0, directVariance + indirectVariance - 2 * covarianceWithDirect));
+    const network = compare(treatment, comparator);
+
+    const split: NodeSplit = {
+      treatment,
+      comparator,
+      directStudies: splitStudies.filter(study => study.treatments[0] === comparator && study.treatments.includes(treatment)).length,
+      direct: evidence(direct, Math.sqrt(directVariance)),
+      indirect: evidence(indirect, Math.sqrt(indirectVariance)),
+      network: { estimate: network.estimate, ciLower: network.ciLower, ciUpper: network.ciUpper },
+      difference,
+      differenceSe,
+      pValue: normalTwoSidedP(difference / differenceSe),
+    };
+    nodeSplits.push(split);
+    onSplit?.(split, pairIndex, pairs.length);
+  });
+
+  const geometry: NetworkGeometry = {
+    nodes: treatments.map((treatment, i) => {
+      const sampleSize = studies.every(study => study.sampleSizes)
+        ? studies.reduce((sum, study) => {
+            const arm = study.treatments.indexOf(treatment);
+            return arm === -1 ? sum : sum + study.sampleSizes![arm];
+          }, 0)
+        : undefined;
+      return { treatment, studies: studyCounts[i], ...(sampleSize !== undefined ? { sampleSize } : {}) };
+    }),
+    edges: pairs.map(([treatment1, treatment2]) => ({
+      treatment1,
+      treatment2,
+      studies: studies.filter(study => study.treatments.includes(treatment1) && study.treatments.includes(treatment2)).length,
+    })),
+  };
+
+  return {
+    effectMeasure: parameters.effectMeasure,
+    modelType,
+    method: modelType === 'RE' ? method : 'FE',
+    reference,
+    treatments,
+    k: studies.length,
+    multiArmStudies: studies.filter(study => study.treatments.length > 2).length,
+    tauSquared,
+    heterogeneity: {
+      qStatistic,
+      qDf,
+      qPvalue: qDf > 0 ? chiSquareSurvival(qStatistic, qDf) : 1,
+      iSquared: qDf > 0 && qStatistic > 0 ? Math.max(0, (100 * (qStatistic - qDf)) / qStatistic) : 0,
+    },
+    relativeEffects,
+    league,
+    rankings,
+    nodeSplits,
+    geometry,
+    warnings,
+  };
+}
@@ -0,0 +1,119 @@
+import type { Matrix } from './matrix';
+
+export interface MinimizeOptions {
+  maxIterations?: number;
+  tolerance?: number;
+  // Initial simplex edge length per parameter
+  step?: number;
+}
+
+export interface MinimizeResult {
+  x: number[];
+  value: number;
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * Minimize a function with the Nelder-Mead simplex method
+ */
+export function nelderMead(
+  fn: (x: number[]) => number,
+  start: number[],
+  options: MinimizeOptions = {}
+): MinimizeResult {
+  const n = start.length;
+  const maxIterations = options.maxIterations ?? 2000 * Math.max(1, n);
+  const tolerance = options.tolerance ?? 1e-10;
+  const step = options.step ?? 0.1;
+
+  // Non-finite values (e.g. parameters outside the support) are treated as +Infinity
+  const evaluate = (x: number[]) => {
+    const value = fn(x);
+    return Number.isFinite(value) ? value : Infinity;
+  };
+
+  let simplex = [start, ...start.map((_, i) => {
+    const point = [...start];
+    point[i] += point[i] !== 0 ? step * Math.max(1, Math.abs(point[i])) : step;
+    return point;
+  })].map(x => ({ x, value: evaluate(x) }));
+
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < maxIterations) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+
+    if (Math.abs(worst.value - best.value) <= tolerance * (Math.abs(best.value) + tolerance)) {
+      converged = true;
+      break;
+    }
+    iterations++;
+
+    const centroid = new Array(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) centroid[j] += simplex[i].x[j] / n;
+    }
+    const along = (t: number) => centroid.map((c, j) => c + t * (worst.x[j] - c));
+
+    const reflected = along(-1);
+    const reflectedValue = evaluate(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = along(-2);
+      const expandedValue = evaluate(expanded);
+      simplex[n] = expandedValue < reflectedValue
+        ? { x: expanded, value: expandedValue }
+        : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { x: reflected, value: reflectedValue };
+    } else {
+      const contracted = reflectedValue < worst.value ? along(-0.5) : along(0.5);
+      const contractedValue = evaluate(contracted);
+      if (contractedValue < Math.min(reflectedValue, worst.value)) {
+        simplex[n] = { x: contracted, value: contractedValue };
+      } else {
+        // Shrink towards the best point
+        simplex = simplex.map((vertex, i) => {
+          if (i === 0) return vertex;
+          const x = vertex.x.map((v, j) => best.x[j] + 0.5 * (v - best.x[j]));
+          return { x, value: evaluate(x) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return { x: simplex[0].x, value: simplex[0].value, iterations, converged };
+}
+
+/**
+ * Central finite-difference Hessian of a function at x
+ */
+export function numericHessian(fn: (x: number[]) => number, x: number[]): Matrix {
+  const n = x.length;
+  const h = x.map(v => 1e-4 * Math.max(1, Math.abs(v)));
+  const at = (offsets: Array<[number, number]>) => {
+    const point = [...x];
+    offsets.forEach(([i, d]) => { point[i] += d; });
+    return fn(point);
+  };
+
+  const f0 = fn(x);
+  const hessian: Matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    hessian[i][i] = (at([[i, h[i]]]) - 2 * f0 + at([[i, -h[i]]])) / (h[i] * h[i]);
+    for (let j = i + 1; j < n; j++) {
+      const value = (
+        at([[i, h[i]], [j, h[j]]]) - at([[i, h[i]], [j, -h[j]]]) -
+        at([[i, -h[i]], [j, h[j]]]) + at([[i, -h[i]], [j, -h[j]]])
+      ) / (4 * h[i] * h[j]);
+      hessian[i][j] = value;
+      hessian[j][i] = value;
+    }
+  }
+  return hessian;
+}
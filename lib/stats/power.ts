@@ -0,0 +1,216 @@
+import type {
+  MetaAnalysisPowerParameters,
+  MetaAnalysisPowerResults,
+  PowerCurvePoint,
+  TrialPowerParameters,
+  TrialPowerResults,
+} from '@/lib/services/power';
+import { normalCdf, normalQuantile, tCdf, tQuantile } from './distributions';
+import { StatsInputError } from './errors';
+
+const DEFAULT_ALPHA = 0.05;
+const DEFAULT_POWER = 0.8;
+
+// Points on each power curve
+const CURVE_POINTS = 40;
+
+// Largest number of studies searched for the target power
+const MAX_STUDIES = 10000;
+
+function validateProbability(value: number, name: string) {
+  if (!(value > 0 && value < 1)) {
+    throw new StatsInputError(`${name} must lie between 0 and 1`);
+  }
+}
+
+/**
+ * Power of a two-sided z-test whose statistic has mean `noncentrality`
+ */
+function twoSidedPower(noncentrality: number, alpha: number): number {
+  const critical = normalQuantile(1 - alpha / 2);
+  return 1 - normalCdf(critical - noncentrality) + normalCdf(-critical - noncentrality);
+}
+
+/**
+ * Power of a planned meta-analysis: the pooled SMD has variance v / k under the
+ * fixed-effect model and (v + tau²) / k under the random-effects model, where v is the
+ * variance of a typical study (Hedges and Pigott, 2001). tau² follows from I² as
+ * v I² / (1 - I²).
+ */
+export function metaAnalysisPower(parameters: MetaAnalysisPowerParameters): MetaAnalysisPowerResults {
+  const alpha = parameters.alpha ?? DEFAULT_ALPHA;
+  const targetPower = parameters.power ?? DEFAULT_POWER;
+  validateProbability(alpha, 'Alpha');
+  validateProbability(targetPower, 'Power');
+  const { k, groupSize, effectSize, modelType } = parameters;
+  if (!Number.isInteger(k) || k < 1) {
+    throw new StatsInputError('The number of studies must be a positive whole number');
+  }
+  if (!(groupSize > 1)) {
+    throw new StatsInputError('The average group size must be greater than 1');
+  }
+  if (!Number.isFinite(effectSize) || effectSize === 0) {
+    throw new StatsInputError('The expected effect size must be a non-zero number');
+  }
+  const iSquared = modelType === 'RE' ? parameters.iSquared ?? 0 : 0;
+  if (!(iSquared >= 0 && iSquared < 1)) {
+    throw new StatsInputError('I² must be at least 0 and below 1');
+  }
+
+  const warnings: string[] = [];
+  if (modelType === 'FE' && parameters.iSquared) {
+    warnings.push('I² is ignored by the fixed-effect model');
+  }
+
+  const withinStudyVariance = 2 / groupSize + (effectSize * effectSize) / (4 * groupSize);
+  const tauSquared = (withinStudyVariance * iSquared) / (1 - iSquared);
+  const powerFor = (studies: number) =>
+    twoSidedPower(Math.abs(effectSize) / Math.sqrt((withinStudyVariance + tauSquared) / studies), alpha);
+
+  const pooledSe = Math.sqrt((withinStudyVariance + tauSquared) / k);
+  let requiredStudies: number | null = null;
+  for (let studies = 1; studies <= MAX_STUDIES; studies++) {
+    if (powerFor(studies) >= targetPower) {
+      requiredStudies = studies;
+      break;
+    }
+  }
+
+  // Power by the number of studies, up to twice the planned or required number
+  const maxStudies = Math.max(2 * k, requiredStudies !== null ? Math.ceil(1.5 * requiredStudies) : 0, 10);
+  const step = Math.max(1, Math.ceil(maxStudies / CURVE_POINTS));
+  const curve: PowerCurvePoint[] = [];
+  for (let studies = 1; studies <= maxStudies; studies += step) {
+    curve.push({ x: studies, power: powerFor(studies) });
+  }
+
+  return {
+    calculation: 'meta_analysis',
+    modelType,
+    alpha,
+    power: powerFor(k),
+    withinStudyVariance,
+    tauSquared,
+    pooledSe,
+    noncentrality: Math.abs(effectSize) / pooledSe,
+    targetPower,
+    requiredStudies,
+    curve,
+    warnings,
+  };
+}
+
+/**
+ * Power with `treatment` participants in the treatment arm, and the participants needed for
+ * the target power before rounding. Continuous outcomes use the t-test, binary outcomes
+ * the comparison of proportions with the pooled variance under the null and the unpooled
+ * variance under the alternative (Fleiss) and time-to-event outcomes Schoenfeld's formula
+ * for the log-rank test.
+ */
+function trialDesign(parameters: TrialPowerParameters, alpha: number, targetPower: number, ratio: number) {
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zBeta = normalQuantile(targetPower);
+
+  switch (parameters.outcome) {
+    case 'continuous': {
+      const { meanDifference, sd } = parameters;
+      if (!Number.isFinite(meanDifference) || meanDifference === 0) {
+        throw new StatsInputError('The mean difference must be a non-zero number');
+      }
+      if (!(sd > 0)) {
+        throw new StatsInputError('The standard deviation must be positive');
+      }
+      const standardized = Math.abs(meanDifference) / sd;
+      const power = (treatment: number) => {
+        const df = treatment * (1 + ratio) - 2;
+        if (df < 1) return 0;
+        const noncentrality = standardized / Math.sqrt(1 / treatment + 1 / (ratio * treatment));
+        const critical = tQuantile(1 - alpha / 2, df);
+        return 1 - tCdf(critical - noncentrality, df) + tCdf(-critical - noncentrality, df);
+      };
+
+      // Start from the normal approximation and refine with t quantiles
+      let treatment = ((1 + 1 / ratio) * (zAlpha + zBeta) ** 2) / (standardized * standardized);
+      for (let iteration = 0; iteration < 20; iteration++) {
+        const df = Math.max(1, treatment * (1 + ratio) - 2);
+        treatment = ((1 + 1 / ratio) * (tQuantile(1 - alpha / 2, df) + tQuantile(targetPower, df)) ** 2) /
+          (standardized * standardized);
+      }
+      return { treatment, power, events: null };
+    }
+    case 'binary': {
+      const { treatmentProportion: p1, controlProportion: p2 } = parameters;
+      validateProbability(p1, 'The treatment proportion');
+      validateProbability(p2, 'The control proportion');
+      if (p1 === p2) {
+        throw new StatsInputError('The treatment and control proportions must differ');
+      }
+      const pooled = (p1 + ratio * p2) / (1 + ratio);
+      const nullSd = Math.sqrt(pooled * (1 - pooled) * (1 + 1 / ratio));
+      const alternativeSd = Math.sqrt(p1 * (1 - p1) + (p2 * (1 - p2)) / ratio);
+      const difference = Math.abs(p1 - p2);
+      const power = (treatment: number) =>
+        normalCdf((difference * Math.sqrt(treatment) - zAlpha * nullSd) / alternativeSd);
+      const treatment = (zAlpha * nullSd + zBeta * alternativeSd) ** 2 / (difference * difference);
+      return { treatment, power, events: null };
+    }
+    case 'time_to_event': {
+      const { hazardRatio, eventProbability } = parameters;
+      if (!(hazardRatio > 0) || hazardRatio === 1) {
+        throw new StatsInputError('The hazard ratio must be positive and differ from 1');
+      }
+      validateProbability(eventProbability, 'The event probability');
+      const share = 1 / (1 + ratio);
+      const logHazard = Math.abs(Math.log(hazardRatio));
+      const events = (zAlpha + zBeta) ** 2 / (share * (1 - share) * logHazard * logHazard);
+      const power = (treatment: number) => {
+        const total = treatment * (1 + ratio);
+        return normalCdf(Math.sqrt(total * eventProbability * share * (1 - share)) * logHazard - zAlpha);
+      };
+      return { treatment: (events / eventProbability) * share, power, events };
+    }
+  }
+}
+
+/**
+ * Sample size for a two-arm trial with the target power, and power by total sample size
+ */
+export function trialPower(parameters: TrialPowerParameters): TrialPowerResults {
+  const alpha = parameters.alpha ?? DEFAULT_ALPHA;
+  const targetPower = parameters.power ?? DEFAULT_POWER;
+  const ratio = parameters.allocationRatio ?? 1;
+  validateProbability(alpha, 'Alpha');
+  validateProbability(targetPower, 'Power');
+  if (!(ratio > 0)) {
+    throw new StatsInputError('The allocation ratio must be positive');
+  }
+
+  const design = trialDesign(parameters, alpha, targetPower, ratio);
+  const treatment = Math.max(2, Math.ceil(design.treatment - 1e-9));
+  const control = Math.max(2, Math.ceil(ratio * treatment - 1e-9));
+
+  const warnings: string[] = [];
+  if (parameters.outcome === 'binary' && Math.min(treatment * parameters.treatmentProportion, control * parameters.controlProportion) < 5) {
+    warnings.push('Fewer than 5 events are expected in an arm; the normal approximation may be poor and an exact test is advisable');
+  }
+
+  // Power by total sample size, from a quarter of the required size to twice it
+  const total = treatment + control;
+  const curve: PowerCurvePoint[] = Array.from({ length: CURVE_POINTS }, (_, i) => {
+    const size = Math.max(4, Math.round(total * (0.25 + (1.75 * i) / (CURVE_POINTS - 1))));
+    return { x: size, power: design.power(size / (1 + ratio)) };
+  });
+
+  return {
+    calculation: 'two_arm_trial',
+    outcome: parameters.outcome,
+    alpha,
+    targetPower,
+    allocationRatio: ratio,
+    sampleSize: { treatment, control, total },
+    events: design.events !== null ? Math.ceil(design.events) : null,
+    achievedPower: design.power(treatment),
+    curve,
+    warnings,
+  };
+}
@@ -0,0 +1,88 @@
+// Single-arm proportions (events out of n) and their variance-stabilizing transforms.
+// Measure codes follow metafor's escalc.
+
+import { StatsInputError } from './errors';
+
+export type ProportionMeasure = 'PR' | 'PLO' | 'PAS' | 'PFT';
+
+// Raw proportion, logit, arcsine square root and Freeman-Tukey double arcsine
+export const PROPORTION_MEASURES: ProportionMeasure[] = ['PR', 'PLO', 'PAS', 'PFT'];
+
+export function isProportionMeasure(effectMeasure: string): effectMeasure is ProportionMeasure {
+  return (PROPORTION_MEASURES as string[]).includes(effectMeasure.toUpperCase());
+}
+
+export function logit(p: number): number {
+  return Math.log(p / (1 - p));
+}
+
+export function expit(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Freeman-Tukey double arcsine of a proportion p observed in n participants, scaled by
+ * 1/2 as in metafor
+ */
+export function freemanTukey(p: number, n: number): number {
+  return 0.5 * (Math.asin(Math.sqrt((p * n) / (n + 1))) + Math.asin(Math.sqrt((p * n + 1) / (n + 1))));
+}
+
+/**
+ * Inverse of the Freeman-Tukey transform (Miller, 1978), for a sample size n; pooled
+ * estimates use the harmonic mean of the study sizes
+ */
+function inverseFreemanTukey(t: number, n: number): number {
+  if (t <= freemanTukey(0, n)) return 0;
+  if (t >= freemanTukey(1, n)) return 1;
+  const s = Math.sin(2 * t);
+  return 0.5 * (1 - Math.sign(Math.cos(2 * t)) * Math.sqrt(1 - (s + (s - 1 / s) / n) ** 2));
+}
+
+/**
+ * Map a value on the analysis scale back to a proportion
+ */
+export function backTransformProportion(value: number, measure: ProportionMeasure, n?: number): number {
+  switch (measure) {
+    case 'PR':
+      return Math.min(1, Math.max(0, value));
+    case 'PLO':
+      return expit(value);
+    case 'PAS':
+      return Math.sin(Math.min(Math.PI / 2, Math.max(0, value))) ** 2;
+    case 'PFT':
+      if (n === undefined || !(n > 0)) {
+        throw new StatsInputError('The Freeman-Tukey back-transformation needs a sample size');
+      }
+      return inverseFreemanTukey(value, n);
+  }
+}
+
+/**
+ * Harmonic mean of the study sample sizes, used to back-transform pooled Freeman-Tukey
+ * estimates
+ */
+export function harmonicMean(values: number[]): number | undefined {
+  const usable = values.filter(value => value > 0);
+  if (usable.length === 0) return undefined;
+  return usable.length / usable.reduce((sum, value) => sum + 1 / value, 0);
+}
+
+/**
+ * Sample size of a single-arm study, from n or a numeric sample_size
+ */
+export function proportionSampleSize(study: Record<string, any>): number | undefined {
+  const n = Number(study.n ?? study.sample_size);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Back-transformation of pooled values for a proportion measure; Freeman-Tukey uses the
+ * harmonic mean sample size of the studies
+ */
+export function proportionTransform(measure: ProportionMeasure, studies: Record<string, any>[]): (x: number) => number {
+  const n = measure === 'PFT'
+    ? harmonicMean(studies.map(proportionSampleSize).filter((value): value is number => value !== undefined))
+    : undefined;
+  return (x: number) => backTransformProportion(x, measure, n);
+}
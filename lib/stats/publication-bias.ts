@@ -0,0 +1,572 @@
+import { Study } from '@/types/meta-analysis';
+import type {
+  BiasAdjustedEstimate,
+  FunnelSide,
+  PublicationBiasMethod,
+  PublicationBiasParameters,
+  PublicationBiasResults,
+  RegressionTestResult,
+  SelectionModelWeight,
+  TrimAndFillEstimator,
+} from '@/lib/services/meta-analysis';
+import { chiSquareSurvival, normalCdf, normalQuantile, normalTwoSidedP, tQuantile, tTwoSidedP } from './distributions';
+import { StatsInputError } from './errors';
+import {
+  getEffectData,
+  independentModelType,
+  isRatioMeasure,
+  isTauSquaredMethod,
+  poolEffects,
+  PooledEstimate,
+  PoolingOptions,
+  reportingTransform,
+  TauSquaredMethod,
+} from './meta-analysis';
+import { invert, weightedLeastSquares } from './matrix';
+import { nelderMead, numericHessian } from './optimize';
+
+export const PUBLICATION_BIAS_METHODS: PublicationBiasMethod[] = [
+  'egger',
+  'begg',
+  'trim_and_fill',
+  'pet_peese',
+  'selection_model',
+  'fail_safe_n',
+];
+
+export const DEFAULT_PUBLICATION_BIAS_METHODS: PublicationBiasMethod[] = ['egger', 'trim_and_fill', 'fail_safe_n'];
+
+// Vevea & Hedges' default: studies significant at the one-sided .025 level are
+// selected differently from the rest
+const DEFAULT_CUTPOINTS = [0.025];
+
+const MAX_TRIM_AND_FILL_ITERATIONS = 100;
+
+// Kendall's tau p-values are computed exactly below this size, as cor.test does
+const EXACT_KENDALL_LIMIT = 50;
+
+type Transform = (x: number) => number;
+
+export function isPublicationBiasMethod(method: string): method is PublicationBiasMethod {
+  return (PUBLICATION_BIAS_METHODS as string[]).includes(method);
+}
+
+function fromPooled(pooled: PooledEstimate, transform: Transform): BiasAdjustedEstimate {
+  return {
+    estimate: transform(pooled.estimate),
+    se: pooled.se,
+    ciLower: transform(pooled.ciLower),
+    ciUpper: transform(pooled.ciUpper),
+    pValue: pooled.pValue,
+  };
+}
+
+/**
+ * Weighted regression of yi on a single predictor with a multiplicative dispersion
+ * parameter (lm with weights 1/vi), testing the coefficient at `term`
+ */
+function regressionTest(yi: number[], vi: number[], predictor: number[], term: 0 | 1): RegressionTestResult & { slope: number } {
+  const x = yi.map((_, i) => [1, predictor[i]]);
+  const fit = weightedLeastSquares(x, yi, vi.map(v => 1 / v));
+  const sigma2 = fit.df > 0 ? fit.rss / fit.df : NaN;
+
+  const coefficient = fit.coefficients[term];
+  const se = Math.sqrt(fit.covariance[term][term] * sigma2);
+  const statistic = coefficient / se;
+  const crit = tQuantile(0.975, fit.df);
+
+  return {
+    intercept: coefficient,
+    se,
+    statistic,
+    df: fit.df,
+    pValue: tTwoSidedP(statistic, fit.df),
+    ciLower: coefficient - crit * se,
+    ciUpper: coefficient + crit * se,
+    slope: fit.coefficients[1 - term],
+  };
+}
+
+/**
+ * Egger's regression test: the effect regressed on its standard error, which is the
+ * classic regression of the standard normal deviate on precision with the roles of
+ * intercept and slope swapped
+ */
+function eggerTest(yi: number[], vi: number[]): NonNullable<PublicationBiasResults['egger']> {
+  return regressionTest(yi, vi, vi.map(Math.sqrt), 1);
+}
+
+/**
+ * Probabilities of each number of concordant pairs among permutations of n items
+ */
+function kendallDistribution(n: number): number[] {
+  let dist = [1];
+  for (let m = 2; m <= n; m++) {
+    const next = new Array(dist.length + m - 1).fill(0);
+    dist.forEach((p, q) => {
+      for (let i = 0; i < m; i++) next[q + i] += p / m;
+    });
+    dist = next;
+  }
+  return dist;
+}
+
+function tieCounts(values: number[]): number[] {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  return Array.from(counts.values()).filter(t => t > 1);
+}
+
+/**
+ * Kendall's tau-b with cor.test's p-value: exact without ties for small samples,
+ * otherwise the tie-corrected normal approximation
+ */
+function kendallTest(x: number[], y: number[]) {
+  const n = x.length;
+  let s = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      s += Math.sign(x[i] - x[j]) * Math.sign(y[i] - y[j]);
+    }
+  }
+
+  const pairs = (n * (n - 1)) / 2;
+  const tiesX = tieCounts(x);
+  const tiesY = tieCounts(y);
+  const tiedPairs = (ties: number[]) => ties.reduce((sum, t) => sum + (t * (t - 1)) / 2, 0);
+  const tau = s / Math.sqrt((pairs - tiedPairs(tiesX)) * (pairs - tiedPairs(tiesY)));
+
+  if (n < EXACT_KENDALL_LIMIT && tiesX.length === 0 && tiesY.length === 0) {
+    const dist = kendallDistribution(n);
+    const q = Math.round((s + pairs) / 2);
+    const lower = dist.slice(0, q + 1).reduce((a, b) => a + b, 0);
+    const upper = dist.slice(q).reduce((a, b) => a + b, 0);
+    return { tau, statistic: q, pValue: Math.min(1, 2 * Math.min(lower, upper)), exact: true };
+  }
+
+  const sum = (ties: number[], f: (t: number) => number) => ties.reduce((acc, t) => acc + f(t), 0);
+  const variance =
+    (n * (n - 1) * (2 * n + 5) -
+      sum(tiesX, t => t * (t - 1) * (2 * t + 5)) -
+      sum(tiesY, t => t * (t - 1) * (2 * t + 5))) / 18 +
+    (sum(tiesX, t => t * (t - 1)) * sum(tiesY, t => t * (t - 1))) / (2 * n * (n - 1)) +
+    (n > 2
+      ? (sum(tiesX, t => t * (t - 1) * (t - 2)) * sum(tiesY, t => t * (t - 1) * (t - 2))) / (9 * n * (n - 1) * (n - 2))
+      : 0);
+  const z = s / Math.sqrt(variance);
+  return { tau, statistic: z, pValue: normalTwoSidedP(z), exact: false };
+}
+
+/**
+ * Begg and Mazumdar's rank correlation between standardized effects and their variances
+ */
+function beggTest(yi: number[], vi: number[]): NonNullable<PublicationBiasResults['begg']> {
+  const fixed = poolEffects(yi, vi, { modelType: 'FE' });
+  const sumW = vi.reduce((sum, v) => sum + 1 / v, 0);
+  const standardized = yi.map((y, i) => (y - fixed.estimate) / Math.sqrt(vi[i] - 1 / sumW));
+  const { tau, statistic, pValue, exact } = kendallTest(standardized, vi);
+  return { kendallTau: tau, statistic, pValue, exact };
+}
+
+/**
+ * Slope of the effect on its standard error under the chosen model; a negative slope
+ * means small studies with large effects are missing on the right
+ */
+function estimateMissingSide(yi: number[], vi: number[], tauSquared: number): FunnelSide {
+  const x = yi.map((_, i) => [1, Math.sqrt(vi[i])]);
+  const fit = weightedLeastSquares(x, yi, vi.map(v => 1 / (v + tauSquared)));
+  return fit.coefficients[1] < 0 ? 'right' : 'left';
+}
+
+/**
+ * Duval and Tweedie's trim-and-fill, following metafor::trimfill
+ */
+function trimAndFill(
+  studies: Study[],
+  yi: number[],
+  vi: number[],
+  pooling: PoolingOptions,
+  estimator: TrimAndFillEstimator,
+  requestedSide: FunnelSide | undefined,
+  tauSquared: number,
+  transform: Transform,
+  warnings: string[]
+): NonNullable<PublicationBiasResults['trimAndFill']> {
+  const k = yi.length;
+  const side = requestedSide ?? estimateMissingSide(yi, vi, tauSquared);
+
+  // Work as if studies are missing on the left, so the largest effects are trimmed
+  const flip = side === 'right' ? -1 : 1;
+  const order = yi.map((_, i) => i).sort((a, b) => flip * yi[a] - flip * yi[b]);
+  const y = order.map(i => flip * yi[i]);
+  const v = order.map(i => vi[i]);
+
+  let k0 = 0;
+  let k0Se = 0;
+  let center = 0;
+  let converged = false;
+
+  for (let iteration = 0; iteration < MAX_TRIM_AND_FILL_ITERATIONS; iteration++) {
+    center = poolEffects(y.slice(0, k - k0), v.slice(0, k - k0), pooling).estimate;
+
+    const deviations = y.map(value => value - center);
+    const ranked = deviations
+      .map((d, i) => ({ d, i }))
+      .sort((a, b) => Math.abs(a.d) - Math.abs(b.d) || a.i - b.i);
+    const signedRanks = new Array(k).fill(0);
+    ranked.forEach(({ d, i }, rank) => { signedRanks[i] = Math.sign(d) * (rank + 1); });
+
+    let next: number;
+    if (estimator === 'R0') {
+      const negative = signedRanks.filter(r => r < 0).map(r => -r);
+      next = k - (negative.length > 0 ? Math.max(...negative) : 0) - 1;
+      k0Se = Math.sqrt(2 * Math.max(0, next) + 2);
+    } else {
+      const sr = signedRanks.filter(r => r > 0).reduce((a, b) => a + b, 0);
+      next = (4 * sr - k * (k + 1)) / (2 * k - 1);
+      const varSr = (k * (k + 1) * (2 * k + 1) + 10 * next ** 3 + 27 * next ** 2 + 17 * next -
+        18 * k * next ** 2 - 18 * k * next + 6 * k ** 2 * next) / 24;
+      k0Se = (4 * Math.sqrt(Math.max(0, varSr))) / (2 * k - 1);
+    }
+    next = Math.min(k - 1, Math.max(0, Math.round(next)));
+
+    if (next === k0) {
+      converged = true;
+      break;
+    }
+    k0 = next;
+  }
+
+  if (!converged) {
+    warnings.push(`Trim and fill did not converge after ${MAX_TRIM_AND_FILL_ITERATIONS} iterations`);
+  }
+
+  // Mirror the trimmed studies around the trimmed estimate, back on the original scale
+  const filledY = y.slice(k - k0).map(value => flip * (2 * center - value));
+  const filledV = v.slice(k - k0);
+  const adjusted = poolEffects([...yi, ...filledY], [...vi, ...filledV], pooling);
+  const sumWeights = adjusted.weights.reduce((a, b) => a + b, 0);
+
+  const filled: Study[] = filledY.map((value, i) => {
+    const source = studies[order[k - k0 + i]];
+    return {
+      study_id: `filled_${i + 1}`,
+      study_label: `Filled (${source.study_label})`,
+      effect_size: transform(value),
+      se: Math.sqrt(filledV[i]),
+      weight: (100 * adjusted.weights[k + i]) / sumWeights,
+      filled: true,
+    };
+  });
+
+  return {
+    ...fromPooled(adjusted, transform),
+    estimator,
+    side,
+    k0,
+    k0Se,
+    tauSquared: adjusted.tauSquared,
+    filled,
+  };
+}
+
+/**
+ * PET-PEESE (Stanley & Doucouliagos): the intercept of a regression on the standard
+ * error (PET), or on the variance (PEESE) when PET finds a non-zero effect
+ */
+function petPeese(yi: number[], vi: number[], transform: Transform): NonNullable<PublicationBiasResults['petPeese']> {
+  const strip = ({ slope, ...rest }: RegressionTestResult & { slope: number }): RegressionTestResult => rest;
+  const pet = strip(regressionTest(yi, vi, vi.map(Math.sqrt), 0));
+  const peese = strip(regressionTest(yi, vi, vi, 0));
+
+  const selected = pet.pValue < 0.05 ? 'PEESE' : 'PET';
+  const chosen = selected === 'PEESE' ? peese : pet;
+
+  return {
+    estimate: transform(chosen.intercept),
+    se: chosen.se,
+    ciLower: transform(chosen.ciLower),
+    ciUpper: transform(chosen.ciUpper),
+    pValue: chosen.pValue,
+    selected,
+    pet,
+    peese,
+  };
+}
+
+/**
+ * Vevea and Hedges' step-function selection model, fitted by maximum likelihood.
+ * Studies are grouped by their one-sided p-value in the direction of the pooled effect,
+ * and each interval after the first gets a relative publication probability.
+ */
+function selectionModel(
+  yi: number[],
+  vi: number[],
+  modelType: 'FE' | 'RE',
+  requestedCutpoints: number[],
+  direction: number,
+  transform: Transform,
+  warnings: string[]
+): NonNullable<PublicationBiasResults['selectionModel']> {
+  const y = yi.map(value => direction * value);
+  const sd = vi.map(Math.sqrt);
+  const pValues = y.map((value, i) => 1 - normalCdf(value / sd[i]));
+
+  // Intervals without studies have no information about their weight, so merge them
+  let cutpoints = Array.from(new Set(requestedCutpoints.filter(c => c > 0 && c < 1))).sort((a, b) => a - b);
+  const countIn = (cuts: number[]) => {
+    const bounds = [0, ...cuts, 1];
+    return bounds.slice(1).map((upper, j) => pValues.filter(p => p > bounds[j] && p <= upper || (j === 0 && p === 0)).length);
+  };
+  let counts = countIn(cutpoints);
+  while (counts.some(count => count === 0) && cutpoints.length > 0) {
+    const empty = counts.indexOf(0);
+    const bounds = [0, ...cutpoints, 1];
+    warnings.push(`No studies have one-sided p-values in (${bounds[empty]}, ${bounds[empty + 1]}]; the interval was merged with its neighbour`);
+    cutpoints = cutpoints.filter((_, j) => j !== (empty === cutpoints.length ? empty - 1 : empty));
+    counts = countIn(cutpoints);
+  }
+
+  const bounds = [0, ...cutpoints, 1];
+  const intervals = bounds.length - 1;
+  const interval = pValues.map(p => Math.max(0, bounds.findIndex((upper, j) => j > 0 && p <= upper) - 1));
+
+  // Effect-size limits of each interval for every study: p <= c  <=>  y >= sd * z(1 - c)
+  const limits = sd.map(s => bounds.map(c => s * normalQuantile(1 - c)));
+
+  const random = modelType === 'RE';
+  const negLogLikelihood = (mu: number, tauSquared: number, weights: number[]) => {
+    if (tauSquared < 0 || weights.some(w => !(w > 0))) return Infinity;
+    let total = 0;
+    for (let i = 0; i < y.length; i++) {
+      const s = Math.sqrt(vi[i] + tauSquared);
+      let denominator = 0;
+      for (let j = 0; j < intervals; j++) {
+        denominator += weights[j] * (normalCdf((limits[i][j] - mu) / s) - normalCdf((limits[i][j + 1] - mu) / s));
+      }
+      total -= Math.log(weights[interval[i]]) - Math.log(s) - 0.5 * Math.log(2 * Math.PI) -
+        ((y[i] - mu) ** 2) / (2 * s * s) - Math.log(denominator);
+    }
+    return total;
+  };
+
+  // Optimize over (mu, tau, log weights) so the search is unconstrained
+  const unpack = (theta: number[], free: number) => ({
+    mu: theta[0],
+    tauSquared: random ? theta[1] ** 2 : 0,
+    weights: [1, ...theta.slice(random ? 2 : 1, (random ? 2 : 1) + free).map(Math.exp), ...new Array(intervals - 1 - free).fill(1)],
+  });
+  const objective = (free: number) => (theta: number[]) => {
+    const { mu, tauSquared, weights } = unpack(theta, free);
+    return negLogLikelihood(mu, tauSquared, weights);
+  };
+
+  const start = poolEffects(y, vi, { modelType, method: 'REML' });
+  const initial = random ? [start.estimate, Math.sqrt(start.tauSquared) || 0.1] : [start.estimate];
+  const unrestricted = nelderMead(objective(0), initial);
+  const fit = nelderMead(objective(intervals - 1), [...unrestricted.x, ...new Array(intervals - 1).fill(0)]);
+  const { mu, tauSquared, weights } = unpack(fit.x, intervals - 1);
+
+  if (!fit.converged) {
+    warnings.push('The selection model did not converge; estimates may be unreliable');
+  }
+
+  // Standard errors from the Hessian on the natural scale; tau² is left out at the boundary
+  const includeTau = random && tauSquared > 1e-8;
+  const natural = [mu, ...(includeTau ? [tauSquared] : []), ...weights.slice(1)];
+  const naturalObjective = (x: number[]) => negLogLikelihood(
+    x[0],
+    includeTau ? x[1] : tauSquared,
+    [1, ...x.slice(includeTau ? 2 : 1)]
+  );
+
+  let covariance: number[][] | null = null;
+  try {
+    covariance = invert(numericHessian(naturalObjective, natural));
+  } catch {
+    warnings.push('Could not compute standard errors for the selection model');
+  }
+  const seAt = (index: number) => {
+    const variance = covariance?.[index][index];
+    return variance !== undefined && variance > 0 ? Math.sqrt(variance) : NaN;
+  };
+
+  const se = seAt(0);
+  const z = mu / se;
+  const crit = normalQuantile(0.975);
+  const estimate = direction * mu;
+  const offset = includeTau ? 2 : 1;
+
+  const stepWeights: SelectionModelWeight[] = weights.map((weight, j) => ({
+    lower: bounds[j],
+    upper: bounds[j + 1],
+    k: counts[j],
+    weight,
+    ...(j > 0 ? { se: seAt(offset + j - 1) } : {}),
+  }));
+
+  const statistic = Math.max(0, 2 * (unrestricted.value - fit.value));
+  return {
+    estimate: transform(estimate),
+    se,
+    ciLower: transform(estimate - crit * se),
+    ciUpper: transform(estimate + crit * se),
+    pValue: normalTwoSidedP(z),
+    cutpoints,
+    tauSquared,
+    weights: stepWeights,
+    likelihoodRatio: {
+      statistic,
+      df: intervals - 1,
+      pValue: intervals > 1 ? chiSquareSurvival(statistic, intervals - 1) : 1,
+    },
+    converged: fit.converged,
+  };
+}
+
+/**
+ * Rosenthal's, Orwin's and Rosenberg's fail-safe numbers
+ */
+function failSafeN(
+  yi: number[],
+  vi: number[],
+  alpha: number,
+  target: number | undefined,
+  transform: Transform,
+  warnings: string[]
+): NonNullable<PublicationBiasResults['failSafeN']> {
+  const k = yi.length;
+
+  // Rosenthal: unpublished null studies needed to lift Stouffer's combined one-tailed p above alpha
+  const sumZ = yi.reduce((sum, y, i) => sum + y / Math.sqrt(vi[i]), 0);
+  const zAlpha = normalQuantile(1 - alpha);
+  const rosenthal = {
+    n: Math.ceil(Math.max(0, (sumZ / zAlpha) ** 2 - k)),
+    pValue: 1 - normalCdf(Math.abs(sumZ) / Math.sqrt(k)),
+    alpha,
+  };
+
+  // Orwin: null studies needed to bring the unweighted mean effect down to the target
+  const mean = yi.reduce((a, b) => a + b, 0) / k;
+  const orwinTarget = target ?? mean / 2;
+  let orwin: { n: number; target: number } | null = null;
+  if (mean === 0 || orwinTarget === 0 || Math.sign(orwinTarget) !== Math.sign(mean)) {
+    warnings.push("Orwin's fail-safe N needs a non-zero target with the same sign as the mean effect");
+  } else {
+    orwin = { n: Math.ceil(Math.max(0, (k * (mean - orwinTarget)) / orwinTarget)), target: transform(orwinTarget) };
+  }
+
+  // Rosenberg: null studies of average weight needed to make the fixed-effect estimate non-significant
+  const wi = vi.map(v => 1 / v);
+  const sumW = wi.reduce((a, b) => a + b, 0);
+  const sumWY = yi.reduce((sum, y, i) => sum + wi[i] * y, 0);
+  const zTwoSided = normalQuantile(1 - alpha / 2);
+  const rosenberg = {
+    n: Math.ceil(Math.max(0, (k * sumWY * sumWY) / (zTwoSided * zTwoSided * sumW) - k)),
+    pValue: normalTwoSidedP(sumWY / Math.sqrt(sumW)),
+    alpha,
+  };
+
+  return { rosenthal, orwin, rosenberg };
+}
+
+/**
+ * Run the requested publication bias methods in-process. `onMethodComplete` is called
+ * after each method so partial results can be streamed to the client.
+ */
+export function assessPublicationBias(
+  studies: Study[],
+  parameters: PublicationBiasParameters,
+  onMethodComplete?: (method: PublicationBiasMethod, result: unknown) => void
+): PublicationBiasResults {
+  const methods = parameters.methods ?? DEFAULT_PUBLICATION_BIAS_METHODS;
+  const unknown = methods.filter(method => !isPublicationBiasMethod(method));
+  if (unknown.length > 0) {
+    throw new StatsInputError(`Unsupported publication bias method: ${unknown.join(', ')}`);
+  }
+
+  const modelType = independentModelType(parameters.modelType ?? 'RE', 'Publication bias assessment');
+  const method = parameters.method ?? 'REML';
+  if (modelType === 'RE' && !isTauSquaredMethod(method)) {
+    throw new StatsInputError(`Unsupported tau² estimator: ${method}`);
+  }
+
+  const { yi, vi } = getEffectData(studies, parameters.effectMeasure);
+  if (yi.length < 3) {
+    throw new StatsInputError('At least three studies are required to assess publication bias');
+  }
+
+  const ratio = isRatioMeasure(parameters.effectMeasure);
+  const transform: Transform = reportingTransform(parameters.effectMeasure, studies);
+  const pooling: PoolingOptions = { modelType, method: method as TauSquaredMethod };
+  const model = poolEffects(yi, vi, pooling);
+  const warnings: string[] = [];
+
+  const results: PublicationBiasResults = {
+    effectMeasure: parameters.effectMeasure,
+    k: yi.length,
+    model: {
+      ...fromPooled(model, transform),
+      tauSquared: model.tauSquared,
+    },
+    warnings,
+  };
+
+  const complete = <T>(name: PublicationBiasMethod, result: T): T => {
+    onMethodComplete?.(name, result);
+    return result;
+  };
+
+  if (methods.includes('egger')) {
+    results.egger = complete('egger', eggerTest(yi, vi));
+  }
+
+  if (methods.includes('begg')) {
+    results.begg = complete('begg', beggTest(yi, vi));
+  }
+
+  if (methods.includes('trim_and_fill')) {
+    results.trimAndFill = complete('trim_and_fill', trimAndFill(
+      studies,
+      yi,
+      vi,
+      pooling,
+      parameters.trimAndFill?.estimator ?? 'L0',
+      parameters.trimAndFill?.side,
+      model.tauSquared,
+      transform,
+      warnings
+    ));
+  }
+
+  if (methods.includes('pet_peese')) {
+    results.petPeese = complete('pet_peese', petPeese(yi, vi, transform));
+  }
+
+  if (methods.includes('selection_model')) {
+    results.selectionModel = complete('selection_model', selectionModel(
+      yi,
+      vi,
+      modelType,
+      parameters.selectionModel?.cutpoints ?? DEFAULT_CUTPOINTS,
+      model.estimate < 0 ? -1 : 1,
+      transform,
+      warnings
+    ));
+  }
+
+  if (methods.includes('fail_safe_n')) {
+    const alpha = parameters.failSafeN?.alpha ?? 0.05;
+    const target = parameters.failSafeN?.target;
+    results.failSafeN = complete('fail_safe_n', failSafeN(
+      yi,
+      vi,
+      alpha,
+      target !== undefined && ratio ? Math.log(target) : target,
+      transform,
+      warnings
+    ));
+  }
+
+  return results;
+}
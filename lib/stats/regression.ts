@@ -0,0 +1,818 @@
+import type { IngestionError, ParsedTable } from '@/lib/ingestion';
+import type {
+  HosmerLemeshowTest,
+  RegressionCoefficient,
+  RegressionFamily,
+  RegressionParameters,
+  RegressionResidual,
+  RegressionResults,
+  RegressionTest,
+  RobustCovariance,
+  VarianceInflation,
+} from '@/lib/services/regression';
+import { chiSquareSurvival, fSurvival, logGamma, normalQuantile, normalTwoSidedP, tQuantile, tTwoSidedP } from './distributions';
+import { StatsInputError } from './errors';
+import { cholesky, invert, Matrix, weightedLeastSquares } from './matrix';
+
+export const REGRESSION_FAMILIES: RegressionFamily[] = ['gaussian', 'binomial', 'poisson'];
+export const ROBUST_COVARIANCES: RobustCovariance[] = ['model', 'HC0', 'HC1', 'HC3'];
+
+const MAX_ITERATIONS = 50;
+// Relative change in deviance at which IRLS stops, as glm.control
+const TOLERANCE = 1e-8;
+
+const DEFAULT_HOSMER_LEMESHOW_GROUPS = 10;
+
+// Columns whose part not explained by the earlier columns is this small, relative to
+// their length, are aliased and dropped
+const ALIASING_TOLERANCE = 1e-7;
+
+// Pearson dispersion above which a Poisson model is reported as overdispersed
+const OVERDISPERSION_THRESHOLD = 1.5;
+
+type Transform = 'identity' | 'log' | 'sqrt';
+
+// A column as it enters the formula, possibly transformed or forced to be categorical
+interface Variable {
+  key: string;
+  column: string;
+  transform: Transform;
+  categorical: boolean;
+}
+
+interface FormulaTerm {
+  label: string;
+  variables: string[];
+}
+
+interface Formula {
+  response: string;
+  intercept: boolean;
+  terms: FormulaTerm[];
+  variables: Map<string, Variable>;
+}
+
+interface DesignColumn {
+  name: string;
+  term: string;
+}
+
+interface Family {
+  link: RegressionResults['link'];
+  linkFunction: (mu: number) => number;
+  linkInverse: (eta: number) => number;
+  // Derivative of the mean with respect to the linear predictor
+  muEta: (mu: number) => number;
+  variance: (mu: number) => number;
+  devianceResidual: (y: number, mu: number) => number;
+  initialMu: (y: number) => number;
+}
+
+// Fitted means are kept this far from the boundary of their range, as binomial()$linkinv
+const EPSILON = 2.220446e-16;
+
+const FAMILIES: Record<RegressionFamily, Family> = {
+  gaussian: {
+    link: 'identity',
+    linkFunction: mu => mu,
+    linkInverse: eta => eta,
+    muEta: () => 1,
+    variance: () => 1,
+    devianceResidual: (y, mu) => (y - mu) ** 2,
+    initialMu: y => y,
+  },
+  binomial: {
+    link: 'logit',
+    linkFunction: mu => Math.log(mu / (1 - mu)),
+    linkInverse: eta => Math.min(1 - EPSILON, Math.max(EPSILON, 1 / (1 + Math.exp(-eta)))),
+    muEta: mu => mu * (1 - mu),
+    variance: mu => mu * (1 - mu),
+    devianceResidual: (y, mu) => -2 * (y === 1 ? Math.log(mu) : Math.log(1 - mu)),
+    initialMu: y => (y + 0.5) / 2,
+  },
+  poisson: {
+    link: 'log',
+    linkFunction: mu => Math.log(mu),
+    linkInverse: eta => Math.max(Math.exp(eta), EPSILON),
+    muEta: mu => mu,
+    variance: mu => mu,
+    devianceResidual: (y, mu) => 2 * ((y > 0 ? y * Math.log(y / mu) : 0) - (y - mu)),
+    initialMu: y => y + 0.1,
+  },
+};
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '') ||
+    (typeof value === 'number' && !Number.isFinite(value));
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function compareLevels(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Split at top-level separators, outside parentheses and backticks; each part keeps the
+ * separator that preceded it
+ */
+function splitTopLevel(text: string, separators: string): Array<{ separator: string; text: string }> {
+  const parts: Array<{ separator: string; text: string }> = [];
+  let depth = 0;
+  let quoted = false;
+  let separator = '';
+  let current = '';
+  for (const char of text) {
+    if (char === '`') quoted = !quoted;
+    else if (!quoted && char === '(') depth++;
+    else if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && separators.includes(char)) {
+      parts.push({ separator, text: current.trim() });
+      separator = char;
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (quoted || depth !== 0) throw new StatsInputError('The formula has unbalanced parentheses or backticks');
+  parts.push({ separator, text: current.trim() });
+  return parts;
+}
+
+function columnName(text: string, headers: string[]): string {
+  const trimmed = text.trim();
+  const name = trimmed.startsWith('`') && trimmed.endsWith('`') && trimmed.length > 1
+    ? trimmed.slice(1, -1)
+    : trimmed;
+  if (!headers.includes(name)) throw new StatsInputError(`Unknown column: ${name}`);
+  return name;
+}
+
+function parseVariable(text: string, headers: string[], categorical: Set<string>): Variable {
+  const call = text.match(/^(factor|C|log|sqrt)\s*\(([\s\S]*)\)$/);
+  if (!call) {
+    const column = columnName(text, headers);
+    return { key: column, column, transform: 'identity', categorical: categorical.has(column) };
+  }
+  const column = columnName(call[2], headers);
+  if (call[1] === 'factor' || call[1] === 'C') {
+    return { key: `factor(${column})`, column, transform: 'identity', categorical: true };
+  }
+  if (categorical.has(column)) throw new StatsInputError(`${call[1]}(${column}) needs a numeric column`);
+  return { key: `${call[1]}(${column})`, column, transform: call[1] as Transform, categorical: false };
+}
+
+/**
+ * Parse a model formula into the response, the intercept and the terms, with main
+ * effects before interactions
+ */
+function parseFormula(formula: string, headers: string[], parameters: RegressionParameters): Formula {
+  const sides = formula.split('~');
+  if (sides.length !== 2 || sides[0].trim() === '' || sides[1].trim() === '') {
+    throw new StatsInputError('The formula must have the form "outcome ~ predictors"');
+  }
+  const response = columnName(sides[0], headers);
+  const categorical = new Set<string>(parameters.categorical ?? []);
+  const variables = new Map<string, Variable>();
+  const terms: FormulaTerm[] = [];
+  const removed = new Set<string>();
+  let intercept = true;
+
+  const variable = (text: string) => {
+    const parsed = parseVariable(text, headers, categorical);
+    if (parsed.column === response) throw new StatsInputError(`${response} is the outcome and cannot also be a predictor`);
+    variables.set(parsed.key, parsed);
+    return parsed.key;
+  };
+
+  splitTopLevel(sides[1], '+-').forEach(({ separator, text }) => {
+    if (text === '') {
+      if (separator !== '') throw new StatsInputError('The formula has an empty term');
+      return;
+    }
+    if (text === '1' || text === '0') {
+      intercept = separator !== '-' && text === '1';
+      return;
+    }
+    const expanded = text === '.'
+      ? headers.filter(header => header !== response && header !== parameters.exposure).map(header => [variable(`\`${header}\``)])
+      : crossTerms(splitTopLevel(text, '*').map(factor => splitTopLevel(factor.text, ':').map(part => variable(part.text))));
+    expanded.forEach(keys => {
+      const label = Array.from(new Set(keys)).join(':');
+      if (separator === '-') removed.add(label);
+      else if (!terms.some(term => sameTerm(term.variables, keys))) terms.push({ label, variables: Array.from(new Set(keys)) });
+    });
+  });
+
+  const kept = terms
+    .filter(term => !removed.has(term.label))
+    .map((term, i) => ({ term, i }))
+    .sort((a, b) => a.term.variables.length - b.term.variables.length || a.i - b.i)
+    .map(({ term }) => term);
+  if (kept.length === 0 && !intercept) throw new StatsInputError('The model has no terms');
+  return { response, intercept, terms: kept, variables };
+}
+
+function sameTerm(a: string[], b: string[]): boolean {
+  const left = new Set(a);
+  const right = new Set(b);
+  return left.size === right.size && [...left].every(key => right.has(key));
+}
+
+// a*b*c expands to every non-empty combination of its factors
+function crossTerms(factors: string[][]): string[][] {
+  const result: string[][] = [];
+  for (let mask = 1; mask < 1 << factors.length; mask++) {
+    result.push(factors.filter((_, i) => mask & (1 << i)).flat());
+  }
+  return result;
+}
+
+/**
+ * Code a binomial outcome as 0/1, reporting the value taken as the event
+ */
+function eventCoding(values: unknown[], eventValue?: string): { isEvent: (value: unknown) => boolean | undefined; eventLevel: string } {
+  const present = values.filter(value => !isMissing(value)).map(value => String(value).trim());
+  const distinct = Array.from(new Set(present)).sort(compareLevels);
+
+  if (eventValue !== undefined) {
+    if (!distinct.includes(eventValue)) throw new StatsInputError(`The outcome never takes the value "${eventValue}"`);
+    return { isEvent: value => String(value).trim() === eventValue, eventLevel: eventValue };
+  }
+  if (distinct.every(value => value === '0' || value === '1')) {
+    return { isEvent: value => toNumber(value) === 1, eventLevel: '1' };
+  }
+  const labels: Record<string, boolean> = { true: true, false: false, yes: true, no: false };
+  if (distinct.every(value => value.toLowerCase() in labels)) {
+    return {
+      isEvent: value => labels[String(value).trim().toLowerCase()],
+      eventLevel: distinct.find(value => labels[value.toLowerCase()]) ?? 'yes',
+    };
+  }
+  if (distinct.length === 2) {
+    return { isEvent: value => String(value).trim() === distinct[1], eventLevel: distinct[1] };
+  }
+  throw new StatsInputError(`The outcome has ${distinct.length} distinct values; a binomial model needs two, or set eventValue`);
+}
+
+interface Observations {
+  rows: number[];
+  y: number[];
+  offset: number[];
+  // Value of each variable by observation
+  values: Array<Record<string, string | number>>;
+}
+
+/**
+ * Read the complete rows; values that cannot be used are reported, missing values are
+ * counted and left out
+ */
+function readObservations(
+  table: ParsedTable,
+  formula: Formula,
+  parameters: RegressionParameters,
+  family: RegressionFamily,
+  errors: IngestionError[],
+  warnings: string[]
+): { observations: Observations; eventLevel: string | null } {
+  const { response } = formula;
+  const coding = family === 'binomial'
+    ? eventCoding(table.rows.map(row => row[response]), parameters.eventValue)
+    : null;
+  const variables = Array.from(formula.variables.values());
+  // Columns with any text value are categorical
+  const textColumns = new Set(variables
+    .filter(variable => table.rows.some(row => !isMissing(row[variable.column]) && toNumber(row[variable.column]) === undefined))
+    .map(variable => variable.column));
+  variables.forEach(variable => {
+    if (variable.transform !== 'identity' && textColumns.has(variable.column)) {
+      throw new StatsInputError(`${variable.key} needs a numeric column`);
+    }
+  });
+
+  const observations: Observations = { rows: [], y: [], offset: [], values: [] };
+  let incomplete = 0;
+
+  table.rows.forEach((record, i) => {
+    const row = table.rowNumbers[i];
+    const columns = [response, ...variables.map(variable => variable.column), ...(parameters.exposure ? [parameters.exposure] : [])];
+    if (columns.some(column => isMissing(record[column]))) {
+      incomplete++;
+      return;
+    }
+
+    let y: number | undefined;
+    if (coding) {
+      const event = coding.isEvent(record[response]);
+      y = event === undefined ? undefined : Number(event);
+    } else {
+      y = toNumber(record[response]);
+      if (y !== undefined && family === 'poisson' && y < 0) {
+        errors.push({ row, column: response, message: 'Counts cannot be negative' });
+        return;
+      }
+    }
+    if (y === undefined) {
+      errors.push({ row, column: response, message: 'Expected a number' });
+      return;
+    }
+
+    let offset = 0;
+    if (parameters.exposure) {
+      const exposure = toNumber(record[parameters.exposure]);
+      if (exposure === undefined || exposure <= 0) {
+        errors.push({ row, column: parameters.exposure, message: 'Exposure must be a positive number' });
+        return;
+      }
+      offset = Math.log(exposure);
+    }
+
+    const values: Record<string, string | number> = {};
+    for (const variable of variables) {
+      const raw = record[variable.column];
+      if (variable.categorical || textColumns.has(variable.column)) {
+        values[variable.key] = String(raw).trim();
+        continue;
+      }
+      const value = toNumber(raw) as number;
+      if (variable.transform === 'log' && value <= 0) {
+        errors.push({ row, column: variable.column, message: 'log() needs a positive value' });
+        return;
+      }
+      if (variable.transform === 'sqrt' && value < 0) {
+        errors.push({ row, column: variable.column, message: 'sqrt() needs a non-negative value' });
+        return;
+      }
+      values[variable.key] = variable.transform === 'log' ? Math.log(value) : variable.transform === 'sqrt' ? Math.sqrt(value) : value;
+    }
+
+    observations.rows.push(row);
+    observations.y.push(y);
+    observations.offset.push(offset);
+    observations.values.push(values);
+  });
+
+  if (incomplete > 0) {
+    warnings.push(`${incomplete} ${incomplete === 1 ? 'row has' : 'rows have'} missing values and ${incomplete === 1 ? 'was' : 'were'} left out`);
+  }
+  if (family === 'poisson' && observations.y.some(y => !Number.isInteger(y))) {
+    warnings.push('The outcome has non-integer values, which a Poisson model treats as counts');
+  }
+  return { observations, eventLevel: coding?.eventLevel ?? null };
+}
+
+/**
+ * Treatment-coded model matrix: dummy columns for the non-reference levels of categorical
+ * variables, multiplied out for interactions
+ */
+function buildDesign(
+  formula: Formula,
+  observations: Observations,
+  parameters: RegressionParameters
+): { columns: DesignColumn[]; x: Matrix; levels: Record<string, string[]> } {
+  const levels: Record<string, string[]> = {};
+  const generators = new Map<string, Array<{ suffix: string; value: (values: Record<string, string | number>) => number }>>();
+
+  formula.variables.forEach(variable => {
+    const values = observations.values.map(value => value[variable.key]);
+    if (values.every(value => typeof value === 'number')) {
+      generators.set(variable.key, [{ suffix: '', value: values => values[variable.key] as number }]);
+      return;
+    }
+    const distinct = Array.from(new Set(values.map(String))).sort(compareLevels);
+    const reference = parameters.referenceLevels?.[variable.column] ?? distinct[0];
+    if (!distinct.includes(reference)) {
+      throw new StatsInputError(`Reference level "${reference}" does not occur in ${variable.column}`);
+    }
+    if (distinct.length < 2) {
+      throw new StatsInputError(`${variable.column} has a single level and cannot be estimated`);
+    }
+    levels[variable.column] = [reference, ...distinct.filter(level => level !== reference)];
+    generators.set(variable.key, levels[variable.column].slice(1).map(level => ({
+      suffix: `[${level}]`,
+      value: (values: Record<string, string | number>) => (String(values[variable.key]) === level ? 1 : 0),
+    })));
+  });
+
+  // Without an intercept the first categorical main effect keeps its reference level, as
+  // in R's model.matrix
+  const fullyCoded = formula.intercept
+    ? undefined
+    : formula.terms.find(term => term.variables.length === 1 && formula.variables.get(term.variables[0])!.column in levels);
+  if (fullyCoded) {
+    const variable = formula.variables.get(fullyCoded.variables[0])!;
+    const reference = levels[variable.column][0];
+    generators.get(variable.key)!.unshift({
+      suffix: `[${reference}]`,
+      value: values => (String(values[variable.key]) === reference ? 1 : 0),
+    });
+  }
+
+  const columns: DesignColumn[] = formula.intercept ? [{ name: 'intercept', term: 'intercept' }] : [];
+  const columnValues: Array<(values: Record<string, string | number>) => number> = formula.intercept ? [() => 1] : [];
+
+  formula.terms.forEach(term => {
+    let parts = [{ name: '', value: (_: Record<string, string | number>) => 1 }];
+    term.variables.forEach(key => {
+      // Interactions with the fully coded variable still leave its reference level out
+      const coding = fullyCoded && term !== fullyCoded && key === fullyCoded.variables[0]
+        ? generators.get(key)!.slice(1)
+        : generators.get(key)!;
+      parts = parts.flatMap(part => coding.map(column => ({
+        name: part.name === '' ? `${key}${column.suffix}` : `${part.name}:${key}${column.suffix}`,
+        value: (values: Record<string, string | number>) => part.value(values) * column.value(values),
+      })));
+    });
+    parts.forEach(part => {
+      columns.push({ name: part.name, term: term.label });
+      columnValues.push(part.value);
+    });
+  });
+
+  return { columns, x: observations.values.map(values => columnValues.map(value => value(values))), levels };
+}
+
+/**
+ * Indices of the columns that are not linear combinations of earlier ones, by modified
+ * Gram-Schmidt
+ */
+function independentColumns(x: Matrix): number[] {
+  const basis: number[][] = [];
+  const kept: number[] = [];
+  (x[0] ?? []).forEach((_, j) => {
+    const column = x.map(row => row[j]);
+    const norm = Math.sqrt(column.reduce((sum, value) => sum + value * value, 0));
+    const residual = [...column];
+    basis.forEach(vector => {
+      const projection = vector.reduce((sum, value, i) => sum + value * residual[i], 0);
+      vector.forEach((value, i) => { residual[i] -= projection * value; });
+    });
+    const residualNorm = Math.sqrt(residual.reduce((sum, value) => sum + value * value, 0));
+    if (norm > 0 && residualNorm > ALIASING_TOLERANCE * norm) {
+      basis.push(residual.map(value => value / residualNorm));
+      kept.push(j);
+    }
+  });
+  return kept;
+}
+
+interface GlmFit {
+  coefficients: number[];
+  eta: number[];
+  mu: number[];
+  weights: number[];
+  // (X'WX)^-1 at the fitted values
+  bread: Matrix;
+  deviance: number;
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * Fit a GLM by iteratively reweighted least squares
+ */
+function fitGlm(x: Matrix, y: number[], offset: number[], family: Family): GlmFit {
+  let mu = y.map(family.initialMu);
+  let eta = mu.map(family.linkFunction);
+  let deviance = Infinity;
+  let coefficients: number[] = [];
+  let converged = false;
+  let iterations = 0;
+
+  while (iterations < MAX_ITERATIONS && !converged) {
+    iterations++;
+    const muEta = mu.map(family.muEta);
+    const weights = mu.map((value, i) => muEta[i] ** 2 / family.variance(value));
+    const working = eta.map((value, i) => value - offset[i] + (y[i] - mu[i]) / muEta[i]);
+    const fit = weightedLeastSquares(x, working, weights);
+    coefficients = fit.coefficients;
+    eta = fit.fitted.map((value, i) => value + offset[i]);
+    mu = eta.map(family.linkInverse);
+    const next = y.reduce((sum, value, i) => sum + family.devianceResidual(value, mu[i]), 0);
+    converged = Math.abs(next - deviance) / (Math.abs(next) + 0.1) < TOLERANCE;
+    deviance = next;
+  }
+
+  const muEta = mu.map(family.muEta);
+  const weights = mu.map((value, i) => muEta[i] ** 2 / family.variance(value));
+  const p = coefficients.length;
+  const xtwx: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+  x.forEach((row, i) => {
+    for (let a = 0; a < p; a++) {
+      for (let b = 0; b < p; b++) xtwx[a][b] += row[a] * weights[i] * row[b];
+    }
+  });
+
+  return { coefficients, eta, mu, weights, bread: invert(xtwx), deviance, iterations, converged };
+}
+
+// Diagonal of the hat matrix, w x' (X'WX)^-1 x
+function hatValue(bread: Matrix, weight: number, row: number[]): number {
+  return weight * row.reduce((sum, value, a) => sum + value * row.reduce((inner, other, b) => inner + bread[a][b] * other, 0), 0);
+}
+
+/**
+ * Sandwich covariance bread * meat * bread, with the meat built from squared response
+ * residuals; for canonical links these are the GLM score contributions
+ */
+function robustCovariance(type: Exclude<RobustCovariance, 'model'>, x: Matrix, residuals: number[], leverage: number[], bread: Matrix): Matrix {
+  const n = x.length;
+  const p = bread.length;
+  const meat: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+  x.forEach((row, i) => {
+    const scale = type === 'HC3' ? residuals[i] ** 2 / (1 - leverage[i]) ** 2 : residuals[i] ** 2;
+    for (let a = 0; a < p; a++) {
+      for (let b = 0; b < p; b++) meat[a][b] += row[a] * row[b] * scale;
+    }
+  });
+  const adjustment = type === 'HC1' ? n / (n - p) : 1;
+  const left = bread.map(row => meat[0].map((_, j) => row.reduce((sum, value, k) => sum + value * meat[k][j], 0)));
+  return left.map(row => bread[0].map((_, j) => adjustment * row.reduce((sum, value, k) => sum + value * bread[k][j], 0)));
+}
+
+function logDeterminant(a: Matrix): number {
+  if (a.length === 0) return 0;
+  return 2 * cholesky(a).reduce((sum, row, i) => sum + Math.log(row[i]), 0);
+}
+
+/**
+ * Generalized variance inflation factors from the correlation matrix of the non-intercept
+ * columns
+ */
+function varianceInflation(x: Matrix, columns: DesignColumn[]): VarianceInflation[] | null {
+  const predictors = columns.map((column, j) => ({ ...column, j })).filter(column => column.term !== 'intercept');
+  const terms = Array.from(new Set(predictors.map(column => column.term)));
+  if (terms.length < 2) return null;
+
+  const n = x.length;
+  const standardized = predictors.map(({ j }) => {
+    const values = x.map(row => row[j]);
+    const mean = values.reduce((sum, value) => sum + value, 0) / n;
+    const scale = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0));
+    return values.map(value => (value - mean) / scale);
+  });
+  const correlation = standardized.map(a => standardized.map(b => a.reduce((sum, value, i) => sum + value * b[i], 0)));
+  const sub = (indices: number[]) => indices.map(a => indices.map(b => correlation[a][b]));
+
+  try {
+    const total = logDeterminant(correlation);
+    return terms.map(term => {
+      const inside = predictors.map((column, k) => (column.term === term ? k : -1)).filter(k => k >= 0);
+      const outside = predictors.map((_, k) => k).filter(k => !inside.includes(k));
+      const gvif = Math.exp(logDeterminant(sub(inside)) + logDeterminant(sub(outside)) - total);
+      return { term, df: inside.length, gvif, adjustedGvif: gvif ** (1 / (2 * inside.length)) };
+    });
+  } catch {
+    // A constant predictor column without an intercept has no correlation
+    return null;
+  }
+}
+
+/**
+ * Sample quantile by linear interpolation between order statistics (type 7)
+ */
+function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (position - below) * (sorted[above] - sorted[below]);
+}
+
+/**
+ * Hosmer-Lemeshow test over groups cut at quantiles of the fitted probabilities, as
+ * ResourceSelection::hoslem.test; tied quantiles merge groups
+ */
+function hosmerLemeshow(y: number[], mu: number[], groups: number): HosmerLemeshowTest | null {
+  const sorted = [...mu].sort((a, b) => a - b);
+  const breaks = Array.from(new Set(Array.from({ length: groups + 1 }, (_, k) => quantile(sorted, k / groups))));
+  const members = breaks.slice(1).map(() => [] as number[]);
+  mu.forEach((value, i) => {
+    const index = breaks.slice(1).findIndex(upper => value <= upper);
+    members[index === -1 ? members.length - 1 : index].push(i);
+  });
+  const used = members.filter(group => group.length > 0);
+  if (used.length < 3) return null;
+
+  let statistic = 0;
+  const table = used.map((group, g) => {
+    const observed = group.reduce((sum, i) => sum + y[i], 0);
+    const expected = group.reduce((sum, i) => sum + mu[i], 0);
+    statistic += (observed - expected) ** 2 / expected
+      + ((group.length - observed) - (group.length - expected)) ** 2 / (group.length - expected);
+    return { group: g + 1, n: group.length, observed, expected, meanPredicted: expected / group.length };
+  });
+  const df = used.length - 2;
+  return { statistic, df, pValue: chiSquareSurvival(statistic, df), groups: table };
+}
+
+function logLikelihood(family: RegressionFamily, y: number[], mu: number[], deviance: number): number {
+  const n = y.length;
+  if (family === 'gaussian') return -(n / 2) * (Math.log((2 * Math.PI * deviance) / n) + 1);
+  if (family === 'binomial') {
+    return y.reduce((sum, value, i) => sum + (value === 1 ? Math.log(mu[i]) : Math.log(1 - mu[i])), 0);
+  }
+  return y.reduce((sum, value, i) => sum + value * Math.log(mu[i]) - mu[i] - logGamma(value + 1), 0);
+}
+
+// Fitted values of the intercept-only model, or of the offset alone without an intercept
+function nullFitted(family: Family, y: number[], offset: number[], intercept: boolean): number[] {
+  if (!intercept) return offset.map(family.linkInverse);
+  if (family.link === 'log') {
+    const rate = y.reduce((sum, value) => sum + value, 0) / offset.reduce((sum, value) => sum + Math.exp(value), 0);
+    return offset.map(value => rate * Math.exp(value));
+  }
+  const mean = y.reduce((sum, value) => sum + value, 0) / y.length;
+  return y.map(() => mean);
+}
+
+function waldTest(coefficients: number[], covariance: Matrix, indices: number[], df2: number | null): RegressionTest {
+  const beta = indices.map(i => coefficients[i]);
+  const inverse = invert(indices.map(a => indices.map(b => covariance[a][b])));
+  const wald = beta.reduce((sum, value, a) => sum + value * beta.reduce((inner, other, b) => inner + inverse[a][b] * other, 0), 0);
+  const df = indices.length;
+  return df2 === null
+    ? { statistic: wald, df, pValue: chiSquareSurvival(wald, df) }
+    : { statistic: wald / df, df, df2, pValue: fSurvival(wald / df, df, df2) };
+}
+
+/**
+ * Fit a linear, logistic or Poisson regression to a dataset from a model formula, with
+ * robust standard errors, ratio estimates and diagnostics
+ */
+export function runRegressionAnalysis(table: ParsedTable, parameters: RegressionParameters): RegressionResults {
+  const familyName = parameters.family ?? 'gaussian';
+  const family = FAMILIES[familyName];
+  const robust = parameters.robust ?? 'model';
+  const confidenceLevel = parameters.confidenceLevel ?? 0.95;
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+    throw new StatsInputError('The confidence level must lie between 0 and 1');
+  }
+  if (parameters.exposure !== undefined) {
+    if (familyName !== 'poisson') throw new StatsInputError('An exposure column only applies to Poisson models');
+    if (!table.headers.includes(parameters.exposure)) throw new StatsInputError(`Unknown column: ${parameters.exposure}`);
+  }
+  const unknownReferences = Object.keys(parameters.referenceLevels ?? {}).filter(column => !table.headers.includes(column));
+  if (unknownReferences.length > 0) {
+    throw new StatsInputError(`Unknown column${unknownReferences.length === 1 ? '' : 's'}: ${unknownReferences.join(', ')}`);
+  }
+
+  const errors: IngestionError[] = [];
+  const warnings: string[] = [];
+  const formula = parseFormula(parameters.formula, table.headers, parameters);
+  const { observations, eventLevel } = readObservations(table, formula, parameters, familyName, errors, warnings);
+  const { y, offset } = observations;
+  const n = y.length;
+  if (n === 0) throw new StatsInputError('No rows have values for every variable in the model');
+
+  const design = buildDesign(formula, observations, parameters);
+  const kept = independentColumns(design.x);
+  design.columns.forEach((column, j) => {
+    if (!kept.includes(j)) warnings.push(`${column.name} is collinear with other columns and was dropped`);
+  });
+  const columns = kept.map(j => design.columns[j]);
+  const x = design.x.map(row => kept.map(j => row[j]));
+  const p = columns.length;
+  if (p === 0) throw new StatsInputError('The model has no estimable coefficients');
+  if (n <= p) throw new StatsInputError(`The model has ${p} coefficients but only ${n} complete rows`);
+
+  const fit = fitGlm(x, y, offset, family);
+  if (!fit.converged) warnings.push(`The model did not converge after ${MAX_ITERATIONS} iterations`);
+  if (familyName === 'binomial' && fit.mu.some(mu => mu < 1e-8 || mu > 1 - 1e-8)) {
+    warnings.push('Fitted probabilities of 0 or 1 occurred; a predictor may separate the outcome completely');
+  }
+
+  const dfResidual = n - p;
+  const dispersion = familyName === 'gaussian' ? fit.deviance / dfResidual : 1;
+  const leverage = x.map((row, i) => hatValue(fit.bread, fit.weights[i], row));
+  const responseResiduals = y.map((value, i) => value - fit.mu[i]);
+  const covariance = robust === 'model'
+    ? fit.bread.map(row => row.map(value => value * dispersion))
+    : robustCovariance(robust, x, responseResiduals, leverage, fit.bread);
+
+  const gaussian = familyName === 'gaussian';
+  const critical = gaussian
+    ? tQuantile(1 - (1 - confidenceLevel) / 2, dfResidual)
+    : normalQuantile(1 - (1 - confidenceLevel) / 2);
+  const coefficients: RegressionCoefficient[] = columns.map((column, j) => {
+    const estimate = fit.coefficients[j];
+    const se = Math.sqrt(covariance[j][j]);
+    const statistic = estimate / se;
+    const ciLower = estimate - critical * se;
+    const ciUpper = estimate + critical * se;
+    return {
+      name: column.name,
+      term: column.term,
+      estimate,
+      se,
+      statistic,
+      pValue: gaussian ? tTwoSidedP(statistic, dfResidual) : normalTwoSidedP(statistic),
+      ciLower,
+      ciUpper,
+      ratio: gaussian ? null : { estimate: Math.exp(estimate), ciLower: Math.exp(ciLower), ciUpper: Math.exp(ciUpper) },
+    };
+  });
+
+  const termTests = Array.from(new Set(columns.map(column => column.term)))
+    .filter(term => term !== 'intercept')
+    .map(term => ({
+      term,
+      ...waldTest(
+        fit.coefficients,
+        covariance,
+        columns.map((column, j) => (column.term === term ? j : -1)).filter(j => j >= 0),
+        gaussian ? dfResidual : null
+      ),
+    }));
+
+  const nullMu = nullFitted(family, y, offset, formula.intercept);
+  const nullDeviance = y.reduce((sum, value, i) => sum + family.devianceResidual(value, nullMu[i]), 0);
+  const dfNull = n - (formula.intercept ? 1 : 0);
+  // The omnibus test stays likelihood-based when robust standard errors are requested
+  let modelTest: RegressionTest | null = null;
+  if (dfNull > dfResidual) {
+    const df = dfNull - dfResidual;
+    if (gaussian) {
+      const statistic = ((nullDeviance - fit.deviance) / df) / dispersion;
+      modelTest = { statistic, df, df2: dfResidual, pValue: fSurvival(statistic, df, dfResidual) };
+    } else {
+      const statistic = Math.max(0, nullDeviance - fit.deviance);
+      modelTest = { statistic, df, pValue: chiSquareSurvival(statistic, df) };
+    }
+  }
+
+  const logLik = logLikelihood(familyName, y, fit.mu, fit.deviance);
+  const parameterCount = gaussian ? p + 1 : p;
+
+  const residuals: RegressionResidual[] = y.map((value, i) => {
+    const h = leverage[i];
+    const pearson = responseResiduals[i] / Math.sqrt(family.variance(fit.mu[i]));
+    const deviance = Math.sign(responseResiduals[i]) * Math.sqrt(Math.max(0, family.devianceResidual(value, fit.mu[i])));
+    return {
+      row: observations.rows[i],
+      observed: value,
+      fitted: fit.mu[i],
+      linearPredictor: fit.eta[i],
+      response: responseResiduals[i],
+      pearson,
+      deviance,
+      standardized: deviance / Math.sqrt(dispersion * (1 - h)),
+      leverage: h,
+      cooksDistance: (pearson * pearson * h) / (dispersion * p * (1 - h) ** 2),
+    };
+  });
+
+  if (familyName === 'poisson') {
+    const pearsonDispersion = residuals.reduce((sum, residual) => sum + residual.pearson ** 2, 0) / dfResidual;
+    if (pearsonDispersion > OVERDISPERSION_THRESHOLD && robust === 'model') {
+      warnings.push(`The Pearson dispersion is ${pearsonDispersion.toFixed(2)}, so the counts are overdispersed; robust standard errors are advisable`);
+    }
+  }
+
+  let hosmerLemeshowTest: HosmerLemeshowTest | null = null;
+  if (familyName === 'binomial') {
+    hosmerLemeshowTest = hosmerLemeshow(y, fit.mu, parameters.hosmerLemeshowGroups ?? DEFAULT_HOSMER_LEMESHOW_GROUPS);
+    if (!hosmerLemeshowTest) warnings.push('Too few distinct fitted probabilities for the Hosmer-Lemeshow test');
+  }
+
+  const rSquared = gaussian && nullDeviance > 0 ? 1 - fit.deviance / nullDeviance : null;
+
+  return {
+    formula: parameters.formula,
+    family: familyName,
+    link: family.link,
+    response: formula.response,
+    eventLevel,
+    robust,
+    confidenceLevel,
+    n,
+    coefficients,
+    termTests,
+    modelTest,
+    converged: fit.converged,
+    iterations: fit.iterations,
+    dispersion,
+    deviance: fit.deviance,
+    nullDeviance,
+    dfResidual,
+    dfNull,
+    logLikelihood: logLik,
+    aic: -2 * logLik + 2 * parameterCount,
+    bic: -2 * logLik + Math.log(n) * parameterCount,
+    rSquared,
+    adjustedRSquared: rSquared === null ? null : 1 - ((1 - rSquared) * dfNull) / dfResidual,
+    pseudoRSquared: gaussian ? null : 1 - logLik / logLikelihood(familyName, y, nullMu, nullDeviance),
+    levels: design.levels,
+    vif: varianceInflation(x, columns),
+    residuals,
+    hosmerLemeshow: hosmerLemeshowTest,
+    rowErrors: errors,
+    warnings,
+  };
+}
@@ -0,0 +1,317 @@
+import { Study } from '@/types/meta-analysis';
+import type {
+  SequentialBoundary,
+  SequentialConclusion,
+  SequentialLook,
+  SequentialParameters,
+  TrialSequentialResults,
+} from '@/lib/services/meta-analysis';
+import { normalCdf, normalQuantile } from './distributions';
+import { StatsInputError } from './errors';
+import {
+  getEffectData,
+  independentModelType,
+  isRatioMeasure,
+  isTauSquaredMethod,
+  poolEffects,
+  TauSquaredMethod,
+} from './meta-analysis';
+import { isProportionMeasure } from './proportions';
+
+// Efficacy boundaries are capped here; the chance of a larger |Z| under the null is
+// negligible
+const MAX_BOUNDARY = 8;
+
+// Bounds on the quadrature intervals per continuation interval
+const MIN_INTERVALS = 50;
+const MAX_INTERVALS = 1000;
+
+// Subdensity of the score statistic S = Z sqrt(t) over the continuation region of a look,
+// as quadrature points with mass = quadrature weight x density
+interface Density {
+  t: number;
+  points: number[];
+  mass: number[];
+}
+
+/**
+ * Lan-DeMets spending function of O'Brien-Fleming type: the two-sided error spent by
+ * information fraction t
+ */
+function obrienFlemingSpending(t: number, error: number): number {
+  if (t >= 1) return error;
+  return 2 * (1 - normalCdf(normalQuantile(1 - error / 2) / Math.sqrt(t)));
+}
+
+/**
+ * P(a <= S_t < b, and the path continued through the previous look) when S has drift
+ * `drift` per unit of information fraction
+ */
+function intervalProbability(previous: Density, t: number, drift: number, a: number, b: number): number {
+  const increment = t - previous.t;
+  const sd = Math.sqrt(increment);
+  return previous.points.reduce((sum, s, i) => {
+    const mean = s + drift * increment;
+    return sum + previous.mass[i] * (normalCdf((b - mean) / sd) - normalCdf((a - mean) / sd));
+  }, 0);
+}
+
+function totalMass(density: Density): number {
+  return density.mass.reduce((sum, m) => sum + m, 0);
+}
+
+/**
+ * Composite Simpson rule on [a, b]
+ */
+function simpson(a: number, b: number, intervals: number): { points: number[]; weights: number[] } {
+  const n = intervals % 2 === 0 ? intervals : intervals + 1;
+  const h = (b - a) / n;
+  const points = Array.from({ length: n + 1 }, (_, i) => a + i * h);
+  const weights = points.map((_, i) => (h / 3) * (i === 0 || i === n ? 1 : i % 2 === 1 ? 4 : 2));
+  return { points, weights };
+}
+
+/**
+ * Carry the subdensity forward to look t, keeping only paths with inner <= |Z| < outer.
+ * The grid is fine enough to resolve the transition to the next look, whose information
+ * increment is `nextIncrement`.
+ */
+function advance(
+  previous: Density,
+  t: number,
+  drift: number,
+  inner: number,
+  outer: number,
+  nextIncrement: number
+): Density {
+  const increment = t - previous.t;
+  const sd = Math.sqrt(increment);
+  const low = inner * Math.sqrt(t);
+  const high = outer * Math.sqrt(t);
+  const spacing = Math.sqrt(Math.max(nextIncrement, 1e-8)) / 4;
+  const intervals = Math.min(MAX_INTERVALS, Math.max(MIN_INTERVALS, Math.ceil((high - low) / spacing)));
+
+  const pieces = low > 0
+    ? [simpson(-high, -low, intervals), simpson(low, high, intervals)]
+    : [simpson(-high, high, 2 * intervals)];
+  const points = pieces.flatMap(piece => piece.points);
+  const weights = pieces.flatMap(piece => piece.weights);
+
+  const mass = points.map((x, j) => {
+    const density = previous.points.reduce((sum, s, i) => {
+      const z = (x - s - drift * increment) / sd;
+      return sum + previous.mass[i] * Math.exp(-0.5 * z * z);
+    }, 0) / (sd * Math.sqrt(2 * Math.PI));
+    return weights[j] * density;
+  });
+
+  return { t, points, mass };
+}
+
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  for (let iteration = 0; iteration < 60; iteration++) {
+    const mid = (low + high) / 2;
+    if (f(mid) > 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Two-sided O'Brien-Fleming efficacy boundaries under the null, and futility boundaries
+ * (the inner wedge) from O'Brien-Fleming beta spending under the anticipated effect, by
+ * recursive numerical integration (Armitage, McPherson and Rowe). Futility is non-binding:
+ * it does not change the efficacy boundaries. At the required information size the two
+ * boundaries meet, so every path ends in a decision.
+ */
+function sequentialBoundaries(fractions: number[], alpha: number, beta: number): SequentialBoundary[] {
+  const drift = normalQuantile(1 - alpha / 2) + normalQuantile(1 - beta);
+  const nextIncrement = (j: number) => (j + 1 < fractions.length ? fractions[j + 1] - fractions[j] : 1);
+
+  const efficacy: number[] = [];
+  let density: Density = { t: 0, points: [0], mass: [1] };
+  fractions.forEach((t, j) => {
+    const spend = obrienFlemingSpending(t, alpha) - obrienFlemingSpending(j > 0 ? fractions[j - 1] : 0, alpha);
+    const continuing = totalMass(density);
+    const crossing = (c: number) =>
+      continuing - intervalProbability(density, t, 0, -c * Math.sqrt(t), c * Math.sqrt(t));
+    const boundary = crossing(MAX_BOUNDARY) >= spend ? MAX_BOUNDARY : bisect(c => spend - crossing(c), 0, MAX_BOUNDARY);
+    efficacy.push(boundary);
+    density = advance(density, t, 0, 0, boundary, nextIncrement(j));
+  });
+
+  const futility: number[] = [];
+  density = { t: 0, points: [0], mass: [1] };
+  fractions.forEach((t, j) => {
+    const c = efficacy[j];
+    let boundary = c;
+    if (t < 1) {
+      const spend = obrienFlemingSpending(t, beta) - obrienFlemingSpending(j > 0 ? fractions[j - 1] : 0, beta);
+      const stopping = (f: number) => intervalProbability(density, t, drift, -f * Math.sqrt(t), f * Math.sqrt(t));
+      boundary = stopping(c) <= spend ? c : bisect(f => stopping(f) - spend, 0, c);
+    }
+    futility.push(boundary);
+    if (j + 1 < fractions.length) {
+      density = advance(density, t, drift, boundary, c, nextIncrement(j));
+    }
+  });
+
+  return fractions.map((informationFraction, j) => ({
+    informationFraction,
+    efficacy: efficacy[j],
+    futility: futility[j],
+  }));
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Participants in a study: both arms, or the total sample size
+ */
+function participants(study: Study): number | undefined {
+  const nTreatment = toNumber(study.n_treatment) ?? toNumber(study.sample_size?.treatment);
+  const nControl = toNumber(study.n_control) ?? toNumber(study.sample_size?.control);
+  if (nTreatment !== undefined && nControl !== undefined) return nTreatment + nControl;
+  return toNumber(study.sample_size) ?? toNumber(study.n);
+}
+
+/**
+ * Trial sequential analysis (Wetterslev et al., 2008): a cumulative meta-analysis in
+ * chronological order monitored against alpha-spending boundaries, with the required
+ * information size inflated for heterogeneity by the diversity D² (Wetterslev et al., 2009).
+ */
+export function runTrialSequentialAnalysis(studies: Study[], parameters: SequentialParameters): TrialSequentialResults {
+  const modelType = independentModelType(parameters.modelType, 'Trial sequential analysis');
+  const method = parameters.method ?? 'REML';
+  if (modelType === 'RE' && !isTauSquaredMethod(method)) {
+    throw new StatsInputError(`Unsupported tau² estimator: ${method}`);
+  }
+  if (isProportionMeasure(parameters.effectMeasure)) {
+    throw new StatsInputError('Trial sequential analysis needs a comparative effect measure');
+  }
+  const alpha = parameters.alpha ?? 0.05;
+  const beta = parameters.beta ?? 0.2;
+  if (!(alpha > 0 && alpha < 1) || !(beta > 0 && beta < 1)) {
+    throw new StatsInputError('Alpha and beta must lie between 0 and 1');
+  }
+  if (parameters.diversity !== undefined && !(parameters.diversity >= 0 && parameters.diversity < 1)) {
+    throw new StatsInputError('Diversity must lie in [0, 1)');
+  }
+
+  const { yi, vi } = getEffectData(studies, parameters.effectMeasure);
+  if (yi.length < 2) {
+    throw new StatsInputError('Trial sequential analysis requires at least 2 studies');
+  }
+  const options = { modelType, method: method as TauSquaredMethod };
+
+  // Chronological order; studies without a year keep their dataset order at the end
+  const warnings: string[] = [];
+  const dated = studies.map((_, i) => i).filter(i => toNumber(studies[i].year) !== undefined);
+  const undated = studies.map((_, i) => i).filter(i => toNumber(studies[i].year) === undefined);
+  dated.sort((a, b) => toNumber(studies[a].year)! - toNumber(studies[b].year)! || a - b);
+  if (undated.length > 0) {
+    warnings.push(`${undated.length} ${undated.length === 1 ? 'study has' : 'studies have'} no year and ${undated.length === 1 ? 'was' : 'were'} added last`);
+  }
+  const order = [...dated, ...undated];
+
+  // Diversity: the relative reduction in the variance of the pooled estimate when moving
+  // from the random-effects to the fixed-effect model
+  const fixed = poolEffects(yi, vi, { modelType: 'FE' });
+  const pooled = poolEffects(yi, vi, options);
+  const diversity = parameters.diversity ??
+    (modelType === 'RE' ? Math.max(0, 1 - (fixed.se * fixed.se) / (pooled.se * pooled.se)) : 0);
+
+  const ratio = isRatioMeasure(parameters.effectMeasure);
+  const anticipatedEffect = parameters.anticipatedEffect ?? (ratio ? Math.exp(pooled.estimate) : pooled.estimate);
+  if (ratio && !(anticipatedEffect > 0)) {
+    throw new StatsInputError('The anticipated effect for a ratio measure must be positive');
+  }
+  const delta = ratio ? Math.log(anticipatedEffect) : anticipatedEffect;
+  if (!(Math.abs(delta) > 1e-12)) {
+    throw new StatsInputError('The anticipated effect must differ from the null effect');
+  }
+
+  const unadjusted = (normalQuantile(1 - alpha / 2) + normalQuantile(1 - beta)) ** 2 / (delta * delta);
+  const adjusted = unadjusted / (1 - diversity);
+
+  // Cumulative statistics; information is the fixed-effect information, as TSA counts
+  // participants against the heterogeneity-adjusted size
+  let information = 0;
+  let cumulativeParticipants: number | null = 0;
+  const cumulative = order.map((index, position) => {
+    information += 1 / vi[index];
+    const n = participants(studies[index]);
+    cumulativeParticipants = cumulativeParticipants !== null && n !== undefined ? cumulativeParticipants + n : null;
+    const included = order.slice(0, position + 1);
+    const step = poolEffects(included.map(i => yi[i]), included.map(i => vi[i]), options);
+    return {
+      index,
+      information,
+      participants: cumulativeParticipants,
+      zStatistic: step.estimate / step.se,
+    };
+  });
+
+  // Looks at each study up to the required information size, and at the size itself
+  const fractions = cumulative.map(step => step.information / adjusted).filter(t => t < 1);
+  const boundaries = sequentialBoundaries([...fractions, 1], alpha, beta);
+  const final = boundaries[boundaries.length - 1];
+
+  let conclusion: SequentialConclusion = 'inconclusive';
+  let crossedAt: string | null = null;
+  const looks: SequentialLook[] = cumulative.map((step, position) => {
+    const study = studies[step.index];
+    const informationFraction = step.information / adjusted;
+    const boundary = informationFraction < 1 ? boundaries[position] : final;
+    if (conclusion === 'inconclusive') {
+      if (Math.abs(step.zStatistic) >= boundary.efficacy) conclusion = 'benefit_or_harm';
+      else if (Math.abs(step.zStatistic) < boundary.futility) conclusion = 'futility';
+      if (conclusion !== 'inconclusive') crossedAt = study.study_label;
+    }
+    return {
+      studyId: study.study_id,
+      studyLabel: study.study_label,
+      ...(toNumber(study.year) !== undefined ? { year: toNumber(study.year) } : {}),
+      k: position + 1,
+      information: step.information,
+      informationFraction,
+      participants: step.participants,
+      zStatistic: step.zStatistic,
+      efficacyBoundary: boundary.efficacy,
+      futilityBoundary: boundary.futility,
+    };
+  });
+
+  const totalParticipants = cumulative[cumulative.length - 1].participants;
+  if (totalParticipants === null) {
+    warnings.push('Not every study reports a sample size, so the required information size is given in information units only');
+  }
+  if (parameters.anticipatedEffect === undefined) {
+    warnings.push('The anticipated effect is the pooled estimate; a prespecified effect avoids inflating the type I error');
+  }
+
+  return {
+    effectMeasure: parameters.effectMeasure,
+    modelType,
+    alpha,
+    beta,
+    anticipatedEffect,
+    diversity,
+    requiredInformation: { unadjusted, adjusted },
+    requiredParticipants: totalParticipants !== null ? (totalParticipants * adjusted) / information : null,
+    accumulatedInformation: information,
+    informationFraction: information / adjusted,
+    looks,
+    boundaries,
+    conclusion,
+    crossedAt,
+    warnings,
+  };
+}
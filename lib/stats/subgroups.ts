@@ -0,0 +1,206 @@
+import { Study } from '@/types/meta-analysis';
+import type {
+  BetweenGroupTest,
+  SubgroupForestGroup,
+  SubgroupForestSummary,
+  SubgroupParameters,
+  SubgroupResults,
+  SubgroupSummary,
+  SubgroupTauSquared,
+} from '@/lib/services/meta-analysis';
+import { normalQuantile } from './distributions';
+import { StatsInputError } from './errors';
+import {
+  getEffectData,
+  independentModelType,
+  isCiMethod,
+  isTauSquaredMethod,
+  PooledEstimate,
+  poolEffects,
+  reportingTransform,
+  TauSquaredMethod,
+  toMetaAnalysisResults,
+} from './meta-analysis';
+import { estimateResidualTauSquared } from './meta-regression';
+
+export const DEFAULT_MIN_K = 2;
+
+export function isSubgroupTauSquared(value: string): value is SubgroupTauSquared {
+  return value === 'separate' || value === 'common';
+}
+
+export function isBetweenGroupTest(value: string): value is BetweenGroupTest {
+  return value === 'fixed' || value === 'mixed';
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '' ||
+    (typeof value === 'number' && !Number.isFinite(value));
+}
+
+/**
+ * Subgroup analysis: pool each level of `subgroupVar` and test whether the subgroup
+ * estimates differ. With a common tau², the between-study variance is estimated from
+ * a model with one mean per subgroup, as rma(mods = ~ factor(group)) does.
+ */
+export function runSubgroupAnalysis(studies: Study[], parameters: SubgroupParameters): SubgroupResults {
+  const modelType = independentModelType(parameters.modelType, 'Subgroup analysis');
+  const method = parameters.method ?? 'REML';
+  if (modelType === 'RE' && !isTauSquaredMethod(method)) {
+    throw new StatsInputError(`Unsupported tau² estimator: ${method}`);
+  }
+  if (parameters.ciMethod && !isCiMethod(parameters.ciMethod)) {
+    throw new StatsInputError(`Unsupported confidence interval method: ${parameters.ciMethod}`);
+  }
+  if (!parameters.subgroupVar) {
+    throw new StatsInputError('Select a subgroup variable');
+  }
+
+  const tauSquaredMode = parameters.tauSquared ?? 'separate';
+  const betweenGroupTest = parameters.betweenGroupTest ?? (modelType === 'RE' ? 'mixed' : 'fixed');
+  const minK = parameters.minK ?? DEFAULT_MIN_K;
+  if (!Number.isInteger(minK) || minK < 1) {
+    throw new StatsInputError('The minimum number of studies per subgroup must be a positive integer');
+  }
+
+  const warnings: string[] = [];
+  const { yi, vi } = getEffectData(studies, parameters.effectMeasure);
+
+  // Group study indices by level, in order of first appearance
+  const levels = new Map<string, number[]>();
+  let missing = 0;
+  studies.forEach((study, i) => {
+    const value = study[parameters.subgroupVar];
+    if (isMissing(value)) {
+      missing++;
+      return;
+    }
+    const level = String(value);
+    levels.set(level, [...(levels.get(level) ?? []), i]);
+  });
+  if (missing > 0) {
+    warnings.push(`${missing} ${missing === 1 ? 'study has' : 'studies have'} no ${parameters.subgroupVar} and ${missing === 1 ? 'was' : 'were'} left out`);
+  }
+
+  const eligible = [...levels.entries()].filter(([, indices]) => indices.length >= minK);
+  const excluded = [...levels.entries()]
+    .filter(([, indices]) => indices.length < minK)
+    .map(([group, indices]) => ({ group, k: indices.length }));
+  if (excluded.length > 0) {
+    warnings.push(`${excluded.map(e => e.group).join(', ')} ${excluded.length === 1 ? 'has' : 'have'} fewer than ${minK} studies and ${excluded.length === 1 ? 'was' : 'were'} not pooled`);
+  }
+  if (eligible.length < 2) {
+    throw new StatsInputError(`At least two subgroups with ${minK} or more studies are required`);
+  }
+
+  const included = eligible.flatMap(([, indices]) => indices);
+  let commonTauSquared: number | undefined;
+  if (modelType === 'RE' && tauSquaredMode === 'common') {
+    // One column per subgroup, so the residual tau² is the within-subgroup heterogeneity
+    const design = included.map(i => eligible.map(([, indices]) => (indices.includes(i) ? 1 : 0)));
+    commonTauSquared = estimateResidualTauSquared(
+      design,
+      included.map(i => yi[i]),
+      included.map(i => vi[i]),
+      method as TauSquaredMethod
+    );
+  }
+
+  const options = {
+    modelType,
+    method: method as TauSquaredMethod,
+    ciMethod: parameters.ciMethod,
+    tauSquared: commonTauSquared,
+  };
+  const pool = (indices: number[], fixed = false) => poolEffects(
+    indices.map(i => yi[i]),
+    indices.map(i => vi[i]),
+    fixed ? { modelType: 'FE' } : options
+  );
+
+  const pooledGroups = new Map<string, PooledEstimate>();
+  const subgroups: Record<string, SubgroupSummary> = {};
+  eligible.forEach(([group, indices]) => {
+    const pooled = pool(indices);
+    pooledGroups.set(group, pooled);
+    subgroups[group] = {
+      ...toMetaAnalysisResults(pooled, parameters.effectMeasure, indices.map(i => studies[i])),
+      k: indices.length,
+      studyIds: indices.map(i => studies[i].study_id),
+    };
+  });
+
+  // Fixed-effect Q-between: the fixed-effect subgroup estimates tested against each
+  // other, which equals Q(total) minus the sum of the within-subgroup Qs. The
+  // mixed-effects version does the same with the subgroup estimates and variances
+  // from the chosen model.
+  const groupFits = eligible.map(([group, indices]) => {
+    if (betweenGroupTest === 'fixed') return pool(indices, true);
+    const pooled = pooledGroups.get(group)!;
+    // Wald-type variance, so Hartung-Knapp rescaling does not leak into the test
+    return { ...pooled, se: Math.sqrt(1 / pooled.weights.reduce((a, b) => a + b, 0)) };
+  });
+  const between = poolEffects(
+    groupFits.map(fit => fit.estimate),
+    groupFits.map(fit => fit.se * fit.se),
+    { modelType: 'FE' }
+  );
+
+  const transform = reportingTransform(parameters.effectMeasure, studies);
+  const summarize = (pooled: PooledEstimate): SubgroupForestSummary => ({
+    estimate: transform(pooled.estimate),
+    ciLower: transform(pooled.ciLower),
+    ciUpper: transform(pooled.ciUpper),
+    ...(pooled.predictionInterval ? {
+      predictionInterval: {
+        lower: transform(pooled.predictionInterval.lower),
+        upper: transform(pooled.predictionInterval.upper),
+      },
+    } : {}),
+  });
+
+  const zCrit = normalQuantile(0.975);
+  const groups: SubgroupForestGroup[] = [...levels.entries()].map(([group, indices]) => {
+    const pooled = pooledGroups.get(group);
+    const sumW = pooled?.weights.reduce((a, b) => a + b, 0);
+    return {
+      group,
+      k: indices.length,
+      studies: indices.map((i, j) => ({
+        studyId: studies[i].study_id,
+        studyLabel: studies[i].study_label,
+        estimate: transform(yi[i]),
+        ciLower: transform(yi[i] - zCrit * Math.sqrt(vi[i])),
+        ciUpper: transform(yi[i] + zCrit * Math.sqrt(vi[i])),
+        weight: pooled && sumW ? (100 * pooled.weights[j]) / sumW : 0,
+      })),
+      ...(pooled ? { summary: summarize(pooled) } : {}),
+    };
+  });
+
+  // The overall estimate ignores subgroup membership and pools every study in an eligible subgroup
+  const overall = poolEffects(included.map(i => yi[i]), included.map(i => vi[i]), {
+    modelType,
+    method: method as TauSquaredMethod,
+    ciMethod: parameters.ciMethod,
+  });
+
+  return {
+    subgroupVar: parameters.subgroupVar,
+    tauSquared: tauSquaredMode,
+    betweenGroupTest,
+    minK,
+    subgroups,
+    excluded,
+    ...(commonTauSquared !== undefined ? { commonTauSquared } : {}),
+    betweenGroupQ: between.qStatistic,
+    betweenGroupDf: between.qDf,
+    betweenGroupPvalue: between.qPvalue,
+    forest: {
+      effectMeasure: parameters.effectMeasure,
+      groups,
+      overall: summarize(overall),
+    },
+    warnings,
+  };
+}
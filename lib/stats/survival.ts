@@ -0,0 +1,714 @@
+import type { IngestionError, ParsedTable } from '@/lib/ingestion';
+import type {
+  ChiSquareTest,
+  CoxCoefficient,
+  CoxModel,
+  CoxTies,
+  KaplanMeierCurve,
+  KaplanMeierPoint,
+  LogRankTest,
+  MedianSurvival,
+  ProportionalHazardsTest,
+  SchoenfeldResidual,
+  SurvivalConfidenceType,
+  SurvivalParameters,
+  SurvivalResults,
+} from '@/lib/services/survival';
+import { chiSquareSurvival, normalQuantile, normalTwoSidedP } from './distributions';
+import { StatsInputError } from './errors';
+import { invert, Matrix } from './matrix';
+
+export const SURVIVAL_CONFIDENCE_TYPES: SurvivalConfidenceType[] = ['log', 'log-log', 'plain'];
+export const COX_TIES: CoxTies[] = ['efron', 'breslow'];
+
+// Newton-Raphson limits for the Cox model, as coxph.control
+const MAX_ITERATIONS = 20;
+const CONVERGENCE_TOLERANCE = 1e-9;
+
+// Survival probabilities within this of 0.5 count as equal to it for the median
+const MEDIAN_TOLERANCE = 1e-9;
+
+// Parsed upload, or rows built in memory such as reconstructed patient data
+type SurvivalTable = Pick<ParsedTable, 'headers' | 'rows' | 'rowNumbers'>;
+
+interface Subject {
+  row: number;
+  time: number;
+  event: boolean;
+  group: string | null;
+  stratum: string | null;
+  // Covariate values in column order; undefined when missing
+  covariates: unknown[];
+}
+
+// Design column of the Cox model
+interface Term {
+  name: string;
+  covariate: string;
+  level: string | null;
+  value: (raw: unknown) => number;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function compareLevels(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Decide which values of the event column mark an event. 0/1 and 1/2 codings follow
+ * Surv(); text columns may use true/false or yes/no.
+ */
+function eventCoding(values: unknown[], eventValue?: string): (value: unknown) => boolean | undefined {
+  if (eventValue !== undefined) {
+    return value => (isBlank(value) ? undefined : String(value).trim() === eventValue);
+  }
+
+  const present = values.filter(value => !isBlank(value));
+  const numbers = present.map(toNumber);
+  if (numbers.every(value => value !== undefined)) {
+    const distinct = new Set(numbers);
+    const eventCode = [...distinct].every(value => value === 0 || value === 1) ? 1
+      : [...distinct].every(value => value === 1 || value === 2) ? 2
+        : undefined;
+    if (eventCode === undefined) {
+      throw new StatsInputError('The event column must be coded 0/1 or 1/2; set eventValue for other codings');
+    }
+    return value => (isBlank(value) ? undefined : toNumber(value) === eventCode);
+  }
+
+  const labels: Record<string, boolean> = { true: true, false: false, yes: true, no: false };
+  if (present.every(value => typeof value === 'boolean' || String(value).trim().toLowerCase() in labels)) {
+    return value => {
+      if (isBlank(value)) return undefined;
+      return typeof value === 'boolean' ? value : labels[String(value).trim().toLowerCase()];
+    };
+  }
+  throw new StatsInputError('Could not tell events from censored rows; set eventValue');
+}
+
+/**
+ * Read subjects from a parsed table; rows without a usable time, event, group or stratum
+ * are reported and left out
+ */
+function readSubjects(table: SurvivalTable, parameters: SurvivalParameters): { subjects: Subject[]; errors: IngestionError[] } {
+  const columns = [parameters.time, parameters.event, parameters.group, parameters.strata, ...(parameters.covariates ?? [])]
+    .filter((column): column is string => column !== undefined);
+  const unknown = columns.filter(column => !table.headers.includes(column));
+  if (unknown.length > 0) {
+    throw new StatsInputError(`Unknown column${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`);
+  }
+
+  const isEvent = eventCoding(table.rows.map(row => row[parameters.event]), parameters.eventValue);
+  const subjects: Subject[] = [];
+  const errors: IngestionError[] = [];
+
+  table.rows.forEach((record, i) => {
+    const row = table.rowNumbers[i];
+    const time = toNumber(record[parameters.time]);
+    if (time === undefined || time < 0) {
+      errors.push({ row, column: parameters.time, message: 'Time must be a non-negative number' });
+      return;
+    }
+    const event = isEvent(record[parameters.event]);
+    if (event === undefined) {
+      errors.push({ row, column: parameters.event, message: 'Event status is missing' });
+      return;
+    }
+    const level = (column?: string) => (column === undefined || isBlank(record[column]) ? null : String(record[column]).trim());
+    const group = level(parameters.group);
+    if (parameters.group && group === null) {
+      errors.push({ row, column: parameters.group, message: 'Group is missing' });
+      return;
+    }
+    const stratum = level(parameters.strata);
+    if (parameters.strata && stratum === null) {
+      errors.push({ row, column: parameters.strata, message: 'Stratum is missing' });
+      return;
+    }
+    subjects.push({
+      row,
+      time,
+      event,
+      group,
+      stratum,
+      covariates: (parameters.covariates ?? []).map(column => (isBlank(record[column]) ? undefined : record[column])),
+    });
+  });
+
+  return { subjects, errors };
+}
+
+function confidenceBounds(
+  survival: number,
+  logSe: number,
+  z: number,
+  type: SurvivalConfidenceType
+): { lower: number | null; upper: number | null } {
+  if (survival === 0 || !Number.isFinite(logSe)) return { lower: null, upper: null };
+  switch (type) {
+    case 'log':
+      return { lower: survival * Math.exp(-z * logSe), upper: Math.min(1, survival * Math.exp(z * logSe)) };
+    case 'plain':
+      return {
+        lower: Math.max(0, survival - z * survival * logSe),
+        upper: Math.min(1, survival + z * survival * logSe),
+      };
+    case 'log-log': {
+      if (survival === 1) return { lower: 1, upper: 1 };
+      const centre = Math.log(-Math.log(survival));
+      const width = (z * logSe) / Math.abs(Math.log(survival));
+      return { lower: Math.exp(-Math.exp(centre + width)), upper: Math.exp(-Math.exp(centre - width)) };
+    }
+  }
+}
+
+/**
+ * First time a step curve falls below 0.5; when it sits at exactly 0.5 the midpoint to the
+ * next time is used, as in print.survfit
+ */
+function medianCrossing(times: number[], values: (number | null)[]): number | null {
+  for (let i = 0; i < times.length; i++) {
+    const value = values[i];
+    if (value === null) continue;
+    if (Math.abs(value - 0.5) < MEDIAN_TOLERANCE) {
+      return i + 1 < times.length ? (times[i] + times[i + 1]) / 2 : times[i];
+    }
+    if (value < 0.5) return times[i];
+  }
+  return null;
+}
+
+function numbersAtRisk(subjects: Subject[], riskTimes: number[]): { time: number; nRisk: number }[] {
+  return riskTimes.map(time => ({ time, nRisk: subjects.filter(subject => subject.time >= time).length }));
+}
+
+/**
+ * Evenly spaced times on a round step from 0 to the end of follow-up
+ */
+function defaultRiskTimes(maxTime: number): number[] {
+  if (!(maxTime > 0)) return [0];
+  const raw = maxTime / 5;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 2.5, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= raw) ?? raw;
+  return Array.from({ length: Math.floor(maxTime / step + 1e-9) + 1 }, (_, i) => i * step);
+}
+
+/**
+ * Kaplan-Meier estimate with Greenwood standard errors
+ */
+function kaplanMeier(
+  subjects: Subject[],
+  group: string | null,
+  z: number,
+  confidenceType: SurvivalConfidenceType,
+  riskTimes: number[]
+): KaplanMeierCurve {
+  const sorted = [...subjects].sort((a, b) => a.time - b.time);
+  const points: KaplanMeierPoint[] = [];
+  let atRisk = sorted.length;
+  let survival = 1;
+  let greenwood = 0;
+
+  for (let i = 0; i < sorted.length;) {
+    const time = sorted[i].time;
+    let nEvent = 0;
+    let nCensor = 0;
+    while (i < sorted.length && sorted[i].time === time) {
+      if (sorted[i].event) nEvent++;
+      else nCensor++;
+      i++;
+    }
+
+    survival *= 1 - nEvent / atRisk;
+    greenwood += atRisk > nEvent ? nEvent / (atRisk * (atRisk - nEvent)) : Infinity;
+    const logSe = Math.sqrt(greenwood);
+    points.push({
+      time,
+      nRisk: atRisk,
+      nEvent,
+      nCensor,
+      survival,
+      se: Number.isFinite(logSe) ? survival * logSe : null,
+      ...confidenceBounds(survival, logSe, z, confidenceType),
+    });
+    atRisk -= nEvent + nCensor;
+  }
+
+  const times = points.map(point => point.time);
+  const median: MedianSurvival = {
+    estimate: medianCrossing(times, points.map(point => point.survival)),
+    lower: medianCrossing(times, points.map(point => point.lower)),
+    upper: medianCrossing(times, points.map(point => point.upper)),
+  };
+
+  return {
+    group,
+    n: subjects.length,
+    events: subjects.filter(subject => subject.event).length,
+    points,
+    median,
+    atRisk: numbersAtRisk(subjects, riskTimes),
+  };
+}
+
+/**
+ * Log-rank test across groups, summing observed, expected and variance over strata
+ */
+function logRankTest(subjects: Subject[], groups: string[], stratified: boolean): LogRankTest {
+  const g = groups.length;
+  const index = new Map(groups.map((group, i) => [group, i]));
+  const observed = new Array(g).fill(0);
+  const expected = new Array(g).fill(0);
+  const variance: Matrix = Array.from({ length: g }, () => new Array(g).fill(0));
+
+  const strata = stratified
+    ? Array.from(new Set(subjects.map(subject => subject.stratum as string))).sort(compareLevels)
+    : [null];
+
+  for (const stratum of strata) {
+    const members = subjects.filter(subject => !stratified || subject.stratum === stratum);
+    const eventTimes = Array.from(new Set(members.filter(subject => subject.event).map(subject => subject.time)))
+      .sort((a, b) => a - b);
+
+    for (const time of eventTimes) {
+      const atRisk = new Array(g).fill(0);
+      const events = new Array(g).fill(0);
+      for (const subject of members) {
+        const j = index.get(subject.group as string)!;
+        if (subject.time >= time) atRisk[j]++;
+        if (subject.time === time && subject.event) events[j]++;
+      }
+      const n = atRisk.reduce((sum, value) => sum + value, 0);
+      const d = events.reduce((sum, value) => sum + value, 0);
+
+      for (let j = 0; j < g; j++) {
+        observed[j] += events[j];
+        expected[j] += (d * atRisk[j]) / n;
+        if (n > 1) {
+          for (let h = 0; h < g; h++) {
+            variance[j][h] += ((d * (n - d)) / (n - 1)) * (atRisk[j] / n) * ((j === h ? 1 : 0) - atRisk[h] / n);
+          }
+        }
+      }
+    }
+  }
+
+  // The deviations sum to zero, so the last group is dropped
+  const deviation = observed.slice(0, g - 1).map((value, j) => value - expected[j]);
+  const reduced = variance.slice(0, g - 1).map(row => row.slice(0, g - 1));
+  const inverse = invert(reduced);
+  const statistic = deviation.reduce((sum, dj, j) =>
+    sum + dj * deviation.reduce((inner, dh, h) => inner + inverse[j][h] * dh, 0), 0);
+
+  return {
+    groups: groups.map((group, j) => ({
+      group,
+      n: subjects.filter(subject => subject.group === group).length,
+      observed: observed[j],
+      expected: expected[j],
+    })),
+    statistic,
+    df: g - 1,
+    pValue: chiSquareSurvival(statistic, g - 1),
+    strata: stratified ? (strata as string[]) : null,
+  };
+}
+
+/**
+ * Design columns for the Cox covariates: numeric columns enter as they are, text columns
+ * as indicators for each level but the first
+ */
+function buildTerms(covariates: string[], subjects: Subject[]): Term[] {
+  return covariates.flatMap((covariate, c): Term[] => {
+    const values = subjects.map(subject => subject.covariates[c]);
+    if (values.every(value => toNumber(value) !== undefined)) {
+      return [{ name: covariate, covariate, level: null, value: (raw: unknown) => toNumber(raw) as number }];
+    }
+    const levels = Array.from(new Set(values.map(value => String(value).trim()))).sort(compareLevels);
+    return levels.slice(1).map(level => ({
+      name: `${covariate}: ${level}`,
+      covariate,
+      level,
+      value: (raw: unknown) => (String(raw).trim() === level ? 1 : 0),
+    }));
+  });
+}
+
+interface PartialLikelihood {
+  logLikelihood: number;
+  gradient: number[];
+  information: Matrix;
+}
+
+interface CoxData {
+  times: number[];
+  events: boolean[];
+  x: Matrix;
+  // Subject indices of each stratum, by descending time
+  strata: number[][];
+}
+
+/**
+ * Visit each distinct event time of each stratum with the risk-set sums (S0, S1, S2) and the
+ * deaths at that time. Subjects are added to the risk set from the longest time down.
+ */
+function forEachEventTime(
+  data: CoxData,
+  beta: number[],
+  visit: (deaths: number[], s0: number, s1: number[], s2: Matrix, risk: number[]) => void
+) {
+  const p = beta.length;
+  const risk = data.x.map(row => Math.exp(row.reduce((sum, value, j) => sum + value * beta[j], 0)));
+
+  for (const members of data.strata) {
+    let s0 = 0;
+    const s1 = new Array(p).fill(0);
+    const s2: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+
+    for (let i = 0; i < members.length;) {
+      const time = data.times[members[i]];
+      const deaths: number[] = [];
+      while (i < members.length && data.times[members[i]] === time) {
+        const subject = members[i];
+        const r = risk[subject];
+        const row = data.x[subject];
+        s0 += r;
+        for (let j = 0; j < p; j++) {
+          s1[j] += r * row[j];
+          for (let h = 0; h < p; h++) s2[j][h] += r * row[j] * row[h];
+        }
+        if (data.events[subject]) deaths.push(subject);
+        i++;
+      }
+      if (deaths.length > 0) visit(deaths, s0, s1, s2, risk);
+    }
+  }
+}
+
+/**
+ * Weighted covariate means of the risk set for each of the d deaths at a time; Efron's
+ * method takes a growing share of the deaths' risk out of the set
+ */
+function tiedMeans(
+  deaths: number[],
+  s0: number,
+  s1: number[],
+  s2: Matrix,
+  risk: number[],
+  x: Matrix,
+  ties: CoxTies
+): { denominators: number[]; means: number[][]; seconds: Matrix[] } {
+  const p = s1.length;
+  const d = deaths.length;
+  const a0 = deaths.reduce((sum, i) => sum + risk[i], 0);
+  const a1 = Array.from({ length: p }, (_, j) => deaths.reduce((sum, i) => sum + risk[i] * x[i][j], 0));
+  const a2 = Array.from({ length: p }, (_, j) =>
+    Array.from({ length: p }, (_, h) => deaths.reduce((sum, i) => sum + risk[i] * x[i][j] * x[i][h], 0)));
+
+  const denominators: number[] = [];
+  const means: number[][] = [];
+  const seconds: Matrix[] = [];
+  for (let l = 0; l < d; l++) {
+    const f = ties === 'efron' ? l / d : 0;
+    const denominator = s0 - f * a0;
+    denominators.push(denominator);
+    means.push(s1.map((value, j) => (value - f * a1[j]) / denominator));
+    seconds.push(s2.map((row, j) => row.map((value, h) => (value - f * a2[j][h]) / denominator)));
+  }
+  return { denominators, means, seconds };
+}
+
+function partialLikelihood(data: CoxData, beta: number[], ties: CoxTies): PartialLikelihood {
+  const p = beta.length;
+  let logLikelihood = 0;
+  const gradient = new Array(p).fill(0);
+  const information: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+
+  forEachEventTime(data, beta, (deaths, s0, s1, s2, risk) => {
+    const { denominators, means, seconds } = tiedMeans(deaths, s0, s1, s2, risk, data.x, ties);
+    for (const i of deaths) {
+      logLikelihood += Math.log(risk[i]);
+      for (let j = 0; j < p; j++) gradient[j] += data.x[i][j];
+    }
+    denominators.forEach((denominator, l) => {
+      logLikelihood -= Math.log(denominator);
+      for (let j = 0; j < p; j++) {
+        gradient[j] -= means[l][j];
+        for (let h = 0; h < p; h++) information[j][h] += seconds[l][j][h] - means[l][j] * means[l][h];
+      }
+    });
+  });
+
+  return { logLikelihood, gradient, information };
+}
+
+function quadraticForm(vector: number[], matrix: Matrix): number {
+  return vector.reduce((sum, vj, j) => sum + vj * vector.reduce((inner, vh, h) => inner + matrix[j][h] * vh, 0), 0);
+}
+
+function chiSquareTest(statistic: number, df: number): ChiSquareTest {
+  return { statistic, df, pValue: chiSquareSurvival(statistic, df) };
+}
+
+/**
+ * Kaplan-Meier of the whole sample just before each time, for the 'km' time transform
+ */
+function leftContinuousSurvival(times: number[], events: boolean[]): (time: number) => number {
+  const order = times.map((_, i) => i).sort((a, b) => times[a] - times[b]);
+  const steps: { time: number; survival: number }[] = [];
+  let atRisk = times.length;
+  let survival = 1;
+  for (let k = 0; k < order.length;) {
+    const time = times[order[k]];
+    let deaths = 0;
+    let leaving = 0;
+    while (k < order.length && times[order[k]] === time) {
+      if (events[order[k]]) deaths++;
+      leaving++;
+      k++;
+    }
+    steps.push({ time, survival });
+    survival *= 1 - deaths / atRisk;
+    atRisk -= leaving;
+  }
+  return time => steps.find(step => step.time === time)?.survival ?? 1;
+}
+
+/**
+ * Cox proportional hazards model by Newton-Raphson on the partial likelihood, with the
+ * Grambsch-Therneau test of proportional hazards from Schoenfeld residuals
+ */
+function fitCox(
+  subjects: Subject[],
+  covariates: string[],
+  stratified: boolean,
+  ties: CoxTies,
+  z: number,
+  warnings: string[]
+): CoxModel | null {
+  const complete = subjects.filter(subject => subject.covariates.every(value => value !== undefined));
+  if (complete.length < subjects.length) {
+    const dropped = subjects.length - complete.length;
+    warnings.push(`${dropped} ${dropped === 1 ? 'row has' : 'rows have'} missing covariates and ${dropped === 1 ? 'was' : 'were'} left out of the Cox model`);
+  }
+  const events = complete.filter(subject => subject.event).length;
+  if (events === 0) {
+    warnings.push('The Cox model was not fitted because there are no events');
+    return null;
+  }
+
+  const terms = buildTerms(covariates, complete);
+  if (terms.length === 0) {
+    warnings.push('The Cox model was not fitted because the covariates do not vary');
+    return null;
+  }
+  const p = terms.length;
+
+  // Centring leaves the coefficients unchanged and keeps exp(x beta) in range
+  const raw = complete.map(subject => terms.map(term => term.value(subject.covariates[covariates.indexOf(term.covariate)])));
+  const centre = terms.map((_, j) => raw.reduce((sum, row) => sum + row[j], 0) / raw.length);
+  const x = raw.map(row => row.map((value, j) => value - centre[j]));
+
+  const strataLevels = stratified
+    ? Array.from(new Set(complete.map(subject => subject.stratum as string))).sort(compareLevels)
+    : [null];
+  const data: CoxData = {
+    times: complete.map(subject => subject.time),
+    events: complete.map(subject => subject.event),
+    x,
+    strata: strataLevels.map(level =>
+      complete
+        .map((subject, i) => ({ subject, i }))
+        .filter(({ subject }) => !stratified || subject.stratum === level)
+        .sort((a, b) => b.subject.time - a.subject.time)
+        .map(({ i }) => i)),
+  };
+
+  let beta = new Array(p).fill(0);
+  const initial = partialLikelihood(data, beta, ties);
+  let current = initial;
+  let converged = false;
+  let iterations = 0;
+
+  while (iterations < MAX_ITERATIONS) {
+    iterations++;
+    const step = invert(current.information).map(row => row.reduce((sum, value, h) => sum + value * current.gradient[h], 0));
+    let candidate = beta.map((value, j) => value + step[j]);
+    let next = partialLikelihood(data, candidate, ties);
+
+    // Halve the step while the likelihood falls
+    for (let halving = 0; halving < 20 && !(next.logLikelihood >= current.logLikelihood); halving++) {
+      candidate = candidate.map((value, j) => (value + beta[j]) / 2);
+      next = partialLikelihood(data, candidate, ties);
+    }
+
+    const change = Math.abs(1 - current.logLikelihood / next.logLikelihood);
+    beta = candidate;
+    current = next;
+    if (change < CONVERGENCE_TOLERANCE) {
+      converged = true;
+      break;
+    }
+  }
+
+  if (!converged) {
+    warnings.push('The Cox model did not converge; a coefficient may be infinite');
+  }
+
+  const covariance = invert(current.information);
+  const coefficients: CoxCoefficient[] = terms.map((term, j) => {
+    const se = Math.sqrt(covariance[j][j]);
+    const statistic = beta[j] / se;
+    return {
+      term: term.name,
+      covariate: term.covariate,
+      level: term.level,
+      estimate: beta[j],
+      se,
+      z: statistic,
+      pValue: normalTwoSidedP(statistic),
+      hazardRatio: Math.exp(beta[j]),
+      lower: Math.exp(beta[j] - z * se),
+      upper: Math.exp(beta[j] + z * se),
+    };
+  });
+
+  // Schoenfeld residuals: each death's covariates minus the risk-set mean, averaged over
+  // Efron's partial risk sets
+  const survivalBefore = leftContinuousSurvival(data.times, data.events);
+  const residuals: { time: number; residual: number[] }[] = [];
+  forEachEventTime(data, beta, (deaths, s0, s1, s2, risk) => {
+    const { means } = tiedMeans(deaths, s0, s1, s2, risk, data.x, ties);
+    const mean = Array.from({ length: p }, (_, j) => means.reduce((sum, m) => sum + m[j], 0) / means.length);
+    for (const i of deaths) {
+      residuals.push({ time: data.times[i], residual: data.x[i].map((value, j) => value - mean[j]) });
+    }
+  });
+  residuals.sort((a, b) => a.time - b.time);
+
+  // Grambsch-Therneau test against g(t) = 1 - KM(t-), centred
+  const g = residuals.map(({ time }) => 1 - survivalBefore(time));
+  const gMean = g.reduce((sum, value) => sum + value, 0) / g.length;
+  const centred = g.map(value => value - gMean);
+  const sumSquares = centred.reduce((sum, value) => sum + value * value, 0);
+  const scaled = residuals.map(({ residual }) =>
+    covariance.map(row => events * row.reduce((sum, value, h) => sum + value * residual[h], 0)));
+  const test = Array.from({ length: p }, (_, j) => centred.reduce((sum, value, k) => sum + value * scaled[k][j], 0));
+  const score = Array.from({ length: p }, (_, j) =>
+    centred.reduce((sum, value, k) => sum + value * residuals[k].residual[j], 0));
+
+  const tests: ProportionalHazardsTest[] = [];
+  if (sumSquares > 0) {
+    terms.forEach((term, j) => {
+      const column = scaled.map(row => row[j]);
+      const columnMean = column.reduce((sum, value) => sum + value, 0) / column.length;
+      const columnSumSquares = column.reduce((sum, value) => sum + (value - columnMean) ** 2, 0);
+      const statistic = (test[j] * test[j]) / (covariance[j][j] * events * sumSquares);
+      tests.push({
+        term: term.name,
+        rho: columnSumSquares > 0 ? test[j] / Math.sqrt(sumSquares * columnSumSquares) : null,
+        ...chiSquareTest(statistic, 1),
+      });
+    });
+    tests.push({
+      term: 'GLOBAL',
+      rho: null,
+      ...chiSquareTest((quadraticForm(score, covariance) * events) / sumSquares, p),
+    });
+  } else {
+    warnings.push('Proportional hazards could not be tested because all events happen at one time');
+  }
+
+  const schoenfeld: SchoenfeldResidual[] = residuals.map(({ time }, k) => ({
+    time,
+    transformedTime: g[k],
+    scaled: scaled[k].map((value, j) => value + beta[j]),
+  }));
+
+  return {
+    n: complete.length,
+    events,
+    ties,
+    strata: stratified ? 'strata' : null,
+    coefficients,
+    logLikelihood: { null: initial.logLikelihood, fitted: current.logLikelihood },
+    likelihoodRatioTest: chiSquareTest(2 * (current.logLikelihood - initial.logLikelihood), p),
+    waldTest: chiSquareTest(quadraticForm(beta, current.information), p),
+    scoreTest: chiSquareTest(quadraticForm(initial.gradient, invert(initial.information)), p),
+    iterations,
+    converged,
+    proportionalHazards: { tests, residuals: schoenfeld },
+  };
+}
+
+/**
+ * Survival analysis of a patient-level table: Kaplan-Meier curves overall or by group,
+ * the (stratified) log-rank test between groups, and a Cox model for the covariates
+ */
+export function runSurvivalAnalysis(table: SurvivalTable, parameters: SurvivalParameters): SurvivalResults {
+  const confidenceLevel = parameters.confidenceLevel ?? 0.95;
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+    throw new StatsInputError('The confidence level must lie between 0 and 1');
+  }
+  const confidenceType = parameters.confidenceType ?? 'log';
+  if (!SURVIVAL_CONFIDENCE_TYPES.includes(confidenceType)) {
+    throw new StatsInputError(`Unsupported confidence interval type: ${confidenceType}`);
+  }
+  const ties = parameters.ties ?? 'efron';
+  if (!COX_TIES.includes(ties)) {
+    throw new StatsInputError(`Unsupported ties method: ${ties}`);
+  }
+
+  const { subjects, errors } = readSubjects(table, parameters);
+  if (subjects.length === 0) {
+    throw new StatsInputError('The dataset does not contain any usable rows');
+  }
+
+  const warnings: string[] = [];
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2);
+  const riskTimes = parameters.riskTimes ?? defaultRiskTimes(Math.max(...subjects.map(subject => subject.time)));
+
+  const groups = parameters.group
+    ? Array.from(new Set(subjects.map(subject => subject.group as string))).sort(compareLevels)
+    : [];
+  const kaplanMeierCurves = parameters.group
+    ? groups.map(group => kaplanMeier(subjects.filter(subject => subject.group === group), group, z, confidenceType, riskTimes))
+    : [kaplanMeier(subjects, null, z, confidenceType, riskTimes)];
+
+  let logRank: LogRankTest | null = null;
+  if (groups.length >= 2) {
+    logRank = logRankTest(subjects, groups, Boolean(parameters.strata));
+  } else if (parameters.group) {
+    warnings.push('The log-rank test needs at least two groups');
+  }
+
+  const covariates = parameters.covariates ?? [];
+  const cox = covariates.length > 0
+    ? fitCox(subjects, covariates, Boolean(parameters.strata), ties, z, warnings)
+    : null;
+  if (cox && parameters.strata) cox.strata = parameters.strata;
+
+  return {
+    n: subjects.length,
+    events: subjects.filter(subject => subject.event).length,
+    confidenceLevel,
+    confidenceType,
+    kaplanMeier: kaplanMeierCurves,
+    logRank,
+    cox,
+    rowErrors: errors,
+    warnings,
+  };
+}
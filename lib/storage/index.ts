@@ -0,0 +1,92 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * A place to keep uploaded files. Backends hand out URLs with their own scheme so a stored
+ * file can always be resolved back to the backend that wrote it.
+ */
+export interface StorageBackend {
+  readonly scheme: string;
+  put(key: string, data: Buffer): Promise<string>;
+  get(url: string): Promise<Buffer>;
+  delete(url: string): Promise<void>;
+}
+
+export class LocalDiskStorage implements StorageBackend {
+  readonly scheme = 'local';
+
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+
+  private keyFromUrl(url: string): string {
+    const prefix = `${this.scheme}://`;
+    if (!url.startsWith(prefix)) {
+      throw new Error(`Not a ${this.scheme} storage URL: ${url}`);
+    }
+    return url.slice(prefix.length);
+  }
+
+  async put(key: string, data: Buffer): Promise<string> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return `${this.scheme}://${key}`;
+  }
+
+  async get(url: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(this.keyFromUrl(url)));
+  }
+
+  async delete(url: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(this.keyFromUrl(url)));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+const backends = new Map<string, StorageBackend>();
+
+backends.set(
+  'local',
+  new LocalDiskStorage(process.env.STORAGE_DIR || path.join(process.cwd(), 'storage'))
+);
+
+/**
+ * Make an additional backend (e.g. object storage) available under its URL scheme
+ */
+export function registerStorageBackend(backend: StorageBackend) {
+  backends.set(backend.scheme, backend);
+}
+
+/**
+ * Backend used for new uploads, selected with STORAGE_BACKEND (defaults to local disk)
+ */
+export function getStorage(): StorageBackend {
+  const name = process.env.STORAGE_BACKEND || 'local';
+  const backend = backends.get(name);
+  if (!backend) {
+    throw new Error(`Storage backend "${name}" is not registered`);
+  }
+  return backend;
+}
+
+/**
+ * Backend that owns an existing file URL
+ */
+export function getStorageForUrl(url: string): StorageBackend {
+  const scheme = url.split('://')[0];
+  const backend = backends.get(scheme);
+  if (!backend) {
+    throw new Error(`No storage backend registered for "${scheme}" URLs`);
+  }
+  return backend;
+}
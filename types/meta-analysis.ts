@@ -1,3 +1,20 @@
+export type EffectSizeFormula =
+  | 'reported'
+  | 'mean_difference'
+  | 'hedges_g'
+  | 'hedges_g_from_t'
+  | 'log_odds_ratio'
+  | 'log_risk_ratio'
+  | 'risk_difference'
+  | 'fisher_z'
+  | 'raw_proportion'
+  | 'logit_proportion'
+  | 'arcsine_proportion'
+  | 'freeman_tukey'
+  | 'from_ci'
+  | 'from_p_value'
+  | 'reconstructed_ipd';
+
 export interface Study {
   study_id: string;
   study_label: string;
@@ -6,6 +23,9 @@ export interface Study {
   weight: number;
   year?: number;
   author?: string;
+  cluster_id?: string; // Groups dependent effect sizes for three-level and RVE models
+  transformed_effect_size?: number; // Proportion measures: the value pooled on the analysis scale
+  effect_formula?: EffectSizeFormula; // How effect_size and se were obtained
   [key: string]: any; // For additional moderator variables
 }
 
@@ -19,8 +39,9 @@ export interface OverallEffect {
 export interface MetaAnalysisState {
   studies: Study[];
   effectMeasure: string;
-  modelType: 'FE' | 'RE';
+  modelType: 'FE' | 'RE' | 'THREE_LEVEL' | 'RVE';
   method?: string;
+  ciMethod?: 'z' | 'hksj' | 'hksj-truncated';
   moderators?: string[];
   results?: any;
   error?: string;